@@ -66,6 +66,10 @@ pub const AsciinemaWriter = struct {
         try self.writeEvent('r', size);
     }
 
+    pub fn writeMarker(self: *AsciinemaWriter, label: []const u8) !void {
+        try self.writeEvent('m', label);
+    }
+
     pub fn writeExit(self: *AsciinemaWriter, exit_code: i32, session_id: []const u8) !void {
         var file_writer = &self.writer;
         self.mutex.lock();
@@ -24,6 +24,7 @@ pub const Handler = struct {
     on_reset_size: *const fn (context: *anyopaque) void,
     on_kill: *const fn (context: *anyopaque, signal: ?i32) void,
     on_update_title: *const fn (context: *anyopaque, title: []const u8) void,
+    on_mark: *const fn (context: *anyopaque, label: []const u8) void,
 };
 
 pub const Server = struct {
@@ -153,6 +154,13 @@ pub const Server = struct {
             self.handler.on_update_title(self.handler.context, title_value.string);
             return;
         }
+
+        if (std.mem.eql(u8, cmd, "mark")) {
+            const label_value = parsed.value.object.get("label") orelse return;
+            if (label_value != .string) return;
+            self.handler.on_mark(self.handler.context, label_value.string);
+            return;
+        }
     }
 
     fn parseNumber(value_opt: ?std.json.Value) ?i64 {
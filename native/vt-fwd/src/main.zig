@@ -329,6 +329,7 @@ pub fn main() !void {
         .on_reset_size = handleSocketResetSize,
         .on_kill = handleSocketKill,
         .on_update_title = handleSocketUpdateTitle,
+        .on_mark = handleSocketMark,
     }, &g_running);
     _ = try std.Thread.spawn(.{}, control_socket.Server.run, .{&control_server});
 
@@ -636,6 +637,11 @@ fn handleSocketUpdateTitle(context: *anyopaque, title: []const u8) void {
     updateLocalTitle(ctx, name_copy) catch {};
 }
 
+fn handleSocketMark(context: *anyopaque, label: []const u8) void {
+    const ctx: *SessionContext = @ptrCast(@alignCast(context));
+    ctx.asciinema.writeMarker(label) catch {};
+}
+
 fn writeToPty(ctx: *SessionContext, data: []const u8, record_input: bool) void {
     ctx.pty_mutex.lock();
     defer ctx.pty_mutex.unlock();
@@ -3,6 +3,8 @@
 
 import { spawn } from 'child_process';
 import { existsSync } from 'fs';
+import * as net from 'net';
+import * as os from 'os';
 import * as path from 'path';
 import { startVibeTunnelServer } from './server/server.js';
 import { closeLogger, createLogger, initLogger, VerbosityLevel } from './server/utils/logger.js';
@@ -70,6 +72,12 @@ function printHelp(): void {
   console.log('  vibetunnel follow [branch]              Enable Git follow mode');
   console.log('  vibetunnel unfollow                     Disable Git follow mode');
   console.log('  vibetunnel git-event                    Notify server of Git event');
+  console.log(
+    '  vibetunnel mark <label>                 Add a marker to the current session recording'
+  );
+  console.log(
+    '  vibetunnel workspace <action> [name]    Start (up), stop (down) or list workspaces'
+  );
   console.log('  vibetunnel systemd [action]             Manage systemd service (Linux)');
   console.log('  vibetunnel version                      Show version');
   console.log('  vibetunnel help                         Show this help');
@@ -82,6 +90,7 @@ function printHelp(): void {
   console.log('Examples:');
   console.log('  vibetunnel --port 8080 --no-auth');
   console.log('  vibetunnel fwd --title-mode static bash');
+  console.log('  vibetunnel workspace up dev');
   console.log('  vibetunnel systemd');
   console.log('  vibetunnel systemd uninstall');
   console.log('');
@@ -151,6 +160,42 @@ async function handleForwardCommand(): Promise<void> {
   }
 }
 
+/**
+ * Write a marker into the recording of the session we are running in.
+ * The session's owner (server or native forwarder) listens on its ipc.sock.
+ */
+async function handleMarkCommand(): Promise<void> {
+  const sessionId = process.env.VIBETUNNEL_SESSION_ID;
+  const label = process.argv.slice(3).join(' ').trim();
+
+  if (!sessionId || !/^[A-Za-z0-9_-]+$/.test(sessionId)) {
+    console.error("Error: 'vibetunnel mark' can only be used inside a VibeTunnel session.");
+    process.exit(1);
+  }
+  if (!label) {
+    console.error('Usage: vibetunnel mark <label>');
+    process.exit(1);
+  }
+
+  const controlDir =
+    process.env.VIBETUNNEL_CONTROL_DIR || path.join(os.homedir(), '.vibetunnel', 'control');
+  const socketPath = path.join(controlDir, sessionId, 'ipc.sock');
+
+  try {
+    const { MessageBuilder } = await import('./server/pty/socket-protocol.js');
+    await new Promise<void>((resolve, reject) => {
+      const socket = net.createConnection(socketPath, () => {
+        socket.end(MessageBuilder.mark(label), () => resolve());
+      });
+      socket.once('error', reject);
+    });
+  } catch (error) {
+    console.error(`Error: failed to reach session ${sessionId}: ${(error as Error).message}`);
+    closeLogger();
+    process.exit(1);
+  }
+}
+
 /**
  * Handle systemd service installation and management
  */
@@ -167,6 +212,19 @@ async function handleSystemdService(): Promise<void> {
   }
 }
 
+/**
+ * Open a URL with the platform's default handler, ignoring failures
+ */
+function openInBrowser(url: string): void {
+  const opener =
+    process.platform === 'darwin' ? 'open' : process.platform === 'win32' ? 'explorer' : 'xdg-open';
+  const child = spawn(opener, [url], { detached: true, stdio: 'ignore' });
+  child.on('error', () => {
+    // No browser available (e.g. over SSH); the URL was printed already
+  });
+  child.unref();
+}
+
 /**
  * Handle socket API commands
  */
@@ -262,6 +320,52 @@ async function handleSocketCommand(command: string): Promise<void> {
         });
         break;
       }
+
+      case 'workspace': {
+        const args = process.argv.slice(3);
+        const noOpen = args.includes('--no-open');
+        const [action = 'list', name] = args.filter((arg) => !arg.startsWith('--'));
+
+        if (action !== 'up' && action !== 'down' && action !== 'list') {
+          console.error('Usage: vibetunnel workspace <up|down|list> [name] [--no-open]');
+          process.exit(1);
+        }
+        if (action !== 'list' && !name) {
+          console.error(`Usage: vibetunnel workspace ${action} <name>`);
+          process.exit(1);
+        }
+
+        const response = await client.workspace({ action, name });
+        if (!response.success) {
+          console.error(`Workspace ${action} failed: ${response.error || 'Unknown error'}`);
+          process.exit(1);
+        }
+
+        if (response.workspaces) {
+          if (response.workspaces.length === 0) {
+            console.log('No workspaces defined in ~/.vibetunnel/workspaces.json');
+          }
+          for (const workspace of response.workspaces) {
+            const state = workspace.runningSessionIds.length > 0 ? 'up' : 'down';
+            console.log(`${workspace.name} (${state}): ${workspace.sessions.join(', ')}`);
+          }
+        } else if (response.up) {
+          for (const session of response.up.sessions) {
+            console.log(
+              `  ${session.created ? 'started' : 'running'}  ${session.name}  ${session.sessionId}`
+            );
+          }
+          const status = await client.getStatus();
+          if (status.url) {
+            const url = `${status.url}${response.up.layoutPath}`;
+            console.log(`Workspace ${name} is up: ${url}`);
+            if (!noOpen) openInBrowser(url);
+          }
+        } else if (response.down) {
+          console.log(`Workspace ${name} is down (${response.down.killed.length} sessions killed)`);
+        }
+        break;
+      }
     }
   } catch (error) {
     if (error instanceof Error && error.message === 'VibeTunnel server is not running') {
@@ -313,9 +417,14 @@ async function parseCommandAndExecute(): Promise<void> {
     case 'follow':
     case 'unfollow':
     case 'git-event':
+    case 'workspace':
       await handleSocketCommand(command);
       break;
 
+    case 'mark':
+      await handleMarkCommand();
+      break;
+
     case 'systemd':
       await handleSystemdService();
       break;
@@ -8,6 +8,21 @@ import { keyed } from 'lit/directives/keyed.js';
 // Import shared types
 import type { Session, SplitGroup } from '../shared/types.js';
 import { HttpMethod } from '../shared/types.js';
+import {
+  createGridLayout,
+  createPane,
+  createSplit,
+  findAdjacentPane,
+  getLayoutSessionIds,
+  insertPane,
+  movePane,
+  type PaneDropZone,
+  type PaneNavigationDirection,
+  parseSplitLayout,
+  removePane,
+  type SplitLayoutNode,
+  serializeSplitLayout,
+} from '../shared/utils/split-layout.js';
 import { isBrowserShortcut } from './utils/browser-shortcuts.js';
 // Import utilities
 import {
@@ -70,6 +85,7 @@ export class VibeTunnelApp extends LitElement {
   @state() private hideExited = this.loadHideExitedState();
   @state() private showCreateModal = false;
   @state() private createDialogWorkingDir = '';
+  @state() private createDialogRemoteId = '';
   @state() private showTmuxModal = false;
   @state() private showSSHKeyManager = false;
   @state() private showSettings = false;
@@ -80,9 +96,8 @@ export class VibeTunnelApp extends LitElement {
   @state() private mediaState: MediaQueryState = responsiveObserver.getCurrentState();
   @state() private hasActiveOverlay = false;
   @state() private keyboardCaptureActive = true;
-  @state() private splitPanes: Array<{ sessionId: string }> = [];
+  @state() private splitLayout: SplitLayoutNode | null = null;
   @state() private activePaneIndex = 0;
-  @state() private splitRatio = SPLIT_PANE.DEFAULT_RATIO;
   @state() private terminalDropZone: 'none' | 'left' | 'right' = 'none';
   @state() private splitGroups: SplitGroup[] = this.loadSplitGroups();
   private currentGroupId: string | null = null;
@@ -444,7 +459,28 @@ export class VibeTunnelApp extends LitElement {
         if (e.key === ']') {
           e.preventDefault();
           e.stopPropagation();
-          this.activePaneIndex = Math.min(this.splitPanes.length - 1, this.activePaneIndex + 1);
+          this.activePaneIndex = Math.min(
+            this.splitSessionIds.length - 1,
+            this.activePaneIndex + 1
+          );
+          return;
+        }
+      }
+
+      // Cmd+Alt+Arrow / Ctrl+Alt+Arrow: Move focus to the adjacent pane
+      if (primaryModifier && e.altKey && !e.shiftKey && this.isSplit) {
+        const direction = (
+          {
+            ArrowLeft: 'left',
+            ArrowRight: 'right',
+            ArrowUp: 'up',
+            ArrowDown: 'down',
+          } as Record<string, PaneNavigationDirection>
+        )[e.key];
+        if (direction) {
+          e.preventDefault();
+          e.stopPropagation();
+          this.focusAdjacentPane(direction);
           return;
         }
       }
@@ -501,6 +537,21 @@ export class VibeTunnelApp extends LitElement {
   }
 
   private async checkAuthenticationStatus() {
+    // Read-only share links (/session/:id?share=<token>) bypass login entirely
+    const shareUrl = new URL(window.location.href);
+    const shareToken = shareUrl.searchParams.get('share');
+    const sharePathParts = shareUrl.pathname.split('/').filter(Boolean);
+    if (shareToken && sharePathParts.length === 2 && sharePathParts[0] === 'session') {
+      logger.log('🔗 Opening read-only share link');
+      authClient.useShareToken(sharePathParts[1], shareToken);
+      this.isAuthenticated = true;
+      await this.initializeServices(false);
+      await this.loadSessions();
+      this.startAutoRefresh();
+      this.initialLoadComplete = true;
+      return;
+    }
+
     // Check if no-auth is enabled first
     let noAuthEnabled = false;
     try {
@@ -725,9 +776,17 @@ export class VibeTunnelApp extends LitElement {
       const performLoad = async () => {
         try {
           const headers = authClient.getAuthHeader();
-          const response = await fetch('/api/sessions', { headers });
+          // Share links can only read their own session, so fetch just that one
+          const sharedSessionId = authClient.getSharedSessionId();
+          const response = await fetch(
+            sharedSessionId
+              ? `/api/sessions/${encodeURIComponent(sharedSessionId)}`
+              : '/api/sessions',
+            { headers }
+          );
           if (response.ok) {
-            const newSessions = (await response.json()) as Session[];
+            const body = await response.json();
+            const newSessions = (sharedSessionId ? [body] : body) as Session[];
 
             // Preserve Git information and reuse existing session objects when possible
             // This prevents unnecessary re-renders by maintaining object references
@@ -1065,8 +1124,9 @@ export class VibeTunnelApp extends LitElement {
     // Remove any lingering modal-closing class from previous interactions
     document.body.classList.remove('modal-closing');
 
-    // Clear workingDir when opening from header
+    // Clear workingDir and host when opening from header
     this.createDialogWorkingDir = '';
+    this.createDialogRemoteId = '';
 
     // Immediately set the modal to visible
     this.showCreateModal = true;
@@ -1082,6 +1142,7 @@ export class VibeTunnelApp extends LitElement {
     // Simply close the modal without animation
     this.showCreateModal = false;
     this.createDialogWorkingDir = '';
+    this.createDialogRemoteId = '';
     this.requestUpdate();
   }
 
@@ -1100,9 +1161,8 @@ export class VibeTunnelApp extends LitElement {
 
     // Exit split mode when navigating to a single session via sidebar
     if (this.isSplit) {
-      this.splitPanes = [];
+      this.splitLayout = null;
       this.activePaneIndex = 0;
-      this.splitRatio = SPLIT_PANE.DEFAULT_RATIO;
     }
 
     // Clean up any existing session view stream before switching
@@ -1164,9 +1224,8 @@ export class VibeTunnelApp extends LitElement {
   private handleNavigateToList(): void {
     // Exit split mode if active (group already persisted in enterSplitMode)
     if (this.isSplit) {
-      this.splitPanes = [];
+      this.splitLayout = null;
       this.activePaneIndex = 0;
-      this.splitRatio = SPLIT_PANE.DEFAULT_RATIO;
       this.currentGroupId = null;
     }
 
@@ -1395,16 +1454,31 @@ export class VibeTunnelApp extends LitElement {
   }
 
   /**
-   * Create a new split group or reuse an existing one for the given session pair.
-   * Returns the group ID.
+   * Find the group showing exactly these sessions (order-independent).
    */
-  private createOrReuseGroup(leftSessionId: string, rightSessionId: string): string {
-    // Check if a group already exists for this pair (order-independent)
-    const existing = this.splitGroups.find(
+  private findGroupForSessions(sessionIds: string[]): SplitGroup | undefined {
+    return this.splitGroups.find(
       (g) =>
-        (g.sessionIds[0] === leftSessionId && g.sessionIds[1] === rightSessionId) ||
-        (g.sessionIds[0] === rightSessionId && g.sessionIds[1] === leftSessionId)
+        g.sessionIds.length === sessionIds.length &&
+        g.sessionIds.every((id) => sessionIds.includes(id))
     );
+  }
+
+  /**
+   * Layout of a persisted group. Groups saved before layouts existed show
+   * their sessions side by side.
+   */
+  private getGroupLayout(group: SplitGroup): SplitLayoutNode | null {
+    return (group.layout && parseSplitLayout(group.layout)) || createGridLayout(group.sessionIds);
+  }
+
+  /**
+   * Create a new split group or reuse an existing one for the given layout.
+   * Returns the group ID.
+   */
+  private createOrReuseGroup(layout: SplitLayoutNode): string {
+    const sessionIds = getLayoutSessionIds(layout);
+    const existing = this.findGroupForSessions(sessionIds);
     if (existing) {
       logger.debug(`Reusing existing split group: ${existing.id}`);
       return existing.id;
@@ -1412,26 +1486,41 @@ export class VibeTunnelApp extends LitElement {
 
     const group: SplitGroup = {
       id: `group-${Date.now()}`,
-      sessionIds: [leftSessionId, rightSessionId],
+      sessionIds,
+      layout: serializeSplitLayout(layout),
       createdAt: Date.now(),
     };
     this.splitGroups = [...this.splitGroups, group];
     this.saveSplitGroups();
-    logger.log(
-      `Created split group: ${group.id} for sessions [${leftSessionId}, ${rightSessionId}]`
-    );
+    logger.log(`Created split group: ${group.id} for sessions [${sessionIds.join(', ')}]`);
     return group.id;
   }
 
+  /**
+   * Persist the current split layout into its group after panes were resized,
+   * added or rearranged.
+   */
+  private updateCurrentGroupLayout(): void {
+    if (!this.splitLayout) return;
+    if (!this.currentGroupId || !this.splitGroups.some((g) => g.id === this.currentGroupId)) {
+      this.currentGroupId = this.createOrReuseGroup(this.splitLayout);
+    }
+
+    const sessionIds = getLayoutSessionIds(this.splitLayout);
+    const layout = serializeSplitLayout(this.splitLayout);
+    this.splitGroups = this.splitGroups.map((g) =>
+      g.id === this.currentGroupId ? { ...g, sessionIds, layout } : g
+    );
+    this.saveSplitGroups();
+  }
+
   /**
    * Remove stale split groups whose sessions no longer exist.
    */
   private pruneStaleGroups(): void {
     const sessionIds = new Set(this.sessions.map((s) => s.id));
     const before = this.splitGroups.length;
-    const pruned = this.splitGroups.filter(
-      (g) => sessionIds.has(g.sessionIds[0]) && sessionIds.has(g.sessionIds[1])
-    );
+    const pruned = this.splitGroups.filter((g) => g.sessionIds.every((id) => sessionIds.has(id)));
     if (pruned.length !== before) {
       this.splitGroups = pruned;
       this.saveSplitGroups();
@@ -1464,17 +1553,17 @@ export class VibeTunnelApp extends LitElement {
       return;
     }
 
-    // Verify both sessions still exist
-    const leftExists = this.sessions.find((s) => s.id === group.sessionIds[0]);
-    const rightExists = this.sessions.find((s) => s.id === group.sessionIds[1]);
-    if (!leftExists || !rightExists) {
+    // Verify all sessions still exist
+    const layout = this.getGroupLayout(group);
+    const allExist = group.sessionIds.every((id) => this.sessions.some((s) => s.id === id));
+    if (!allExist || !layout) {
       logger.warn(`Sessions for group ${groupId} no longer exist, removing group`);
       this.removeSplitGroup(groupId);
       return;
     }
 
     // Enter split mode with the group
-    this.enterSplitMode(group.sessionIds[0], group.sessionIds[1], groupId);
+    this.enterSplitMode(layout, groupId);
     this.currentView = 'session';
     this.updateUrl();
   };
@@ -1613,10 +1702,19 @@ export class VibeTunnelApp extends LitElement {
       sessionId = pathParts[1];
     }
 
-    // Check for /split/:leftId/:rightId pattern
-    let splitSessionIds: { left: string; right: string } | null = null;
-    if (pathParts.length === 3 && pathParts[0] === 'split') {
-      splitSessionIds = { left: pathParts[1], right: pathParts[2] };
+    // Check for /split/:layout and the older /split/:leftId/:rightId?ratio= pattern
+    let splitLayout: SplitLayoutNode | null = null;
+    if (pathParts.length === 2 && pathParts[0] === 'split') {
+      const layout = parseSplitLayout(decodeURIComponent(pathParts[1]));
+      splitLayout = layout?.type === 'split' ? layout : null;
+    } else if (pathParts.length === 3 && pathParts[0] === 'split') {
+      const ratio = Number.parseFloat(url.searchParams.get('ratio') ?? '');
+      splitLayout = createSplit(
+        'row',
+        createPane(pathParts[1]),
+        createPane(pathParts[2]),
+        ratio > 0 && ratio < 1 ? ratio : SPLIT_PANE.DEFAULT_RATIO
+      );
     }
 
     // Only check authentication if we haven't initialized yet
@@ -1674,20 +1772,16 @@ export class VibeTunnelApp extends LitElement {
         selectedSessionId: this.selectedSessionId,
         sessionLoadingState: this.sessionLoadingState,
       });
-    } else if (splitSessionIds) {
-      logger.log(
-        `Navigating to split view: left=${splitSessionIds.left}, right=${splitSessionIds.right}`
-      );
+    } else if (splitLayout) {
+      const splitSessionIds = getLayoutSessionIds(splitLayout);
+      logger.log(`Navigating to split view: sessions=[${splitSessionIds.join(', ')}]`);
 
       if (this.sessions.length === 0 && this.isAuthenticated) {
         await this.loadSessions();
       }
 
-      const leftExists = this.sessions.find((s) => s.id === splitSessionIds.left);
-      const rightExists = this.sessions.find((s) => s.id === splitSessionIds.right);
-
-      if (!leftExists || !rightExists) {
-        const missing = !leftExists ? splitSessionIds.left : splitSessionIds.right;
+      const missing = splitSessionIds.find((id) => !this.sessions.some((s) => s.id === id));
+      if (missing) {
         logger.warn(`Session ${missing} not found for split view`);
         this.showError(`Session ${missing} not found`);
         this.selectedSessionId = null;
@@ -1695,13 +1789,12 @@ export class VibeTunnelApp extends LitElement {
         return;
       }
 
-      // Look up existing group for this session pair
-      const existingGroup = this.splitGroups.find(
-        (g) =>
-          (g.sessionIds[0] === splitSessionIds.left && g.sessionIds[1] === splitSessionIds.right) ||
-          (g.sessionIds[0] === splitSessionIds.right && g.sessionIds[1] === splitSessionIds.left)
-      );
-      this.enterSplitMode(splitSessionIds.left, splitSessionIds.right, existingGroup?.id);
+      // Look up existing group for these sessions; the URL's layout wins over the stored one
+      const existingGroup = this.findGroupForSessions(splitSessionIds);
+      this.enterSplitMode(splitLayout, existingGroup?.id);
+      if (existingGroup) {
+        this.updateCurrentGroupLayout();
+      }
       this.currentView = 'session';
       this.requestUpdate();
     } else {
@@ -1710,7 +1803,7 @@ export class VibeTunnelApp extends LitElement {
     }
   }
 
-  private updateUrl(sessionId?: string) {
+  private updateUrl(sessionId?: string, replace = false) {
     const url = new URL(window.location.href);
 
     // Clear all params
@@ -1719,9 +1812,9 @@ export class VibeTunnelApp extends LitElement {
     if (this.currentView === 'file-browser') {
       // Use path-based URL for file-browser view
       url.pathname = '/file-browser';
-    } else if (this.isSplit && this.splitPanes.length === 2) {
+    } else if (this.isSplit && this.splitLayout) {
       // Use path-based URL for split view
-      url.pathname = `/split/${this.splitPanes[0].sessionId}/${this.splitPanes[1].sessionId}`;
+      url.pathname = `/split/${serializeSplitLayout(this.splitLayout)}`;
       logger.log(`updateUrl: split view URL set to ${url.pathname}`);
     } else if (sessionId) {
       // Use path-based URL for session view
@@ -1732,7 +1825,11 @@ export class VibeTunnelApp extends LitElement {
     }
 
     // Update browser URL without triggering page reload
-    window.history.pushState(null, '', url.toString());
+    if (replace) {
+      window.history.replaceState(null, '', url.toString());
+    } else {
+      window.history.pushState(null, '', url.toString());
+    }
   }
 
   private setupHotReload(): void {
@@ -1781,9 +1878,10 @@ export class VibeTunnelApp extends LitElement {
   };
 
   private handleOpenCreateDialog = (e: CustomEvent) => {
-    const workingDir = e.detail?.workingDir || '';
-    this.createDialogWorkingDir = workingDir;
     this.handleCreateSession();
+    // Set after opening, which resets them
+    this.createDialogWorkingDir = e.detail?.workingDir || '';
+    this.createDialogRemoteId = e.detail?.remoteId || '';
   };
 
   private handleOpenTmuxSessions = () => {
@@ -1802,8 +1900,12 @@ export class VibeTunnelApp extends LitElement {
     return this.currentView === 'session' && this.selectedSessionId !== null;
   }
 
+  private get splitSessionIds(): string[] {
+    return this.splitLayout ? getLayoutSessionIds(this.splitLayout) : [];
+  }
+
   private get isSplit(): boolean {
-    return this.splitPanes.length > 1;
+    return this.splitSessionIds.length > 1;
   }
 
   // --- Terminal drop zone handlers ---
@@ -1847,45 +1949,58 @@ export class VibeTunnelApp extends LitElement {
     );
 
     // Enter split mode: if dropped on left side, dragged goes left; otherwise right
-    if (zone === 'left') {
-      this.enterSplitMode(draggedSessionId, this.selectedSessionId);
-    } else {
-      this.enterSplitMode(this.selectedSessionId, draggedSessionId);
-    }
+    const dragged = createPane(draggedSessionId);
+    const current = createPane(this.selectedSessionId);
+    this.enterSplitMode(
+      zone === 'left' ? createSplit('row', dragged, current) : createSplit('row', current, dragged)
+    );
     this.updateUrl();
   }
 
   /**
-   * Enter split mode with two existing sessions side by side.
-   * Used by drag-and-drop from sidebar, terminal drop zone, or restoring a split group.
+   * Enter split mode with existing sessions arranged by `layout`.
+   * Used by drag-and-drop from sidebar, terminal drop zone, URLs, or restoring a split group.
    * @param groupId Optional group ID to associate with this split (for restore scenarios).
    */
-  private enterSplitMode(leftSessionId: string, rightSessionId: string, groupId?: string) {
+  private enterSplitMode(layout: SplitLayoutNode, groupId?: string) {
+    const sessionIds = getLayoutSessionIds(layout);
     logger.log(
-      `Entering split mode: left=${leftSessionId}, right=${rightSessionId}, groupId=${groupId || 'none'}`
+      `Entering split mode: sessions=[${sessionIds.join(', ')}], groupId=${groupId || 'none'}`
     );
-    this.splitPanes = [{ sessionId: leftSessionId }, { sessionId: rightSessionId }];
+    this.splitLayout = layout;
     this.activePaneIndex = 0;
-    this.splitRatio = SPLIT_PANE.DEFAULT_RATIO;
-    this.selectedSessionId = leftSessionId;
+    this.selectedSessionId = sessionIds[0] ?? null;
     this.terminalDropZone = 'none';
 
     // Always persist the split group immediately on creation
-    this.currentGroupId = groupId ?? this.createOrReuseGroup(leftSessionId, rightSessionId);
+    this.currentGroupId = groupId ?? this.createOrReuseGroup(layout);
 
-    // After layout update, trigger terminal resize for both panes
+    // After layout update, trigger terminal resize for all panes
     this.updateComplete.then(() => {
-      for (const pane of this.splitPanes) {
-        const container = this.querySelector(`#split-pane-${pane.sessionId}`) as HTMLElement;
+      for (const sessionId of this.splitSessionIds) {
+        const container = this.querySelector(`#split-pane-${sessionId}`) as HTMLElement;
         if (container) {
-          triggerTerminalResize(pane.sessionId, container);
+          triggerTerminalResize(sessionId, container);
         }
       }
     });
   }
 
   private handleCloseSplitPane(index: number) {
-    if (!this.isSplit) return;
+    const closedSessionId = this.splitSessionIds[index];
+    if (!this.isSplit || !this.splitLayout || !closedSessionId) return;
+
+    // With more than two panes the split stays; its siblings take over the space
+    const remaining = removePane(this.splitLayout, closedSessionId);
+    if (remaining?.type === 'split') {
+      this.splitLayout = remaining;
+      this.activePaneIndex = Math.min(index, this.splitSessionIds.length - 1);
+      this.selectedSessionId = this.splitSessionIds[0] ?? null;
+      this.updateCurrentGroupLayout();
+      this.updateUrl();
+      logger.log(`Closed split pane at index ${index}`);
+      return;
+    }
 
     // Remove the persisted split group when explicitly closing split pane
     if (this.currentGroupId) {
@@ -1893,22 +2008,33 @@ export class VibeTunnelApp extends LitElement {
       this.currentGroupId = null;
     }
 
-    const remainingPane = this.splitPanes[index === 0 ? 1 : 0];
-    if (remainingPane) {
-      this.selectedSessionId = remainingPane.sessionId;
+    if (remaining) {
+      const remainingSessionId = remaining.sessionId;
+      this.selectedSessionId = remainingSessionId;
       // Trigger terminal resize for the remaining session after layout update
       this.updateComplete.then(() => {
-        triggerTerminalResize(remainingPane.sessionId, this);
+        triggerTerminalResize(remainingSessionId, this);
       });
     }
 
-    this.splitPanes = [];
+    this.splitLayout = null;
     this.activePaneIndex = 0;
-    this.splitRatio = SPLIT_PANE.DEFAULT_RATIO;
     this.updateUrl(this.selectedSessionId || undefined);
     logger.log(`Closed split pane at index ${index}`);
   }
 
+  private focusAdjacentPane(direction: PaneNavigationDirection) {
+    const sessionIds = this.splitSessionIds;
+    const current = sessionIds[this.activePaneIndex];
+    if (!this.splitLayout || !current) return;
+
+    const next = findAdjacentPane(this.splitLayout, current, direction);
+    if (next) {
+      this.activePaneIndex = sessionIds.indexOf(next);
+      logger.debug(`Active pane moved ${direction} to index ${this.activePaneIndex}`);
+    }
+  }
+
   private handlePaneFocus(e: CustomEvent) {
     const { index } = e.detail;
     this.activePaneIndex = index;
@@ -1916,8 +2042,45 @@ export class VibeTunnelApp extends LitElement {
   }
 
   private handleSplitResize(e: CustomEvent) {
-    const { ratio } = e.detail;
-    this.splitRatio = ratio;
+    const { layout } = e.detail;
+    this.splitLayout = layout;
+    this.updateCurrentGroupLayout();
+    // Keep the URL shareable without adding a history entry per drag
+    this.updateUrl(undefined, true);
+  }
+
+  private handlePaneDrop(e: CustomEvent) {
+    const { draggedSessionId, targetSessionId, zone } = e.detail;
+    this.placeSessionInSplit(draggedSessionId, targetSessionId, zone);
+  }
+
+  /**
+   * Put a session next to (or instead of) a pane of the split. Sessions that
+   * are already in the split move there; dropping onto a pane's center swaps.
+   */
+  private placeSessionInSplit(
+    draggedSessionId: string,
+    targetSessionId: string,
+    zone: PaneDropZone
+  ) {
+    if (!this.splitLayout) return;
+
+    const sessionIds = this.splitSessionIds;
+    if (sessionIds.includes(draggedSessionId)) {
+      this.splitLayout = movePane(this.splitLayout, draggedSessionId, targetSessionId, zone);
+    } else {
+      if (!this.sessions.some((s) => s.id === draggedSessionId)) return;
+      if (zone !== 'center' && sessionIds.length >= SPLIT_PANE.MAX_PANES) {
+        this.showError(`Split view supports up to ${SPLIT_PANE.MAX_PANES} panes`);
+        return;
+      }
+      this.splitLayout = insertPane(this.splitLayout, targetSessionId, draggedSessionId, zone);
+    }
+
+    this.activePaneIndex = Math.max(0, this.splitSessionIds.indexOf(draggedSessionId));
+    this.selectedSessionId = this.splitSessionIds[0] ?? null;
+    this.updateCurrentGroupLayout();
+    this.updateUrl();
   }
 
   /**
@@ -1929,12 +2092,19 @@ export class VibeTunnelApp extends LitElement {
     logger.log(`Split-with-session event: target=${targetSessionId}, dragged=${draggedSessionId}`);
 
     if (this.isSplit) {
-      logger.log('Already in split mode, ignoring split-with-session');
+      // Cards of sessions in the split take the dragged session to their right
+      if (this.splitSessionIds.includes(targetSessionId)) {
+        this.placeSessionInSplit(draggedSessionId, targetSessionId, 'right');
+      } else {
+        logger.log('Already in split mode, ignoring split-with-session');
+      }
       return;
     }
 
     // Enter split mode with the target on the left, dragged on the right
-    this.enterSplitMode(targetSessionId, draggedSessionId);
+    this.enterSplitMode(
+      createSplit('row', createPane(targetSessionId), createPane(draggedSessionId))
+    );
 
     // Switch to session view if not already there
     if (this.currentView !== 'session') {
@@ -1957,9 +2127,8 @@ export class VibeTunnelApp extends LitElement {
       this.currentGroupId = null;
     }
 
-    this.splitPanes = [];
+    this.splitLayout = null;
     this.activePaneIndex = 0;
-    this.splitRatio = SPLIT_PANE.DEFAULT_RATIO;
     this.terminalDropZone = 'none';
 
     if (sessionId) {
@@ -1984,9 +2153,8 @@ export class VibeTunnelApp extends LitElement {
     logger.log(`Split-session-focus event: sessionId=${sessionId}`);
 
     // Exit split mode and navigate to the focused session
-    this.splitPanes = [];
+    this.splitLayout = null;
     this.activePaneIndex = 0;
-    this.splitRatio = SPLIT_PANE.DEFAULT_RATIO;
     this.terminalDropZone = 'none';
     this.selectedSessionId = sessionId;
     this.currentView = 'session';
@@ -2289,7 +2457,7 @@ export class VibeTunnelApp extends LitElement {
               .compactMode=${showSplitView}
               .collapsed=${this.sidebarCollapsed}
               .authClient=${authClient}
-              .splitSessionIds=${this.splitPanes.map((p) => p.sessionId)}
+              .splitSessionIds=${this.splitSessionIds}
               .splitGroups=${this.splitGroups}
               @session-killed=${this.handleSessionKilled}
               @refresh=${this.handleRefresh}
@@ -2330,12 +2498,12 @@ export class VibeTunnelApp extends LitElement {
               ? html`
                 <div class="flex-1 relative sm:static transition-none h-full">
                   <split-pane-container
-                    .panes=${this.splitPanes.map((p) => ({
-                      sessionId: p.sessionId,
-                      session: this.sessions.find((s) => s.id === p.sessionId),
+                    .layout=${this.splitLayout}
+                    .panes=${this.splitSessionIds.map((sessionId) => ({
+                      sessionId,
+                      session: this.sessions.find((s) => s.id === sessionId),
                     }))}
                     .activePaneIndex=${this.activePaneIndex}
-                    .splitRatio=${this.splitRatio}
                     .showBackButton=${false}
                     .showSidebarToggle=${true}
                     .sidebarCollapsed=${this.sidebarCollapsed}
@@ -2344,12 +2512,14 @@ export class VibeTunnelApp extends LitElement {
                     @pane-focus=${this.handlePaneFocus}
                     @pane-close=${(e: CustomEvent) => this.handleCloseSplitPane(e.detail.index)}
                     @split-resize=${this.handleSplitResize}
+                    @pane-drop=${this.handlePaneDrop}
                     @navigate-to-list=${this.handleNavigateToList}
                     @toggle-sidebar=${this.handleToggleSidebar}
                     @create-session=${this.handleCreateSession}
                     @session-status-changed=${this.handleSessionStatusChanged}
                     @open-settings=${this.handleOpenSettings}
                     @capture-toggled=${this.handleCaptureToggled}
+                    @navigate-to-session=${this.handleNavigateToSession}
                   ></split-pane-container>
                 </div>
               `
@@ -2376,6 +2546,7 @@ export class VibeTunnelApp extends LitElement {
                         @session-status-changed=${this.handleSessionStatusChanged}
                         @open-settings=${this.handleOpenSettings}
                         @capture-toggled=${this.handleCaptureToggled}
+                        @navigate-to-session=${this.handleNavigateToSession}
                       ></session-view>
                     `
                   )}
@@ -2429,6 +2600,7 @@ export class VibeTunnelApp extends LitElement {
       <session-create-form
         .visible=${this.showCreateModal}
         .workingDir=${this.createDialogWorkingDir}
+        .remoteId=${this.createDialogRemoteId}
         .authClient=${authClient}
         @session-created=${this.handleSessionCreated}
         @cancel=${this.handleCreateModalClose}
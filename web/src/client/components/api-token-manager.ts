@@ -0,0 +1,254 @@
+/**
+ * API Token Manager Component
+ *
+ * Settings section for named, scoped API tokens used by scripts and CI.
+ * Lists tokens, creates new ones (showing the secret once) and revokes them.
+ */
+import { html, LitElement, nothing, type PropertyValues } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { API_TOKEN_SCOPES, type ApiToken, type ApiTokenScope } from '../../shared/types.js';
+import { ApiTokenService } from '../services/api-token-service.js';
+import type { AuthClient } from '../services/auth-client.js';
+import { createLogger } from '../utils/logger.js';
+import { copyToClipboard } from '../utils/path-utils.js';
+
+const logger = createLogger('api-token-manager');
+
+const SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  'sessions:read': 'Read sessions',
+  'sessions:create': 'Create and kill sessions',
+  'sessions:input': 'Send input',
+  'fs:read': 'Read files',
+  'fs:write': 'Write files',
+  git: 'Git and worktrees',
+};
+
+const EXPIRY_OPTIONS = [
+  { days: 0, label: 'Never' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+];
+
+@customElement('api-token-manager')
+export class ApiTokenManager extends LitElement {
+  // Disable shadow DOM to use Tailwind
+  createRenderRoot() {
+    return this;
+  }
+
+  @property({ type: Object }) authClient?: AuthClient;
+  @property({ type: Boolean }) visible = false;
+
+  @state() private tokens: ApiToken[] = [];
+  @state() private error = '';
+  @state() private newTokenName = '';
+  @state() private newTokenScopes = new Set<ApiTokenScope>(['sessions:read']);
+  @state() private newTokenExpiryDays = 0;
+  @state() private createdToken: { name: string; token: string } | null = null;
+  @state() private copied = false;
+
+  private apiTokenService?: ApiTokenService;
+
+  protected willUpdate(changedProperties: PropertyValues) {
+    if (changedProperties.has('authClient') && this.authClient) {
+      this.apiTokenService = new ApiTokenService(this.authClient);
+    }
+    if ((changedProperties.has('visible') || changedProperties.has('authClient')) && this.visible) {
+      this.loadTokens();
+    }
+    if (changedProperties.has('visible') && !this.visible) {
+      // The secret is only shown once
+      this.createdToken = null;
+    }
+  }
+
+  private async loadTokens() {
+    if (!this.apiTokenService) return;
+    try {
+      this.tokens = await this.apiTokenService.listTokens();
+      this.error = '';
+    } catch (error) {
+      logger.error('failed to load api tokens', error);
+      this.error = 'Failed to load API tokens';
+    }
+  }
+
+  private toggleScope(scope: ApiTokenScope, enabled: boolean) {
+    const scopes = new Set(this.newTokenScopes);
+    if (enabled) {
+      scopes.add(scope);
+    } else {
+      scopes.delete(scope);
+    }
+    this.newTokenScopes = scopes;
+  }
+
+  private async handleCreate(e: Event) {
+    e.preventDefault();
+    if (!this.apiTokenService || !this.newTokenName.trim() || this.newTokenScopes.size === 0) {
+      return;
+    }
+
+    try {
+      const created = await this.apiTokenService.createToken({
+        name: this.newTokenName.trim(),
+        scopes: Array.from(this.newTokenScopes),
+        expiresInDays: this.newTokenExpiryDays || undefined,
+      });
+      this.createdToken = { name: created.name, token: created.token };
+      this.copied = false;
+      this.newTokenName = '';
+      this.error = '';
+      await this.loadTokens();
+    } catch (error) {
+      logger.error('failed to create api token', error);
+      this.error = `Failed to create token: ${error instanceof Error ? error.message : error}`;
+    }
+  }
+
+  private async handleRevoke(token: ApiToken) {
+    if (!this.apiTokenService) return;
+    if (!confirm(`Revoke the API token "${token.name}"? Scripts using it will stop working.`)) {
+      return;
+    }
+
+    try {
+      await this.apiTokenService.revokeToken(token.id);
+      await this.loadTokens();
+    } catch (error) {
+      logger.error('failed to revoke api token', error);
+      this.error = 'Failed to revoke token';
+    }
+  }
+
+  private async handleCopy() {
+    if (!this.createdToken) return;
+    this.copied = await copyToClipboard(this.createdToken.token);
+  }
+
+  private formatDate(value: string | undefined, fallback: string): string {
+    return value ? new Date(value).toLocaleDateString() : fallback;
+  }
+
+  private renderCreatedToken() {
+    if (!this.createdToken) return nothing;
+
+    return html`
+      <div class="p-3 bg-bg-secondary rounded-lg border border-primary/50 space-y-2" data-testid="api-token-created">
+        <p class="text-xs text-primary">
+          Copy the token for "${this.createdToken.name}" now. It will not be shown again.
+        </p>
+        <div class="flex gap-2">
+          <input class="input-field py-2 text-xs flex-1" readonly .value=${this.createdToken.token} />
+          <button class="btn-secondary text-xs px-3" @click=${this.handleCopy}>
+            ${this.copied ? 'Copied' : 'Copy'}
+          </button>
+        </div>
+      </div>
+    `;
+  }
+
+  private renderToken(token: ApiToken) {
+    const expired = token.expiresAt && Date.parse(token.expiresAt) <= Date.now();
+
+    return html`
+      <div class="flex items-start justify-between gap-3 py-2" data-testid="api-token-${token.id}">
+        <div class="min-w-0">
+          <div class="text-primary font-medium truncate">
+            ${token.name}${expired ? html` <span class="text-status-error text-xs">(expired)</span>` : nothing}
+          </div>
+          <div class="text-muted text-xs">${token.scopes.join(', ')}</div>
+          <div class="text-muted text-xs">
+            Expires ${this.formatDate(token.expiresAt, 'never')} · Last used
+            ${this.formatDate(token.lastUsedAt, 'never')}
+          </div>
+        </div>
+        <button
+          class="text-status-error hover:opacity-80 text-xs flex-shrink-0"
+          @click=${() => this.handleRevoke(token)}
+        >
+          Revoke
+        </button>
+      </div>
+    `;
+  }
+
+  render() {
+    return html`
+      <div class="p-4 bg-bg-tertiary rounded-lg border border-border/50 space-y-4">
+        <div>
+          <label class="text-primary font-medium">API Tokens</label>
+          <p class="text-muted text-xs mt-1">
+            Tokens for scripts and CI. Send one as <code>Authorization: Bearer &lt;token&gt;</code>;
+            it can only use the APIs its scopes allow.
+          </p>
+        </div>
+
+        ${this.error ? html`<p class="text-status-error text-xs">${this.error}</p>` : nothing}
+        ${this.renderCreatedToken()}
+
+        ${
+          this.tokens.length > 0
+            ? html`<div class="divide-y divide-border/50">${this.tokens.map((token) => this.renderToken(token))}</div>`
+            : html`<p class="text-muted text-xs">No API tokens yet.</p>`
+        }
+
+        <form class="space-y-3 border-t border-border/50 pt-3" @submit=${this.handleCreate}>
+          <input
+            type="text"
+            class="input-field py-2 text-sm w-full"
+            placeholder="Token name, e.g. ci-deploy"
+            maxlength="100"
+            .value=${this.newTokenName}
+            @input=${(e: Event) => {
+              this.newTokenName = (e.target as HTMLInputElement).value;
+            }}
+          />
+          <div class="grid grid-cols-2 gap-2">
+            ${API_TOKEN_SCOPES.map(
+              (scope) => html`
+                <label class="flex items-center gap-2 text-xs text-text">
+                  <input
+                    type="checkbox"
+                    .checked=${this.newTokenScopes.has(scope)}
+                    @change=${(e: Event) =>
+                      this.toggleScope(scope, (e.target as HTMLInputElement).checked)}
+                  />
+                  ${SCOPE_LABELS[scope]}
+                </label>
+              `
+            )}
+          </div>
+          <div class="flex items-center justify-between gap-2">
+            <label class="flex items-center gap-2 text-xs text-muted">
+              Expires
+              <select
+                class="input-field py-1 px-2 text-xs"
+                @change=${(e: Event) => {
+                  this.newTokenExpiryDays = Number((e.target as HTMLSelectElement).value);
+                }}
+              >
+                ${EXPIRY_OPTIONS.map(
+                  (option) => html`
+                    <option value=${option.days} ?selected=${option.days === this.newTokenExpiryDays}>
+                      ${option.label}
+                    </option>
+                  `
+                )}
+              </select>
+            </label>
+            <button
+              type="submit"
+              class="btn-primary text-xs px-4 py-2"
+              ?disabled=${!this.newTokenName.trim() || this.newTokenScopes.size === 0}
+            >
+              Create Token
+            </button>
+          </div>
+        </form>
+      </div>
+    `;
+  }
+}
@@ -17,6 +17,9 @@ export class AuthLogin extends LitElement {
   @state() private success = '';
   @state() private currentUserId = '';
   @state() private loginPassword = '';
+  // Set once the password is accepted and a TOTP code is still needed
+  @state() private totpChallengeId = '';
+  @state() private totpCode = '';
   @state() private userAvatar = '';
   @state() private authConfig = {
     enableSSHKeys: false,
@@ -24,7 +27,11 @@ export class AuthLogin extends LitElement {
     noAuth: false,
   };
   @state() private isMobile = false;
+  // Seconds left while the server refuses logins after too many failures
+  @state() private lockoutSeconds = 0;
   private unsubscribeResponsive?: () => void;
+  private lockedUntil = 0;
+  private lockoutTimer?: number;
 
   async connectedCallback() {
     super.connectedCallback();
@@ -43,6 +50,35 @@ export class AuthLogin extends LitElement {
     if (this.unsubscribeResponsive) {
       this.unsubscribeResponsive();
     }
+    this.clearLockout();
+  }
+
+  private startLockout(retryAfter: number) {
+    this.error = '';
+    this.lockedUntil = Date.now() + retryAfter * 1000;
+    this.updateLockout();
+    if (this.lockoutTimer === undefined) {
+      this.lockoutTimer = window.setInterval(() => this.updateLockout(), 1000);
+    }
+  }
+
+  private updateLockout() {
+    this.lockoutSeconds = Math.max(0, Math.ceil((this.lockedUntil - Date.now()) / 1000));
+    if (this.lockoutSeconds === 0) this.clearLockout();
+  }
+
+  private clearLockout() {
+    if (this.lockoutTimer !== undefined) {
+      clearInterval(this.lockoutTimer);
+      this.lockoutTimer = undefined;
+    }
+    this.lockoutSeconds = 0;
+  }
+
+  private formatLockout(): string {
+    const minutes = Math.floor(this.lockoutSeconds / 60);
+    const seconds = this.lockoutSeconds % 60;
+    return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
   }
 
   private async loadUserInfo() {
@@ -105,6 +141,12 @@ export class AuthLogin extends LitElement {
       if (result.success) {
         this.loginPassword = '';
         this.dispatchEvent(new CustomEvent('auth-success', { detail: result }));
+      } else if (result.totpRequired && result.totpChallengeId) {
+        this.loginPassword = '';
+        this.totpCode = '';
+        this.totpChallengeId = result.totpChallengeId;
+      } else if (result.retryAfter) {
+        this.startLockout(result.retryAfter);
       } else {
         this.error = result.error || 'Password authentication failed';
       }
@@ -115,6 +157,90 @@ export class AuthLogin extends LitElement {
     }
   }
 
+  private async handleTotpLogin(e: Event) {
+    e.preventDefault();
+    if (this.loading) return;
+
+    this.loading = true;
+    this.error = '';
+
+    try {
+      const result = await this.authClient.authenticateWithTotp(
+        this.totpChallengeId,
+        this.totpCode
+      );
+
+      if (result.success) {
+        this.totpChallengeId = '';
+        this.totpCode = '';
+        this.dispatchEvent(new CustomEvent('auth-success', { detail: result }));
+      } else {
+        this.totpCode = '';
+        if (result.retryAfter) {
+          this.startLockout(result.retryAfter);
+          return;
+        }
+        // Without totpRequired the login expired and must start over
+        if (!result.totpRequired) this.totpChallengeId = '';
+        this.error = result.error || 'Two-factor authentication failed';
+      }
+    } catch (_error) {
+      this.error = 'Two-factor authentication failed';
+    } finally {
+      this.loading = false;
+    }
+  }
+
+  private handleTotpCancel() {
+    this.totpChallengeId = '';
+    this.totpCode = '';
+    this.error = '';
+  }
+
+  private renderTotpForm() {
+    return html`
+      <form @submit=${this.handleTotpLogin} class="space-y-3">
+        <p class="text-text-muted text-xs text-center">
+          Enter the 6-digit code from your authenticator app
+        </p>
+        <div>
+          <input
+            type="text"
+            class="input-field text-center tracking-widest"
+            data-testid="totp-input"
+            placeholder="123456"
+            inputmode="numeric"
+            autocomplete="one-time-code"
+            maxlength="6"
+            pattern="[0-9]{6}"
+            .value=${this.totpCode}
+            @input=${(e: Event) => {
+              this.totpCode = (e.target as HTMLInputElement).value.replace(/\D/g, '');
+            }}
+            ?disabled=${this.loading}
+            required
+          />
+        </div>
+        <button
+          type="submit"
+          class="btn-primary w-full py-3 sm:py-4 mt-2"
+          data-testid="totp-submit"
+          ?disabled=${this.loading || this.lockoutSeconds > 0 || this.totpCode.length !== 6}
+        >
+          ${this.loading ? 'Verifying...' : 'Verify Code'}
+        </button>
+        <button
+          type="button"
+          class="btn-ghost w-full text-xs"
+          @click=${this.handleTotpCancel}
+          ?disabled=${this.loading}
+        >
+          Back
+        </button>
+      </form>
+    `;
+  }
+
   private async handleSSHKeyAuth() {
     if (this.loading) return;
 
@@ -128,6 +254,8 @@ export class AuthLogin extends LitElement {
 
       if (authResult.success) {
         this.dispatchEvent(new CustomEvent('auth-success', { detail: authResult }));
+      } else if (authResult.retryAfter) {
+        this.startLockout(authResult.retryAfter);
       } else {
         this.error =
           authResult.error || 'SSH key authentication failed. Please try password login.';
@@ -204,6 +332,18 @@ export class AuthLogin extends LitElement {
               `
               : ''
           }
+          ${
+            this.lockoutSeconds > 0
+              ? html`
+                <div
+                  class="bg-status-warning text-bg px-3 py-1.5 rounded mb-3 font-mono text-xs sm:text-sm"
+                  data-testid="lockout-message"
+                >
+                  Too many failed attempts. Try again in ${this.formatLockout()}.
+                </div>
+              `
+              : ''
+          }
           ${
             this.success
               ? html`
@@ -265,30 +405,38 @@ export class AuthLogin extends LitElement {
                         Welcome back, ${this.currentUserId || '...'}
                       </p>
                     </div>
-                    <form @submit=${this.handlePasswordLogin} class="space-y-3">
-                      <div>
-                        <input
-                          type="password"
-                          class="input-field"
-                          data-testid="password-input"
-                          placeholder="System Password"
-                          .value=${this.loginPassword}
-                          @input=${(e: Event) => {
-                            this.loginPassword = (e.target as HTMLInputElement).value;
-                          }}
-                          ?disabled=${this.loading}
-                          required
-                        />
-                      </div>
-                      <button
-                        type="submit"
-                        class="btn-primary w-full py-3 sm:py-4 mt-2"
-                        data-testid="password-submit"
-                        ?disabled=${this.loading || !this.loginPassword}
-                      >
-                        ${this.loading ? 'Authenticating...' : 'Login with Password'}
-                      </button>
-                    </form>
+                    ${
+                      this.totpChallengeId
+                        ? this.renderTotpForm()
+                        : html`
+                          <form @submit=${this.handlePasswordLogin} class="space-y-3">
+                            <div>
+                              <input
+                                type="password"
+                                class="input-field"
+                                data-testid="password-input"
+                                placeholder="System Password"
+                                .value=${this.loginPassword}
+                                @input=${(e: Event) => {
+                                  this.loginPassword = (e.target as HTMLInputElement).value;
+                                }}
+                                ?disabled=${this.loading}
+                                required
+                              />
+                            </div>
+                            <button
+                              type="submit"
+                              class="btn-primary w-full py-3 sm:py-4 mt-2"
+                              data-testid="password-submit"
+                              ?disabled=${
+                                this.loading || this.lockoutSeconds > 0 || !this.loginPassword
+                              }
+                            >
+                              ${this.loading ? 'Authenticating...' : 'Login with Password'}
+                            </button>
+                          </form>
+                        `
+                    }
                   </div>
                 `
                 : ''
@@ -387,7 +535,7 @@ export class AuthLogin extends LitElement {
                         class="btn-secondary w-full py-2.5 sm:py-3 text-sm sm:text-base"
                         data-testid="ssh-login"
                         @click=${this.handleSSHKeyAuth}
-                        ?disabled=${this.loading}
+                        ?disabled=${this.loading || this.lockoutSeconds > 0}
                       >
                         ${this.loading ? 'Authenticating...' : 'Login with SSH Key'}
                       </button>
@@ -46,12 +46,14 @@ export class AutocompleteManager {
     this.repositories = repositories;
   }
 
-  async fetchCompletions(path: string): Promise<AutocompleteItem[]> {
+  async fetchCompletions(path: string, remoteId?: string): Promise<AutocompleteItem[]> {
     if (!path) return [];
 
     try {
-      // Fetch filesystem completions
-      const response = await fetch(`/api/fs/completions?path=${encodeURIComponent(path)}`, {
+      // Fetch filesystem completions, from the remote the session will run on if any
+      const params = new URLSearchParams({ path });
+      if (remoteId) params.set('remoteId', remoteId);
+      const response = await fetch(`/api/fs/completions?${params}`, {
         headers: this.authClient?.getAuthHeader() || {},
       });
 
@@ -8,22 +8,30 @@
  * - Session management
  * - File operations
  * - Terminal settings
+ * - Full-text search across the scrollback of all sessions
  *
  * Designed with mobile-first approach following UX best practices:
  * - Touch-friendly targets (44px minimum)
  * - Search/filter functionality
  * - Keyboard navigation support
  * - Responsive design
+ *
+ * @fires navigate-to-session - When a scrollback search hit is chosen (detail: { sessionId })
  */
 import { html, LitElement, type PropertyValues } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
-import type { Session } from '../../shared/types.js';
+import type { ScrollbackSearchHit, ScrollbackSearchResult, Session } from '../../shared/types.js';
+import { formatDuration } from '../../shared/utils/time.js';
+import { authClient } from '../services/auth-client.js';
 import { createLogger } from '../utils/logger.js';
 import { detectMobile } from '../utils/mobile-utils.js';
 import './modal-wrapper.js';
 
 const logger = createLogger('command-palette');
 
+const SCROLLBACK_SEARCH_DEBOUNCE_MS = 300;
+const SCROLLBACK_SEARCH_MIN_LENGTH = 2;
+
 export interface CommandPaletteCallbacks {
   // Claude Code mode controls
   onTogglePlanMode?: () => void;
@@ -63,7 +71,7 @@ interface CommandItem {
   description: string;
   icon: string;
   category: 'claude' | 'clipboard' | 'commands' | 'session' | 'files' | 'terminal' | 'navigation';
-  action: keyof CommandPaletteCallbacks;
+  action: keyof CommandPaletteCallbacks | 'searchAllSessions';
   shortcut?: string;
   enabled?: boolean;
   highlight?: boolean;
@@ -87,8 +95,15 @@ export class CommandPalette extends LitElement {
   @state() private selectedIndex = 0;
   @state() private filteredCommands: CommandItem[] = [];
   @state() private isMobile = detectMobile();
+  @state() private mode: 'commands' | 'scrollback' = 'commands';
+  @state() private searchHits: ScrollbackSearchHit[] = [];
+  @state() private searchTruncated = false;
+  @state() private searching = false;
+  @state() private searchError: string | null = null;
 
   private searchInputRef: HTMLInputElement | null = null;
+  private scrollbackSearchTimer: number | null = null;
+  private scrollbackSearchSeq = 0;
 
   private readonly commands: CommandItem[] = [
     // Claude Code modes
@@ -153,6 +168,15 @@ export class CommandPalette extends LitElement {
     },
 
     // Session management
+    {
+      id: 'search-all-sessions',
+      title: 'Search All Sessions',
+      description: 'Find text in the output of every session',
+      icon: '🔎',
+      category: 'session',
+      action: 'searchAllSessions',
+      highlight: true,
+    },
     {
       id: 'new-session',
       title: 'New Session',
@@ -258,6 +282,7 @@ export class CommandPalette extends LitElement {
   disconnectedCallback() {
     super.disconnectedCallback();
     document.removeEventListener('keydown', this.handleGlobalKeyDown);
+    this.cancelScrollbackSearch();
   }
 
   updated(changedProperties: PropertyValues) {
@@ -273,6 +298,9 @@ export class CommandPalette extends LitElement {
         // Reset state when closing
         this.searchQuery = '';
         this.selectedIndex = 0;
+        this.mode = 'commands';
+        this.cancelScrollbackSearch();
+        this.searchHits = [];
         this.updateFilteredCommands();
       }
     }
@@ -282,11 +310,101 @@ export class CommandPalette extends LitElement {
     }
 
     if (changedProperties.has('searchQuery')) {
-      this.updateFilteredCommands();
+      if (this.mode === 'scrollback') {
+        this.scheduleScrollbackSearch();
+      } else {
+        this.updateFilteredCommands();
+      }
       this.selectedIndex = 0; // Reset selection when search changes
     }
   }
 
+  private get itemCount(): number {
+    return this.mode === 'scrollback' ? this.searchHits.length : this.filteredCommands.length;
+  }
+
+  private enterScrollbackMode() {
+    this.mode = 'scrollback';
+    this.searchQuery = '';
+    this.searchHits = [];
+    this.searchError = null;
+    this.selectedIndex = 0;
+    requestAnimationFrame(() => {
+      this.searchInputRef?.focus();
+    });
+  }
+
+  private exitScrollbackMode() {
+    this.cancelScrollbackSearch();
+    this.mode = 'commands';
+    this.searchQuery = '';
+    this.searchHits = [];
+    this.searchError = null;
+    this.updateFilteredCommands();
+  }
+
+  private cancelScrollbackSearch() {
+    if (this.scrollbackSearchTimer !== null) {
+      clearTimeout(this.scrollbackSearchTimer);
+      this.scrollbackSearchTimer = null;
+    }
+    // Invalidate in-flight requests
+    this.scrollbackSearchSeq++;
+    this.searching = false;
+  }
+
+  private scheduleScrollbackSearch() {
+    this.cancelScrollbackSearch();
+    const query = this.searchQuery.trim();
+    if (query.length < SCROLLBACK_SEARCH_MIN_LENGTH) {
+      this.searchHits = [];
+      this.searchTruncated = false;
+      this.searchError = null;
+      return;
+    }
+
+    this.searching = true;
+    this.scrollbackSearchTimer = window.setTimeout(() => {
+      this.scrollbackSearchTimer = null;
+      this.runScrollbackSearch(query);
+    }, SCROLLBACK_SEARCH_DEBOUNCE_MS);
+  }
+
+  private async runScrollbackSearch(query: string) {
+    const seq = ++this.scrollbackSearchSeq;
+    try {
+      const response = await authClient.fetch(`/api/search?q=${encodeURIComponent(query)}`);
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || `HTTP ${response.status}`);
+      }
+      const result = (await response.json()) as ScrollbackSearchResult;
+      if (seq !== this.scrollbackSearchSeq) return;
+      this.searchHits = result.hits;
+      this.searchTruncated = result.truncated;
+      this.searchError = null;
+    } catch (error) {
+      if (seq !== this.scrollbackSearchSeq) return;
+      logger.error('scrollback search failed', error);
+      this.searchHits = [];
+      this.searchError = error instanceof Error ? error.message : 'Search failed';
+    } finally {
+      if (seq === this.scrollbackSearchSeq) this.searching = false;
+    }
+  }
+
+  private openSearchHit(hit: ScrollbackSearchHit) {
+    logger.debug(`Jumping to search hit in session ${hit.sessionId}`);
+    this.dispatchEvent(
+      new CustomEvent('navigate-to-session', {
+        detail: { sessionId: hit.sessionId },
+        bubbles: true,
+        composed: true,
+      })
+    );
+    this.handleClose();
+  }
+
   private updateCommandStates() {
     // Update command enabled states based on session status
     const terminateCommand = this.commands.find((cmd) => cmd.id === 'terminate-session');
@@ -336,7 +454,7 @@ export class CommandPalette extends LitElement {
 
       case 'ArrowDown':
         e.preventDefault();
-        this.selectedIndex = Math.min(this.selectedIndex + 1, this.filteredCommands.length - 1);
+        this.selectedIndex = Math.max(0, Math.min(this.selectedIndex + 1, this.itemCount - 1));
         this.scrollSelectedIntoView();
         break;
 
@@ -365,17 +483,37 @@ export class CommandPalette extends LitElement {
     this.searchQuery = input.value;
   }
 
+  private handleSearchKeyDown(e: KeyboardEvent) {
+    e.stopPropagation();
+    // Backspace on an empty query leaves scrollback search
+    if (e.key === 'Backspace' && this.mode === 'scrollback' && !this.searchQuery) {
+      e.preventDefault();
+      this.exitScrollbackMode();
+    }
+  }
+
   private handleCommandClick(_command: CommandItem, index: number) {
     this.selectedIndex = index;
     this.executeSelectedCommand();
   }
 
   private executeSelectedCommand() {
+    if (this.mode === 'scrollback') {
+      const hit = this.searchHits[this.selectedIndex];
+      if (hit) this.openSearchHit(hit);
+      return;
+    }
+
     const command = this.filteredCommands[this.selectedIndex];
     if (!command || command.enabled === false) return;
 
     logger.debug(`Executing command: ${command.id}`);
 
+    if (command.action === 'searchAllSessions') {
+      this.enterScrollbackMode();
+      return;
+    }
+
     // Execute the command callback
     const callback = this.callbacks?.[command.action];
     if (callback && typeof callback === 'function') {
@@ -417,6 +555,57 @@ export class CommandPalette extends LitElement {
     return colors[category as keyof typeof colors] || 'text-gray-400';
   }
 
+  private getSearchPlaceholder(): string {
+    if (this.mode === 'scrollback') return 'Search output of all sessions...';
+    return this.isMobile ? 'Search commands...' : 'Search commands... (Ctrl+Shift+P)';
+  }
+
+  private renderSearchHits() {
+    if (this.searchError) {
+      return html`<div class="p-8 text-center text-status-error">${this.searchError}</div>`;
+    }
+
+    if (this.searchHits.length === 0) {
+      const message =
+        this.searchQuery.trim().length < SCROLLBACK_SEARCH_MIN_LENGTH
+          ? 'Type at least two characters to search every session'
+          : this.searching
+            ? 'Searching...'
+            : 'No matches found';
+      return html`<div class="p-8 text-center text-text-muted">${message}</div>`;
+    }
+
+    return this.searchHits.map(
+      (hit, index) => html`
+        <button
+          class="w-full text-left p-4 hover:bg-surface-hover transition-colors ${index === this.selectedIndex ? 'bg-surface-hover border-l-2 border-primary' : ''}"
+          @click=${() => {
+            this.selectedIndex = index;
+            this.openSearchHit(hit);
+          }}
+          data-command-index="${index}"
+        >
+          <div class="flex items-baseline justify-between gap-2 mb-1">
+            <span class="font-medium text-text truncate">
+              ${hit.sessionName || hit.sessionId}
+              ${hit.remoteName ? html`<span class="text-xs text-text-muted">@ ${hit.remoteName}</span>` : ''}
+            </span>
+            <span class="text-xs text-text-muted flex-shrink-0">
+              +${formatDuration(hit.timestamp * 1000)}
+            </span>
+          </div>
+          <pre class="text-xs leading-tight whitespace-pre-wrap break-all overflow-hidden">${hit.before.map(
+            (line) => html`<span class="text-text-muted">${line}</span>
+`
+          )}<span class="text-primary">${hit.line}</span>${hit.after.map(
+            (line) => html`
+<span class="text-text-muted">${line}</span>`
+          )}</pre>
+        </button>
+      `
+    );
+  }
+
   render() {
     // If not visible, return empty to avoid any rendering
     if (!this.visible) {
@@ -443,13 +632,22 @@ export class CommandPalette extends LitElement {
                   <path fill-rule="evenodd" d="M8 4a4 4 0 100 8 4 4 0 000-8zM2 8a6 6 0 1110.89 3.476l4.817 4.817a1 1 0 01-1.414 1.414l-4.816-4.816A6 6 0 012 8z" clip-rule="evenodd"/>
                 </svg>
               </div>
+              ${
+                this.mode === 'scrollback'
+                  ? html`
+                <span class="flex-shrink-0 px-2 py-0.5 text-xs bg-primary/20 text-primary border border-primary/30 rounded">
+                  All sessions
+                </span>
+              `
+                  : ''
+              }
               <input
                 type="text"
-                placeholder="${this.isMobile ? 'Search commands...' : 'Search commands... (Ctrl+Shift+P)'}"
+                placeholder="${this.getSearchPlaceholder()}"
                 class="flex-1 bg-transparent border-none outline-none text-text placeholder-text-muted text-base"
                 .value=${this.searchQuery}
                 @input=${this.handleSearchInput}
-                @keydown=${(e: KeyboardEvent) => e.stopPropagation()}
+                @keydown=${this.handleSearchKeyDown}
                 ${(el: HTMLInputElement) => {
                   this.searchInputRef = el;
                 }}
@@ -478,8 +676,10 @@ export class CommandPalette extends LitElement {
           <!-- Command list -->
           <div class="max-h-96 overflow-y-auto">
             ${
-              this.filteredCommands.length > 0
-                ? html`
+              this.mode === 'scrollback'
+                ? this.renderSearchHits()
+                : this.filteredCommands.length > 0
+                  ? html`
               ${this.filteredCommands.map(
                 (command, index) => html`
                 <button
@@ -533,7 +733,7 @@ export class CommandPalette extends LitElement {
               `
               )}
             `
-                : html`
+                  : html`
               <div class="p-8 text-center text-text-muted">
                 <svg width="48" height="48" viewBox="0 0 20 20" fill="currentColor" class="mx-auto mb-4 opacity-50">
                   <path fill-rule="evenodd" d="M8 4a4 4 0 100 8 4 4 0 000-8zM2 8a6 6 0 1110.89 3.476l4.817 4.817a1 1 0 01-1.414 1.414l-4.816-4.816A6 6 0 012 8z" clip-rule="evenodd"/>
@@ -553,7 +753,13 @@ export class CommandPalette extends LitElement {
                 <span class="hidden sm:inline">↵ Execute</span>
                 <span class="hidden sm:inline">Esc Close</span>
               </div>
-              <span>${this.filteredCommands.length} commands</span>
+              <span>
+                ${
+                  this.mode === 'scrollback'
+                    ? `${this.searchHits.length}${this.searchTruncated ? '+' : ''} matches`
+                    : `${this.filteredCommands.length} commands`
+                }
+              </span>
             </div>
           </div>
         </div>
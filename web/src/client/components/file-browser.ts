@@ -188,10 +188,19 @@ export class FileBrowser extends LitElement {
     // Monaco editor will handle its own updates through properties
   }
 
+  // Files of remote sessions are served by their remote, through HQ
+  private createQuery(params: Record<string, string>): URLSearchParams {
+    const query = new URLSearchParams(params);
+    if (this.session?.remoteId) {
+      query.set('remoteId', this.session.remoteId);
+    }
+    return query;
+  }
+
   private async loadDirectory(dirPath: string) {
     this.loading = true;
     try {
-      const params = new URLSearchParams({
+      const params = this.createQuery({
         path: dirPath,
         showHidden: this.showHidden.toString(),
         gitFilter: this.gitFilter,
@@ -248,7 +257,7 @@ export class FileBrowser extends LitElement {
       logger.debug(`file path: ${file.path}`);
 
       const headers = this.noAuthMode ? {} : { ...authClient.getAuthHeader() };
-      const response = await fetch(`/api/fs/preview?path=${encodeURIComponent(file.path)}`, {
+      const response = await fetch(`/api/fs/preview?${this.createQuery({ path: file.path })}`, {
         headers,
       });
       if (response.ok) {
@@ -274,10 +283,10 @@ export class FileBrowser extends LitElement {
       // Load both the unified diff and the full content for Monaco
       const headers = this.noAuthMode ? {} : { ...authClient.getAuthHeader() };
       const [diffResponse, contentResponse] = await Promise.all([
-        fetch(`/api/fs/diff?path=${encodeURIComponent(file.path)}`, {
+        fetch(`/api/fs/diff?${this.createQuery({ path: file.path })}`, {
           headers,
         }),
-        fetch(`/api/fs/diff-content?path=${encodeURIComponent(file.path)}`, {
+        fetch(`/api/fs/diff-content?${this.createQuery({ path: file.path })}`, {
           headers,
         }),
       ]);
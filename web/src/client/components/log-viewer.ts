@@ -1,6 +1,12 @@
 import { html, LitElement, type TemplateResult } from 'lit';
 import { customElement, state } from 'lit/decorators.js';
-import { HttpMethod } from '../../shared/types.js';
+import {
+  AUDIT_ACTIONS,
+  type AuditAction,
+  type AuditEntry,
+  HttpMethod,
+} from '../../shared/types.js';
+import { AuditService } from '../services/audit-service.js';
 import { authClient } from '../services/auth-client.js';
 
 interface LogEntry {
@@ -26,15 +32,25 @@ export class LogViewer extends LitElement {
   @state() private logSize = '';
   @state() private showClient = true;
   @state() private showServer = true;
+  @state() private view: 'logs' | 'audit' = 'logs';
+  @state() private auditEntries: AuditEntry[] = [];
+  @state() private auditAction: AuditAction | '' = '';
+  @state() private auditUser = '';
+  @state() private auditSession = '';
+  @state() private auditError = '';
 
   private refreshInterval?: number;
   private isFirstLoad = true;
+  private auditService = new AuditService(authClient);
 
   override connectedCallback(): void {
     super.connectedCallback();
     this.loadLogs();
-    // Refresh logs every 2 seconds
-    this.refreshInterval = window.setInterval(() => this.loadLogs(), 2000);
+    // Refresh the visible tab every 2 seconds
+    this.refreshInterval = window.setInterval(
+      () => (this.view === 'audit' ? this.loadAudit() : this.loadLogs()),
+      2000
+    );
   }
 
   override disconnectedCallback(): void {
@@ -94,6 +110,30 @@ export class LogViewer extends LitElement {
     }
   }
 
+  private async loadAudit(): Promise<void> {
+    try {
+      this.auditEntries = await this.auditService.getEntries({
+        action: this.auditAction || undefined,
+        userId: this.auditUser.trim() || undefined,
+        sessionId: this.auditSession.trim() || undefined,
+      });
+      this.auditError = '';
+    } catch (err) {
+      console.error('Failed to load audit log:', err);
+      this.auditError = err instanceof Error ? err.message : 'Failed to load audit log';
+    }
+  }
+
+  private switchView(view: 'logs' | 'audit'): void {
+    this.view = view;
+    if (view === 'audit') {
+      this.loadAudit();
+    } else {
+      this.isFirstLoad = true;
+      this.loadLogs();
+    }
+  }
+
   private formatRelativeTime(timestamp: string): string {
     const date = new Date(timestamp);
     const now = new Date();
@@ -240,6 +280,136 @@ export class LogViewer extends LitElement {
     });
   }
 
+  private renderTabs(): TemplateResult {
+    const tabs = [
+      { view: 'logs', label: 'Logs' },
+      { view: 'audit', label: 'Audit' },
+    ] as const;
+
+    return html`
+      <div class="flex gap-1 flex-shrink-0">
+        ${tabs.map(
+          (tab) => html`
+            <button
+              class="px-2 py-1 text-xs uppercase font-bold rounded transition-colors ${
+                this.view === tab.view
+                  ? 'bg-primary/20 text-primary border border-primary'
+                  : 'bg-bg-tertiary text-text-muted border border-border'
+              }"
+              @click=${() => this.switchView(tab.view)}
+            >
+              ${tab.label}
+            </button>
+          `
+        )}
+      </div>
+    `;
+  }
+
+  private renderAuditFilters(): TemplateResult {
+    return html`
+      <div class="flex-1 flex flex-wrap gap-2 items-center sm:justify-end">
+        <select
+          class="px-2 py-1.5 bg-bg border border-border rounded text-sm text-primary focus:outline-none focus:border-primary transition-colors"
+          .value=${this.auditAction}
+          @change=${(e: Event) => {
+            this.auditAction = (e.target as HTMLSelectElement).value as AuditAction | '';
+            this.loadAudit();
+          }}
+        >
+          <option value="">All actions</option>
+          ${AUDIT_ACTIONS.map((action) => html`<option value=${action}>${action}</option>`)}
+        </select>
+        <input
+          type="text"
+          class="px-3 py-1.5 bg-bg border border-border rounded text-sm text-primary placeholder-text-muted focus:outline-none focus:border-primary transition-colors flex-1 sm:flex-initial sm:w-40"
+          placeholder="User"
+          .value=${this.auditUser}
+          @change=${(e: Event) => {
+            this.auditUser = (e.target as HTMLInputElement).value;
+            this.loadAudit();
+          }}
+        />
+        <input
+          type="text"
+          class="px-3 py-1.5 bg-bg border border-border rounded text-sm text-primary placeholder-text-muted focus:outline-none focus:border-primary transition-colors flex-1 sm:flex-initial sm:w-64"
+          placeholder="Session ID"
+          .value=${this.auditSession}
+          @change=${(e: Event) => {
+            this.auditSession = (e.target as HTMLInputElement).value;
+            this.loadAudit();
+          }}
+        />
+      </div>
+    `;
+  }
+
+  private formatAuditDetails(entry: AuditEntry): string {
+    const parts = Object.entries(entry.details ?? {}).map(([key, value]) => `${key}=${value}`);
+    if (entry.source) parts.unshift(`via ${entry.source}`);
+    if (entry.remoteAddress) parts.push(`from ${entry.remoteAddress}`);
+    return parts.join(' ');
+  }
+
+  private renderAuditLog(): TemplateResult {
+    return html`
+      <div class="log-container flex-1 overflow-y-auto p-4 bg-bg font-mono text-xs leading-relaxed">
+        ${
+          this.auditError
+            ? html`
+              <div class="flex items-center justify-center h-full text-status-error">
+                ${this.auditError}
+              </div>
+            `
+            : this.auditEntries.length === 0
+              ? html`
+                <div class="flex items-center justify-center h-full text-text-muted">
+                  <div>No audit entries to display</div>
+                </div>
+              `
+              : this.auditEntries.map(
+                  (entry) => html`
+                  <div
+                    class="flex flex-wrap sm:flex-nowrap items-start gap-x-2 py-0.5 pl-2 rounded hover:bg-bg-secondary/50 transition-colors"
+                  >
+                    <span
+                      class="text-text-muted w-16 flex-shrink-0 opacity-50"
+                      title=${entry.timestamp}
+                      >${this.formatRelativeTime(entry.timestamp)}</span
+                    >
+                    <span
+                      class="w-36 flex-shrink-0 font-bold ${
+                        entry.action === 'auth.login_failed'
+                          ? 'text-status-error'
+                          : entry.action === 'session.kill'
+                            ? 'text-status-warning'
+                            : 'text-primary'
+                      }"
+                      >${entry.action}</span
+                    >
+                    <span class="w-40 flex-shrink-0 truncate text-primary"
+                      >${entry.userId || 'unknown'}<span class="text-text-muted">
+                        (${entry.authMethod || 'unknown'})</span
+                      ></span
+                    >
+                    <span class="w-24 flex-shrink-0 truncate text-text-muted" title=${entry.sessionId || ''}
+                      >${entry.sessionId ? entry.sessionId.slice(0, 8) : '—'}</span
+                    >
+                    <span class="flex-1 text-text-muted break-all">${this.formatAuditDetails(entry)}</span>
+                  </div>
+                `
+                )
+        }
+      </div>
+
+      <div
+        class="flex items-center justify-between p-3 bg-bg-secondary border-t border-border text-xs"
+      >
+        <div class="text-text-muted">${this.auditEntries.length} entries, newest first</div>
+      </div>
+    `;
+  }
+
   override render(): TemplateResult {
     // Add custom scrollbar styles
     const scrollbarStyles = html`
@@ -330,8 +500,10 @@ export class LogViewer extends LitElement {
                 <span>System Logs</span>
               </h1>
 
+              ${this.renderTabs()}
+
               <!-- Auto-scroll toggle (mobile position) -->
-              <div class="ml-auto">
+              <div class="ml-auto ${this.view === 'logs' ? '' : 'hidden'}">
                 <button
                   class="p-2 text-xs uppercase font-bold rounded transition-colors ${
                     this.autoScroll
@@ -358,7 +530,7 @@ export class LogViewer extends LitElement {
             </div>
 
             <!-- Filters row -->
-            <div class="flex flex-wrap gap-2">
+            <div class="flex flex-wrap gap-2 ${this.view === 'logs' ? '' : 'hidden'}">
               <!-- Search input -->
               <input
                 type="text"
@@ -436,6 +608,8 @@ export class LogViewer extends LitElement {
                 </div>
               </div>
             </div>
+
+            ${this.view === 'audit' ? this.renderAuditFilters() : ''}
           </div>
 
           <!-- Desktop layout (single row) -->
@@ -465,7 +639,13 @@ export class LogViewer extends LitElement {
               <span>System Logs</span>
             </h1>
 
-            <div class="flex-1 flex flex-wrap gap-2 items-center justify-end">
+            ${this.renderTabs()}
+
+            <div
+              class="flex-1 flex flex-wrap gap-2 items-center justify-end ${
+                this.view === 'logs' ? '' : 'hidden'
+              }"
+            >
               <!-- Search input -->
               <input
                 type="text"
@@ -543,12 +723,16 @@ export class LogViewer extends LitElement {
                 AUTO SCROLL
               </button>
             </div>
+
+            ${this.view === 'audit' ? this.renderAuditFilters() : ''}
           </div>
         </div>
 
         <!-- Log container -->
         <div
-          class="log-container flex-1 overflow-y-auto p-4 bg-bg font-mono text-xs leading-relaxed"
+          class="log-container flex-1 overflow-y-auto p-4 bg-bg font-mono text-xs leading-relaxed ${
+            this.view === 'logs' ? '' : 'hidden'
+          }"
         >
           ${
             this.filteredLogs.length === 0
@@ -708,7 +892,9 @@ export class LogViewer extends LitElement {
 
         <!-- Footer -->
         <div
-          class="flex items-center justify-between p-3 bg-bg-secondary border-t border-border text-xs"
+          class="flex items-center justify-between p-3 bg-bg-secondary border-t border-border text-xs ${
+            this.view === 'logs' ? '' : 'hidden'
+          }"
         >
           <div class="text-text-muted">
             ${this.filteredLogs.length} / ${this.logs.length} logs
@@ -729,6 +915,8 @@ export class LogViewer extends LitElement {
             </button>
           </div>
         </div>
+
+        ${this.view === 'audit' ? this.renderAuditLog() : ''}
       </div>
     `;
   }
@@ -2,7 +2,9 @@
  * Quick Start Editor Component
  *
  * Inline editor for managing quick start commands within the session create dialog.
- * Allows adding, editing, removing, and reordering quick start commands.
+ * Allows adding, editing, removing, and reordering quick start commands. Each
+ * command can be expanded to edit its template options (working directory,
+ * environment, title mode, terminal size, setup script and git worktree).
  *
  * @fires quick-start-changed - When commands are modified (detail: QuickStartCommand[])
  * @fires cancel - When editing is cancelled
@@ -14,6 +16,23 @@ import { createLogger } from '../utils/logger.js';
 
 const _logger = createLogger('quick-start-editor');
 
+const ENV_LINE_PATTERN = /^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/;
+
+function formatEnv(env: Record<string, string> | undefined): string {
+  return Object.entries(env ?? {})
+    .map(([key, value]) => `${key}=${value}`)
+    .join('\n');
+}
+
+function parseEnv(text: string): Record<string, string> | undefined {
+  const env: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const match = line.trim().match(ENV_LINE_PATTERN);
+    if (match) env[match[1]] = match[2];
+  }
+  return Object.keys(env).length > 0 ? env : undefined;
+}
+
 @customElement('quick-start-editor')
 export class QuickStartEditor extends LitElement {
   // Disable shadow DOM to use Tailwind
@@ -26,6 +45,7 @@ export class QuickStartEditor extends LitElement {
 
   @state() private editableCommands: QuickStartCommand[] = [];
   @state() private draggedIndex: number | null = null;
+  @state() private expandedIndex: number | null = null;
 
   connectedCallback() {
     super.connectedCallback();
@@ -103,6 +123,20 @@ export class QuickStartEditor extends LitElement {
     this.requestUpdate();
   }
 
+  private handleTemplateChange(index: number, changes: Partial<QuickStartCommand>) {
+    const updated: QuickStartCommand = { ...this.editableCommands[index], ...changes };
+    // Drop cleared options so the saved config only lists what is set
+    for (const key of Object.keys(changes) as (keyof QuickStartCommand)[]) {
+      if (updated[key] === undefined) delete updated[key];
+    }
+    this.editableCommands = [...this.editableCommands];
+    this.editableCommands[index] = updated;
+  }
+
+  private handleToggleOptions(index: number) {
+    this.expandedIndex = this.expandedIndex === index ? null : index;
+  }
+
   private handleAddCommand() {
     this.editableCommands = [...this.editableCommands, { command: '' }];
     this.requestUpdate();
@@ -122,6 +156,7 @@ export class QuickStartEditor extends LitElement {
 
   private handleRemoveCommand(index: number) {
     this.editableCommands = this.editableCommands.filter((_, i) => i !== index);
+    this.expandedIndex = null;
     this.requestUpdate();
   }
 
@@ -166,9 +201,161 @@ export class QuickStartEditor extends LitElement {
     commands.splice(adjustedIndex, 0, draggedCommand);
 
     this.editableCommands = commands;
+    this.expandedIndex = null;
     this.requestUpdate();
   }
 
+  private renderTemplateOptions(cmd: QuickStartCommand, index: number) {
+    const inputClass =
+      'w-full bg-bg-secondary border border-border/30 rounded px-2 py-1 text-[10px] text-text font-mono focus:border-primary focus:outline-none';
+    const labelClass = 'block text-[10px] text-text-muted mb-0.5';
+    const toNumber = (value: string) =>
+      value ? Number.parseInt(value, 10) || undefined : undefined;
+
+    return html`
+      <div
+        id=${`quick-start-options-${index}`}
+        class="grid grid-cols-2 gap-2 mt-2 pt-2 border-t border-border/30 cursor-default"
+        draggable="false"
+        @dragstart=${(e: DragEvent) => {
+          e.preventDefault();
+          e.stopPropagation();
+        }}
+      >
+        <div class="col-span-2">
+          <label class=${labelClass}>Working directory</label>
+          <input
+            type="text"
+            .value=${cmd.workingDir || ''}
+            @input=${(e: Event) =>
+              this.handleTemplateChange(index, {
+                workingDir: (e.target as HTMLInputElement).value.trim() || undefined,
+              })}
+            placeholder="Use the form's directory"
+            class=${inputClass}
+          />
+        </div>
+        <div class="col-span-2">
+          <label class=${labelClass}>Environment (one KEY=value per line)</label>
+          <textarea
+            rows="2"
+            .value=${formatEnv(cmd.env)}
+            @change=${(e: Event) =>
+              this.handleTemplateChange(index, {
+                env: parseEnv((e.target as HTMLTextAreaElement).value),
+              })}
+            placeholder="NODE_ENV=development"
+            class=${inputClass}
+          ></textarea>
+        </div>
+        <div class="col-span-2">
+          <label class=${labelClass}>Setup script (runs in sh before the command)</label>
+          <textarea
+            rows="2"
+            .value=${cmd.preCommand || ''}
+            @input=${(e: Event) =>
+              this.handleTemplateChange(index, {
+                preCommand: (e.target as HTMLTextAreaElement).value || undefined,
+              })}
+            placeholder=". .venv/bin/activate"
+            class=${inputClass}
+          ></textarea>
+        </div>
+        <div>
+          <label class=${labelClass}>Title mode</label>
+          <select
+            @change=${(e: Event) => {
+              const value = (e.target as HTMLSelectElement).value;
+              this.handleTemplateChange(index, {
+                titleMode: (value || undefined) as QuickStartCommand['titleMode'],
+              });
+            }}
+            class=${inputClass}
+          >
+            <option value="" ?selected=${!cmd.titleMode}>Form default</option>
+            <option value="none" ?selected=${cmd.titleMode === 'none'}>None</option>
+            <option value="filter" ?selected=${cmd.titleMode === 'filter'}>Filter</option>
+            <option value="static" ?selected=${cmd.titleMode === 'static'}>Static</option>
+          </select>
+        </div>
+        <div>
+          <label class=${labelClass}>Size (cols × rows)</label>
+          <div class="flex items-center gap-1">
+            <input
+              type="number"
+              min="1"
+              .value=${cmd.cols ? String(cmd.cols) : ''}
+              @input=${(e: Event) =>
+                this.handleTemplateChange(index, {
+                  cols: toNumber((e.target as HTMLInputElement).value),
+                })}
+              placeholder="120"
+              class=${inputClass}
+            />
+            <span class="text-text-muted text-[10px]">×</span>
+            <input
+              type="number"
+              min="1"
+              .value=${cmd.rows ? String(cmd.rows) : ''}
+              @input=${(e: Event) =>
+                this.handleTemplateChange(index, {
+                  rows: toNumber((e.target as HTMLInputElement).value),
+                })}
+              placeholder="30"
+              class=${inputClass}
+            />
+          </div>
+        </div>
+        <div class="col-span-2 flex items-center gap-2">
+          <label class="flex items-center gap-1 text-[10px] text-text-muted whitespace-nowrap">
+            <input
+              id=${`quick-start-worktree-toggle-${index}`}
+              type="checkbox"
+              .checked=${!!cmd.gitWorktree}
+              @change=${(e: Event) =>
+                this.handleTemplateChange(index, {
+                  gitWorktree: (e.target as HTMLInputElement).checked ? {} : undefined,
+                })}
+            />
+            New git worktree
+          </label>
+          ${
+            cmd.gitWorktree
+              ? html`
+                <input
+                  type="text"
+                  .value=${cmd.gitWorktree.branchPrefix || ''}
+                  @input=${(e: Event) =>
+                    this.handleTemplateChange(index, {
+                      gitWorktree: {
+                        ...cmd.gitWorktree,
+                        branchPrefix: (e.target as HTMLInputElement).value.trim() || undefined,
+                      },
+                    })}
+                  placeholder="Branch prefix"
+                  class=${inputClass}
+                />
+                <input
+                  type="text"
+                  .value=${cmd.gitWorktree.baseBranch || ''}
+                  @input=${(e: Event) =>
+                    this.handleTemplateChange(index, {
+                      gitWorktree: {
+                        ...cmd.gitWorktree,
+                        baseBranch: (e.target as HTMLInputElement).value.trim() || undefined,
+                      },
+                    })}
+                  placeholder="Base branch (HEAD)"
+                  class=${inputClass}
+                />
+              `
+              : ''
+          }
+        </div>
+      </div>
+    `;
+  }
+
   render() {
     if (!this.editing) {
       return html`
@@ -209,7 +396,7 @@ export class QuickStartEditor extends LitElement {
           </div>
         </div>
         
-        <div class="space-y-2 max-h-48 overflow-y-auto">
+        <div class="space-y-2 ${this.expandedIndex === null ? 'max-h-48' : 'max-h-96'} overflow-y-auto">
           ${this.editableCommands.map(
             (cmd, index) => html`
             <div 
@@ -219,41 +406,57 @@ export class QuickStartEditor extends LitElement {
               @dragend=${this.handleDragEnd}
               @dragover=${this.handleDragOver}
               @drop=${(e: DragEvent) => this.handleDrop(e, index)}
-              class="flex items-center gap-2 p-2 bg-bg-secondary/50 border border-border/30 rounded-lg cursor-move hover:border-border/50 transition-colors duration-200"
+              class="p-2 bg-bg-secondary/50 border border-border/30 rounded-lg cursor-move hover:border-border/50 transition-colors duration-200"
             >
-              <svg class="w-3 h-3 text-text-muted flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
-                <path d="M10 6a2 2 0 110-4 2 2 0 010 4zM10 12a2 2 0 110-4 2 2 0 010 4zM10 18a2 2 0 110-4 2 2 0 010 4z" />
-              </svg>
+              <div class="flex items-center gap-2">
+                <svg class="w-3 h-3 text-text-muted flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+                  <path d="M10 6a2 2 0 110-4 2 2 0 010 4zM10 12a2 2 0 110-4 2 2 0 010 4zM10 18a2 2 0 110-4 2 2 0 010 4z" />
+                </svg>
               
-              <input
-                id=${`quick-start-name-input-${index}`}
-                type="text"
-                .value=${cmd.name || ''}
-                @input=${(e: Event) => this.handleNameChange(index, (e.target as HTMLInputElement).value)}
-                placeholder="Display name (optional)"
-                class="flex-1 min-w-0 bg-bg-secondary border border-border/30 rounded px-2 py-1 text-[10px] text-text focus:border-primary focus:outline-none"
-              />
+                <input
+                  id=${`quick-start-name-input-${index}`}
+                  type="text"
+                  .value=${cmd.name || ''}
+                  @input=${(e: Event) => this.handleNameChange(index, (e.target as HTMLInputElement).value)}
+                  placeholder="Display name (optional)"
+                  class="flex-1 min-w-0 bg-bg-secondary border border-border/30 rounded px-2 py-1 text-[10px] text-text focus:border-primary focus:outline-none"
+                />
               
-              <input
-                id=${`quick-start-command-input-${index}`}
-                type="text"
-                .value=${cmd.command}
-                @input=${(e: Event) => this.handleCommandChange(index, (e.target as HTMLInputElement).value)}
-                placeholder="Command"
-                data-command-input
-                class="flex-1 min-w-0 bg-bg-secondary border border-border/30 rounded px-2 py-1 text-[10px] text-text font-mono focus:border-primary focus:outline-none"
-              />
+                <input
+                  id=${`quick-start-command-input-${index}`}
+                  type="text"
+                  .value=${cmd.command}
+                  @input=${(e: Event) => this.handleCommandChange(index, (e.target as HTMLInputElement).value)}
+                  placeholder="Command"
+                  data-command-input
+                  class="flex-1 min-w-0 bg-bg-secondary border border-border/30 rounded px-2 py-1 text-[10px] text-text font-mono focus:border-primary focus:outline-none"
+                />
               
-              <button
-                id=${`quick-start-remove-command-${index}`}
-                @click=${() => this.handleRemoveCommand(index)}
-                class="text-text-muted hover:text-error transition-colors duration-200 p-1"
-                title="Remove command"
-              >
-                <svg class="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M6 18L18 6M6 6l12 12" />
-                </svg>
-              </button>
+                <button
+                  id=${`quick-start-options-toggle-${index}`}
+                  @click=${() => this.handleToggleOptions(index)}
+                  class="${
+                    this.expandedIndex === index ? 'text-primary' : 'text-text-muted'
+                  } hover:text-primary transition-colors duration-200 p-1"
+                  title="Template options"
+                >
+                  <svg class="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" />
+                  </svg>
+                </button>
+
+                <button
+                  id=${`quick-start-remove-command-${index}`}
+                  @click=${() => this.handleRemoveCommand(index)}
+                  class="text-text-muted hover:text-error transition-colors duration-200 p-1"
+                  title="Remove command"
+                >
+                  <svg class="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+              ${this.expandedIndex === index ? this.renderTemplateOptions(cmd, index) : ''}
             </div>
           `
           )}
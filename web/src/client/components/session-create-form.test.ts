@@ -1255,9 +1255,17 @@ describe('SessionCreateForm', () => {
 
       // Check commands were loaded
       expect(element.quickStartCommands).toEqual([
-        { label: '✨ claude', command: 'claude' },
-        { label: 'zsh', command: 'zsh' },
-        { label: '▶️ pnpm run dev', command: 'pnpm run dev' },
+        {
+          label: '✨ claude',
+          command: 'claude',
+          template: { name: '✨ claude', command: 'claude' },
+        },
+        { label: 'zsh', command: 'zsh', template: { command: 'zsh' } },
+        {
+          label: '▶️ pnpm run dev',
+          command: 'pnpm run dev',
+          template: { name: '▶️ pnpm run dev', command: 'pnpm run dev' },
+        },
       ]);
     });
 
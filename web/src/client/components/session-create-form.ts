@@ -25,6 +25,7 @@ import { TitleMode } from '../../shared/types.js';
 import type { QuickStartCommand } from '../../types/config.js';
 import type { AuthClient } from '../services/auth-client.js';
 import { type GitRepoInfo, GitService } from '../services/git-service.js';
+import { type RemoteInfo, RemoteService } from '../services/remote-service.js';
 import { RepositoryService } from '../services/repository-service.js';
 import { ServerConfigService } from '../services/server-config-service.js';
 import { type SessionCreateData, SessionService } from '../services/session-service.js';
@@ -69,6 +70,8 @@ export class SessionCreateForm extends LitElement {
   @property({ type: Object }) authClient!: AuthClient;
   @property({ type: Boolean }) spawnWindow = false;
   @property({ type: String }) titleMode = TitleMode.STATIC;
+  // HQ mode: remote to create the session on; empty for this server
+  @property({ type: String }) remoteId = '';
 
   @state() private isCreating = false;
   @state() private showFileBrowser = false;
@@ -80,6 +83,7 @@ export class SessionCreateForm extends LitElement {
   @state() private selectedCompletionIndex = -1;
   @state() private isLoadingCompletions = false;
   @state() private gitRepoInfo: GitRepoInfo | null = null;
+  @state() private remotes: RemoteInfo[] = [];
   @state() private availableBranches: string[] = [];
 
   // New properties for split branch/worktree selectors
@@ -108,6 +112,7 @@ export class SessionCreateForm extends LitElement {
   // State properties for UI
   // biome-ignore lint/correctness/noUnusedPrivateClassMembers: Used in template
   @state() private selectedQuickStart = '';
+  private selectedTemplate: QuickStartCommand | null = null;
   // biome-ignore lint/correctness/noUnusedPrivateClassMembers: Used in discoverDirectories method
   @state() private isDiscovering = false;
   // biome-ignore lint/correctness/noUnusedPrivateClassMembers: Used in checkGitEnabled method
@@ -122,6 +127,7 @@ export class SessionCreateForm extends LitElement {
   private sessionService?: SessionService;
   private serverConfigService?: ServerConfigService;
   private gitService?: GitService;
+  private remoteService?: RemoteService;
 
   async connectedCallback() {
     super.connectedCallback();
@@ -134,6 +140,7 @@ export class SessionCreateForm extends LitElement {
       this.repositoryService = new RepositoryService(this.authClient, this.serverConfigService);
       this.sessionService = new SessionService(this.authClient);
       this.gitService = new GitService(this.authClient);
+      this.remoteService = new RemoteService(this.authClient);
     }
     // Load from localStorage when component is first created
     await this.loadFromLocalStorage();
@@ -249,6 +256,7 @@ export class SessionCreateForm extends LitElement {
         this.quickStartCommands = quickStartCommands.map((cmd: QuickStartCommand) => ({
           label: cmd.name || cmd.command,
           command: cmd.command,
+          template: cmd,
         }));
         logger.debug('Loaded quick start commands from server:', this.quickStartCommands);
       }
@@ -273,6 +281,7 @@ export class SessionCreateForm extends LitElement {
       this.quickStartCommands = commands.map((cmd: QuickStartCommand) => ({
         label: cmd.name || cmd.command,
         command: cmd.command,
+        template: cmd,
       }));
       logger.debug('Updated quick start commands:', this.quickStartCommands);
     } catch (error) {
@@ -319,6 +328,9 @@ export class SessionCreateForm extends LitElement {
       if (!this.gitService) {
         this.gitService = new GitService(this.authClient);
       }
+      if (!this.remoteService) {
+        this.remoteService = new RemoteService(this.authClient);
+      }
       // Update autocomplete manager's authClient
       this.autocompleteManager.setAuthClient(this.authClient);
       // Update server config service's authClient
@@ -362,6 +374,9 @@ export class SessionCreateForm extends LitElement {
 
         // Discover repositories
         this.discoverRepositories();
+
+        // Offer the remotes as hosts when running as HQ
+        this.loadRemotes();
       } else {
         // Remove global keyboard listener when hidden
         document.removeEventListener('keydown', this.handleGlobalKeyDown);
@@ -500,6 +515,9 @@ export class SessionCreateForm extends LitElement {
       spawn_terminal: effectiveSpawnTerminal,
       titleMode: this.titleMode,
     };
+    if (this.remoteId) {
+      sessionData.remoteId = this.remoteId;
+    }
 
     // Add Git information if available
     if (this.gitRepoInfo?.isGitRepo && this.gitRepoInfo.repoPath && effectiveBranch) {
@@ -520,6 +538,18 @@ export class SessionCreateForm extends LitElement {
       sessionData.name = this.sessionName.trim();
     }
 
+    // Apply the selected quick start template unless the command was edited afterwards
+    const template = this.selectedTemplate;
+    if (template && template.command === this.command?.trim()) {
+      if (template.env) sessionData.env = template.env;
+      if (template.preCommand?.trim()) sessionData.preCommand = template.preCommand;
+      if (template.gitWorktree) sessionData.gitWorktree = template.gitWorktree;
+      if (!effectiveSpawnTerminal && template.cols && template.rows) {
+        sessionData.cols = template.cols;
+        sessionData.rows = template.rows;
+      }
+    }
+
     // Handle follow mode - only enable when a worktree is selected
     if (
       this.showFollowMode &&
@@ -541,7 +571,8 @@ export class SessionCreateForm extends LitElement {
         const success = await enableFollowMode(
           this.gitRepoInfo.repoPath,
           effectiveBranch,
-          this.authClient
+          this.authClient,
+          this.remoteId || undefined
         );
 
         if (!success) {
@@ -629,9 +660,19 @@ export class SessionCreateForm extends LitElement {
   }
 
   private handleQuickStartSelected(e: CustomEvent) {
-    const command = e.detail.command;
+    const { command, template } = e.detail as { command: string; template?: QuickStartCommand };
     this.command = command;
     this.selectedQuickStart = command;
+    this.selectedTemplate = template ?? null;
+
+    // Visible options are copied into the form so they can still be adjusted
+    if (template?.workingDir) {
+      this.workingDir = template.workingDir;
+      this.checkGitRepository();
+    }
+    if (template?.titleMode) {
+      this.titleMode = template.titleMode as TitleMode;
+    }
   }
 
   private handleBranchChanged(e: CustomEvent) {
@@ -785,7 +826,10 @@ export class SessionCreateForm extends LitElement {
 
     try {
       // Use the autocomplete manager to fetch completions
-      this.completions = await this.autocompleteManager.fetchCompletions(path);
+      this.completions = await this.autocompleteManager.fetchCompletions(
+        path,
+        this.remoteId || undefined
+      );
       this.showCompletions = this.completions.length > 0;
       // Auto-select the first item when completions are shown
       this.selectedCompletionIndex = this.completions.length > 0 ? 0 : -1;
@@ -853,7 +897,7 @@ export class SessionCreateForm extends LitElement {
 
     this.isCheckingGit = true;
     try {
-      const repoInfo = await this.gitService.checkGitRepo(path);
+      const repoInfo = await this.gitService.checkGitRepo(path, this.remoteId || undefined);
       logger.log(`✅ Git check result:`, repoInfo);
 
       if (repoInfo.isGitRepo && repoInfo.repoPath) {
@@ -905,7 +949,11 @@ export class SessionCreateForm extends LitElement {
 
     this.isLoadingBranches = true;
     try {
-      const { branches, currentBranch } = await loadBranches(repoPath, this.authClient);
+      const { branches, currentBranch } = await loadBranches(
+        repoPath,
+        this.authClient,
+        this.remoteId || undefined
+      );
       this.availableBranches = branches;
 
       if (currentBranch) {
@@ -926,7 +974,7 @@ export class SessionCreateForm extends LitElement {
 
     this.isLoadingWorktrees = true;
     try {
-      const response = await this.gitService.listWorktrees(repoPath);
+      const response = await this.gitService.listWorktrees(repoPath, this.remoteId || undefined);
       this.availableWorktrees = response.worktrees.map((wt) => ({
         // Strip refs/heads/ prefix for display
         branch: wt.branch.replace(/^refs\/heads\//, ''),
@@ -1000,7 +1048,8 @@ export class SessionCreateForm extends LitElement {
     try {
       const { followMode: mode, followBranch: branch } = await checkFollowMode(
         repoPath,
-        this.authClient
+        this.authClient,
+        this.remoteId || undefined
       );
       this.followMode = mode;
       this.followBranch = branch;
@@ -1013,6 +1062,56 @@ export class SessionCreateForm extends LitElement {
     }
   }
 
+  private async loadRemotes() {
+    if (!this.remoteService) return;
+    try {
+      this.remotes = (await this.remoteService.listRemotes()) ?? [];
+    } catch (error) {
+      logger.warn('failed to load remotes:', error);
+      this.remotes = [];
+    }
+  }
+
+  private handleHostChange(e: Event) {
+    this.remoteId = (e.target as HTMLSelectElement).value;
+    // Paths and repositories belong to the selected host
+    this.completions = [];
+    this.showCompletions = false;
+    this.checkGitRepository();
+  }
+
+  private renderHostPicker() {
+    if (this.remotes.length === 0) {
+      return nothing;
+    }
+
+    return html`
+      <div class="mb-2 sm:mb-3">
+        <label class="form-label text-text-muted text-[10px] sm:text-xs lg:text-sm">Host:</label>
+        <select
+          class="input-field py-1.5 sm:py-2 lg:py-3 text-xs sm:text-sm"
+          .value=${this.remoteId}
+          @change=${this.handleHostChange}
+          ?disabled=${this.disabled || this.isCreating}
+          data-testid="host-select"
+        >
+          <option value="" ?selected=${!this.remoteId}>Local (this server)</option>
+          ${this.remotes.map(
+            (remote) => html`
+              <option
+                value=${remote.id}
+                ?selected=${remote.id === this.remoteId}
+                ?disabled=${remote.status !== 'online'}
+              >
+                ${remote.name}${remote.status === 'online' ? '' : ' (offline)'}
+              </option>
+            `
+          )}
+        </select>
+      </div>
+    `;
+  }
+
   render() {
     if (!this.visible) {
       return html``;
@@ -1070,6 +1169,9 @@ export class SessionCreateForm extends LitElement {
                 : nothing
             }
             
+            <!-- Host (HQ mode) -->
+            ${this.renderHostPicker()}
+
             <!-- Session Name -->
             <div class="mb-2 sm:mb-3">
               <label class="form-label text-text-muted text-[10px] sm:text-xs lg:text-sm">Session Name (Optional):</label>
@@ -1252,7 +1354,7 @@ export class SessionCreateForm extends LitElement {
       <file-browser
         .visible=${this.showFileBrowser}
         .mode=${'select'}
-        .session=${{ workingDir: this.workingDir } as Session}
+        .session=${{ workingDir: this.workingDir, remoteId: this.remoteId || undefined } as Session}
         @directory-selected=${this.handleDirectorySelected}
         @browser-cancel=${this.handleBrowserCancel}
       ></file-browser>
@@ -8,6 +8,13 @@ import { createLogger } from '../../utils/logger.js';
 
 const logger = createLogger('git-utils');
 
+// In HQ mode, repositories of another host are reached by passing its remoteId
+function withRemote(params: Record<string, string>, remoteId?: string): URLSearchParams {
+  const query = new URLSearchParams(params);
+  if (remoteId) query.set('remoteId', remoteId);
+  return query;
+}
+
 export interface BranchInfo {
   name: string;
   current: boolean;
@@ -15,11 +22,12 @@ export interface BranchInfo {
 
 export async function loadBranches(
   repoPath: string,
-  authClient: AuthClient
+  authClient: AuthClient,
+  remoteId?: string
 ): Promise<{ branches: string[]; currentBranch: string | null }> {
   try {
     const response = await fetch(
-      `/api/repositories/branches?${new URLSearchParams({ path: repoPath })}`,
+      `/api/repositories/branches?${withRemote({ path: repoPath }, remoteId)}`,
       {
         headers: authClient.getAuthHeader(),
       }
@@ -43,10 +51,11 @@ export async function loadBranches(
 
 export async function checkFollowMode(
   repoPath: string,
-  authClient: AuthClient
+  authClient: AuthClient,
+  remoteId?: string
 ): Promise<{ followMode: boolean; followBranch: string | null }> {
   try {
-    const response = await fetch(`/api/worktrees?${new URLSearchParams({ repoPath })}`, {
+    const response = await fetch(`/api/worktrees?${withRemote({ repoPath }, remoteId)}`, {
       headers: authClient.getAuthHeader(),
     });
 
@@ -69,10 +78,12 @@ export async function checkFollowMode(
 export async function enableFollowMode(
   repoPath: string,
   branch: string,
-  authClient: AuthClient
+  authClient: AuthClient,
+  remoteId?: string
 ): Promise<boolean> {
   try {
-    const response = await fetch('/api/worktrees/follow', {
+    const query = remoteId ? `?${withRemote({}, remoteId)}` : '';
+    const response = await fetch(`/api/worktrees/follow${query}`, {
       method: HttpMethod.POST,
       headers: {
         ...authClient.getAuthHeader(),
@@ -12,6 +12,7 @@ import '../quick-start-editor.js';
 export interface QuickStartItem {
   label: string;
   command: string;
+  template?: QuickStartCommand; // Full template with cwd, env, etc. when loaded from config
 }
 
 @customElement('quick-start-section')
@@ -28,10 +29,10 @@ export class QuickStartSection extends LitElement {
 
   @state() private editMode = false;
 
-  private handleQuickStartClick(command: string) {
+  private handleQuickStartClick(item: QuickStartItem) {
     this.dispatchEvent(
       new CustomEvent('quick-start-selected', {
-        detail: { command },
+        detail: { command: item.command, template: item.template },
         bubbles: true,
         composed: true,
       })
@@ -52,6 +53,16 @@ export class QuickStartSection extends LitElement {
     this.editMode = e.detail.editing;
   }
 
+  private getEditorCommands(): QuickStartCommand[] {
+    return this.commands.map(
+      (cmd) =>
+        cmd.template ?? {
+          name: cmd.label === cmd.command ? undefined : cmd.label,
+          command: cmd.command,
+        }
+    );
+  }
+
   render() {
     return html`
       <div class="${this.editMode ? 'mt-3 sm:mt-4 mb-3 sm:mb-4' : 'mb-3 sm:mb-4'}">
@@ -61,10 +72,7 @@ export class QuickStartSection extends LitElement {
             <!-- Full width editor when in edit mode -->
             <div class="-mx-3 sm:-mx-4 lg:-mx-6">
               <quick-start-editor
-                .commands=${this.commands.map((cmd) => ({
-                  name: cmd.label === cmd.command ? undefined : cmd.label,
-                  command: cmd.command,
-                }))}
+                .commands=${this.getEditorCommands()}
                 .editing=${true}
                 @quick-start-changed=${this.handleQuickStartChanged}
                 @editing-changed=${this.handleEditingChanged}
@@ -78,10 +86,7 @@ export class QuickStartSection extends LitElement {
                 Quick Start
               </label>
               <quick-start-editor
-                .commands=${this.commands.map((cmd) => ({
-                  name: cmd.label === cmd.command ? undefined : cmd.label,
-                  command: cmd.command,
-                }))}
+                .commands=${this.getEditorCommands()}
                 .editing=${false}
                 @quick-start-changed=${this.handleQuickStartChanged}
                 @editing-changed=${this.handleEditingChanged}
@@ -94,18 +99,18 @@ export class QuickStartSection extends LitElement {
             ? html`
             <div class="grid grid-cols-2 gap-2 sm:gap-2.5 lg:gap-3 mt-1.5 sm:mt-2">
               ${this.commands.map(
-                ({ label, command }) => html`
+                (item) => html`
                   <button
-                    @click=${() => this.handleQuickStartClick(command)}
+                    @click=${() => this.handleQuickStartClick(item)}
                     class="${
-                      this.selectedCommand === command
+                      this.selectedCommand === item.command
                         ? 'px-2 py-1.5 sm:px-3 sm:py-2 lg:px-4 lg:py-3 rounded-lg border text-left transition-all bg-primary/10 border-primary/50 text-primary hover:bg-primary/20 font-medium text-[10px] sm:text-xs lg:text-sm'
                         : 'px-2 py-1.5 sm:px-3 sm:py-2 lg:px-4 lg:py-3 rounded-lg border text-left transition-all bg-bg-elevated border-border/50 text-text hover:bg-hover hover:border-primary/50 hover:text-primary text-[10px] sm:text-xs lg:text-sm'
                     }"
                     ?disabled=${this.disabled || this.isCreating}
                     type="button"
                   >
-                    ${label}
+                    ${item.label}
                   </button>
                 `
               )}
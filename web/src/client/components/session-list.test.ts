@@ -567,4 +567,79 @@ describe('SessionList', () => {
       expect(cleanupButton).toBeTruthy();
     });
   });
+
+  describe('host grouping', () => {
+    const remote = {
+      id: 'remote-1',
+      name: 'build-box',
+      url: 'http://build-box:4020',
+      connection: 'direct',
+      status: 'offline',
+      registeredAt: '2025-01-17T10:00:00.000Z',
+      lastHeartbeat: '2025-01-17T10:15:00.000Z',
+      sessionIds: ['remote-session'],
+      history: [
+        { status: 'offline', at: '2025-01-17T10:16:00.000Z', reason: 'health check failed' },
+      ],
+    };
+
+    beforeEach(async () => {
+      element.remove();
+      global.fetch = vi.fn((url: string) =>
+        Promise.resolve(
+          new Response(JSON.stringify(String(url).includes('/api/remotes') ? [remote] : {}), {
+            status: 200,
+          })
+        )
+      ) as typeof fetch;
+
+      element = await fixture<SessionList>(html`
+        <session-list
+          .authClient=${mockAuthClient}
+          .sessions=${[
+            createMockSession({ id: 'local-session', status: 'running' }),
+            createMockSession({
+              id: 'remote-session',
+              status: 'running',
+              source: 'remote',
+              remoteId: 'remote-1',
+              remoteName: 'build-box',
+            }),
+          ]}
+        ></session-list>
+      `);
+      await vi.waitFor(() =>
+        expect(element.querySelector('[data-testid="host-filter"]')).toBeTruthy()
+      );
+    });
+
+    it('groups sessions by host with health and create shortcuts', async () => {
+      const localGroup = element.querySelector('[data-testid="host-group-local"]');
+      const remoteGroup = element.querySelector('[data-testid="host-group-remote-1"]');
+      expect(localGroup?.querySelectorAll('session-card')).toHaveLength(1);
+      expect(remoteGroup?.textContent).toContain('build-box');
+      expect(remoteGroup?.querySelectorAll('session-card')).toHaveLength(1);
+
+      const health = element.querySelector('[data-testid="host-health-remote-1"]');
+      expect(health?.getAttribute('title')).toContain('health check failed');
+      // Offline hosts can't take new sessions
+      const createOnRemote = element.querySelector(
+        '[data-testid="create-on-host-remote-1"]'
+      ) as HTMLButtonElement;
+      expect(createOnRemote.disabled).toBe(true);
+
+      const openCreate = vi.fn();
+      element.addEventListener('open-create-dialog', openCreate);
+      (element.querySelector('[data-testid="create-on-host-local"]') as HTMLButtonElement).click();
+      expect(openCreate.mock.calls[0][0].detail).toEqual({ remoteId: undefined });
+    });
+
+    it('filters sessions by host', async () => {
+      (element.querySelector('[data-testid="host-filter-remote-1"]') as HTMLButtonElement).click();
+      await element.updateComplete;
+
+      const cards = getAllElements<SessionCard>(element, 'session-card');
+      expect(cards.map((card) => card.session.id)).toEqual(['remote-session']);
+    });
+  });
 });
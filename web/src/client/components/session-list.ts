@@ -2,7 +2,9 @@
  * Session List Component
  *
  * Displays a grid of session cards and manages the session creation modal.
- * Handles session filtering (hide/show exited) and cleanup operations.
+ * Handles session filtering (hide/show exited) and cleanup operations. On HQ
+ * servers, sessions are grouped and can be filtered by host, with each remote's
+ * health from HQ's checks.
  *
  * @fires navigate-to-session - When a session is selected (detail: { sessionId: string })
  * @fires refresh - When session list needs refreshing
@@ -11,6 +13,7 @@
  * @fires create-modal-close - When create modal should close
  * @fires hide-exited-change - When hide exited state changes (detail: boolean)
  * @fires kill-all-sessions - When all sessions should be killed
+ * @fires open-create-dialog - When a session should be created (detail: { workingDir?: string, remoteId?: string })
  *
  * @listens session-killed - From session-card when a session is killed
  * @listens session-kill-error - From session-card when kill fails
@@ -23,6 +26,7 @@ import type { Session, SplitGroup } from '../../shared/types.js';
 import { HttpMethod } from '../../shared/types.js';
 import type { AuthClient } from '../services/auth-client.js';
 import type { Worktree } from '../services/git-service.js';
+import { type RemoteInfo, RemoteService } from '../services/remote-service.js';
 import './session-card.js';
 import './inline-edit.js';
 import './session-list/compact-session-card.js';
@@ -31,12 +35,23 @@ import './session-list/repository-header.js';
 import './clickable-path.js';
 import './git-status-badge.js';
 import { getBaseRepoName } from '../../shared/utils/git.js';
+import { formatDuration, getDurationFromStart } from '../../shared/utils/time.js';
 import { Z_INDEX } from '../utils/constants.js';
 import { createLogger } from '../utils/logger.js';
 import { formatPathForDisplay } from '../utils/path-utils.js';
 
 const logger = createLogger('session-list');
 
+// Host keys for grouping and filtering; remote hosts use their remote ID
+const LOCAL_HOST_ID = 'local';
+const ALL_HOSTS_FILTER = 'all';
+// Matches the HQ health check interval
+const REMOTES_REFRESH_INTERVAL_MS = 15000;
+
+function getSessionHostId(session: Session): string {
+  return session.remoteId || LOCAL_HOST_ID;
+}
+
 @customElement('session-list')
 export class SessionList extends LitElement {
   // Disable shadow DOM to use Tailwind
@@ -61,6 +76,11 @@ export class SessionList extends LitElement {
   @state() private repoWorktrees = new Map<string, Worktree[]>();
   @state() private loadingWorktrees = new Set<string>();
   @state() private showWorktreeDropdown = new Map<string, boolean>();
+  @state() private remotes: RemoteInfo[] = [];
+  @state() private hostFilter = ALL_HOSTS_FILTER;
+
+  private remoteService?: RemoteService;
+  private remotesRefreshTimer?: ReturnType<typeof setInterval>;
 
   connectedCallback() {
     super.connectedCallback();
@@ -70,6 +90,9 @@ export class SessionList extends LitElement {
     this.addEventListener('keydown', this.handleKeyDown);
     // Add click outside listener for dropdowns
     document.addEventListener('click', this.handleClickOutside);
+    // On HQ servers, keep the remotes and their health current for host grouping
+    this.loadRemotes();
+    this.remotesRefreshTimer = setInterval(() => this.loadRemotes(), REMOTES_REFRESH_INTERVAL_MS);
   }
 
   updated(changedProperties: Map<string | number | symbol, unknown>) {
@@ -95,6 +118,7 @@ export class SessionList extends LitElement {
     super.disconnectedCallback();
     this.removeEventListener('keydown', this.handleKeyDown);
     document.removeEventListener('click', this.handleClickOutside);
+    this.stopRemotesRefresh();
   }
 
   private handleClickOutside = (e: MouseEvent) => {
@@ -120,8 +144,9 @@ export class SessionList extends LitElement {
   };
 
   private getVisibleSessions() {
-    const running = this.sessions.filter((s) => s.status === 'running' || s.status === 'starting');
-    const exited = this.sessions.filter((s) => s.status === 'exited');
+    const sessions = this.filterSessionsByHost(this.sessions);
+    const running = sessions.filter((s) => s.status === 'running' || s.status === 'starting');
+    const exited = sessions.filter((s) => s.status === 'exited');
     return this.hideExited ? running : running.concat(exited);
   }
 
@@ -743,35 +768,296 @@ export class SessionList extends LitElement {
     `;
   }
 
+  private filterSessionsByHost(sessions: Session[]): Session[] {
+    if (this.remotes.length === 0 || this.hostFilter === ALL_HOSTS_FILTER) return sessions;
+    return sessions.filter((session) => getSessionHostId(session) === this.hostFilter);
+  }
+
+  private groupSessionsByHost(sessions: Session[]): Map<string, Session[]> {
+    const groups = new Map<string, Session[]>();
+    for (const session of sessions) {
+      const hostId = getSessionHostId(session);
+      const group = groups.get(hostId);
+      if (group) {
+        group.push(session);
+      } else {
+        groups.set(hostId, [session]);
+      }
+    }
+
+    // Local sessions first, then remotes by name
+    return new Map(
+      Array.from(groups).sort(([a, aSessions], [b, bSessions]) => {
+        if (a === LOCAL_HOST_ID || b === LOCAL_HOST_ID) return a === LOCAL_HOST_ID ? -1 : 1;
+        return this.getHostName(a, aSessions[0]).localeCompare(this.getHostName(b, bSessions[0]));
+      })
+    );
+  }
+
+  private getHostName(hostId: string, session?: Session): string {
+    if (hostId === LOCAL_HOST_ID) return 'Local';
+    return this.remotes.find((r) => r.id === hostId)?.name ?? session?.remoteName ?? hostId;
+  }
+
+  private async loadRemotes() {
+    if (!this.authClient) return;
+    this.remoteService ??= new RemoteService(this.authClient);
+
+    try {
+      const remotes = await this.remoteService.listRemotes();
+      if (remotes === null) {
+        // Not an HQ server, nothing to group by
+        this.stopRemotesRefresh();
+        this.remotes = [];
+        return;
+      }
+      this.remotes = remotes;
+      if (
+        this.hostFilter !== ALL_HOSTS_FILTER &&
+        this.hostFilter !== LOCAL_HOST_ID &&
+        !remotes.some((r) => r.id === this.hostFilter)
+      ) {
+        this.hostFilter = ALL_HOSTS_FILTER;
+      }
+    } catch (error) {
+      logger.warn('failed to load remotes:', error);
+    }
+  }
+
+  private stopRemotesRefresh() {
+    if (this.remotesRefreshTimer) {
+      clearInterval(this.remotesRefreshTimer);
+      this.remotesRefreshTimer = undefined;
+    }
+  }
+
+  private setHostFilter(hostFilter: string) {
+    this.hostFilter = hostFilter;
+    this.selectedSessionId = null;
+  }
+
+  private createSessionOnHost(hostId: string) {
+    this.dispatchEvent(
+      new CustomEvent('open-create-dialog', {
+        detail: { remoteId: hostId === LOCAL_HOST_ID ? undefined : hostId },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private renderHealthIndicator(hostId: string) {
+    if (hostId === LOCAL_HOST_ID) {
+      return html`<span class="w-2 h-2 rounded-full bg-status-success flex-shrink-0" title="This server"></span>`;
+    }
+
+    const remote = this.remotes.find((r) => r.id === hostId);
+    if (!remote) {
+      return html`<span class="w-2 h-2 rounded-full bg-text-dim flex-shrink-0" title="Unknown remote"></span>`;
+    }
+
+    const lastChange = remote.history[remote.history.length - 1];
+    const title =
+      remote.status === 'online'
+        ? `Online · last health check ${formatDuration(getDurationFromStart(remote.lastHeartbeat))} ago`
+        : `Offline for ${formatDuration(getDurationFromStart(lastChange?.at ?? remote.lastHeartbeat))}${lastChange ? ` (${lastChange.reason})` : ''}`;
+    return html`
+      <span
+        class="w-2 h-2 rounded-full flex-shrink-0 ${remote.status === 'online' ? 'bg-status-success' : 'bg-status-error'}"
+        title=${title}
+        data-testid="host-health-${remote.id}"
+      ></span>
+    `;
+  }
+
+  private renderHostFilter() {
+    if (this.remotes.length === 0) return '';
+
+    const hostIds = [LOCAL_HOST_ID, ...this.remotes.map((r) => r.id)];
+    const chip = (hostFilter: string, label: string, indicator: unknown = '') => html`
+      <button
+        class="flex items-center gap-1.5 px-2 py-1 text-xs rounded-md border transition-colors ${
+          this.hostFilter === hostFilter
+            ? 'border-accent-primary bg-accent-primary/10 text-accent-primary'
+            : 'border-border bg-bg-secondary text-text-muted hover:bg-bg-tertiary'
+        }"
+        @click=${() => this.setHostFilter(hostFilter)}
+        data-testid="host-filter-${hostFilter}"
+      >
+        ${indicator}
+        <span>${label}</span>
+      </button>
+    `;
+
+    return html`
+      <div class="flex flex-wrap items-center gap-2 mb-4" data-testid="host-filter">
+        ${chip(ALL_HOSTS_FILTER, 'All hosts')}
+        ${hostIds.map((hostId) => chip(hostId, this.getHostName(hostId), this.renderHealthIndicator(hostId)))}
+      </div>
+    `;
+  }
+
+  private renderHostHeader(hostId: string, sessions: Session[]) {
+    const remote = this.remotes.find((r) => r.id === hostId);
+    const isOffline = hostId !== LOCAL_HOST_ID && remote?.status !== 'online';
+
+    return html`
+      <div class="flex items-center justify-between gap-2 mb-3 pb-1 border-b border-border">
+        <div class="flex items-center gap-2 min-w-0">
+          ${this.renderHealthIndicator(hostId)}
+          <span class="text-sm font-semibold text-text truncate">
+            ${this.getHostName(hostId, sessions[0])}
+          </span>
+          ${
+            remote?.connection === 'tunnel'
+              ? html`<span class="text-[10px] px-1.5 py-0.5 bg-bg-secondary text-text-muted rounded">tunnel</span>`
+              : ''
+          }
+          <span class="text-xs text-text-dim">(${sessions.length})</span>
+        </div>
+        <button
+          class="p-1 rounded hover:bg-bg-tertiary text-text-muted hover:text-text transition-colors disabled:opacity-50"
+          @click=${() => this.createSessionOnHost(hostId)}
+          ?disabled=${isOffline}
+          title=${isOffline ? 'Host is offline' : `Create session on ${this.getHostName(hostId, sessions[0])}`}
+          data-testid="create-on-host-${hostId}"
+        >
+          <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M12 4v16m8-8H4" />
+          </svg>
+        </button>
+      </div>
+    `;
+  }
+
+  private renderSessionGroups(
+    sessions: Session[],
+    sectionType: 'running' | 'exited',
+    counter: { value: number }
+  ) {
+    // Group by host first when talking to an HQ with remotes
+    if (this.remotes.length === 0 || this.hostFilter !== ALL_HOSTS_FILTER) {
+      return this.renderRepoGroups(sessions, sectionType, counter);
+    }
+
+    return Array.from(this.groupSessionsByHost(sessions)).map(
+      ([hostId, hostSessions]) => html`
+        <div class="mb-6" data-testid="host-group-${hostId}">
+          ${this.renderHostHeader(hostId, hostSessions)}
+          ${this.renderRepoGroups(hostSessions, sectionType, counter)}
+        </div>
+      `
+    );
+  }
+
+  private renderRepoGroups(
+    sessions: Session[],
+    sectionType: 'running' | 'exited',
+    counter: { value: number }
+  ) {
+    return Array.from(this.groupSessionsByRepo(sessions)).map(
+      ([repoPath, repoSessions]) => html`
+        <div class="${repoPath ? 'mb-6 mt-6' : 'mb-4'}">
+          ${
+            repoPath
+              ? html`
+                <repository-header
+                  .repoPath=${repoPath}
+                  .followMode=${this.repoFollowMode.get(repoPath)}
+                  .followModeSelector=${this.renderFollowModeSelector(repoPath, sectionType)}
+                  .worktreeSelector=${this.renderWorktreeSelector(repoPath, sectionType)}
+                ></repository-header>
+              `
+              : ''
+          }
+          <div class="${this.compactMode ? '' : 'session-flex-responsive'} relative">
+            ${repeat(
+              repoSessions,
+              (session) => session.id,
+              (session) => this.renderSessionCard(session, sectionType, ++counter.value)
+            )}
+          </div>
+        </div>
+      `
+    );
+  }
+
+  private renderSessionCard(
+    session: Session,
+    sectionType: 'running' | 'exited',
+    sessionNumber: number
+  ) {
+    if (!this.compactMode) {
+      return html`
+        <!-- Full session card for main view -->
+        <session-card
+          .session=${session}
+          .authClient=${this.authClient}
+          .selected=${session.id === this.selectedSessionId}
+          @session-select=${this.handleSessionSelect}
+          @session-killed=${this.handleSessionKilled}
+          @session-kill-error=${this.handleSessionKillError}
+          @session-renamed=${this.handleSessionRenamed}
+          @session-rename-error=${this.handleSessionRenameError}
+        >
+        </session-card>
+      `;
+    }
+
+    return sectionType === 'running'
+      ? html`
+        <compact-session-card
+          .session=${session}
+          .authClient=${this.authClient}
+          .selected=${session.id === this.selectedSessionId}
+          .sessionType=${'running'}
+          .sessionNumber=${sessionNumber}
+          @session-select=${this.handleSessionSelect}
+          @session-rename=${this.handleSessionRenamed}
+          @session-delete=${this.handleSessionKilled}
+        ></compact-session-card>
+      `
+      : html`
+        <compact-session-card
+          .session=${session}
+          .authClient=${this.authClient}
+          .selected=${session.id === this.selectedSessionId}
+          .sessionType=${'exited'}
+          .sessionNumber=${sessionNumber}
+          @session-select=${this.handleSessionSelect}
+          @session-cleanup=${this.handleSessionKilled}
+        ></compact-session-card>
+      `;
+  }
+
   render() {
     // Resolve split session objects from IDs
-    const splitLeft =
-      this.splitSessionIds.length === 2
-        ? this.sessions.find((s) => s.id === this.splitSessionIds[0])
-        : undefined;
-    const splitRight =
-      this.splitSessionIds.length === 2
-        ? this.sessions.find((s) => s.id === this.splitSessionIds[1])
-        : undefined;
-    const isSplitActive = !!splitLeft && !!splitRight;
+    const splitSessions = this.splitSessionIds
+      .map((id) => this.sessions.find((s) => s.id === id))
+      .filter((s): s is Session => !!s);
+    const isSplitActive =
+      this.splitSessionIds.length > 1 && splitSessions.length === this.splitSessionIds.length;
 
     // Filter split sessions out of the normal list when in compact mode
     const splitIdSet = new Set(this.splitSessionIds);
 
     // Collect session IDs that are part of persisted split groups (filter from both modes)
     const persistedGroupSessionIds = new Set<string>();
+    const groupSessions = new Map<string, Session[]>();
     for (const group of this.splitGroups) {
-      const leftExists = this.sessions.some((s) => s.id === group.sessionIds[0]);
-      const rightExists = this.sessions.some((s) => s.id === group.sessionIds[1]);
-      if (leftExists && rightExists) {
-        persistedGroupSessionIds.add(group.sessionIds[0]);
-        persistedGroupSessionIds.add(group.sessionIds[1]);
+      const sessions = group.sessionIds
+        .map((id) => this.sessions.find((s) => s.id === id))
+        .filter((s): s is Session => !!s);
+      if (sessions.length > 1 && sessions.length === group.sessionIds.length) {
+        groupSessions.set(group.id, sessions);
+        for (const session of sessions) persistedGroupSessionIds.add(session.id);
       }
     }
 
+    const hostSessions = this.filterSessionsByHost(this.sessions);
     const filteredSessions = this.compactMode
-      ? this.sessions.filter((s) => !splitIdSet.has(s.id) && !persistedGroupSessionIds.has(s.id))
-      : this.sessions.filter((s) => !persistedGroupSessionIds.has(s.id));
+      ? hostSessions.filter((s) => !splitIdSet.has(s.id) && !persistedGroupSessionIds.has(s.id))
+      : hostSessions.filter((s) => !persistedGroupSessionIds.has(s.id));
 
     // Group sessions by status
     const runningSessions = filteredSessions.filter(
@@ -787,12 +1073,13 @@ export class SessionList extends LitElement {
     const hasPersistedGroups = persistedGroupSessionIds.size > 0;
 
     // Track session index for numbering
-    let sessionIndex = 0;
+    const sessionCounter = { value: 0 };
 
     return html`
       <div class="font-mono text-sm focus:outline-none focus:ring-2 focus:ring-accent-primary focus:ring-offset-2 focus:ring-offset-bg-primary rounded-lg" data-testid="session-list-container">
         ${this.renderActiveSessionInfo()}
         <div class="p-4 pt-5">
+        ${this.renderHostFilter()}
         ${
           !hasRunningSessions && (!hasExitedSessions || this.hideExited) && !hasPersistedGroups
             ? html`
@@ -800,8 +1087,20 @@ export class SessionList extends LitElement {
                 ${
                   this.loading
                     ? 'Loading sessions...'
-                    : this.hideExited && this.sessions.length > 0
+                    : this.remotes.length > 0 && this.hostFilter !== ALL_HOSTS_FILTER
                       ? html`
+                        <div class="space-y-4">
+                          <div>No ${this.hideExited ? 'running ' : ''}sessions on ${this.getHostName(this.hostFilter)}</div>
+                          <button
+                            class="font-mono text-xs px-3 py-1.5 rounded-md border border-accent-primary text-accent-primary hover:bg-accent-primary/10 transition-colors"
+                            @click=${() => this.createSessionOnHost(this.hostFilter)}
+                          >
+                            Create session on this host
+                          </button>
+                        </div>
+                      `
+                      : this.hideExited && this.sessions.length > 0
+                        ? html`
                         <div class="space-y-4 max-w-2xl mx-auto text-left">
                           <div class="text-lg font-semibold text-text">
                             No running sessions
@@ -811,7 +1110,7 @@ export class SessionList extends LitElement {
                           </div>
                         </div>
                       `
-                      : html`
+                        : html`
                         <div class="space-y-6 max-w-2xl mx-auto text-left">
                           <div class="text-lg font-semibold text-text">
                             No terminal sessions yet!
@@ -876,10 +1175,7 @@ export class SessionList extends LitElement {
                       <h3 class="text-xs font-semibold text-accent-primary uppercase tracking-wider mb-2">
                         Split View
                       </h3>
-                      <split-group-card
-                        .leftSession=${splitLeft}
-                        .rightSession=${splitRight}
-                      ></split-group-card>
+                      <split-group-card .sessions=${splitSessions}></split-group-card>
                     </div>
                   `
                   : ''
@@ -890,25 +1186,16 @@ export class SessionList extends LitElement {
                   ? html`
                     <div class="mb-6 mt-2">
                       <h3 class="text-xs font-semibold text-accent-primary uppercase tracking-wider mb-4">
-                        Split Groups <span class="text-text-dim">(${
-                          this.splitGroups.filter((g) =>
-                            persistedGroupSessionIds.has(g.sessionIds[0])
-                          ).length
-                        })</span>
+                        Split Groups <span class="text-text-dim">(${groupSessions.size})</span>
                       </h3>
                       <div class="${this.compactMode ? '' : 'session-flex-responsive'}">
                         ${this.splitGroups.map((group) => {
-                          const leftSession = this.sessions.find(
-                            (s) => s.id === group.sessionIds[0]
-                          );
-                          const rightSession = this.sessions.find(
-                            (s) => s.id === group.sessionIds[1]
-                          );
-                          if (!leftSession || !rightSession) return html``;
+                          const sessions = groupSessions.get(group.id);
+                          if (!sessions) return html``;
                           return html`
                             <split-group-card
-                              .leftSession=${leftSession}
-                              .rightSession=${rightSession}
+                              .sessions=${sessions}
+                              .layout=${group.layout ?? ''}
                               .mode=${'persisted'}
                               .groupId=${group.id}
                             ></split-group-card>
@@ -927,64 +1214,7 @@ export class SessionList extends LitElement {
                       <h3 class="text-xs font-semibold text-text-muted uppercase tracking-wider mb-4">
                         Running <span class="text-text-dim">(${runningSessions.length})</span>
                       </h3>
-                      ${Array.from(this.groupSessionsByRepo(runningSessions)).map(
-                        ([repoPath, repoSessions]) => html`
-                          <div class="${repoPath ? 'mb-6 mt-6' : 'mb-4'}">
-                            ${
-                              repoPath
-                                ? html`
-                                  <repository-header
-                                    .repoPath=${repoPath}
-                                    .followMode=${this.repoFollowMode.get(repoPath)}
-                                    .followModeSelector=${this.renderFollowModeSelector(repoPath, 'running')}
-                                    .worktreeSelector=${this.renderWorktreeSelector(repoPath, 'running')}
-                                  ></repository-header>
-                                `
-                                : ''
-                            }
-                            <div class="${this.compactMode ? '' : 'session-flex-responsive'} relative">
-                              ${repeat(
-                                repoSessions,
-                                (session) => session.id,
-                                (session) => {
-                                  const currentIndex = ++sessionIndex;
-                                  return html`
-                    ${
-                      this.compactMode
-                        ? html`
-                          <compact-session-card
-                            .session=${session}
-                            .authClient=${this.authClient}
-                            .selected=${session.id === this.selectedSessionId}
-                            .sessionType=${'running'}
-                            .sessionNumber=${currentIndex}
-                            @session-select=${this.handleSessionSelect}
-                            @session-rename=${this.handleSessionRenamed}
-                            @session-delete=${this.handleSessionKilled}
-                          ></compact-session-card>
-                        `
-                        : html`
-                          <!-- Full session card for main view -->
-                          <session-card
-                            .session=${session}
-                            .authClient=${this.authClient}
-                            .selected=${session.id === this.selectedSessionId}
-                            @session-select=${this.handleSessionSelect}
-                            @session-killed=${this.handleSessionKilled}
-                            @session-kill-error=${this.handleSessionKillError}
-                            @session-renamed=${this.handleSessionRenamed}
-                            @session-rename-error=${this.handleSessionRenameError}
-                          >
-                          </session-card>
-                        `
-                    }
-                  `;
-                                }
-                              )}
-                            </div>
-                          </div>
-                        `
-                      )}
+                      ${this.renderSessionGroups(runningSessions, 'running', sessionCounter)}
                     </div>
                   `
                   : ''
@@ -998,63 +1228,7 @@ export class SessionList extends LitElement {
                       <h3 class="text-xs font-semibold text-text-muted uppercase tracking-wider mb-4">
                         Exited <span class="text-text-dim">(${exitedSessions.length})</span>
                       </h3>
-                      ${Array.from(this.groupSessionsByRepo(exitedSessions)).map(
-                        ([repoPath, repoSessions]) => html`
-                          <div class="${repoPath ? 'mb-6 mt-6' : 'mb-4'}">
-                            ${
-                              repoPath
-                                ? html`
-                                  <repository-header
-                                    .repoPath=${repoPath}
-                                    .followMode=${this.repoFollowMode.get(repoPath)}
-                                    .followModeSelector=${this.renderFollowModeSelector(repoPath, 'exited')}
-                                    .worktreeSelector=${this.renderWorktreeSelector(repoPath, 'exited')}
-                                  ></repository-header>
-                                `
-                                : ''
-                            }
-                            <div class="${this.compactMode ? '' : 'session-flex-responsive'} relative">
-                              ${repeat(
-                                repoSessions,
-                                (session) => session.id,
-                                (session) => {
-                                  const currentIndex = ++sessionIndex;
-                                  return html`
-                            ${
-                              this.compactMode
-                                ? html`
-                                  <compact-session-card
-                                    .session=${session}
-                                    .authClient=${this.authClient}
-                                    .selected=${session.id === this.selectedSessionId}
-                                    .sessionType=${'exited'}
-                                    .sessionNumber=${currentIndex}
-                                    @session-select=${this.handleSessionSelect}
-                                    @session-cleanup=${this.handleSessionKilled}
-                                  ></compact-session-card>
-                                `
-                                : html`
-                                  <!-- Full session card for main view -->
-                                  <session-card
-                                    .session=${session}
-                                    .authClient=${this.authClient}
-                                    .selected=${session.id === this.selectedSessionId}
-                                    @session-select=${this.handleSessionSelect}
-                                    @session-killed=${this.handleSessionKilled}
-                                    @session-kill-error=${this.handleSessionKillError}
-                                    @session-renamed=${this.handleSessionRenamed}
-                                    @session-rename-error=${this.handleSessionRenameError}
-                                          >
-                                  </session-card>
-                                `
-                            }
-                          `;
-                                }
-                              )}
-                            </div>
-                          </div>
-                        `
-                      )}
+                      ${this.renderSessionGroups(exitedSessions, 'exited', sessionCounter)}
                     </div>
                   `
                   : ''
@@ -1,10 +1,11 @@
 /**
  * Split Group Card Component
  *
- * Displays a grouped card showing two sessions that are in split view.
+ * Displays a grouped card showing the sessions that are in split view.
  * Supports two modes:
- * - 'active': Compact sidebar view with session names and unsplit button (original behavior)
- * - 'persisted': Home screen card with two terminal previews side by side (iTerm2 style)
+ * - 'active': Compact sidebar view with session names and unsplit button (original behavior).
+ *   Names can be dragged onto a split pane to rearrange the layout.
+ * - 'persisted': Home screen card with terminal previews arranged like the split (iTerm2 style)
  *
  * @fires unsplit - When the user wants to exit split mode (detail: { sessionId: string })
  * @fires split-session-focus - When the user clicks a session name to focus it (detail: { sessionId: string })
@@ -13,6 +14,12 @@
 import { html, LitElement } from 'lit';
 import { customElement, property } from 'lit/decorators.js';
 import type { Session } from '../../../shared/types.js';
+import {
+  computePaneRects,
+  createGridLayout,
+  type PaneRect,
+  parseSplitLayout,
+} from '../../../shared/utils/split-layout.js';
 import { createLogger } from '../../utils/logger.js';
 import '../vibe-terminal-buffer.js';
 
@@ -25,31 +32,29 @@ export class SplitGroupCard extends LitElement {
     return this;
   }
 
-  @property({ type: Object }) leftSession!: Session;
-  @property({ type: Object }) rightSession!: Session;
+  // Sessions in layout reading order
+  @property({ type: Array }) sessions: Session[] = [];
+  // Serialized split layout; sessions are shown side by side if missing
+  @property({ type: String }) layout = '';
   @property({ type: String }) mode: 'active' | 'persisted' = 'active';
   @property({ type: String }) groupId = '';
 
-  private handleClickLeft() {
-    logger.debug(`Focus left session: ${this.leftSession.id}`);
+  private handleClickSession(session: Session) {
+    logger.debug(`Focus session: ${session.id}`);
     this.dispatchEvent(
       new CustomEvent('split-session-focus', {
-        detail: { sessionId: this.leftSession.id },
+        detail: { sessionId: session.id },
         bubbles: true,
         composed: true,
       })
     );
   }
 
-  private handleClickRight() {
-    logger.debug(`Focus right session: ${this.rightSession.id}`);
-    this.dispatchEvent(
-      new CustomEvent('split-session-focus', {
-        detail: { sessionId: this.rightSession.id },
-        bubbles: true,
-        composed: true,
-      })
-    );
+  private handleDragStart(e: DragEvent, session: Session) {
+    if (!e.dataTransfer) return;
+    e.dataTransfer.setData('application/vt-session-id', session.id);
+    e.dataTransfer.effectAllowed = 'move';
+    logger.debug(`Drag started for split session ${session.id}`);
   }
 
   private handleUnsplit(e: Event) {
@@ -57,7 +62,7 @@ export class SplitGroupCard extends LitElement {
     logger.log('Unsplit requested');
     this.dispatchEvent(
       new CustomEvent('unsplit', {
-        detail: { sessionId: this.leftSession.id },
+        detail: { sessionId: this.sessions[0]?.id },
         bubbles: true,
         composed: true,
       })
@@ -82,10 +87,14 @@ export class SplitGroupCard extends LitElement {
     );
   }
 
-  private renderActiveMode() {
-    const leftName = this.getDisplayName(this.leftSession);
-    const rightName = this.getDisplayName(this.rightSession);
+  private getPaneRects(): Map<string, PaneRect> {
+    const layout =
+      (this.layout && parseSplitLayout(this.layout)) ||
+      createGridLayout(this.sessions.map((s) => s.id));
+    return layout ? computePaneRects(layout) : new Map();
+  }
 
+  private renderActiveMode() {
     return html`
       <div
         class="group flex items-center gap-2 p-3 rounded-lg bg-accent-primary/10 border border-accent-primary/30 shadow-card-hover"
@@ -99,26 +108,22 @@ export class SplitGroupCard extends LitElement {
           </svg>
         </div>
 
-        <!-- Left session name -->
-        <button
-          class="flex-1 min-w-0 text-xs font-mono text-accent-primary truncate text-left hover:underline cursor-pointer"
-          title="${leftName} - Click to focus"
-          @click=${this.handleClickLeft}
-        >
-          ${leftName}
-        </button>
-
-        <!-- Divider -->
-        <div class="w-px h-4 bg-accent-primary/30 flex-shrink-0"></div>
-
-        <!-- Right session name -->
-        <button
-          class="flex-1 min-w-0 text-xs font-mono text-accent-primary truncate text-left hover:underline cursor-pointer"
-          title="${rightName} - Click to focus"
-          @click=${this.handleClickRight}
-        >
-          ${rightName}
-        </button>
+        <!-- Session names, separated by dividers -->
+        ${this.sessions.map((session, index) => {
+          const name = this.getDisplayName(session);
+          return html`
+            ${index > 0 ? html`<div class="w-px h-4 bg-accent-primary/30 flex-shrink-0"></div>` : ''}
+            <button
+              class="flex-1 min-w-0 text-xs font-mono text-accent-primary truncate text-left hover:underline cursor-pointer"
+              title="${name} - Click to focus, drag onto a pane to move"
+              draggable="true"
+              @click=${() => this.handleClickSession(session)}
+              @dragstart=${(e: DragEvent) => this.handleDragStart(e, session)}
+            >
+              ${name}
+            </button>
+          `;
+        })}
 
         <!-- Unsplit button -->
         <button
@@ -136,8 +141,7 @@ export class SplitGroupCard extends LitElement {
   }
 
   private renderPersistedMode() {
-    const leftName = this.getDisplayName(this.leftSession);
-    const rightName = this.getDisplayName(this.rightSession);
+    const rects = this.getPaneRects();
 
     return html`
       <div
@@ -154,32 +158,33 @@ export class SplitGroupCard extends LitElement {
               <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M9 17V7m0 10a2 2 0 01-2 2H5a2 2 0 01-2-2V7a2 2 0 012-2h2a2 2 0 012 2m0 10a2 2 0 002 2h2a2 2 0 002-2M9 7a2 2 0 012-2h2a2 2 0 012 2m0 10V7"/>
             </svg>
           </div>
-          <span class="text-xs font-mono text-accent-primary truncate flex-1">${leftName}</span>
-          <div class="w-px h-3 bg-accent-primary/30 flex-shrink-0"></div>
-          <span class="text-xs font-mono text-accent-primary truncate flex-1">${rightName}</span>
+          ${this.sessions.map(
+            (session, index) => html`
+              ${index > 0 ? html`<div class="w-px h-3 bg-accent-primary/30 flex-shrink-0"></div>` : ''}
+              <span class="text-xs font-mono text-accent-primary truncate flex-1">${this.getDisplayName(session)}</span>
+            `
+          )}
         </div>
 
-        <!-- Terminal preview area: two terminals side by side -->
-        <div class="flex" style="height: 160px;">
-          <!-- Left terminal preview -->
-          <div class="flex-1 overflow-hidden relative" style="border-right: 1px solid rgb(var(--color-border));">
-            <vibe-terminal-buffer
-              .sessionId=${this.leftSession.id}
-              .theme=${'auto'}
-              class="w-full h-full"
-              style="pointer-events: none;"
-            ></vibe-terminal-buffer>
-          </div>
-
-          <!-- Right terminal preview -->
-          <div class="flex-1 overflow-hidden relative">
-            <vibe-terminal-buffer
-              .sessionId=${this.rightSession.id}
-              .theme=${'auto'}
-              class="w-full h-full"
-              style="pointer-events: none;"
-            ></vibe-terminal-buffer>
-          </div>
+        <!-- Terminal preview area: terminals arranged like the split layout -->
+        <div class="relative" style="height: 160px;">
+          ${this.sessions.map((session) => {
+            const rect = rects.get(session.id);
+            if (!rect) return '';
+            return html`
+              <div
+                class="absolute overflow-hidden"
+                style="left: ${rect.x * 100}%; top: ${rect.y * 100}%; width: ${rect.width * 100}%; height: ${rect.height * 100}%; box-shadow: inset -1px -1px 0 rgb(var(--color-border));"
+              >
+                <vibe-terminal-buffer
+                  .sessionId=${session.id}
+                  .theme=${'auto'}
+                  class="w-full h-full"
+                  style="pointer-events: none;"
+                ></vibe-terminal-buffer>
+              </div>
+            `;
+          })}
         </div>
 
         <!-- Footer with status -->
@@ -197,15 +202,14 @@ export class SplitGroupCard extends LitElement {
   }
 
   private getGroupStatusColor(): string {
-    const leftRunning = this.leftSession.status === 'running';
-    const rightRunning = this.rightSession.status === 'running';
-    if (leftRunning && rightRunning) return 'bg-status-success';
-    if (leftRunning || rightRunning) return 'bg-status-warning';
+    const running = this.sessions.filter((s) => s.status === 'running').length;
+    if (running === this.sessions.length) return 'bg-status-success';
+    if (running > 0) return 'bg-status-warning';
     return 'bg-status-error';
   }
 
   render() {
-    if (!this.leftSession || !this.rightSession) return html``;
+    if (this.sessions.length < 2) return html``;
 
     if (this.mode === 'persisted') {
       return this.renderPersistedMode();
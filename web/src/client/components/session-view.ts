@@ -14,14 +14,16 @@
  * @listens browser-cancel - From file browser when cancelled
  */
 import { html, LitElement, type PropertyValues } from 'lit';
-import { customElement, property } from 'lit/decorators.js';
-import type { Session } from '../../shared/types.js';
+import { customElement, property, state } from 'lit/decorators.js';
+import type { Session, SessionPresence } from '../../shared/types.js';
+import type { WsV3ControlAction } from '../../shared/ws-v3.js';
 import './clickable-path.js';
 import './session-view/session-header.js';
 import './worktree-manager.js';
 import './terminal-chat-view.js';
 import { authClient } from '../services/auth-client.js';
 import { GitService } from '../services/git-service.js';
+import { terminalSocketClient } from '../services/terminal-socket-client.js';
 import { Z_INDEX } from '../utils/constants.js';
 import { createLogger } from '../utils/logger.js';
 import { TERMINAL_IDS } from '../utils/terminal-constants.js';
@@ -50,6 +52,7 @@ import { UIStateManager } from './session-view/ui-state-manager.js';
 // Components
 import './session-view/terminal-renderer.js';
 import './session-view/overlays-container.js';
+import './session-view/session-playback.js';
 import './mobile-action-bar.js';
 import type { Terminal } from './terminal.js';
 
@@ -77,6 +80,9 @@ export class SessionView extends LitElement {
   @property({ type: Boolean }) keyboardCaptureActive = true;
   @property({ type: Boolean }) containedMode = false;
 
+  @state() private presence: SessionPresence | null = null;
+  @state() private playbackActive = false;
+
   // Managers
   private connectionManager!: ConnectionManager;
   private inputManager!: InputManager;
@@ -145,7 +151,7 @@ export class SessionView extends LitElement {
       removeEventListener: (event: string, handler: EventListener) =>
         this.removeEventListener(event, handler),
       focus: () => this.focus(),
-      getDisableFocusManagement: () => this.disableFocusManagement,
+      getDisableFocusManagement: () => this.disableFocusManagement || this.playbackActive,
       startLoading: () => this.loadingAnimationManager.startLoading(() => this.requestUpdate()),
       stopLoading: () => this.loadingAnimationManager.stopLoading(),
       setKeyboardHeight: (value: number) => {
@@ -288,6 +294,11 @@ export class SessionView extends LitElement {
       this.handleTerminalOutput(data);
     });
 
+    this.connectionManager.setOnPresenceUpdate((presence: SessionPresence) => {
+      if (presence.sessionId !== this.session?.id) return;
+      this.presence = presence;
+    });
+
     // Set connected state in UI state manager
     this.uiStateManager.setConnected(true);
 
@@ -309,7 +320,7 @@ export class SessionView extends LitElement {
     // Set up callbacks for direct keyboard manager
     const directKeyboardCallbacks: DirectKeyboardCallbacks = {
       getShowCtrlAlpha: () => this.uiStateManager.getState().showCtrlAlpha,
-      getDisableFocusManagement: () => this.disableFocusManagement,
+      getDisableFocusManagement: () => this.disableFocusManagement || this.playbackActive,
       getVisualViewportHandler: () => {
         // Trigger the visual viewport handler if it exists
         if (this.lifecycleEventManager && window.visualViewport) {
@@ -481,6 +492,18 @@ export class SessionView extends LitElement {
     // Terminal setup will be triggered in updated() when session becomes available
   }
 
+  willUpdate(changedProperties: PropertyValues) {
+    super.willUpdate(changedProperties);
+
+    // Playback belongs to the session it was opened for
+    if (changedProperties.has('session')) {
+      const oldSession = changedProperties.get('session') as Session | null | undefined;
+      if (oldSession?.id !== this.session?.id) {
+        this.playbackActive = false;
+      }
+    }
+  }
+
   updated(changedProperties: Map<string, unknown>) {
     super.updated(changedProperties);
 
@@ -729,6 +752,16 @@ export class SessionView extends LitElement {
     }
   }
 
+  private handleOpenPlayback() {
+    // Release the hidden input so keystrokes go to the playback controls, not the session
+    this.directKeyboardManager.blurHiddenInput();
+    this.playbackActive = true;
+  }
+
+  private handleClosePlayback() {
+    this.playbackActive = false;
+  }
+
   private handleToggleChatMode() {
     const currentChatMode = this.uiStateManager.getState().chatMode;
     const enteringChatMode = !currentChatMode;
@@ -1338,9 +1371,17 @@ export class SessionView extends LitElement {
             .macAppConnected=${uiState.macAppConnected}
             .onTerminateSession=${() => this.sessionActionsHandler.handleTerminateSession()}
             .onClearSession=${() => this.sessionActionsHandler.handleClearSession()}
+            .onOpenPlayback=${() => this.handleOpenPlayback()}
             .onToggleViewMode=${() => this.sessionActionsHandler.handleToggleViewMode()}
             .chatMode=${uiState.chatMode}
             .onToggleChatMode=${() => this.handleToggleChatMode()}
+            .presence=${this.presence?.sessionId === this.session?.id ? this.presence : null}
+            @control-action=${(
+              e: CustomEvent<{ action: WsV3ControlAction; clientId?: string }>
+            ) => {
+              if (!this.session) return;
+              terminalSocketClient.sendControl(this.session.id, e.detail.action, e.detail.clientId);
+            }}
             @close-width-selector=${() => {
               this.uiStateManager.setShowWidthSelector(false);
               this.uiStateManager.setCustomWidth('');
@@ -1402,6 +1443,7 @@ export class SessionView extends LitElement {
               <worktree-manager
                 .gitService=${this.gitService}
                 .repoPath=${this.session.gitRepoPath}
+                .remoteId=${this.session.remoteId}
                 @back=${() => {
                   this.uiStateManager.setViewMode('terminal');
                 }}
@@ -1440,6 +1482,18 @@ export class SessionView extends LitElement {
                   .subscribeToOutput=${(listener: (data: string) => void) => this.subscribeToTerminalOutput(listener)}
                   .getTerminalInputLine=${() => this.terminalLifecycleManager.getTerminal()?.getCurrentInputLine() ?? ''}
                 ></terminal-chat-view>
+                ${
+                  this.playbackActive
+                    ? html`
+                      <session-playback
+                        .session=${this.session}
+                        .terminalFontSize=${uiState.terminalFontSize}
+                        .terminalTheme=${uiState.terminalTheme}
+                        @close-playback=${() => this.handleClosePlayback()}
+                      ></session-playback>
+                    `
+                    : ''
+                }
               </div>
             `
                 : ''
@@ -30,6 +30,7 @@ export class CompactMenu extends LitElement {
   @property({ type: Boolean }) macAppConnected = false;
   @property({ type: Function }) onTerminateSession?: () => void;
   @property({ type: Function }) onClearSession?: () => void;
+  @property({ type: Function }) onOpenPlayback?: () => void;
   @property({ type: Boolean }) hasGitRepo = false;
   @property({ type: String }) viewMode: 'terminal' | 'worktree' = 'terminal';
   @property({ type: Function }) onToggleViewMode?: () => void;
@@ -357,6 +358,18 @@ export class CompactMenu extends LitElement {
           <div class="border-t border-border my-1"></div>
           
           <!-- Session Actions -->
+          <button
+            class="w-full text-left px-4 py-3 text-sm font-mono text-primary hover:bg-surface-hover hover:text-primary flex items-center gap-3 ${this.focusedIndex === menuItemIndex++ ? 'bg-surface-hover text-primary' : ''}"
+            @click=${() => this.handleAction(this.onOpenPlayback)}
+            data-testid="compact-playback"
+            tabindex="${this.showMenu ? '0' : '-1'}"
+          >
+            <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
+              <path d="M8 3.5a.5.5 0 0 0-1 0V9a.5.5 0 0 0 .252.434l3.5 2a.5.5 0 0 0 .496-.868L8 8.71V3.5z"/>
+              <path d="M8 16A8 8 0 1 0 8 0a8 8 0 0 0 0 16zm7-8A7 7 0 1 1 1 8a7 7 0 0 1 14 0z"/>
+            </svg>
+            Replay History
+          </button>
           ${
             this.session.status === 'running'
               ? html`
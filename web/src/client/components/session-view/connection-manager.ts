@@ -5,9 +5,10 @@
  * for terminal sessions.
  */
 
-import type { Session } from '../../../shared/types.js';
+import type { Session, SessionPresence } from '../../../shared/types.js';
 import { terminalSocketClient } from '../../services/terminal-socket-client.js';
 import { createLogger } from '../../utils/logger.js';
+import { renderSnapshotAsAnsi } from '../../utils/terminal-renderer.js';
 import type { Terminal } from '../terminal.js';
 
 const logger = createLogger('connection-manager');
@@ -21,6 +22,7 @@ export class ConnectionManager {
   private outputBuffer = '';
   private batchTimeout: number | null = null;
   private onTerminalOutput: ((data: string) => void) | null = null;
+  private onPresenceUpdate: ((presence: SessionPresence) => void) | null = null;
 
   constructor(
     private onSessionExit: (sessionId: string) => void,
@@ -31,6 +33,10 @@ export class ConnectionManager {
     this.onTerminalOutput = callback;
   }
 
+  setOnPresenceUpdate(callback: ((presence: SessionPresence) => void) | null): void {
+    this.onPresenceUpdate = callback;
+  }
+
   setTerminal(terminal: Terminal | null): void {
     this.terminal = terminal;
   }
@@ -85,6 +91,20 @@ export class ConnectionManager {
         }
         enqueue(chunk);
       },
+      onStdoutReset: () => {
+        // The server could not resume after a reconnect and replays the
+        // session from the start; reset the terminal so it isn't duplicated.
+        this.outputBuffer = '';
+        this.stdoutDecoder = new TextDecoder();
+        enqueue('\x1bc');
+      },
+      onStdoutSnapshot: (snapshot) => {
+        // The server drops output while this client is too slow and sends the
+        // current screen instead; anything still queued is outdated by it.
+        this.outputBuffer = '';
+        this.stdoutDecoder = new TextDecoder();
+        enqueue(renderSnapshotAsAnsi(snapshot));
+      },
       onEvent: (event) => {
         if (!this.session) return;
 
@@ -93,6 +113,8 @@ export class ConnectionManager {
           const e = event as {
             kind?: string;
             exitCode?: number;
+            congested?: boolean;
+            droppedBytes?: number;
             type?: string;
             sessionId?: string;
           } & Record<string, unknown>;
@@ -103,6 +125,22 @@ export class ConnectionManager {
             return;
           }
 
+          if (e.kind === 'backpressure') {
+            if (e.congested) {
+              logger.warn(`falling behind on session ${this.session.id}, showing snapshots`);
+            } else {
+              logger.log(
+                `caught up on session ${this.session.id} after ${e.droppedBytes} dropped bytes`
+              );
+            }
+            return;
+          }
+
+          if (e.kind === 'presence') {
+            this.onPresenceUpdate?.(e as unknown as SessionPresence);
+            return;
+          }
+
           if (e.type === 'git-status-update' && e.sessionId === this.session.id) {
             const updatedSession = {
               ...this.session,
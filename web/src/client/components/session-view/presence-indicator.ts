@@ -0,0 +1,158 @@
+/**
+ * Presence Indicator Component
+ *
+ * Shows how many clients are watching a session and who holds input control.
+ * Observers can request control; the driver can grant it to a requester or
+ * release it.
+ *
+ * @fires control-action - When the user requests, releases, grants or denies control
+ *                         (detail: { action: WsV3ControlAction, clientId?: string })
+ */
+import { html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import type { SessionPresence } from '../../../shared/types.js';
+import type { WsV3ControlAction } from '../../../shared/ws-v3.js';
+
+@customElement('presence-indicator')
+export class PresenceIndicator extends LitElement {
+  // Disable shadow DOM to use Tailwind
+  createRenderRoot() {
+    return this;
+  }
+
+  @property({ type: Object }) presence: SessionPresence | null = null;
+  @property({ type: Boolean }) readOnly = false;
+
+  @state() private showMenu = false;
+
+  private emitControl(action: WsV3ControlAction, clientId?: string) {
+    this.dispatchEvent(
+      new CustomEvent('control-action', {
+        detail: { action, clientId },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private viewerLabel(clientId: string): string {
+    const viewer = this.presence?.viewers.find((v) => v.clientId === clientId);
+    return viewer?.userId || `viewer ${clientId.slice(0, 6)}`;
+  }
+
+  private renderRequests(isDriver: boolean) {
+    const requests = this.presence?.pendingRequests ?? [];
+    if (!isDriver || requests.length === 0) return '';
+
+    return html`
+      <div class="border-t border-border pt-2 mt-2">
+        <div class="text-xs text-text-muted mb-1">Control requests</div>
+        ${requests.map(
+          (clientId) => html`
+            <div class="flex items-center gap-2 py-1">
+              <span class="flex-1 truncate text-text text-xs">${this.viewerLabel(clientId)}</span>
+              <button
+                class="px-2 py-0.5 text-xs bg-primary text-text-bright rounded hover:opacity-90"
+                @click=${() => this.emitControl('grant', clientId)}
+                data-testid="presence-grant-button"
+              >
+                Grant
+              </button>
+              <button
+                class="px-2 py-0.5 text-xs border border-border rounded hover:bg-surface-hover"
+                @click=${() => this.emitControl('deny', clientId)}
+              >
+                Deny
+              </button>
+            </div>
+          `
+        )}
+      </div>
+    `;
+  }
+
+  render() {
+    const presence = this.presence;
+    // Nothing interesting to show while the session has a single viewer.
+    if (!presence || presence.viewers.length < 2) {
+      return html``;
+    }
+
+    const isDriver = presence.driverClientId === presence.selfClientId;
+    const hasRequested = presence.pendingRequests.includes(presence.selfClientId);
+    const hasPendingRequests = isDriver && presence.pendingRequests.length > 0;
+
+    return html`
+      <div class="relative flex-shrink-0">
+        <button
+          class="bg-bg-tertiary border rounded-md px-2 py-1.5 text-xs font-mono transition-all duration-200 hover:bg-surface-hover flex items-center gap-1 ${
+            hasPendingRequests
+              ? 'border-status-warning text-status-warning'
+              : 'border-border text-primary'
+          }"
+          @click=${() => {
+            this.showMenu = !this.showMenu;
+          }}
+          title="${presence.viewers.length} viewers — you are ${isDriver ? 'driving' : 'observing'}"
+          data-testid="presence-indicator"
+        >
+          <svg width="14" height="14" viewBox="0 0 16 16" fill="currentColor">
+            <path d="M16 8s-3-5.5-8-5.5S0 8 0 8s3 5.5 8 5.5S16 8 16 8zM8 11a3 3 0 110-6 3 3 0 010 6z"/>
+          </svg>
+          ${presence.viewers.length}
+          <span class="hidden sm:inline">· ${isDriver ? 'Driver' : 'Observer'}</span>
+        </button>
+        ${
+          this.showMenu
+            ? html`
+              <div
+                class="absolute right-0 top-full mt-1 w-56 bg-surface border border-border rounded-lg shadow-xl p-3 z-50"
+              >
+                <div class="text-xs text-text-muted mb-2">
+                  ${
+                    presence.driverClientId
+                      ? isDriver
+                        ? 'You have input control.'
+                        : `${this.viewerLabel(presence.driverClientId)} has input control.`
+                      : 'Nobody is typing — the first keystroke takes control.'
+                  }
+                </div>
+                ${
+                  isDriver
+                    ? html`
+                      <button
+                        class="w-full px-2 py-1 text-xs border border-border rounded hover:bg-surface-hover"
+                        @click=${() => this.emitControl('release')}
+                        data-testid="presence-release-button"
+                      >
+                        Release control
+                      </button>
+                    `
+                    : this.readOnly
+                      ? ''
+                      : html`
+                      <button
+                        class="w-full px-2 py-1 text-xs bg-primary text-text-bright rounded hover:opacity-90 disabled:opacity-50"
+                        ?disabled=${hasRequested}
+                        @click=${() => this.emitControl('request')}
+                        data-testid="presence-request-button"
+                      >
+                        ${hasRequested ? 'Control requested…' : 'Request control'}
+                      </button>
+                    `
+                }
+                ${this.renderRequests(isDriver)}
+              </div>
+            `
+            : ''
+        }
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'presence-indicator': PresenceIndicator;
+  }
+}
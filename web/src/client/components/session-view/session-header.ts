@@ -6,7 +6,7 @@
  */
 import { html, LitElement } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
-import type { Session } from '../../../shared/types.js';
+import type { Session, SessionPresence } from '../../../shared/types.js';
 import '../clickable-path.js';
 import '../inline-edit.js';
 import '../notification-status.js';
@@ -18,7 +18,9 @@ import { createLogger } from '../../utils/logger.js';
 import './compact-menu.js';
 import '../theme-toggle-icon.js';
 import './image-upload-menu.js';
+import './presence-indicator.js';
 import './session-status-dropdown.js';
+import './share-dialog.js';
 
 const logger = createLogger('session-header');
 
@@ -54,13 +56,16 @@ export class SessionHeader extends LitElement {
   @property({ type: Boolean }) macAppConnected = false;
   @property({ type: Function }) onTerminateSession?: () => void;
   @property({ type: Function }) onClearSession?: () => void;
+  @property({ type: Function }) onOpenPlayback?: () => void;
   @property({ type: Boolean }) hasGitRepo = false;
   @property({ type: String }) viewMode: 'terminal' | 'worktree' = 'terminal';
   @property({ type: Function }) onToggleViewMode?: () => void;
   @property({ type: Boolean }) chatMode = false;
   @property({ type: Function }) onToggleChatMode?: () => void;
+  @property({ type: Object }) presence: SessionPresence | null = null;
   @state() private isHovered = false;
   @state() private useCompactMenu = false;
+  @state() private showShareDialog = false;
   private resizeObserver?: ResizeObserver;
 
   connectedCallback() {
@@ -356,6 +361,30 @@ export class SessionHeader extends LitElement {
                     <path d="M2.678 11.894a1 1 0 01.287.801 10.97 10.97 0 01-.398 2c1.395-.323 2.247-.697 2.634-.893a1 1 0 01.71-.074A8.06 8.06 0 008 14c3.996 0 7-2.807 7-6 0-3.192-3.004-6-7-6S1 4.808 1 8c0 1.468.617 2.83 1.678 3.894zm-.493 3.905a21.682 21.682 0 01-.713.129c-.2.032-.352-.176-.273-.362a9.68 9.68 0 00.244-.637l.003-.01c.248-.72.45-1.548.524-2.319C.743 11.37 0 9.76 0 8c0-3.866 3.582-7 8-7s8 3.134 8 7-3.582 7-8 7a9.06 9.06 0 01-2.347-.306c-.52.263-1.639.742-3.468 1.105z"/>
                   </svg>
                 </button>
+                <!-- Viewers and input control (shown when more than one client is watching) -->
+                <presence-indicator
+                  .presence=${this.presence}
+                  .readOnly=${!!authClient.getSharedSessionId()}
+                ></presence-indicator>
+                <!-- Share read-only link button (hidden when viewing through a share link) -->
+                ${
+                  authClient.getSharedSessionId()
+                    ? ''
+                    : html`
+                      <button
+                        class="bg-bg-tertiary border border-border rounded-md p-2 text-primary transition-all duration-200 hover:bg-surface-hover hover:border-primary flex-shrink-0"
+                        @click=${() => {
+                          this.showShareDialog = true;
+                        }}
+                        title="Share read-only link"
+                        data-testid="share-session-button-compact"
+                      >
+                        <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
+                          <path d="M11 2.5a2.5 2.5 0 11.603 1.628l-6.718 3.12a2.499 2.499 0 010 1.504l6.718 3.12a2.5 2.5 0 11-.488.876l-6.718-3.12a2.5 2.5 0 110-3.256l6.718-3.12A2.5 2.5 0 0111 2.5z"/>
+                        </svg>
+                      </button>
+                    `
+                }
                 <compact-menu
                   .session=${this.session}
                   .widthLabel=${this.widthLabel}
@@ -369,6 +398,7 @@ export class SessionHeader extends LitElement {
                   .macAppConnected=${this.macAppConnected}
                   .onTerminateSession=${this.onTerminateSession}
                   .onClearSession=${this.onClearSession}
+                  .onOpenPlayback=${this.onOpenPlayback}
                   .hasGitRepo=${this.hasGitRepo}
                   .viewMode=${this.viewMode}
                   .onToggleViewMode=${() => this.dispatchEvent(new CustomEvent('toggle-view-mode'))}
@@ -413,11 +443,37 @@ export class SessionHeader extends LitElement {
                   </svg>
                 </button>
 
+                <!-- Viewers and input control (shown when more than one client is watching) -->
+                <presence-indicator
+                  .presence=${this.presence}
+                  .readOnly=${!!authClient.getSharedSessionId()}
+                ></presence-indicator>
+                <!-- Share read-only link button (hidden when viewing through a share link) -->
+                ${
+                  authClient.getSharedSessionId()
+                    ? ''
+                    : html`
+                      <button
+                        class="bg-bg-tertiary border border-border rounded-md p-2 text-primary transition-all duration-200 hover:bg-surface-hover hover:border-primary flex-shrink-0"
+                        @click=${() => {
+                          this.showShareDialog = true;
+                        }}
+                        title="Share read-only link"
+                        data-testid="share-session-button"
+                      >
+                        <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
+                          <path d="M11 2.5a2.5 2.5 0 11.603 1.628l-6.718 3.12a2.499 2.499 0 010 1.504l6.718 3.12a2.5 2.5 0 11-.488.876l-6.718-3.12a2.5 2.5 0 110-3.256l6.718-3.12A2.5 2.5 0 0111 2.5z"/>
+                        </svg>
+                      </button>
+                    `
+                }
+
                 <!-- Status dropdown -->
                 <session-status-dropdown
                   .session=${this.session}
                   .onTerminate=${this.onTerminateSession}
                   .onClear=${this.onClearSession}
+                  .onOpenPlayback=${this.onOpenPlayback}
                 ></session-status-dropdown>
                 
                 <!-- Image Upload Menu -->
@@ -456,6 +512,13 @@ export class SessionHeader extends LitElement {
           }
         </div>
       </div>
+      <session-share-dialog
+        .sessionId=${this.session.id}
+        .visible=${this.showShareDialog}
+        @close=${() => {
+          this.showShareDialog = false;
+        }}
+      ></session-share-dialog>
     `;
   }
 
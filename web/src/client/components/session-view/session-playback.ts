@@ -0,0 +1,364 @@
+/**
+ * Session Playback Component
+ *
+ * Replays a session's recording in a separate terminal so the user can scrub
+ * back through output without disturbing the live stream. Works for running
+ * and exited sessions; markers added with `vt mark` or the markers API appear
+ * as ticks on the timeline and in a list that can be jumped to.
+ *
+ * @fires close-playback - When the user leaves playback mode
+ */
+import { html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import type { Session } from '../../../shared/types.js';
+import { authClient } from '../../services/auth-client.js';
+import {
+  type CastMarker,
+  type ConvertedCast,
+  collectPlaybackSteps,
+  convertCast,
+  getCastMarkers,
+} from '../../utils/cast-converter.js';
+import { createLogger } from '../../utils/logger.js';
+import type { TerminalThemeId } from '../../utils/terminal-themes.js';
+import type { Terminal } from '../terminal.js';
+import '../terminal.js';
+
+const logger = createLogger('session-playback');
+
+const SPEEDS = [0.5, 1, 2, 4, 8];
+// Markers closer than this to the playhead count as "current" when jumping
+const MARKER_EPSILON = 0.05;
+
+function formatTime(seconds: number): string {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+@customElement('session-playback')
+export class SessionPlayback extends LitElement {
+  // Disable shadow DOM to use Tailwind
+  createRenderRoot() {
+    return this;
+  }
+
+  @property({ type: Object }) session: Session | null = null;
+  @property({ type: Number }) terminalFontSize = 14;
+  @property({ type: String }) terminalTheme: TerminalThemeId = 'auto';
+
+  @state() private loading = false;
+  @state() private error = '';
+  @state() private duration = 0;
+  @state() private position = 0;
+  @state() private playing = false;
+  @state() private speed = 1;
+  @state() private markers: CastMarker[] = [];
+
+  private cast: ConvertedCast | null = null;
+  private eventIndex = 0;
+  private animationFrame: number | null = null;
+  private lastTick = 0;
+
+  connectedCallback() {
+    super.connectedCallback();
+    document.addEventListener('keydown', this.handleKeyDown);
+    void this.loadRecording();
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    document.removeEventListener('keydown', this.handleKeyDown);
+    this.pause();
+  }
+
+  updated(changedProperties: Map<string, unknown>) {
+    const oldSession = changedProperties.get('session') as Session | null | undefined;
+    if (oldSession && oldSession.id !== this.session?.id) {
+      this.pause();
+      void this.loadRecording();
+    }
+  }
+
+  /**
+   * Fetch the latest recording. Keeps the playhead where it was so running
+   * sessions can be refreshed without losing the user's place.
+   */
+  private async loadRecording() {
+    if (!this.session) return;
+    const keepPosition = this.cast !== null;
+    this.loading = true;
+    this.error = '';
+
+    try {
+      const response = await authClient.fetch(
+        `/api/sessions/${encodeURIComponent(this.session.id)}/recording`
+      );
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+      this.cast = convertCast(await response.text());
+      this.duration = this.cast.totalDuration;
+      this.markers = getCastMarkers(this.cast);
+      await this.updateComplete;
+      // Start on the final frame so the current state is visible without pressing play
+      this.seek(keepPosition ? Math.min(this.position, this.duration) : this.duration, true);
+    } catch (error) {
+      logger.error('failed to load recording', error);
+      this.error = 'Failed to load recording';
+    } finally {
+      this.loading = false;
+    }
+  }
+
+  private getTerminal(): Terminal | null {
+    return this.querySelector('vibe-terminal') as Terminal | null;
+  }
+
+  private seek(time: number, forceReset = false) {
+    const terminal = this.getTerminal();
+    if (!this.cast || !terminal) return;
+
+    const target = Math.max(0, Math.min(this.duration, time));
+    if (forceReset || target < this.position) {
+      // Full reset (RIS) and replay from the start; terminals can't rewind
+      terminal.clear();
+      terminal.write('\x1bc', false);
+      terminal.setTerminalSize(this.cast.header?.width || 80, this.cast.header?.height || 24);
+      this.eventIndex = 0;
+    }
+
+    const { steps, nextIndex } = collectPlaybackSteps(this.cast.events, this.eventIndex, target);
+    for (const step of steps) {
+      if (step.type === 'output') {
+        terminal.write(step.data, true);
+      } else {
+        terminal.setTerminalSize(step.cols, step.rows);
+      }
+    }
+    this.eventIndex = nextIndex;
+    this.position = target;
+  }
+
+  private tick = (now: number) => {
+    if (!this.playing) return;
+    this.seek(this.position + ((now - this.lastTick) / 1000) * this.speed);
+    this.lastTick = now;
+
+    if (this.position >= this.duration) {
+      this.pause();
+      return;
+    }
+    this.animationFrame = requestAnimationFrame(this.tick);
+  };
+
+  private play() {
+    if (!this.cast || this.playing) return;
+    if (this.position >= this.duration) this.seek(0, true);
+    this.playing = true;
+    this.lastTick = performance.now();
+    this.animationFrame = requestAnimationFrame(this.tick);
+  }
+
+  private pause() {
+    this.playing = false;
+    if (this.animationFrame !== null) {
+      cancelAnimationFrame(this.animationFrame);
+      this.animationFrame = null;
+    }
+  }
+
+  private togglePlay() {
+    if (this.playing) {
+      this.pause();
+    } else {
+      this.play();
+    }
+  }
+
+  private jumpToMarker(direction: 1 | -1) {
+    const candidates =
+      direction > 0
+        ? this.markers.filter((m) => m.timestamp > this.position + MARKER_EPSILON)
+        : this.markers.filter((m) => m.timestamp < this.position - MARKER_EPSILON).reverse();
+    const marker = candidates[0];
+    if (marker) this.seek(marker.timestamp);
+  }
+
+  private close() {
+    this.pause();
+    this.dispatchEvent(new CustomEvent('close-playback', { bubbles: true, composed: true }));
+  }
+
+  private handleKeyDown = (e: KeyboardEvent) => {
+    const target = e.target as HTMLElement | null;
+    if (target && ['INPUT', 'SELECT', 'TEXTAREA', 'BUTTON'].includes(target.tagName)) {
+      if (e.key !== 'Escape') return;
+    }
+
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      this.close();
+    } else if (e.key === ' ') {
+      e.preventDefault();
+      this.togglePlay();
+    }
+  };
+
+  private stopTerminalEvent(e: Event) {
+    // The playback terminal is display-only; never let it drive the live session
+    e.stopPropagation();
+  }
+
+  private renderMarkerTicks() {
+    if (!this.duration) return '';
+    return this.markers.map(
+      (marker) => html`
+        <button
+          class="absolute top-0 h-full w-1 -ml-0.5 bg-status-warning rounded-sm hover:w-1.5"
+          style="left: ${(marker.timestamp / this.duration) * 100}%"
+          title="${marker.label} (${formatTime(marker.timestamp)})"
+          @click=${() => this.seek(marker.timestamp)}
+          data-testid="playback-marker"
+        ></button>
+      `
+    );
+  }
+
+  render() {
+    const isRunning = this.session?.status === 'running';
+
+    return html`
+      <div class="absolute inset-0 flex flex-col bg-bg z-20" data-testid="session-playback">
+        <div
+          class="flex items-center gap-2 px-3 py-2 bg-bg-secondary border-b border-border text-xs font-mono text-text"
+        >
+          <button
+            class="px-2 py-1 bg-bg-tertiary border border-border rounded hover:border-primary min-w-[4rem]"
+            @click=${() => this.togglePlay()}
+            ?disabled=${!this.cast}
+            data-testid="playback-play-button"
+          >
+            ${this.playing ? 'Pause' : this.position >= this.duration && this.duration > 0 ? 'Replay' : 'Play'}
+          </button>
+          <button
+            class="px-2 py-1 bg-bg-tertiary border border-border rounded hover:border-primary disabled:opacity-50"
+            @click=${() => this.jumpToMarker(-1)}
+            ?disabled=${this.markers.length === 0}
+            title="Previous marker"
+          >
+            ◀
+          </button>
+          <button
+            class="px-2 py-1 bg-bg-tertiary border border-border rounded hover:border-primary disabled:opacity-50"
+            @click=${() => this.jumpToMarker(1)}
+            ?disabled=${this.markers.length === 0}
+            title="Next marker"
+          >
+            ▶
+          </button>
+          <span class="text-text-muted tabular-nums whitespace-nowrap">
+            ${formatTime(this.position)} / ${formatTime(this.duration)}
+          </span>
+          <div class="relative flex-1 h-5 flex items-center min-w-[6rem]">
+            <input
+              type="range"
+              class="w-full"
+              min="0"
+              max=${this.duration}
+              step="0.01"
+              .value=${String(this.position)}
+              @input=${(e: Event) => this.seek(Number((e.target as HTMLInputElement).value))}
+              ?disabled=${!this.cast}
+              aria-label="Playback position"
+              data-testid="playback-scrubber"
+            />
+            <div class="absolute inset-x-0 top-0 h-1.5">${this.renderMarkerTicks()}</div>
+          </div>
+          ${
+            this.markers.length > 0
+              ? html`
+                <select
+                  class="px-1 py-1 bg-bg-tertiary border border-border rounded max-w-[12rem]"
+                  @change=${(e: Event) => {
+                    const select = e.target as HTMLSelectElement;
+                    const marker = this.markers[Number(select.value)];
+                    if (marker) this.seek(marker.timestamp);
+                    select.value = '';
+                  }}
+                  aria-label="Jump to marker"
+                  data-testid="playback-marker-list"
+                >
+                  <option value="" selected>Markers (${this.markers.length})</option>
+                  ${this.markers.map(
+                    (marker, index) =>
+                      html`<option value=${String(index)}>${formatTime(marker.timestamp)} ${marker.label}</option>`
+                  )}
+                </select>
+              `
+              : ''
+          }
+          <select
+            class="px-1 py-1 bg-bg-tertiary border border-border rounded"
+            @change=${(e: Event) => {
+              this.speed = Number((e.target as HTMLSelectElement).value);
+            }}
+            aria-label="Playback speed"
+          >
+            ${SPEEDS.map(
+              (speed) =>
+                html`<option value=${String(speed)} ?selected=${speed === this.speed}>${speed}×</option>`
+            )}
+          </select>
+          ${
+            isRunning
+              ? html`
+                <button
+                  class="px-2 py-1 bg-bg-tertiary border border-border rounded hover:border-primary"
+                  @click=${() => this.loadRecording()}
+                  ?disabled=${this.loading}
+                  title="Load output recorded since playback started"
+                >
+                  Refresh
+                </button>
+              `
+              : ''
+          }
+          <button
+            class="px-2 py-1 bg-primary text-text-bright rounded hover:opacity-90"
+            @click=${() => this.close()}
+            title="Back to live terminal (Esc)"
+            data-testid="playback-close-button"
+          >
+            ${isRunning ? 'Live' : 'Close'}
+          </button>
+        </div>
+        <div class="relative flex-1 min-h-0">
+          <vibe-terminal
+            .cols=${this.cast?.header?.width || 80}
+            .rows=${this.cast?.header?.height || 24}
+            .fontSize=${this.terminalFontSize}
+            .theme=${this.terminalTheme}
+            .disableClick=${true}
+            class="w-full h-full p-0 m-0 terminal-container"
+            @terminal-input=${this.stopTerminalEvent}
+            @terminal-resize=${this.stopTerminalEvent}
+            @terminal-paste=${this.stopTerminalEvent}
+          ></vibe-terminal>
+          ${
+            this.loading || this.error
+              ? html`
+                <div class="absolute inset-0 flex items-center justify-center bg-bg/80 text-sm font-mono ${
+                  this.error ? 'text-status-error' : 'text-text-muted'
+                }">
+                  ${this.error || 'Loading recording...'}
+                </div>
+              `
+              : ''
+          }
+        </div>
+      </div>
+    `;
+  }
+}
@@ -3,11 +3,21 @@
  *
  * Displays session status with a dropdown menu for actions.
  * Shows "Terminate Session" for running sessions and "Clear Session" for exited sessions.
+ * Recordings can be downloaded as asciicast v2 or as a self-contained HTML player.
+ * Running sessions can get watches that notify when they go idle or print a pattern.
+ * On HQ, sessions attached to tmux can be moved to another host.
+ *
+ * @fires navigate-to-session - When a session has moved (detail: { sessionId: string })
  */
 import { html, LitElement, nothing } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
 import type { Session } from '../../../shared/types.js';
+import { authClient } from '../../services/auth-client.js';
+import { RemoteService } from '../../services/remote-service.js';
 import { Z_INDEX } from '../../utils/constants.js';
+import { createLogger } from '../../utils/logger.js';
+
+const logger = createLogger('session-status-dropdown');
 
 @customElement('session-status-dropdown')
 export class SessionStatusDropdown extends LitElement {
@@ -19,6 +29,7 @@ export class SessionStatusDropdown extends LitElement {
   @property({ type: Object }) session: Session | null = null;
   @property({ type: Function }) onTerminate?: () => void;
   @property({ type: Function }) onClear?: () => void;
+  @property({ type: Function }) onOpenPlayback?: () => void;
 
   @state() private showMenu = false;
   @state() private focusedIndex = -1;
@@ -43,6 +54,145 @@ export class SessionStatusDropdown extends LitElement {
     }
   }
 
+  private async downloadRecording(format: 'cast' | 'html') {
+    if (!this.session) return;
+    this.showMenu = false;
+    this.focusedIndex = -1;
+
+    try {
+      const response = await authClient.fetch(
+        `/api/sessions/${encodeURIComponent(this.session.id)}/recording?format=${format}`
+      );
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+      const disposition = response.headers.get('Content-Disposition') ?? '';
+      const filename =
+        /filename="([^"]+)"/.exec(disposition)?.[1] ?? `${this.session.id}.${format}`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (error) {
+      logger.error('failed to download recording', error);
+    }
+  }
+
+  private async addMarker() {
+    if (!this.session) return;
+    this.showMenu = false;
+    this.focusedIndex = -1;
+
+    const label = window.prompt('Marker label:')?.trim();
+    if (!label) return;
+
+    try {
+      const response = await authClient.fetch(
+        `/api/sessions/${encodeURIComponent(this.session.id)}/markers`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ label }),
+        }
+      );
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    } catch (error) {
+      logger.error('failed to add marker', error);
+    }
+  }
+
+  private async addWatch(type: 'idle' | 'output') {
+    if (!this.session) return;
+    this.showMenu = false;
+    this.focusedIndex = -1;
+
+    let watch: Record<string, unknown>;
+    if (type === 'idle') {
+      const seconds = window.prompt('Notify after how many seconds without output?', '30');
+      if (!seconds?.trim()) return;
+      watch = { type, idleSeconds: Number.parseInt(seconds, 10) };
+    } else {
+      const pattern = window.prompt('Notify when output matches (regular expression):');
+      if (!pattern) return;
+      watch = { type, pattern };
+    }
+
+    try {
+      const response = await authClient.fetch(
+        `/api/sessions/${encodeURIComponent(this.session.id)}/watches`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(watch),
+        }
+      );
+      if (!response.ok) {
+        const { details, error } = await response.json().catch(() => ({}));
+        window.alert(`Could not add watch: ${details || error || `HTTP ${response.status}`}`);
+      }
+    } catch (error) {
+      logger.error('failed to add watch', error);
+    }
+  }
+
+  private async moveToHost() {
+    if (!this.session) return;
+    this.showMenu = false;
+    this.focusedIndex = -1;
+
+    try {
+      const remotes = await new RemoteService(authClient).listRemotes();
+      if (!remotes) {
+        window.alert('Sessions can only be moved between hosts on an HQ server.');
+        return;
+      }
+      const currentRemoteId = this.session.remoteId ?? '';
+      const hosts = [
+        { id: '', name: 'local' },
+        ...remotes.filter((remote) => remote.status === 'online'),
+      ].filter((host) => host.id !== currentRemoteId);
+      if (hosts.length === 0) {
+        window.alert('No other host is online.');
+        return;
+      }
+
+      const choice = window
+        .prompt(`Move to which host? (${hosts.map((host) => host.name).join(', ')})`)
+        ?.trim();
+      if (!choice) return;
+      const host = hosts.find((h) => h.name === choice);
+      if (!host) {
+        window.alert(`Unknown host: ${choice}`);
+        return;
+      }
+
+      const response = await authClient.fetch(
+        `/api/sessions/${encodeURIComponent(this.session.id)}/move`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ targetRemoteId: host.id }),
+        }
+      );
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        window.alert(`Could not move session: ${result.error || `HTTP ${response.status}`}`);
+        return;
+      }
+
+      this.dispatchEvent(
+        new CustomEvent('navigate-to-session', {
+          detail: { sessionId: result.sessionId },
+          bubbles: true,
+          composed: true,
+        })
+      );
+    } catch (error) {
+      logger.error('failed to move session', error);
+    }
+  }
+
   connectedCallback() {
     super.connectedCallback();
     // Close menu when clicking outside
@@ -250,6 +400,112 @@ export class SessionStatusDropdown extends LitElement {
             </button>
           `
         }
+        <div class="border-t border-border my-1"></div>
+        ${
+          isRunning
+            ? html`
+            <button
+              class="w-full text-left px-6 py-3 text-sm font-mono text-text-muted hover:bg-bg-secondary hover:text-primary flex items-center gap-3 ${
+                this.focusedIndex === menuItemIndex++ ? 'bg-bg-secondary text-primary' : ''
+              }"
+              @click=${() => this.addMarker()}
+              data-action="add-marker"
+              tabindex="${this.showMenu ? '0' : '-1'}"
+            >
+              <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
+                <path d="M2 2a2 2 0 0 1 2-2h8a2 2 0 0 1 2 2v13.5a.5.5 0 0 1-.777.416L8 13.101l-5.223 2.815A.5.5 0 0 1 2 15.5V2zm2-1a1 1 0 0 0-1 1v12.566l4.723-2.482a.5.5 0 0 1 .554 0L13 14.566V2a1 1 0 0 0-1-1H4z"/>
+              </svg>
+              Add Marker…
+            </button>
+            <button
+              class="w-full text-left px-6 py-3 text-sm font-mono text-text-muted hover:bg-bg-secondary hover:text-primary flex items-center gap-3 ${
+                this.focusedIndex === menuItemIndex++ ? 'bg-bg-secondary text-primary' : ''
+              }"
+              @click=${() => this.addWatch('idle')}
+              data-action="watch-idle"
+              tabindex="${this.showMenu ? '0' : '-1'}"
+            >
+              <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
+                <path d="M8 16a2 2 0 0 0 2-2H6a2 2 0 0 0 2 2zM8 1.918l-.797.161A4.002 4.002 0 0 0 4 6c0 .628-.134 2.197-.459 3.742-.16.767-.376 1.566-.663 2.258h10.244c-.287-.692-.502-1.49-.663-2.258C12.134 8.197 12 6.628 12 6a4.002 4.002 0 0 0-3.203-3.92L8 1.917zM14.22 12c.223.447.481.801.78 1H1c.299-.199.557-.553.78-1C2.68 10.2 3 6.88 3 6c0-2.42 1.72-4.44 4.005-4.901a1 1 0 1 1 1.99 0A5.002 5.002 0 0 1 13 6c0 .88.32 4.2 1.22 6z"/>
+              </svg>
+              Notify When Idle…
+            </button>
+            <button
+              class="w-full text-left px-6 py-3 text-sm font-mono text-text-muted hover:bg-bg-secondary hover:text-primary flex items-center gap-3 ${
+                this.focusedIndex === menuItemIndex++ ? 'bg-bg-secondary text-primary' : ''
+              }"
+              @click=${() => this.addWatch('output')}
+              data-action="watch-output"
+              tabindex="${this.showMenu ? '0' : '-1'}"
+            >
+              <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
+                <path d="M11.742 10.344a6.5 6.5 0 1 0-1.397 1.398h-.001c.03.04.062.078.098.115l3.85 3.85a1 1 0 0 0 1.415-1.414l-3.85-3.85a1.007 1.007 0 0 0-.115-.1zM12 6.5a5.5 5.5 0 1 1-11 0 5.5 5.5 0 0 1 11 0z"/>
+              </svg>
+              Notify On Output…
+            </button>
+            ${
+              this.session?.multiplexer?.type === 'tmux'
+                ? html`
+                  <button
+                    class="w-full text-left px-6 py-3 text-sm font-mono text-text-muted hover:bg-bg-secondary hover:text-primary flex items-center gap-3 ${
+                      this.focusedIndex === menuItemIndex++ ? 'bg-bg-secondary text-primary' : ''
+                    }"
+                    @click=${() => this.moveToHost()}
+                    data-action="move-to-host"
+                    tabindex="${this.showMenu ? '0' : '-1'}"
+                  >
+                    <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
+                      <path fill-rule="evenodd" d="M1 11.5a.5.5 0 0 0 .5.5h11.793l-3.147 3.146a.5.5 0 0 0 .708.708l4-4a.5.5 0 0 0 0-.708l-4-4a.5.5 0 0 0-.708.708L13.293 11H1.5a.5.5 0 0 0-.5.5zm14-7a.5.5 0 0 1-.5.5H2.707l3.147 3.146a.5.5 0 1 1-.708.708l-4-4a.5.5 0 0 1 0-.708l4-4a.5.5 0 1 1 .708.708L2.707 4H14.5a.5.5 0 0 1 .5.5z"/>
+                    </svg>
+                    Move to Host…
+                  </button>
+                `
+                : nothing
+            }
+          `
+            : nothing
+        }
+        <button
+          class="w-full text-left px-6 py-3 text-sm font-mono text-text-muted hover:bg-bg-secondary hover:text-primary flex items-center gap-3 ${
+            this.focusedIndex === menuItemIndex++ ? 'bg-bg-secondary text-primary' : ''
+          }"
+          @click=${() => this.handleAction(this.onOpenPlayback)}
+          data-action="playback"
+          tabindex="${this.showMenu ? '0' : '-1'}"
+        >
+          <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
+            <path d="M8 3.5a.5.5 0 0 0-1 0V9a.5.5 0 0 0 .252.434l3.5 2a.5.5 0 0 0 .496-.868L8 8.71V3.5z"/>
+            <path d="M8 16A8 8 0 1 0 8 0a8 8 0 0 0 0 16zm7-8A7 7 0 1 1 1 8a7 7 0 0 1 14 0z"/>
+          </svg>
+          Replay History
+        </button>
+        <button
+          class="w-full text-left px-6 py-3 text-sm font-mono text-text-muted hover:bg-bg-secondary hover:text-primary flex items-center gap-3 ${
+            this.focusedIndex === menuItemIndex++ ? 'bg-bg-secondary text-primary' : ''
+          }"
+          @click=${() => this.downloadRecording('cast')}
+          data-action="download-cast"
+          tabindex="${this.showMenu ? '0' : '-1'}"
+        >
+          <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
+            <path d="M.5 9.9a.5.5 0 0 1 .5.5v2.5a1 1 0 0 0 1 1h12a1 1 0 0 0 1-1v-2.5a.5.5 0 0 1 1 0v2.5a2 2 0 0 1-2 2H2a2 2 0 0 1-2-2v-2.5a.5.5 0 0 1 .5-.5z"/>
+            <path d="M7.646 11.854a.5.5 0 0 0 .708 0l3-3a.5.5 0 0 0-.708-.708L8.5 10.293V1.5a.5.5 0 0 0-1 0v8.793L5.354 8.146a.5.5 0 1 0-.708.708l3 3z"/>
+          </svg>
+          Download Recording (.cast)
+        </button>
+        <button
+          class="w-full text-left px-6 py-3 text-sm font-mono text-text-muted hover:bg-bg-secondary hover:text-primary flex items-center gap-3 ${
+            this.focusedIndex === menuItemIndex++ ? 'bg-bg-secondary text-primary' : ''
+          }"
+          @click=${() => this.downloadRecording('html')}
+          data-action="download-html"
+          tabindex="${this.showMenu ? '0' : '-1'}"
+        >
+          <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
+            <path d="M0 12V4a2 2 0 0 1 2-2h12a2 2 0 0 1 2 2v8a2 2 0 0 1-2 2H2a2 2 0 0 1-2-2zm6.79-6.907A.5.5 0 0 0 6 5.5v5a.5.5 0 0 0 .79.407l3.5-2.5a.5.5 0 0 0 0-.814l-3.5-2.5z"/>
+          </svg>
+          Export HTML Player
+        </button>
       </div>
     `;
   }
@@ -0,0 +1,239 @@
+/**
+ * Share Dialog Component
+ *
+ * Mints, lists and revokes read-only share links for a single session.
+ * Link holders can watch the terminal but never type, resize or kill it.
+ *
+ * @fires close - When the dialog is dismissed
+ */
+import { html, LitElement, type PropertyValues } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { HttpMethod, type SessionShare } from '../../../shared/types.js';
+import { authClient } from '../../services/auth-client.js';
+import { createLogger } from '../../utils/logger.js';
+import '../modal-wrapper.js';
+
+const logger = createLogger('share-dialog');
+
+const EXPIRY_OPTIONS = [
+  { label: '15 minutes', minutes: 15 },
+  { label: '1 hour', minutes: 60 },
+  { label: '8 hours', minutes: 8 * 60 },
+  { label: '24 hours', minutes: 24 * 60 },
+  { label: '7 days', minutes: 7 * 24 * 60 },
+];
+
+@customElement('session-share-dialog')
+export class SessionShareDialog extends LitElement {
+  // Disable shadow DOM to use Tailwind
+  createRenderRoot() {
+    return this;
+  }
+
+  @property({ type: String }) sessionId = '';
+  @property({ type: Boolean }) visible = false;
+
+  @state() private shares: SessionShare[] = [];
+  @state() private expiresInMinutes = 60;
+  @state() private label = '';
+  @state() private loading = false;
+  @state() private error: string | null = null;
+  @state() private copiedShareId: string | null = null;
+
+  updated(changedProperties: PropertyValues) {
+    super.updated(changedProperties);
+    if (
+      (changedProperties.has('visible') || changedProperties.has('sessionId')) &&
+      this.visible &&
+      this.sessionId
+    ) {
+      this.loadShares();
+    }
+  }
+
+  private get sharesUrl(): string {
+    return `/api/sessions/${encodeURIComponent(this.sessionId)}/shares`;
+  }
+
+  private buildShareLink(share: SessionShare): string {
+    const url = new URL(`/session/${encodeURIComponent(share.sessionId)}`, window.location.origin);
+    url.searchParams.set('share', share.token);
+    return url.toString();
+  }
+
+  private async loadShares() {
+    try {
+      const response = await authClient.fetch(this.sharesUrl);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      this.shares = (await response.json()) as SessionShare[];
+      this.error = null;
+    } catch (error) {
+      logger.error('failed to load share links', error);
+      this.error = 'Failed to load share links';
+    }
+  }
+
+  private async handleCreate() {
+    this.loading = true;
+    try {
+      const response = await authClient.fetch(this.sharesUrl, {
+        method: HttpMethod.POST,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          expiresInMinutes: this.expiresInMinutes,
+          label: this.label.trim() || undefined,
+        }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || `HTTP ${response.status}`);
+      }
+      const share = (await response.json()) as SessionShare;
+      this.shares = [...this.shares, share];
+      this.label = '';
+      this.error = null;
+      await this.copyLink(share);
+    } catch (error) {
+      logger.error('failed to create share link', error);
+      this.error = error instanceof Error ? error.message : 'Failed to create share link';
+    } finally {
+      this.loading = false;
+    }
+  }
+
+  private async handleRevoke(share: SessionShare) {
+    try {
+      const response = await authClient.fetch(`${this.sharesUrl}/${encodeURIComponent(share.id)}`, {
+        method: HttpMethod.DELETE,
+      });
+      if (!response.ok && response.status !== 404) throw new Error(`HTTP ${response.status}`);
+      this.shares = this.shares.filter((s) => s.id !== share.id);
+    } catch (error) {
+      logger.error('failed to revoke share link', error);
+      this.error = 'Failed to revoke share link';
+    }
+  }
+
+  private async copyLink(share: SessionShare) {
+    try {
+      await navigator.clipboard.writeText(this.buildShareLink(share));
+      this.copiedShareId = share.id;
+      setTimeout(() => {
+        if (this.copiedShareId === share.id) this.copiedShareId = null;
+      }, 2000);
+    } catch (error) {
+      logger.warn('clipboard unavailable, share link not copied', error);
+    }
+  }
+
+  private handleClose() {
+    this.dispatchEvent(new CustomEvent('close'));
+  }
+
+  private renderShare(share: SessionShare) {
+    return html`
+      <div class="flex items-center gap-2 py-2 border-b border-border last:border-b-0">
+        <div class="min-w-0 flex-1">
+          <div class="text-text truncate">${share.label || 'Read-only link'}</div>
+          <div class="text-xs text-text-muted">
+            Expires ${new Date(share.expiresAt).toLocaleString()}
+          </div>
+        </div>
+        <button
+          class="px-2 py-1 text-xs bg-bg-tertiary border border-border rounded hover:bg-surface-hover"
+          @click=${() => this.copyLink(share)}
+          data-testid="share-copy-button"
+        >
+          ${this.copiedShareId === share.id ? 'Copied' : 'Copy'}
+        </button>
+        <button
+          class="px-2 py-1 text-xs text-status-error border border-status-error/40 rounded hover:bg-status-error/10"
+          @click=${() => this.handleRevoke(share)}
+          data-testid="share-revoke-button"
+        >
+          Revoke
+        </button>
+      </div>
+    `;
+  }
+
+  render() {
+    if (!this.visible) {
+      return html``;
+    }
+
+    return html`
+      <modal-wrapper
+        .visible=${this.visible}
+        ariaLabel="Share session"
+        @close=${this.handleClose}
+      >
+        <div class="bg-surface border border-border rounded-xl shadow-2xl p-4">
+          <div class="flex items-center justify-between mb-3">
+            <h2 class="text-lg font-semibold text-text">Share read-only link</h2>
+            <button
+              class="p-2 text-text-muted hover:text-text transition-colors"
+              @click=${this.handleClose}
+              title="Close"
+            >
+              ✕
+            </button>
+          </div>
+          <p class="text-xs text-text-muted mb-3">
+            Anyone with the link can watch this session until it expires or is revoked.
+            They cannot type, resize or terminate it.
+          </p>
+
+          <div class="flex flex-col sm:flex-row gap-2 mb-4">
+            <input
+              class="input-field flex-1"
+              placeholder="Label (optional)"
+              .value=${this.label}
+              @input=${(e: Event) => {
+                this.label = (e.target as HTMLInputElement).value;
+              }}
+            />
+            <select
+              class="input-field"
+              .value=${String(this.expiresInMinutes)}
+              @change=${(e: Event) => {
+                this.expiresInMinutes = Number((e.target as HTMLSelectElement).value);
+              }}
+            >
+              ${EXPIRY_OPTIONS.map(
+                (option) =>
+                  html`<option value=${option.minutes} ?selected=${option.minutes === this.expiresInMinutes}>
+                    ${option.label}
+                  </option>`
+              )}
+            </select>
+            <button
+              class="btn-primary"
+              ?disabled=${this.loading}
+              @click=${this.handleCreate}
+              data-testid="share-create-button"
+            >
+              ${this.loading ? 'Creating…' : 'Create link'}
+            </button>
+          </div>
+
+          ${this.error ? html`<div class="text-status-error text-xs mb-2">${this.error}</div>` : ''}
+
+          <div class="max-h-64 overflow-y-auto">
+            ${
+              this.shares.length === 0
+                ? html`<div class="text-text-muted text-xs">No active share links.</div>`
+                : this.shares.map((share) => this.renderShare(share))
+            }
+          </div>
+        </div>
+      </modal-wrapper>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'session-share-dialog': SessionShareDialog;
+  }
+}
@@ -14,6 +14,8 @@ import { createLogger } from '../utils/logger.js';
 import { TerminalPreferencesManager } from '../utils/terminal-preferences.js';
 import { TERMINAL_THEMES, type TerminalThemeId } from '../utils/terminal-themes.js';
 import { VERSION } from '../version.js';
+import './api-token-manager.js';
+import './totp-settings.js';
 
 const logger = createLogger('settings');
 
@@ -504,6 +506,8 @@ export class Settings extends LitElement {
             ${this.renderTerminalSettings()}
             ${this.renderNotificationSettings()}
             ${this.renderAppSettings()}
+            ${this.renderSecuritySettings()}
+            ${this.renderApiTokenSettings()}
           </div>
 
           <!-- Footer -->
@@ -802,4 +806,22 @@ export class Settings extends LitElement {
       </div>
     `;
   }
+
+  private renderSecuritySettings() {
+    return html`
+      <div class="space-y-4">
+        <h3 class="text-md font-bold text-primary mb-3">Security</h3>
+        <totp-settings .authClient=${this.authClient} .visible=${this.visible}></totp-settings>
+      </div>
+    `;
+  }
+
+  private renderApiTokenSettings() {
+    return html`
+      <div class="space-y-4">
+        <h3 class="text-md font-bold text-primary mb-3">Automation</h3>
+        <api-token-manager .authClient=${this.authClient} .visible=${this.visible}></api-token-manager>
+      </div>
+    `;
+  }
 }
@@ -1,17 +1,32 @@
 /**
  * Split Pane Container Component
  *
- * Renders multiple session-view instances side by side in a horizontal split layout.
- * Supports draggable divider for resizing panes and focus management.
+ * Renders multiple session-view instances in a split layout tree: panes can be
+ * split side by side or stacked, nested to any depth. Supports draggable
+ * dividers for resizing, focus management, and dropping sessions dragged from
+ * the session list onto a pane to add or rearrange panes.
+ *
+ * Panes are absolutely positioned from the layout and keyed by session ID, so
+ * changing the layout moves terminals instead of reconnecting them.
  *
  * @fires pane-focus - When a pane gains focus (detail: { index })
  * @fires pane-close - When a pane requests to close (detail: { index })
- * @fires split-resize - When the divider is dragged (detail: { ratio })
+ * @fires pane-drop - When a session is dropped onto a pane (detail: { draggedSessionId, targetSessionId, zone })
+ * @fires split-resize - When a divider is dragged (detail: { layout })
  */
 import { html, LitElement, type PropertyValues } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
-import { keyed } from 'lit/directives/keyed.js';
+import { repeat } from 'lit/directives/repeat.js';
 import type { Session } from '../../shared/types.js';
+import {
+  computePaneRects,
+  type PaneDropZone,
+  type PaneRect,
+  type SplitDirection,
+  type SplitLayoutNode,
+  type SplitLayoutPath,
+  setSplitRatio,
+} from '../../shared/utils/split-layout.js';
 import { SPLIT_PANE } from '../utils/constants.js';
 import { createLogger } from '../utils/logger.js';
 import { triggerTerminalResize } from '../utils/terminal-utils.js';
@@ -20,11 +35,85 @@ import './session-view.js';
 
 const logger = createLogger('split-pane-container');
 
+// Share of a pane's width/height near an edge that counts as dropping on that edge
+const DROP_EDGE_SHARE = 0.25;
+
 export interface SplitPane {
   sessionId: string;
   session: Session | undefined;
 }
 
+interface SplitDivider {
+  path: SplitLayoutPath;
+  direction: SplitDirection;
+  ratio: number;
+  rect: PaneRect;
+}
+
+function collectDividers(
+  node: SplitLayoutNode,
+  rect: PaneRect = { x: 0, y: 0, width: 1, height: 1 },
+  path: SplitLayoutPath = [],
+  result: SplitDivider[] = []
+): SplitDivider[] {
+  if (node.type === 'pane') return result;
+
+  result.push({ path, direction: node.direction, ratio: node.ratio, rect });
+  if (node.direction === 'row') {
+    const firstWidth = rect.width * node.ratio;
+    collectDividers(node.first, { ...rect, width: firstWidth }, [...path, 0], result);
+    collectDividers(
+      node.second,
+      { ...rect, x: rect.x + firstWidth, width: rect.width - firstWidth },
+      [...path, 1],
+      result
+    );
+  } else {
+    const firstHeight = rect.height * node.ratio;
+    collectDividers(node.first, { ...rect, height: firstHeight }, [...path, 0], result);
+    collectDividers(
+      node.second,
+      { ...rect, y: rect.y + firstHeight, height: rect.height - firstHeight },
+      [...path, 1],
+      result
+    );
+  }
+  return result;
+}
+
+function getDropZone(rect: DOMRect, clientX: number, clientY: number): PaneDropZone {
+  const x = (clientX - rect.left) / rect.width;
+  const y = (clientY - rect.top) / rect.height;
+  if (x < DROP_EDGE_SHARE) return 'left';
+  if (x > 1 - DROP_EDGE_SHARE) return 'right';
+  if (y < DROP_EDGE_SHARE) return 'top';
+  if (y > 1 - DROP_EDGE_SHARE) return 'bottom';
+  return 'center';
+}
+
+// Inline position for a unit-square rect, leaving room for dividers on inner edges
+function positionStyle(rect: PaneRect): string {
+  const half = SPLIT_PANE.DIVIDER_WIDTH / 2;
+  const insetLeft = rect.x > 0 ? half : 0;
+  const insetTop = rect.y > 0 ? half : 0;
+  const insetRight = rect.x + rect.width < 0.9999 ? half : 0;
+  const insetBottom = rect.y + rect.height < 0.9999 ? half : 0;
+  return [
+    `left: calc(${rect.x * 100}% + ${insetLeft}px)`,
+    `top: calc(${rect.y * 100}% + ${insetTop}px)`,
+    `width: calc(${rect.width * 100}% - ${insetLeft + insetRight}px)`,
+    `height: calc(${rect.height * 100}% - ${insetTop + insetBottom}px)`,
+  ].join('; ');
+}
+
+const DROP_ZONE_CLASSES: Record<PaneDropZone, string> = {
+  left: 'inset-y-0 left-0 w-1/2',
+  right: 'inset-y-0 right-0 w-1/2',
+  top: 'inset-x-0 top-0 h-1/2',
+  bottom: 'inset-x-0 bottom-0 h-1/2',
+  center: 'inset-0',
+};
+
 @customElement('split-pane-container')
 export class SplitPaneContainer extends LitElement {
   // Disable shadow DOM to use Tailwind
@@ -32,10 +121,10 @@ export class SplitPaneContainer extends LitElement {
     return this;
   }
 
-  // Pane configuration
+  // Pane configuration; panes are in layout reading order
+  @property({ type: Object }) layout: SplitLayoutNode | null = null;
   @property({ type: Array }) panes: SplitPane[] = [];
   @property({ type: Number }) activePaneIndex = 0;
-  @property({ type: Number }) splitRatio = SPLIT_PANE.DEFAULT_RATIO;
 
   // Pass-through props for session-view
   @property({ type: Boolean }) showBackButton = false;
@@ -46,9 +135,12 @@ export class SplitPaneContainer extends LitElement {
 
   // Internal drag state
   @state() private isDragging = false;
-  private dragStartX = 0;
+  @state() private dropTarget: { sessionId: string; zone: PaneDropZone } | null = null;
+  private dragPath: SplitLayoutPath = [];
+  private dragDirection: SplitDirection = 'row';
+  private dragStartPos = 0;
   private dragStartRatio = 0;
-  private containerWidth = 0;
+  private dragSize = 0;
 
   // Bound handlers for cleanup
   private boundMouseMove = this.handleMouseMove.bind(this);
@@ -77,8 +169,8 @@ export class SplitPaneContainer extends LitElement {
   updated(changedProperties: PropertyValues) {
     super.updated(changedProperties);
 
-    // When splitRatio changes (after drag), refit terminals
-    if (changedProperties.has('splitRatio') && !this.isDragging) {
+    // When the layout changes (after drag, or panes added/removed), refit terminals
+    if (changedProperties.has('layout') && !this.isDragging) {
       this.refitAllTerminals();
     }
   }
@@ -101,11 +193,9 @@ export class SplitPaneContainer extends LitElement {
   private handlePaneMouseDown(e: MouseEvent) {
     const target = e.target as HTMLElement;
 
-    // Don't change focus when clicking the divider
-    const divider = this.querySelector('#split-divider');
-    if (divider && divider.contains(target)) return;
+    // Don't change focus when clicking a divider
+    if (target.closest('.split-divider')) return;
 
-    // Determine which pane was clicked by checking if target is inside left or right pane
     for (let i = 0; i < this.panes.length; i++) {
       const pane = this.panes[i];
       if (!pane) continue;
@@ -126,18 +216,23 @@ export class SplitPaneContainer extends LitElement {
     }
   }
 
-  private handleDividerMouseDown(e: MouseEvent) {
+  private handleDividerMouseDown(e: MouseEvent, divider: SplitDivider) {
     e.preventDefault();
     e.stopPropagation();
 
+    const isRow = divider.direction === 'row';
     this.isDragging = true;
-    this.dragStartX = e.clientX;
-    this.dragStartRatio = this.splitRatio;
+    this.dragPath = divider.path;
+    this.dragDirection = divider.direction;
+    this.dragStartPos = isRow ? e.clientX : e.clientY;
+    this.dragStartRatio = divider.ratio;
 
-    // Get container width for ratio calculation
+    // Size of the split being resized, for ratio calculation
     const container = this.querySelector('#split-pane-root') as HTMLElement;
     if (container) {
-      this.containerWidth = container.clientWidth - SPLIT_PANE.DIVIDER_WIDTH;
+      this.dragSize = isRow
+        ? container.clientWidth * divider.rect.width - SPLIT_PANE.DIVIDER_WIDTH
+        : container.clientHeight * divider.rect.height - SPLIT_PANE.DIVIDER_WIDTH;
     }
 
     document.addEventListener('mousemove', this.boundMouseMove);
@@ -145,24 +240,24 @@ export class SplitPaneContainer extends LitElement {
 
     // Prevent text selection during drag
     document.body.style.userSelect = 'none';
-    document.body.style.cursor = 'col-resize';
+    document.body.style.cursor = isRow ? 'col-resize' : 'row-resize';
 
-    logger.debug('Divider drag started');
+    logger.debug(`Divider drag started (${divider.direction}, path ${divider.path.join('')})`);
   }
 
   private handleMouseMove(e: MouseEvent) {
-    if (!this.isDragging) return;
+    if (!this.isDragging || !this.layout || this.dragSize <= 0) return;
 
-    const deltaX = e.clientX - this.dragStartX;
-    const deltaRatio = deltaX / this.containerWidth;
-    let newRatio = this.dragStartRatio + deltaRatio;
+    const isRow = this.dragDirection === 'row';
+    const delta = (isRow ? e.clientX : e.clientY) - this.dragStartPos;
+    let newRatio = this.dragStartRatio + delta / this.dragSize;
 
-    // Enforce minimum pane width
-    const minRatio = SPLIT_PANE.MIN_WIDTH / this.containerWidth;
-    const maxRatio = 1 - minRatio;
-    newRatio = Math.max(minRatio, Math.min(maxRatio, newRatio));
+    // Enforce minimum pane size; tiny splits fall back to an even split
+    const minSize = isRow ? SPLIT_PANE.MIN_WIDTH : SPLIT_PANE.MIN_HEIGHT;
+    const minRatio = Math.min(0.5, minSize / this.dragSize);
+    newRatio = Math.max(minRatio, Math.min(1 - minRatio, newRatio));
 
-    this.splitRatio = newRatio;
+    this.layout = setSplitRatio(this.layout, this.dragPath, newRatio);
   }
 
   private handleMouseUp() {
@@ -177,10 +272,10 @@ export class SplitPaneContainer extends LitElement {
     document.body.style.userSelect = '';
     document.body.style.cursor = '';
 
-    // Dispatch resize event with final ratio
+    // Dispatch resize event with the final layout
     this.dispatchEvent(
       new CustomEvent('split-resize', {
-        detail: { ratio: this.splitRatio },
+        detail: { layout: this.layout },
         bubbles: true,
         composed: true,
       })
@@ -189,92 +284,129 @@ export class SplitPaneContainer extends LitElement {
     // Refit terminals after drag ends
     this.refitAllTerminals();
 
-    logger.debug(`Divider drag ended, ratio: ${this.splitRatio.toFixed(3)}`);
+    logger.debug('Divider drag ended');
   }
 
-  render() {
-    if (this.panes.length < 2) {
-      logger.warn('split-pane-container requires at least 2 panes');
-      return html``;
-    }
+  // --- Drop target handlers ---
 
-    const leftPane = this.panes[0];
-    const rightPane = this.panes[1];
+  private handlePaneDragOver(e: DragEvent, sessionId: string) {
+    if (!e.dataTransfer?.types.includes('application/vt-session-id')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
 
-    if (!leftPane || !rightPane) {
-      return html``;
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    const zone = getDropZone(rect, e.clientX, e.clientY);
+    if (this.dropTarget?.sessionId !== sessionId || this.dropTarget.zone !== zone) {
+      this.dropTarget = { sessionId, zone };
     }
+  }
+
+  private handlePaneDragLeave(e: DragEvent) {
+    // Only reset if actually leaving the pane (not entering a child)
+    const target = e.currentTarget as HTMLElement;
+    const relatedTarget = e.relatedTarget as Node | null;
+    if (relatedTarget && target.contains(relatedTarget)) return;
+    this.dropTarget = null;
+  }
 
-    const leftWidthPercent = this.splitRatio * 100;
+  private handlePaneDrop(e: DragEvent, targetSessionId: string) {
+    e.preventDefault();
+    const zone = this.dropTarget?.zone ?? 'center';
+    this.dropTarget = null;
+
+    const draggedSessionId = e.dataTransfer?.getData('application/vt-session-id');
+    if (!draggedSessionId || draggedSessionId === targetSessionId) return;
+
+    logger.log(`Pane drop: dragged=${draggedSessionId}, target=${targetSessionId}, zone=${zone}`);
+    this.dispatchEvent(
+      new CustomEvent('pane-drop', {
+        detail: { draggedSessionId, targetSessionId, zone },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  private renderPane(pane: SplitPane, index: number, rect: PaneRect) {
+    const isActive = this.activePaneIndex === index;
+    const dropZone = this.dropTarget?.sessionId === pane.sessionId ? this.dropTarget.zone : null;
 
     return html`
       <div
-        id="split-pane-root"
-        class="flex h-full w-full overflow-hidden"
-        style="position: relative;"
+        id="split-pane-${pane.sessionId}"
+        class="absolute overflow-hidden ${isActive ? 'split-pane-active' : ''}"
+        style="${positionStyle(rect)}"
+        @dragover=${(e: DragEvent) => this.handlePaneDragOver(e, pane.sessionId)}
+        @dragleave=${this.handlePaneDragLeave}
+        @drop=${(e: DragEvent) => this.handlePaneDrop(e, pane.sessionId)}
       >
-        <!-- Left pane -->
-        <div
-          id="split-pane-${leftPane.sessionId}"
-          class="relative overflow-hidden h-full ${this.activePaneIndex === 0 ? 'split-pane-active' : ''}"
-          style="width: ${leftWidthPercent}%; flex-shrink: 0;"
-        >
-          ${keyed(
-            leftPane.sessionId,
-            html`
-              <session-view
-                .session=${leftPane.session ?? null}
-                .showBackButton=${this.showBackButton}
-                .showSidebarToggle=${this.showSidebarToggle}
-                .sidebarCollapsed=${this.sidebarCollapsed}
-                .disableFocusManagement=${this.disableFocusManagement}
-                .keyboardCaptureActive=${this.activePaneIndex === 0 && this.keyboardCaptureActive}
-                .containedMode=${true}
-                @navigate-to-list=${this.forwardEvent}
-                @toggle-sidebar=${this.forwardEvent}
-                @create-session=${this.forwardEvent}
-                @session-status-changed=${this.forwardEvent}
-                @open-settings=${this.forwardEvent}
-                @capture-toggled=${this.forwardEvent}
-              ></session-view>
+        <session-view
+          .session=${pane.session ?? null}
+          .showBackButton=${this.showBackButton}
+          .showSidebarToggle=${index === 0 && this.showSidebarToggle}
+          .sidebarCollapsed=${this.sidebarCollapsed}
+          .disableFocusManagement=${this.disableFocusManagement}
+          .keyboardCaptureActive=${isActive && this.keyboardCaptureActive}
+          .containedMode=${true}
+          @navigate-to-list=${this.forwardEvent}
+          @toggle-sidebar=${this.forwardEvent}
+          @create-session=${this.forwardEvent}
+          @session-status-changed=${this.forwardEvent}
+          @open-settings=${this.forwardEvent}
+          @capture-toggled=${this.forwardEvent}
+        ></session-view>
+        ${
+          dropZone
+            ? html`
+              <div
+                class="absolute ${DROP_ZONE_CLASSES[dropZone]} pointer-events-none bg-accent-primary/20 border-2 border-accent-primary border-dashed rounded-lg"
+              ></div>
             `
-          )}
-        </div>
-
-        <!-- Divider -->
-        <div
-          id="split-divider"
-          class="split-divider ${this.isDragging ? 'dragging' : ''}"
-          style="width: ${SPLIT_PANE.DIVIDER_WIDTH}px; flex-shrink: 0;"
-          @mousedown=${this.handleDividerMouseDown}
-        ></div>
-
-        <!-- Right pane -->
-        <div
-          id="split-pane-${rightPane.sessionId}"
-          class="relative overflow-hidden flex-1 h-full ${this.activePaneIndex === 1 ? 'split-pane-active' : ''}"
-        >
-          ${keyed(
-            rightPane.sessionId,
-            html`
-              <session-view
-                .session=${rightPane.session ?? null}
-                .showBackButton=${this.showBackButton}
-                .showSidebarToggle=${false}
-                .sidebarCollapsed=${this.sidebarCollapsed}
-                .disableFocusManagement=${this.disableFocusManagement}
-                .keyboardCaptureActive=${this.activePaneIndex === 1 && this.keyboardCaptureActive}
-                .containedMode=${true}
-                @navigate-to-list=${this.forwardEvent}
-                @toggle-sidebar=${this.forwardEvent}
-                @create-session=${this.forwardEvent}
-                @session-status-changed=${this.forwardEvent}
-                @open-settings=${this.forwardEvent}
-                @capture-toggled=${this.forwardEvent}
-              ></session-view>
-            `
-          )}
-        </div>
+            : ''
+        }
+      </div>
+    `;
+  }
+
+  private renderDivider(divider: SplitDivider) {
+    const half = SPLIT_PANE.DIVIDER_WIDTH / 2;
+    const { rect, ratio } = divider;
+    const style =
+      divider.direction === 'row'
+        ? `left: calc(${(rect.x + rect.width * ratio) * 100}% - ${half}px); top: ${rect.y * 100}%; width: ${SPLIT_PANE.DIVIDER_WIDTH}px; height: ${rect.height * 100}%;`
+        : `top: calc(${(rect.y + rect.height * ratio) * 100}% - ${half}px); left: ${rect.x * 100}%; height: ${SPLIT_PANE.DIVIDER_WIDTH}px; width: ${rect.width * 100}%;`;
+
+    return html`
+      <div
+        class="split-divider ${divider.direction === 'column' ? 'split-divider-horizontal' : ''} ${
+          this.isDragging && this.dragPath.join('') === divider.path.join('') ? 'dragging' : ''
+        } absolute"
+        style="${style}"
+        data-split-path=${divider.path.join('')}
+        @mousedown=${(e: MouseEvent) => this.handleDividerMouseDown(e, divider)}
+      ></div>
+    `;
+  }
+
+  render() {
+    if (!this.layout || this.panes.length < 2) {
+      logger.warn('split-pane-container requires a layout with at least 2 panes');
+      return html``;
+    }
+
+    const rects = computePaneRects(this.layout);
+    const panes = this.panes
+      .map((pane, index) => ({ pane, index, rect: rects.get(pane.sessionId) }))
+      .filter((entry): entry is { pane: SplitPane; index: number; rect: PaneRect } => !!entry.rect);
+
+    return html`
+      <div id="split-pane-root" class="relative h-full w-full overflow-hidden">
+        ${repeat(
+          panes,
+          (entry) => entry.pane.sessionId,
+          (entry) => this.renderPane(entry.pane, entry.index, entry.rect)
+        )}
+        ${collectDividers(this.layout).map((divider) => this.renderDivider(divider))}
       </div>
     `;
   }
@@ -0,0 +1,224 @@
+/**
+ * TOTP Settings Component
+ *
+ * Settings section for the optional two-factor login code. Enrollment shows a
+ * QR code for authenticator apps and is confirmed with a first code.
+ */
+import { html, LitElement, nothing, type PropertyValues } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import type { AuthClient } from '../services/auth-client.js';
+import { type TotpEnrollment, TotpService, type TotpStatus } from '../services/totp-service.js';
+import { createLogger } from '../utils/logger.js';
+import { encodeQrCode, qrCodeToSvgPath } from '../utils/qr-code.js';
+
+const logger = createLogger('totp-settings');
+
+// Light modules around the code, as QR readers expect
+const QR_QUIET_ZONE = 4;
+
+@customElement('totp-settings')
+export class TotpSettings extends LitElement {
+  // Disable shadow DOM to use Tailwind
+  createRenderRoot() {
+    return this;
+  }
+
+  @property({ type: Object }) authClient?: AuthClient;
+  @property({ type: Boolean }) visible = false;
+
+  @state() private status: TotpStatus | null = null;
+  @state() private enrollment: TotpEnrollment | null = null;
+  @state() private disabling = false;
+  @state() private code = '';
+  @state() private error = '';
+
+  private totpService?: TotpService;
+
+  protected willUpdate(changedProperties: PropertyValues) {
+    if (changedProperties.has('authClient') && this.authClient) {
+      this.totpService = new TotpService(this.authClient);
+    }
+    if ((changedProperties.has('visible') || changedProperties.has('authClient')) && this.visible) {
+      this.loadStatus();
+    }
+    if (changedProperties.has('visible') && !this.visible) {
+      // Don't leave the secret on screen
+      this.enrollment = null;
+      this.disabling = false;
+      this.code = '';
+    }
+  }
+
+  private async loadStatus() {
+    if (!this.totpService) return;
+    try {
+      this.status = await this.totpService.getStatus();
+      this.error = '';
+    } catch (error) {
+      logger.error('failed to load totp status', error);
+      this.error = 'Failed to load two-factor status';
+    }
+  }
+
+  private async handleEnable() {
+    if (!this.totpService) return;
+    try {
+      this.enrollment = await this.totpService.beginEnrollment();
+      this.code = '';
+      this.error = '';
+    } catch (error) {
+      logger.error('failed to start totp enrollment', error);
+      this.error = `Failed to start setup: ${error instanceof Error ? error.message : error}`;
+    }
+  }
+
+  private async handleSubmitCode(e: Event) {
+    e.preventDefault();
+    if (!this.totpService || this.code.length !== 6) return;
+
+    try {
+      if (this.enrollment) {
+        await this.totpService.confirmEnrollment(this.code);
+        this.enrollment = null;
+      } else {
+        await this.totpService.disable(this.code);
+        this.disabling = false;
+      }
+      this.code = '';
+      this.error = '';
+      await this.loadStatus();
+    } catch (error) {
+      logger.error('totp code rejected', error);
+      this.code = '';
+      this.error = error instanceof Error ? error.message : 'Invalid authentication code';
+    }
+  }
+
+  private handleCancel() {
+    this.enrollment = null;
+    this.disabling = false;
+    this.code = '';
+    this.error = '';
+  }
+
+  private renderQrCode(otpauthUrl: string) {
+    try {
+      const qr = encodeQrCode(otpauthUrl);
+      const size = qr.size + QR_QUIET_ZONE * 2;
+      return html`
+        <svg
+          class="w-40 h-40 rounded"
+          viewBox="${-QR_QUIET_ZONE} ${-QR_QUIET_ZONE} ${size} ${size}"
+          shape-rendering="crispEdges"
+          data-testid="totp-qr"
+        >
+          <rect x=${-QR_QUIET_ZONE} y=${-QR_QUIET_ZONE} width=${size} height=${size} fill="#fff" />
+          <path d=${qrCodeToSvgPath(qr)} fill="#000" />
+        </svg>
+      `;
+    } catch (error) {
+      logger.error('failed to render totp qr code', error);
+      return nothing;
+    }
+  }
+
+  private renderCodeForm(submitLabel: string) {
+    return html`
+      <form class="flex gap-2" @submit=${this.handleSubmitCode}>
+        <input
+          type="text"
+          class="input-field py-2 text-sm flex-1 tracking-widest"
+          placeholder="6-digit code"
+          inputmode="numeric"
+          autocomplete="one-time-code"
+          maxlength="6"
+          .value=${this.code}
+          @input=${(e: Event) => {
+            this.code = (e.target as HTMLInputElement).value.replace(/\D/g, '');
+          }}
+        />
+        <button type="submit" class="btn-primary text-xs px-4" ?disabled=${this.code.length !== 6}>
+          ${submitLabel}
+        </button>
+        <button type="button" class="btn-secondary text-xs px-3" @click=${this.handleCancel}>
+          Cancel
+        </button>
+      </form>
+    `;
+  }
+
+  private renderBody() {
+    if (!this.status) return nothing;
+
+    if (!this.status.available) {
+      return html`
+        <p class="text-muted text-xs">Two-factor authentication applies to password logins.</p>
+      `;
+    }
+
+    if (this.enrollment) {
+      return html`
+        <div class="space-y-3" data-testid="totp-enrollment">
+          <p class="text-muted text-xs">
+            Scan the code with an authenticator app, then enter the code it shows.
+          </p>
+          <div class="flex justify-center">${this.renderQrCode(this.enrollment.otpauthUrl)}</div>
+          <p class="text-muted text-xs break-all">
+            Or enter this key manually: <code class="text-primary">${this.enrollment.secret}</code>
+          </p>
+          ${this.renderCodeForm('Verify')}
+        </div>
+      `;
+    }
+
+    if (this.disabling) {
+      return html`
+        <div class="space-y-3">
+          <p class="text-muted text-xs">Enter a current code to turn two-factor authentication off.</p>
+          ${this.renderCodeForm('Disable')}
+        </div>
+      `;
+    }
+
+    return html`
+      <div class="flex items-center justify-between gap-3">
+        <p class="text-xs ${this.status.enabled ? 'text-status-success' : 'text-muted'}">
+          ${this.status.enabled ? 'Enabled' : 'Not enabled'}
+        </p>
+        ${
+          this.status.enabled
+            ? html`
+              <button
+                class="btn-secondary text-xs px-3 py-1.5"
+                @click=${() => {
+                  this.disabling = true;
+                }}
+              >
+                Disable
+              </button>
+            `
+            : html`
+              <button class="btn-primary text-xs px-3 py-1.5" @click=${this.handleEnable}>
+                Set Up
+              </button>
+            `
+        }
+      </div>
+    `;
+  }
+
+  render() {
+    return html`
+      <div class="p-4 bg-bg-tertiary rounded-lg border border-border/50 space-y-3">
+        <div>
+          <label class="text-primary font-medium">Two-Factor Authentication</label>
+          <p class="text-muted text-xs mt-1">
+            Ask for a code from an authenticator app after the password when signing in.
+          </p>
+        </div>
+        ${this.error ? html`<p class="text-status-error text-xs">${this.error}</p>` : nothing}
+        ${this.renderBody()}
+      </div>
+    `;
+  }
+}
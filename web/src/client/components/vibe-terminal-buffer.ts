@@ -41,6 +41,9 @@ export class VibeTerminalBuffer extends LitElement {
 
   private container: HTMLElement | null = null;
   private isUpdating = false;
+  // Rows to re-render on the next update, 'all' to rebuild every line
+  private dirtyRows: Set<number> | 'all' = 'all';
+  private renderedLineHeight = 0;
   private resizeObserver: ResizeObserver | null = null;
   private unsubscribe: (() => void) | null = null;
 
@@ -87,6 +90,7 @@ export class VibeTerminalBuffer extends LitElement {
 
     if (changedProperties.has('sessionId')) {
       this.buffer = null;
+      this.dirtyRows = 'all';
       this.error = null;
       this.unsubscribeFromBuffer();
       if (this.sessionId) {
@@ -152,7 +156,8 @@ export class VibeTerminalBuffer extends LitElement {
     // Subscribe to buffer snapshots over v3 socket
     this.unsubscribe = terminalSocketClient.subscribe(this.sessionId, {
       snapshots: true,
-      onSnapshot: (snapshot) => {
+      onSnapshot: (snapshot, changedRows) => {
+        this.markDirtyRows(snapshot, changedRows);
         this.buffer = snapshot;
         this.error = null;
 
@@ -169,6 +174,20 @@ export class VibeTerminalBuffer extends LitElement {
     });
   }
 
+  /**
+   * Delta snapshots name the rows that changed; the cursor may also have moved
+   * off or onto a row. Everything else keeps its rendered line.
+   */
+  private markDirtyRows(snapshot: BufferSnapshot, changedRows?: number[]) {
+    if (!changedRows || !this.buffer || this.dirtyRows === 'all') {
+      this.dirtyRows = 'all';
+      return;
+    }
+    for (const row of changedRows) this.dirtyRows.add(row);
+    this.dirtyRows.add(this.buffer.cursorY);
+    this.dirtyRows.add(snapshot.cursorY);
+  }
+
   private unsubscribeFromBuffer() {
     if (this.unsubscribe) {
       this.unsubscribe();
@@ -289,20 +308,28 @@ export class VibeTerminalBuffer extends LitElement {
     if (!this.container || !this.buffer || this.visibleRows === 0) return;
 
     const lineHeight = this.displayedFontSize * 1.2;
+    const dirtyRows = this.dirtyRows;
+    this.dirtyRows = new Set();
+
+    if (
+      dirtyRows !== 'all' &&
+      lineHeight === this.renderedLineHeight &&
+      this.container.children.length === this.buffer.cells.length
+    ) {
+      for (const row of dirtyRows) {
+        const line = this.container.children[row];
+        if (line) line.innerHTML = this.renderBufferLine(row);
+      }
+      return;
+    }
+    this.renderedLineHeight = lineHeight;
+
     let html = '';
 
     // The server already sends only the visible terminal area (terminal.rows worth of lines)
     // We should render all cells sent by the server without additional truncation
     for (let i = 0; i < this.buffer.cells.length; i++) {
-      const row = this.buffer.cells[i];
-
-      // Check if cursor is on this line
-      // The server sends cursorY relative to the cells array (0-based)
-      // Only show cursor if session is running
-      const isCursorLine = i === this.buffer.cursorY && this.sessionStatus === 'running';
-      const cursorCol = isCursorLine ? this.buffer.cursorX : -1;
-      const lineContent = TerminalRenderer.renderLineFromCells(row, cursorCol);
-
+      const lineContent = this.renderBufferLine(i);
       html += `<div class="terminal-line" style="height: ${lineHeight}px; line-height: ${lineHeight}px;">${lineContent}</div>`;
     }
 
@@ -318,6 +345,17 @@ export class VibeTerminalBuffer extends LitElement {
     this.container.innerHTML = html;
   }
 
+  private renderBufferLine(index: number): string {
+    if (!this.buffer) return '';
+
+    // Check if cursor is on this line
+    // The server sends cursorY relative to the cells array (0-based)
+    // Only show cursor if session is running
+    const isCursorLine = index === this.buffer.cursorY && this.sessionStatus === 'running';
+    const cursorCol = isCursorLine ? this.buffer.cursorX : -1;
+    return TerminalRenderer.renderLineFromCells(this.buffer.cells[index] ?? [], cursorCol);
+  }
+
   /**
    * Public method to refresh buffer display
    */
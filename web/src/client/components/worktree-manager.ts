@@ -23,6 +23,8 @@ export class WorktreeManager extends LitElement {
 
   @property({ type: Object }) gitService?: GitService;
   @property({ type: String }) repoPath = '';
+  // Remote the repository is on, for remote sessions in HQ mode
+  @property({ type: String }) remoteId?: string;
 
   @state() private worktrees: Worktree[] = [];
   @state() private baseBranch = 'main';
@@ -47,7 +49,9 @@ export class WorktreeManager extends LitElement {
 
   willUpdate(changedProperties: Map<string, unknown>) {
     if (
-      (changedProperties.has('repoPath') || changedProperties.has('gitService')) &&
+      (changedProperties.has('repoPath') ||
+        changedProperties.has('remoteId') ||
+        changedProperties.has('gitService')) &&
       this.repoPath &&
       this.gitService
     ) {
@@ -64,7 +68,10 @@ export class WorktreeManager extends LitElement {
     this.error = '';
 
     try {
-      const response: WorktreeListResponse = await this.gitService.listWorktrees(this.repoPath);
+      const response: WorktreeListResponse = await this.gitService.listWorktrees(
+        this.repoPath,
+        this.remoteId
+      );
       this.worktrees = response.worktrees;
       this.baseBranch = response.baseBranch;
       this.followBranch = response.followBranch;
@@ -109,7 +116,8 @@ export class WorktreeManager extends LitElement {
       await this.gitService.deleteWorktree(
         this.repoPath,
         this.deleteTargetBranch,
-        this.deleteHasChanges
+        this.deleteHasChanges,
+        this.remoteId
       );
       this.showDeleteConfirm = false;
       this.deleteTargetBranch = '';
@@ -139,7 +147,7 @@ export class WorktreeManager extends LitElement {
     }
 
     try {
-      await this.gitService.setFollowMode(this.repoPath, branch, enable);
+      await this.gitService.setFollowMode(this.repoPath, branch, enable, this.remoteId);
       await this.loadWorktrees();
 
       // Trigger a refresh of Git events after follow mode change
@@ -211,7 +219,8 @@ export class WorktreeManager extends LitElement {
         this.repoPath,
         branchName,
         worktreePath,
-        this.baseBranch
+        this.baseBranch,
+        this.remoteId
       );
 
       // Reset form
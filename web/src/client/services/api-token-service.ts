@@ -0,0 +1,78 @@
+import type { ApiToken, ApiTokenScope } from '../../shared/types.js';
+import { createLogger } from '../utils/logger.js';
+import type { AuthClient } from './auth-client.js';
+
+const logger = createLogger('api-token-service');
+
+export interface CreateApiTokenData {
+  name: string;
+  scopes: ApiTokenScope[];
+  expiresInDays?: number;
+}
+
+/**
+ * Service for managing scoped API tokens used by scripts and CI.
+ *
+ * @see web/src/server/routes/api-tokens.ts - Server-side token routes
+ */
+export class ApiTokenService {
+  constructor(private authClient: AuthClient) {}
+
+  /**
+   * List API tokens
+   *
+   * @returns Token metadata; secrets are never listed
+   * @throws Error if the API request fails
+   */
+  async listTokens(): Promise<ApiToken[]> {
+    const response = await fetch('/api/auth/tokens', {
+      headers: this.authClient.getAuthHeader(),
+    });
+    if (!response.ok) {
+      logger.error(`failed to list api tokens: ${response.status}`);
+      throw new Error(`Failed to list API tokens: ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Create an API token
+   *
+   * @param data - Name, scopes and optional lifetime of the token
+   * @returns The token metadata plus its secret, which is only available now
+   * @throws Error with the server's message if the token cannot be created
+   */
+  async createToken(data: CreateApiTokenData): Promise<ApiToken & { token: string }> {
+    const response = await fetch('/api/auth/tokens', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.authClient.getAuthHeader(),
+      },
+      body: JSON.stringify(data),
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      logger.error(`failed to create api token: ${response.status}`);
+      throw new Error(result.details || result.error || `HTTP ${response.status}`);
+    }
+    return result;
+  }
+
+  /**
+   * Revoke an API token
+   *
+   * @param tokenId - ID of the token to revoke
+   * @throws Error if the API request fails
+   */
+  async revokeToken(tokenId: string): Promise<void> {
+    const response = await fetch(`/api/auth/tokens/${encodeURIComponent(tokenId)}`, {
+      method: 'DELETE',
+      headers: this.authClient.getAuthHeader(),
+    });
+    if (!response.ok) {
+      logger.error(`failed to revoke api token ${tokenId}: ${response.status}`);
+      throw new Error(`Failed to revoke API token: ${response.statusText}`);
+    }
+  }
+}
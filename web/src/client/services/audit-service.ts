@@ -0,0 +1,45 @@
+import type { AuditAction, AuditEntry } from '../../shared/types.js';
+import { createLogger } from '../utils/logger.js';
+import type { AuthClient } from './auth-client.js';
+
+const logger = createLogger('audit-service');
+
+export interface AuditFilter {
+  action?: AuditAction;
+  userId?: string;
+  sessionId?: string;
+  since?: string; // ISO 8601 format
+  limit?: number;
+}
+
+/**
+ * Service for reading the server's audit log.
+ *
+ * @see web/src/server/routes/audit.ts - Server-side /api/audit route
+ */
+export class AuditService {
+  constructor(private authClient: AuthClient) {}
+
+  /**
+   * Get audit entries matching the filter, newest first
+   *
+   * @throws Error with the server's message if the request fails, e.g. when
+   *   a non-admin asks in multi-user mode
+   */
+  async getEntries(filter: AuditFilter = {}): Promise<AuditEntry[]> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filter)) {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    }
+
+    const response = await fetch(`/api/audit?${params}`, {
+      headers: this.authClient.getAuthHeader(),
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      logger.error(`failed to get audit log: ${response.status}`);
+      throw new Error(result.error || `HTTP ${response.status}`);
+    }
+    return result.entries;
+  }
+}
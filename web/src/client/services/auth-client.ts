@@ -10,6 +10,11 @@ interface AuthResponse {
   userId?: string;
   authMethod?: 'ssh-key' | 'password' | 'tailscale';
   error?: string;
+  // Set when the password was accepted but a TOTP code is still needed
+  totpRequired?: boolean;
+  totpChallengeId?: string;
+  // Set while too many failed logins lock this client or user out
+  retryAfter?: number; // seconds
 }
 
 interface Challenge {
@@ -21,7 +26,7 @@ interface Challenge {
 interface User {
   userId: string;
   token: string;
-  authMethod: 'ssh-key' | 'password' | 'tailscale';
+  authMethod: 'ssh-key' | 'password' | 'tailscale' | 'share';
   loginTime: number;
 }
 
@@ -61,6 +66,7 @@ export class AuthClient {
   private static readonly USER_KEY = 'vibetunnel_user_data';
 
   private currentUser: User | null = null;
+  private sharedSessionId: string | null = null;
   private sshAgent: BrowserSSHAgent;
 
   constructor() {
@@ -101,6 +107,27 @@ export class AuthClient {
     });
   }
 
+  /**
+   * Use a read-only share link token for this page load.
+   * The token is kept in memory only so it never replaces a stored login.
+   */
+  useShareToken(sessionId: string, token: string): void {
+    this.sharedSessionId = sessionId;
+    this.currentUser = {
+      userId: `share:${sessionId}`,
+      token,
+      authMethod: 'share',
+      loginTime: Date.now(),
+    };
+  }
+
+  /**
+   * Session ID the current share link is scoped to, or null for a regular login
+   */
+  getSharedSessionId(): string | null {
+    return this.sharedSessionId;
+  }
+
   /**
    * Get current system user from server
    */
@@ -180,6 +207,7 @@ export class AuthClient {
 
       // Create challenge
       const challenge = await this.createChallenge(userId);
+      if ('success' in challenge) return challenge;
 
       // Sign challenge with SSH key
       const signatureResult = await this.sshAgent.sign(keyId, challenge.challenge);
@@ -252,6 +280,35 @@ export class AuthClient {
     }
   }
 
+  /**
+   * Finish a password login with the code from the user's authenticator app
+   */
+  async authenticateWithTotp(totpChallengeId: string, code: string): Promise<AuthResponse> {
+    try {
+      const response = await fetch('/api/auth/totp', {
+        method: HttpMethod.POST,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ totpChallengeId, code }),
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        this.setCurrentUser({
+          userId: result.userId,
+          token: result.token,
+          authMethod: 'password',
+          loginTime: Date.now(),
+        });
+      }
+
+      return result;
+    } catch (error) {
+      logger.error('TOTP authentication failed:', error);
+      return { success: false, error: 'Two-factor authentication failed' };
+    }
+  }
+
   /**
    * Automated authentication - tries SSH keys first, then prompts for password
    */
@@ -277,6 +334,10 @@ export class AuthClient {
             logger.log(`✅ Authenticated with SSH key: ${key.name}`);
             return result;
           }
+          if (result.retryAfter) {
+            // Further keys would only be rejected too
+            return result;
+          }
         } catch (error) {
           logger.warn(`❌ SSH key authentication failed for key ${key.name}:`, error);
         }
@@ -383,13 +444,18 @@ export class AuthClient {
 
   // Private methods
 
-  private async createChallenge(userId: string): Promise<Challenge> {
+  private async createChallenge(userId: string): Promise<Challenge | AuthResponse> {
     const response = await fetch('/api/auth/challenge', {
       method: HttpMethod.POST,
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ userId }),
     });
 
+    if (response.status === 429) {
+      // Locked out after too many failed logins
+      return response.json();
+    }
+
     if (!response.ok) {
       throw new Error('Failed to create authentication challenge');
     }
@@ -438,7 +504,8 @@ export class AuthClient {
 
         // Verify token is still valid
         this.verifyToken().then((valid) => {
-          if (!valid) {
+          // A share link may have replaced the stored login in the meantime
+          if (!valid && !this.sharedSessionId) {
             this.clearCurrentUser();
           }
         });
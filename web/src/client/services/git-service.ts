@@ -125,6 +125,17 @@ export interface WorktreeListResponse {
 export class GitService {
   constructor(private authClient: AuthClient) {}
 
+  /**
+   * Build an API URL. Repositories of remote sessions live on their remote, so
+   * passing its `remoteId` lets HQ run the request there.
+   */
+  private apiUrl(endpoint: string, params: Record<string, string>, remoteId?: string): string {
+    const query = new URLSearchParams(params);
+    if (remoteId) query.set('remoteId', remoteId);
+    const search = query.toString();
+    return search ? `${endpoint}?${search}` : endpoint;
+  }
+
   /**
    * Check if a path is within a Git repository
    *
@@ -132,6 +143,7 @@ export class GitService {
    * provides additional information about the repository state.
    *
    * @param path - Absolute path to check (e.g., '/Users/alice/projects/myapp')
+   * @param remoteId - Remote the path is on, for remote sessions in HQ mode
    * @returns Promise resolving to repository information
    *
    * @example
@@ -145,9 +157,9 @@ export class GitService {
    *
    * @throws Error if the API request fails
    */
-  async checkGitRepo(path: string): Promise<GitRepoInfo> {
+  async checkGitRepo(path: string, remoteId?: string): Promise<GitRepoInfo> {
     try {
-      const response = await fetch(`/api/git/repo-info?path=${encodeURIComponent(path)}`, {
+      const response = await fetch(this.apiUrl('/api/git/repo-info', { path }, remoteId), {
         headers: this.authClient.getAuthHeader(),
       });
       if (!response.ok) {
@@ -167,6 +179,7 @@ export class GitService {
    * including their branches, paths, and change statistics.
    *
    * @param repoPath - Absolute path to the repository root
+   * @param remoteId - Remote the repository is on, for remote sessions in HQ mode
    * @returns Promise resolving to worktree list with base branch and follow mode info
    *
    * @example
@@ -182,9 +195,9 @@ export class GitService {
    *
    * @throws Error if the API request fails or repository is invalid
    */
-  async listWorktrees(repoPath: string): Promise<WorktreeListResponse> {
+  async listWorktrees(repoPath: string, remoteId?: string): Promise<WorktreeListResponse> {
     try {
-      const response = await fetch(`/api/worktrees?repoPath=${encodeURIComponent(repoPath)}`, {
+      const response = await fetch(this.apiUrl('/api/worktrees', { repoPath }, remoteId), {
         headers: this.authClient.getAuthHeader(),
       });
       if (!response.ok) {
@@ -207,6 +220,7 @@ export class GitService {
    * @param branch - Branch name for the new worktree (will be created if doesn't exist)
    * @param path - Absolute path where the worktree should be created
    * @param baseBranch - Optional base branch to create the new branch from (defaults to repository's default branch)
+   * @param remoteId - Remote the repository is on, for remote sessions in HQ mode
    *
    * @example
    * ```typescript
@@ -236,10 +250,11 @@ export class GitService {
     repoPath: string,
     branch: string,
     path: string,
-    baseBranch?: string
+    baseBranch?: string,
+    remoteId?: string
   ): Promise<void> {
     try {
-      const response = await fetch('/api/worktrees', {
+      const response = await fetch(this.apiUrl('/api/worktrees', {}, remoteId), {
         method: HttpMethod.POST,
         headers: {
           'Content-Type': 'application/json',
@@ -266,6 +281,7 @@ export class GitService {
    * @param repoPath - Absolute path to the repository root
    * @param branch - Branch name of the worktree to delete
    * @param force - Force deletion even if there are uncommitted changes (default: false)
+   * @param remoteId - Remote the repository is on, for remote sessions in HQ mode
    *
    * @example
    * ```typescript
@@ -282,12 +298,18 @@ export class GitService {
    * - The worktree is locked
    * - Attempting to delete the main worktree
    */
-  async deleteWorktree(repoPath: string, branch: string, force = false): Promise<void> {
+  async deleteWorktree(
+    repoPath: string,
+    branch: string,
+    force = false,
+    remoteId?: string
+  ): Promise<void> {
     try {
-      const params = new URLSearchParams({ repoPath });
-      if (force) params.append('force', 'true');
+      const params: Record<string, string> = { repoPath };
+      if (force) params.force = 'true';
 
-      const response = await fetch(`/api/worktrees/${encodeURIComponent(branch)}?${params}`, {
+      const url = this.apiUrl(`/api/worktrees/${encodeURIComponent(branch)}`, params, remoteId);
+      const response = await fetch(url, {
         method: HttpMethod.DELETE,
         headers: this.authClient.getAuthHeader(),
       });
@@ -308,6 +330,7 @@ export class GitService {
    * have been manually deleted. This is equivalent to `git worktree prune`.
    *
    * @param repoPath - Absolute path to the repository root
+   * @param remoteId - Remote the repository is on, for remote sessions in HQ mode
    *
    * @example
    * ```typescript
@@ -325,9 +348,9 @@ export class GitService {
    *
    * @throws Error if the API request fails or repository is invalid
    */
-  async pruneWorktrees(repoPath: string): Promise<void> {
+  async pruneWorktrees(repoPath: string, remoteId?: string): Promise<void> {
     try {
-      const response = await fetch('/api/worktrees/prune', {
+      const response = await fetch(this.apiUrl('/api/worktrees/prune', {}, remoteId), {
         method: HttpMethod.POST,
         headers: {
           'Content-Type': 'application/json',
@@ -363,6 +386,7 @@ export class GitService {
    * @param repoPath - Absolute path to the repository root
    * @param branch - Branch name to set follow mode for
    * @param enable - True to enable follow mode, false to disable
+   * @param remoteId - Remote the repository is on, for remote sessions in HQ mode
    *
    * @example
    * ```typescript
@@ -380,9 +404,14 @@ export class GitService {
    *
    * @throws Error if the API request fails or parameters are invalid
    */
-  async setFollowMode(repoPath: string, branch: string, enable: boolean): Promise<void> {
+  async setFollowMode(
+    repoPath: string,
+    branch: string,
+    enable: boolean,
+    remoteId?: string
+  ): Promise<void> {
     try {
-      const response = await fetch('/api/worktrees/follow', {
+      const response = await fetch(this.apiUrl('/api/worktrees/follow', {}, remoteId), {
         method: HttpMethod.POST,
         headers: {
           'Content-Type': 'application/json',
@@ -0,0 +1,52 @@
+import { createLogger } from '../utils/logger.js';
+import type { AuthClient } from './auth-client.js';
+
+const logger = createLogger('remote-service');
+
+/**
+ * A remote server registered with HQ, as listed by `GET /api/remotes`
+ */
+export interface RemoteInfo {
+  id: string;
+  name: string;
+  url: string;
+  connection: 'direct' | 'tunnel';
+  status: 'online' | 'offline';
+  registeredAt: string;
+  lastHeartbeat: string;
+  sessionIds: string[];
+  history: Array<{ status: 'online' | 'offline'; at: string; reason: string }>;
+}
+
+/**
+ * Service for the remotes known to an HQ server.
+ *
+ * Health comes from HQ's periodic checks of each remote: `status` flips to
+ * offline when a check fails and `lastHeartbeat` is the last passing check.
+ *
+ * @see web/src/server/routes/remotes.ts - Server-side remote registry routes
+ */
+export class RemoteService {
+  constructor(private authClient: AuthClient) {}
+
+  /**
+   * List the remotes known to HQ
+   *
+   * @returns The remotes, or null when the server is not running in HQ mode
+   * @throws Error if the API request fails otherwise
+   */
+  async listRemotes(): Promise<RemoteInfo[] | null> {
+    const response = await fetch('/api/remotes', {
+      headers: this.authClient.getAuthHeader(),
+    });
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      logger.error(`failed to list remotes: ${response.status}`);
+      throw new Error(`Failed to list remotes: ${response.statusText}`);
+    }
+    const remotes = await response.json();
+    return Array.isArray(remotes) ? remotes : null;
+  }
+}
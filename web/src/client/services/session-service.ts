@@ -42,6 +42,7 @@
 
 import type { TitleMode } from '../../shared/types.js';
 import { HttpMethod } from '../../shared/types.js';
+import type { QuickStartWorktree } from '../../types/config.js';
 import { createLogger } from '../utils/logger.js';
 import type { AuthClient } from './auth-client.js';
 
@@ -59,6 +60,7 @@ const logger = createLogger('session-service');
  * @property titleMode - How to handle terminal title updates from applications
  * @property gitRepoPath - Path to Git repository (enables Git integration features)
  * @property gitBranch - Current Git branch name (for display and tracking)
+ * @property remoteId - HQ mode: ID of the remote to create the session on
  */
 export interface SessionCreateData {
   command: string[];
@@ -70,6 +72,10 @@ export interface SessionCreateData {
   titleMode?: TitleMode;
   gitRepoPath?: string;
   gitBranch?: string;
+  env?: Record<string, string>;
+  preCommand?: string;
+  gitWorktree?: QuickStartWorktree;
+  remoteId?: string;
 }
 
 /**
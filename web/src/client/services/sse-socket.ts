@@ -0,0 +1,129 @@
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('sse-socket');
+
+// `{"frames":[]}` around the frames of a POST; each frame adds quotes and a comma
+const POST_ENVELOPE_BYTES = 16;
+const POST_FRAME_OVERHEAD_BYTES = 3;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): ArrayBuffer {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+/**
+ * Fallback for the v3 WebSocket where proxies break the upgrade: frames come
+ * down a Server-Sent Events stream (`/api/ws/sse`) and go up as POSTs, both
+ * base64-encoded.
+ *
+ * Mirrors the parts of `WebSocket` that TerminalSocketClient uses, so the
+ * rest of the client does not care which transport it got. Unlike
+ * `EventSource`, it does not reconnect on its own: the server forgets a
+ * connection's subscriptions once its stream drops.
+ */
+export class SseSocket {
+  readyState: number = WebSocket.CONNECTING;
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: ArrayBuffer }) => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  private source: EventSource;
+  private postUrl: string | null = null;
+  private outbox: string[] = [];
+  private posting = false;
+  // Announced by the server in the `connection` event
+  private maxPostBytes = Number.POSITIVE_INFINITY;
+  private maxFramesPerPost = Number.POSITIVE_INFINITY;
+
+  constructor(private token?: string) {
+    const query = token ? `?token=${encodeURIComponent(token)}` : '';
+    this.source = new EventSource(`/api/ws/sse${query}`);
+
+    this.source.addEventListener('connection', (event) => {
+      const { connectionId, maxPostBytes, maxFramesPerPost } = JSON.parse(
+        (event as MessageEvent<string>).data
+      ) as { connectionId: string; maxPostBytes?: number; maxFramesPerPost?: number };
+      if (maxPostBytes) this.maxPostBytes = maxPostBytes;
+      if (maxFramesPerPost) this.maxFramesPerPost = maxFramesPerPost;
+      this.postUrl = `/api/ws/sse/${encodeURIComponent(connectionId)}`;
+      this.readyState = WebSocket.OPEN;
+      this.onopen?.();
+    });
+
+    this.source.onmessage = (event: MessageEvent<string>) => {
+      this.onmessage?.({ data: fromBase64(event.data) });
+    };
+
+    this.source.onerror = (error) => {
+      this.onerror?.(error);
+      this.close();
+    };
+  }
+
+  send(data: Uint8Array) {
+    if (this.readyState !== WebSocket.OPEN) return;
+    this.outbox.push(toBase64(data));
+    void this.flush();
+  }
+
+  close() {
+    if (this.readyState === WebSocket.CLOSED) return;
+    this.readyState = WebSocket.CLOSED;
+    this.source.close();
+    this.outbox = [];
+    this.onclose?.();
+  }
+
+  // One POST at a time, batching whatever queued up meanwhile (as much as
+  // the server accepts per POST), so frames reach the server in the order
+  // they were sent
+  private async flush() {
+    if (this.posting || !this.postUrl) return;
+    this.posting = true;
+    try {
+      while (this.outbox.length > 0 && this.readyState === WebSocket.OPEN) {
+        const frames = this.takeBatch();
+        const response = await fetch(this.postUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+          },
+          body: JSON.stringify({ frames }),
+        });
+        if (!response.ok) throw new Error(`POST failed with ${response.status}`);
+      }
+    } catch (error) {
+      logger.debug('sending frames failed', error);
+      this.onerror?.(error);
+      this.close();
+    } finally {
+      this.posting = false;
+    }
+  }
+
+  private takeBatch(): string[] {
+    let size = POST_ENVELOPE_BYTES;
+    let count = 0;
+    while (count < this.outbox.length && count < this.maxFramesPerPost) {
+      size += this.outbox[count].length + POST_FRAME_OVERHEAD_BYTES;
+      if (size > this.maxPostBytes) break;
+      count++;
+    }
+    if (count === 0) throw new Error('frame is too large to send');
+    return this.outbox.splice(0, count);
+  }
+}
@@ -1,16 +1,33 @@
 import {
   decodeWsV3Frame,
+  decodeWsV3StdoutPayload,
   encodeWsV3Frame,
   encodeWsV3ResizePayload,
   encodeWsV3SubscribePayload,
+  type WsV3ControlAction,
+  type WsV3ControlPayload,
+  type WsV3HelloPayload,
   WsV3MessageType,
   WsV3SubscribeFlags,
 } from '../../shared/ws-v3.js';
 import { createLogger } from '../utils/logger.js';
 import { authClient } from './auth-client.js';
+import { SseSocket } from './sse-socket.js';
 
 const logger = createLogger('terminal-socket-client');
 
+// Upgrades that fail in a row, without one ever succeeding, before we assume
+// a proxy blocks WebSockets and switch to the SSE fallback for good
+const MAX_FAILED_UPGRADES = 2;
+
+// Unwrap the payload of a COMPRESSED frame
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data.slice()])
+    .stream()
+    .pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
 export interface BufferCell {
   char: string;
   width: number;
@@ -37,7 +54,9 @@ type Subscription = {
   wantSnapshots: boolean;
   wantEvents: boolean;
   onStdout?: (data: Uint8Array) => void;
-  onSnapshot?: (snapshot: BufferSnapshot) => void;
+  onStdoutReset?: () => void;
+  onStdoutSnapshot?: (snapshot: BufferSnapshot) => void;
+  onSnapshot?: (snapshot: BufferSnapshot, changedRows?: number[]) => void;
   onEvent?: (data: unknown) => void;
   onError?: (message: string) => void;
 };
@@ -45,10 +64,21 @@ type Subscription = {
 type SessionSubs = {
   subs: Set<Subscription>;
   flags: number;
+  // Server confirmed offset-prefixed STDOUT for the current subscription
+  stdoutOffsets: boolean;
+  // Offset of the last STDOUT received, sent back to resume after a reconnect
+  lastStdoutOffset?: number;
+  // Latest snapshot v2 state that deltas apply to
+  snapshot?: { seq: number; snapshot: BufferSnapshot };
+  // Server is dropping STDOUT because this client is too slow
+  congested: boolean;
 };
 
 export class TerminalSocketClient {
-  private ws: WebSocket | null = null;
+  private ws: WebSocket | SseSocket | null = null;
+  private transport: 'websocket' | 'sse' = 'websocket';
+  private webSocketWorked = false;
+  private failedUpgrades = 0;
   private isConnecting = false;
   private reconnectAttempts = 0;
   private reconnectTimer: number | null = null;
@@ -62,6 +92,9 @@ export class TerminalSocketClient {
   private sessions = new Map<string, SessionSubs>();
   private messageQueue: Uint8Array[] = [];
   private encoder = new TextEncoder();
+  // Inbound frames are handled one after another, since COMPRESSED ones
+  // inflate asynchronously and must not overtake later frames
+  private inbound: Promise<void> = Promise.resolve();
 
   async initialize() {
     if (this.initialized) return;
@@ -109,39 +142,75 @@ export class TerminalSocketClient {
     if (token) wsUrl += `?token=${encodeURIComponent(token)}`;
 
     try {
-      this.ws = new WebSocket(wsUrl);
-      this.ws.binaryType = 'arraybuffer';
+      if (this.transport === 'sse') {
+        this.ws = new SseSocket(token);
+      } else {
+        const ws = new WebSocket(wsUrl);
+        ws.binaryType = 'arraybuffer';
+        this.ws = ws;
+      }
+      let opened = false;
 
       this.ws.onopen = () => {
+        opened = true;
+        if (this.transport === 'websocket') this.webSocketWorked = true;
         this.isConnecting = false;
         this.reconnectAttempts = 0;
         this.setConnected(true);
         this.startPingPong();
 
+        // Ask for delta-encoded snapshots before anything is subscribed, for
+        // snapshots in place of STDOUT the server drops when we fall behind,
+        // and for compressed frames if this browser can inflate them
+        const hello: WsV3HelloPayload = {
+          snapshotVersions: [1, 2],
+          stdoutSnapshots: true,
+          compression: typeof DecompressionStream === 'undefined' ? undefined : ['deflate'],
+        };
+        this.safeSend(
+          encodeWsV3Frame({
+            type: WsV3MessageType.HELLO,
+            payload: this.encoder.encode(JSON.stringify(hello)),
+          })
+        );
+
         // Flush queued frames
         while (this.messageQueue.length > 0) {
           const msg = this.messageQueue.shift();
           if (msg) this.safeSend(msg);
         }
 
-        // Re-subscribe all sessions (aggregate flags)
+        // Re-subscribe all sessions (aggregate flags), resuming stdout where it stopped
         for (const [sessionId, info] of this.sessions) {
-          const payload = encodeWsV3SubscribePayload({ flags: info.flags });
-          this.safeSend(encodeWsV3Frame({ type: WsV3MessageType.SUBSCRIBE, sessionId, payload }));
+          info.stdoutOffsets = false;
+          info.snapshot = undefined;
+          info.congested = false;
+          this.sendSubscribe(sessionId, info);
         }
       };
 
-      this.ws.onmessage = (event) => {
+      this.ws.onmessage = (event: { data: unknown }) => {
         if (event.data instanceof ArrayBuffer) {
-          this.handleBinary(event.data);
+          const data = event.data;
+          this.inbound = this.inbound
+            .then(() => this.handleBinary(data))
+            .catch((error) => logger.error('failed to handle v3 frame', error));
         }
       };
 
-      this.ws.onerror = (error) => {
+      this.ws.onerror = (error: unknown) => {
         logger.debug('v3 socket error', error);
       };
 
       this.ws.onclose = () => {
+        if (!opened && this.transport === 'websocket' && !this.webSocketWorked) {
+          this.failedUpgrades++;
+          if (this.failedUpgrades >= MAX_FAILED_UPGRADES) {
+            logger.warn('WebSocket upgrade keeps failing, switching to the SSE fallback');
+            this.transport = 'sse';
+            this.reconnectAttempts = 0;
+          }
+        }
         this.isConnecting = false;
         this.stopPingPong();
         this.setConnected(false);
@@ -223,7 +292,14 @@ export class TerminalSocketClient {
       snapshots?: boolean;
       events?: boolean;
       onStdout?: (data: Uint8Array) => void;
-      onSnapshot?: (snapshot: BufferSnapshot) => void;
+      // Called before a full replay when stdout could not be resumed
+      onStdoutReset?: () => void;
+      // Called with the current screen while the server drops STDOUT because
+      // this client fell behind
+      onStdoutSnapshot?: (snapshot: BufferSnapshot) => void;
+      // `changedRows` lists the rows that differ from the previous snapshot,
+      // when the server sent a delta
+      onSnapshot?: (snapshot: BufferSnapshot, changedRows?: number[]) => void;
       onEvent?: (data: unknown) => void;
       onError?: (message: string) => void;
     }
@@ -235,6 +311,8 @@ export class TerminalSocketClient {
       wantSnapshots: opts.snapshots === true,
       wantEvents: opts.events === true,
       onStdout: opts.onStdout,
+      onStdoutReset: opts.onStdoutReset,
+      onStdoutSnapshot: opts.onStdoutSnapshot,
       onSnapshot: opts.onSnapshot,
       onEvent: opts.onEvent,
       onError: opts.onError,
@@ -242,7 +320,7 @@ export class TerminalSocketClient {
 
     let session = this.sessions.get(sessionId);
     if (!session) {
-      session = { subs: new Set(), flags: 0 };
+      session = { subs: new Set(), flags: 0, stdoutOffsets: false, congested: false };
       this.sessions.set(sessionId, session);
     }
 
@@ -268,14 +346,28 @@ export class TerminalSocketClient {
 
     let flags = 0;
     for (const sub of s.subs) {
-      if (sub.wantStdout) flags |= WsV3SubscribeFlags.Stdout;
+      if (sub.wantStdout) flags |= WsV3SubscribeFlags.Stdout | WsV3SubscribeFlags.StdoutOffsets;
       if (sub.wantSnapshots) flags |= WsV3SubscribeFlags.Snapshots;
       if (sub.wantEvents) flags |= WsV3SubscribeFlags.Events;
     }
 
     if (flags === s.flags) return;
     s.flags = flags;
-    const payload = encodeWsV3SubscribePayload({ flags });
+    if (!(flags & WsV3SubscribeFlags.Stdout)) {
+      s.stdoutOffsets = false;
+      s.lastStdoutOffset = undefined;
+    }
+    // A new subscription on the server starts with a keyframe
+    s.snapshot = undefined;
+    this.sendSubscribe(sessionId, s);
+  }
+
+  private sendSubscribe(sessionId: string, session: SessionSubs) {
+    const payload = encodeWsV3SubscribePayload({
+      flags: session.flags,
+      resumeFromOffset:
+        session.flags & WsV3SubscribeFlags.StdoutOffsets ? session.lastStdoutOffset : undefined,
+    });
     this.sendFrame(encodeWsV3Frame({ type: WsV3MessageType.SUBSCRIBE, sessionId, payload }));
   }
 
@@ -313,8 +405,38 @@ export class TerminalSocketClient {
     return true;
   }
 
-  private handleBinary(data: ArrayBuffer) {
-    const frame = decodeWsV3Frame(new Uint8Array(data));
+  sendControl(sessionId: string, action: WsV3ControlAction, clientId?: string): boolean {
+    if (!sessionId) return false;
+    const control: WsV3ControlPayload = { action, clientId };
+    const payload = this.encoder.encode(JSON.stringify(control));
+    this.sendFrame(encodeWsV3Frame({ type: WsV3MessageType.CONTROL, sessionId, payload }));
+    return true;
+  }
+
+  /**
+   * Servers that support `StdoutOffsets` confirm it with a `stdout-resume`
+   * event before the first STDOUT. Without a resume, a full replay follows
+   * and stdout subscribers start over.
+   */
+  private handleStdoutResume(session: SessionSubs, event: unknown): boolean {
+    const e = event as { kind?: string; resumed?: boolean } | null;
+    if (e?.kind !== 'stdout-resume') return false;
+
+    session.stdoutOffsets = true;
+    if (!e.resumed && session.lastStdoutOffset !== undefined) {
+      session.lastStdoutOffset = undefined;
+      for (const sub of session.subs) {
+        if (sub.wantStdout) sub.onStdoutReset?.();
+      }
+    }
+    return true;
+  }
+
+  private async handleBinary(data: ArrayBuffer) {
+    let frame = decodeWsV3Frame(new Uint8Array(data));
+    if (frame?.type === WsV3MessageType.COMPRESSED) {
+      frame = decodeWsV3Frame(await inflateRaw(frame.payload));
+    }
     if (!frame) return;
 
     const session = this.sessions.get(frame.sessionId);
@@ -322,7 +444,13 @@ export class TerminalSocketClient {
 
     if (frame.type === WsV3MessageType.STDOUT) {
       if (!session) return;
-      const bytes = frame.payload;
+      let bytes = frame.payload;
+      if (session.stdoutOffsets) {
+        const stdout = decodeWsV3StdoutPayload(frame.payload);
+        if (!stdout) return;
+        session.lastStdoutOffset = stdout.offset;
+        bytes = stdout.data;
+      }
       for (const sub of session.subs) {
         if (sub.wantStdout) sub.onStdout?.(bytes);
       }
@@ -337,6 +465,12 @@ export class TerminalSocketClient {
         obj = new TextDecoder().decode(frame.payload);
       }
 
+      if (session && this.handleStdoutResume(session, obj)) return;
+      const backpressure = obj as { kind?: string; congested?: boolean } | null;
+      if (session && backpressure?.kind === 'backpressure') {
+        session.congested = backpressure.congested === true;
+      }
+
       if (session) {
         for (const sub of session.subs) {
           if (sub.wantEvents) sub.onEvent?.(obj);
@@ -371,6 +505,8 @@ export class TerminalSocketClient {
 
     if (frame.type === WsV3MessageType.SNAPSHOT_VT) {
       if (!session) return;
+      // Decided now: the event that ends congestion may arrive before decoding finishes
+      const forStdout = session.congested;
       // Avoid circular dependency; decode lazily.
       import('../utils/terminal-renderer.js')
         .then(({ TerminalRenderer }) => {
@@ -379,9 +515,25 @@ export class TerminalSocketClient {
             // TerminalRenderer expects ArrayBuffer (not SharedArrayBuffer). Copy to detach.
             const copy = new Uint8Array(payload.byteLength);
             copy.set(payload);
-            const snapshot = TerminalRenderer.decodeBinaryBuffer(copy.buffer);
+            if (payload[2] !== 0x02) {
+              const snapshot = TerminalRenderer.decodeBinaryBuffer(copy.buffer);
+              for (const sub of session.subs) {
+                if (sub.wantSnapshots) sub.onSnapshot?.(snapshot);
+                if (forStdout && sub.wantStdout) sub.onStdoutSnapshot?.(snapshot);
+              }
+              return;
+            }
+
+            const delta = TerminalRenderer.decodeSnapshotFrame(copy.buffer);
+            const snapshot = TerminalRenderer.applySnapshotFrame(session.snapshot ?? null, delta);
+            if (!snapshot) {
+              logger.debug(`dropping snapshot delta ${delta.seq}, waiting for a keyframe`);
+              return;
+            }
+            session.snapshot = { seq: delta.seq, snapshot };
+            const changedRows = delta.keyframe ? undefined : [...delta.changedRows.keys()];
             for (const sub of session.subs) {
-              if (sub.wantSnapshots) sub.onSnapshot?.(snapshot);
+              if (sub.wantSnapshots) sub.onSnapshot?.(snapshot, changedRows);
             }
           } catch (error) {
             logger.error('failed to decode snapshot', error);
@@ -0,0 +1,86 @@
+import { HttpMethod } from '../../shared/types.js';
+import { createLogger } from '../utils/logger.js';
+import type { AuthClient } from './auth-client.js';
+
+const logger = createLogger('totp-service');
+
+export interface TotpStatus {
+  available: boolean; // False for logins without a password, e.g. Tailscale
+  enabled: boolean;
+}
+
+export interface TotpEnrollment {
+  secret: string;
+  otpauthUrl: string;
+}
+
+/**
+ * Service for enrolling the current user in TOTP two-factor authentication.
+ *
+ * @see web/src/server/routes/auth.ts - Server-side /api/auth/totp routes
+ */
+export class TotpService {
+  constructor(private authClient: AuthClient) {}
+
+  /**
+   * Get the two-factor status of the current user
+   *
+   * @throws Error if the API request fails
+   */
+  async getStatus(): Promise<TotpStatus> {
+    const response = await fetch('/api/auth/totp/status', {
+      headers: this.authClient.getAuthHeader(),
+    });
+    if (!response.ok) {
+      logger.error(`failed to get totp status: ${response.status}`);
+      throw new Error(`Failed to get two-factor status: ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Start enrollment
+   *
+   * @returns The new secret and its otpauth:// URI for authenticator apps
+   * @throws Error with the server's message if enrollment cannot start
+   */
+  async beginEnrollment(): Promise<TotpEnrollment> {
+    return this.post('/api/auth/totp/enroll');
+  }
+
+  /**
+   * Confirm enrollment with a code generated from the new secret
+   *
+   * @throws Error with the server's message if the code is rejected
+   */
+  async confirmEnrollment(code: string): Promise<void> {
+    await this.post('/api/auth/totp/enroll/confirm', { code });
+  }
+
+  /**
+   * Turn two-factor authentication off
+   *
+   * @param code - A current code from the authenticator app
+   * @throws Error with the server's message if the code is rejected
+   */
+  async disable(code: string): Promise<void> {
+    await this.post('/api/auth/totp/disable', { code });
+  }
+
+  private async post<T>(url: string, body: Record<string, unknown> = {}): Promise<T> {
+    const response = await fetch(url, {
+      method: HttpMethod.POST,
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.authClient.getAuthHeader(),
+      },
+      body: JSON.stringify(body),
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      logger.error(`totp request to ${url} failed: ${response.status}`);
+      throw new Error(result.error || `HTTP ${response.status}`);
+    }
+    return result;
+  }
+}
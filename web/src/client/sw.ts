@@ -61,13 +61,21 @@ interface CommandErrorData {
   timestamp: string;
 }
 
+interface SessionWatchData {
+  type: 'session-idle' | 'output-matched';
+  sessionId: string;
+  watchId?: string;
+  timestamp: string;
+}
+
 type NotificationData =
   | SessionExitData
   | SessionStartData
   | SessionErrorData
   | SystemAlertData
   | CommandFinishedData
-  | CommandErrorData;
+  | CommandErrorData
+  | SessionWatchData;
 
 interface PushNotificationPayload {
   title: string;
@@ -200,7 +208,9 @@ function getDefaultActions(data: NotificationData): NotificationAction[] {
     case 'session-error':
     case 'session-start':
     case 'command-finished':
-    case 'command-error': {
+    case 'command-error':
+    case 'session-idle':
+    case 'output-matched': {
       return [
         {
           action: 'view-session',
@@ -233,6 +243,8 @@ function getVibrationPattern(notificationType: string): number[] {
     case 'session-start':
       return [50]; // Very brief
     case 'command-finished':
+    case 'session-idle':
+    case 'output-matched':
       return [75, 50, 75]; // Medium notification
     case 'system-alert':
       return [150, 75, 150]; // Moderate pattern
@@ -277,7 +289,9 @@ async function handleNotificationClick(action: string, data: NotificationData):
         data.type === 'session-error' ||
         data.type === 'session-start' ||
         data.type === 'command-finished' ||
-        data.type === 'command-error'
+        data.type === 'command-error' ||
+        data.type === 'session-idle' ||
+        data.type === 'output-matched'
       ) {
         url += `/session/${data.sessionId}`;
       }
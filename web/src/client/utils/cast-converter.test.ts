@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { collectPlaybackSteps, convertCast, getCastMarkers } from './cast-converter';
+
+const cast = [
+  JSON.stringify({ version: 2, width: 80, height: 24 }),
+  JSON.stringify([0.5, 'o', 'one\r\n']),
+  JSON.stringify([1.0, 'o', 'two\r\n']),
+  JSON.stringify([1.5, 'm', 'build started']),
+  JSON.stringify([2.0, 'r', '120x40']),
+  JSON.stringify([2.5, 'o', 'three\r\n']),
+  JSON.stringify([4.0, 'm', 'deploy']),
+].join('\n');
+
+describe('cast-converter', () => {
+  describe('getCastMarkers', () => {
+    it('should return marker events in order', () => {
+      expect(getCastMarkers(convertCast(cast))).toEqual([
+        { timestamp: 1.5, label: 'build started' },
+        { timestamp: 4.0, label: 'deploy' },
+      ]);
+    });
+  });
+
+  describe('collectPlaybackSteps', () => {
+    it('should merge output and keep resizes in order', () => {
+      const { events } = convertCast(cast);
+      const { steps, nextIndex } = collectPlaybackSteps(events, 0, 3);
+
+      expect(steps).toEqual([
+        { type: 'output', data: 'one\r\ntwo\r\n' },
+        { type: 'resize', cols: 120, rows: 40 },
+        { type: 'output', data: 'three\r\n' },
+      ]);
+      expect(nextIndex).toBe(5);
+    });
+
+    it('should resume from a previous position', () => {
+      const { events } = convertCast(cast);
+      const first = collectPlaybackSteps(events, 0, 0.75);
+      const second = collectPlaybackSteps(events, first.nextIndex, 1.25);
+
+      expect(first.steps).toEqual([{ type: 'output', data: 'one\r\n' }]);
+      expect(second.steps).toEqual([{ type: 'output', data: 'two\r\n' }]);
+      expect(collectPlaybackSteps(events, second.nextIndex, 1.25).steps).toEqual([]);
+    });
+  });
+});
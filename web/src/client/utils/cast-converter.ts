@@ -13,12 +13,17 @@ interface CastHeader {
   env?: Record<string, string>;
 }
 
-interface CastEvent {
+export interface CastEvent {
   timestamp: number;
-  type: 'o' | 'i' | 'r'; // output, input, or resize
+  type: 'o' | 'i' | 'r' | 'm'; // output, input, resize, or marker
   data: string;
 }
 
+export interface CastMarker {
+  timestamp: number;
+  label: string;
+}
+
 export interface ConvertedCast {
   header: CastHeader | null;
   content: string; // All output data concatenated
@@ -121,6 +126,62 @@ export function getTerminalDimensions(castContent: string): { cols: number; rows
   };
 }
 
+/**
+ * Extract marker events written by `AsciinemaWriter.writeMarker()`
+ * @param converted - Converted cast data
+ * @returns Markers in timestamp order
+ */
+export function getCastMarkers(converted: ConvertedCast): CastMarker[] {
+  return converted.events
+    .filter((event) => event.type === 'm')
+    .map((event) => ({ timestamp: event.timestamp, label: event.data }));
+}
+
+export type PlaybackStep =
+  | { type: 'output'; data: string }
+  | { type: 'resize'; cols: number; rows: number };
+
+/**
+ * Collect the terminal writes needed to advance playback to a point in time.
+ * Consecutive output events are merged so seeking over long recordings does
+ * not issue one write per event.
+ * @param events - Cast events in timestamp order
+ * @param fromIndex - Index of the first event not yet applied
+ * @param until - Playback position in seconds
+ * @returns Steps to apply in order and the index to resume from
+ */
+export function collectPlaybackSteps(
+  events: CastEvent[],
+  fromIndex: number,
+  until: number
+): { steps: PlaybackStep[]; nextIndex: number } {
+  const steps: PlaybackStep[] = [];
+  let output = '';
+  let index = fromIndex;
+
+  for (; index < events.length && events[index].timestamp <= until; index++) {
+    const event = events[index];
+    if (event.type === 'o') {
+      output += event.data;
+    } else if (event.type === 'r') {
+      const match = event.data.match(/^(\d+)x(\d+)$/);
+      if (!match) continue;
+      if (output) {
+        steps.push({ type: 'output', data: output });
+        output = '';
+      }
+      steps.push({
+        type: 'resize',
+        cols: Number.parseInt(match[1], 10),
+        rows: Number.parseInt(match[2], 10),
+      });
+    }
+  }
+
+  if (output) steps.push({ type: 'output', data: output });
+  return { steps, nextIndex: index };
+}
+
 /**
  * Convert cast events to timed playback data
  * @param castContent - Raw cast file content
@@ -428,6 +489,8 @@ export const CastConverter = {
   loadAndConvert,
   convertToOutputOnly,
   getTerminalDimensions,
+  getCastMarkers,
+  collectPlaybackSteps,
   convertToTimedEvents,
   playOnTerminal,
   dumpToTerminal,
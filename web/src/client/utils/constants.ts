@@ -1,4 +1,5 @@
 // UI Constants for VibeTunnel
+import { MAX_SPLIT_PANES } from '../../shared/utils/split-layout.js';
 
 export const BREAKPOINTS = {
   MOBILE: 768,
@@ -68,8 +69,9 @@ export const TERMINAL = {
 
 export const SPLIT_PANE = {
   MIN_WIDTH: 300,
+  MIN_HEIGHT: 120,
   DIVIDER_WIDTH: 6,
-  MAX_PANES: 2,
+  MAX_PANES: MAX_SPLIT_PANES,
   DEFAULT_RATIO: 0.5,
 } as const;
 
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { encodeQrCode, qrCodeToSvgPath } from './qr-code';
+
+// Reference output of the `qrcode` npm package for "hi" (version 1, level M, mask 2)
+const HI_REFERENCE = [
+  '111111100111101111111',
+  '100000100110101000001',
+  '101110101101101011101',
+  '101110101100101011101',
+  '101110101001101011101',
+  '100000101100101000001',
+  '111111101010101111111',
+  '000000001011100000000',
+  '101111100000101111100',
+  '011101010010100100001',
+  '001100110101010011110',
+  '111010000100000110100',
+  '111010100001010010101',
+  '000000001001111001001',
+  '111111100010101100010',
+  '100000101111111001001',
+  '101110101000100100100',
+  '101110101110100100100',
+  '101110101001010011100',
+  '100000100110000110100',
+  '111111101011010011110',
+];
+
+function toRows(modules: boolean[][]): string[] {
+  return modules.map((row) => row.map((dark) => (dark ? '1' : '0')).join(''));
+}
+
+describe('encodeQrCode', () => {
+  it('matches a reference encoder', () => {
+    const qr = encodeQrCode('hi');
+
+    expect(qr.size).toBe(21);
+    expect(toRows(qr.modules)).toEqual(HI_REFERENCE);
+  });
+
+  it('picks the smallest version that fits', () => {
+    const otpauthUrl =
+      'otpauth://totp/VibeTunnel:alice?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=VibeTunnel';
+
+    expect(encodeQrCode(otpauthUrl).size).toBe(41); // Version 6
+    expect(encodeQrCode('x'.repeat(150)).size).toBe(49); // Version 8 adds version info
+  });
+
+  it('rejects text longer than version 9 holds', () => {
+    expect(() => encodeQrCode('x'.repeat(200))).toThrow('Text too long');
+  });
+});
+
+describe('qrCodeToSvgPath', () => {
+  it('draws one square per dark module', () => {
+    const qr = encodeQrCode('hi');
+    const dark = qr.modules.flat().filter(Boolean).length;
+
+    expect(qrCodeToSvgPath(qr).match(/h1v1h-1z/g)).toHaveLength(dark);
+    expect(qrCodeToSvgPath(qr).startsWith('M0,0h1v1h-1z')).toBe(true);
+  });
+});
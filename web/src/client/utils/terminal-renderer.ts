@@ -279,6 +279,57 @@ function getCellStylingFromBuffer(
   return { classes, style };
 }
 
+/**
+ * Render a decoded snapshot as escape sequences that repaint a terminal
+ * emulator's screen with it, cursor included
+ */
+export function renderSnapshotAsAnsi(snapshot: {
+  cursorX: number;
+  cursorY: number;
+  cells: BufferCell[][];
+}): string {
+  let out = '\x1b[0m\x1b[H\x1b[2J';
+
+  snapshot.cells.forEach((cells, row) => {
+    if (row > 0) out += '\r\n';
+    let currentSgr = '0';
+    for (const cell of cells) {
+      if (cell.width === 0) continue;
+      const sgr = getCellSgr(cell);
+      if (sgr !== currentSgr) {
+        out += `\x1b[0;${sgr}m`;
+        currentSgr = sgr;
+      }
+      out += cell.char;
+    }
+    if (currentSgr !== '0') out += '\x1b[0m';
+  });
+
+  return `${out}\x1b[${snapshot.cursorY + 1};${snapshot.cursorX + 1}H`;
+}
+
+// SGR parameters for a cell, using the same palette/RGB split as the binary format
+function getCellSgr(cell: BufferCell): string {
+  const params: string[] = [];
+  const attrs = cell.attributes ?? 0;
+  if (attrs & ATTR_BOLD) params.push('1');
+  if (attrs & ATTR_DIM) params.push('2');
+  if (attrs & ATTR_ITALIC) params.push('3');
+  if (attrs & ATTR_UNDERLINE) params.push('4');
+  if (attrs & ATTR_INVERSE) params.push('7');
+  if (attrs & ATTR_INVISIBLE) params.push('8');
+  if (attrs & ATTR_STRIKETHROUGH) params.push('9');
+
+  const color = (base: number, value: number) =>
+    value > 255
+      ? `${base};2;${(value >> 16) & 0xff};${(value >> 8) & 0xff};${value & 0xff}`
+      : `${base};5;${value}`;
+  if (cell.fg !== undefined) params.push(color(38, cell.fg));
+  if (cell.bg !== undefined) params.push(color(48, cell.bg));
+
+  return params.length > 0 ? params.join(';') : '0';
+}
+
 /**
  * Decode binary buffer format
  */
@@ -324,32 +375,129 @@ export function decodeBinaryBuffer(buffer: ArrayBuffer): {
 
   // Optimized format
   while (offset < uint8.length) {
-    const marker = uint8[offset++];
+    const result = decodeRows(uint8, view, offset);
+    offset = result.offset;
+    cells.push(...result.rows);
+  }
 
-    if (marker === 0xfe) {
-      // Empty row(s)
-      const count = uint8[offset++];
-      for (let i = 0; i < count; i++) {
-        cells.push([{ char: ' ', width: 1 }]);
-      }
-    } else if (marker === 0xfd) {
-      // Row with content
-      const cellCount = view.getUint16(offset, true);
-      offset += 2;
-
-      const rowCells: BufferCell[] = [];
-      for (let i = 0; i < cellCount; i++) {
-        const result = decodeCell(uint8, offset);
-        offset = result.offset;
-        rowCells.push(result.cell);
-      }
-      cells.push(rowCells);
+  return { cols, rows, viewportY, cursorX, cursorY, cells };
+}
+
+/**
+ * Snapshot v2 frame: a keyframe with every row, or a delta with only the
+ * rows that changed since frame `seq - 1`
+ */
+export interface SnapshotFrame {
+  keyframe: boolean;
+  seq: number;
+  cols: number;
+  rows: number;
+  viewportY: number;
+  cursorX: number;
+  cursorY: number;
+  cells: BufferCell[][]; // keyframe only
+  changedRows: Map<number, BufferCell[]>; // delta only
+}
+
+/**
+ * Decode binary buffer format v2 (see TerminalManager.encodeSnapshotDelta)
+ */
+export function decodeSnapshotFrame(buffer: ArrayBuffer): SnapshotFrame {
+  const view = new DataView(buffer);
+  const uint8 = new Uint8Array(buffer);
+
+  if (view.getUint16(0, true) !== 0x5654) {
+    throw new Error('Invalid buffer format');
+  }
+  const version = view.getUint8(2);
+  if (version !== 0x02) {
+    throw new Error(`Unsupported buffer version: ${version}`);
+  }
+
+  const frame: SnapshotFrame = {
+    keyframe: (view.getUint8(3) & 0x01) !== 0,
+    cols: view.getUint32(4, true),
+    rows: view.getUint32(8, true),
+    viewportY: view.getInt32(12, true),
+    cursorX: view.getInt32(16, true),
+    cursorY: view.getInt32(20, true),
+    seq: view.getUint32(24, true),
+    cells: [],
+    changedRows: new Map(),
+  };
+
+  let offset = 32;
+  while (offset < uint8.length) {
+    if (frame.keyframe) {
+      const result = decodeRows(uint8, view, offset);
+      offset = result.offset;
+      frame.cells.push(...result.rows);
+    } else {
+      const row = view.getUint16(offset, true);
+      const result = decodeRows(uint8, view, offset + 2);
+      offset = result.offset;
+      frame.changedRows.set(row, result.rows[0] ?? [{ char: ' ', width: 1 }]);
     }
   }
 
+  return frame;
+}
+
+/**
+ * Apply a v2 frame to the snapshot built from the frames before it
+ *
+ * @returns The updated snapshot, or null if the frame is a delta that does
+ *   not directly follow `previous` (the caller waits for the next keyframe)
+ */
+export function applySnapshotFrame(
+  previous: { seq: number; snapshot: ReturnType<typeof decodeBinaryBuffer> } | null,
+  frame: SnapshotFrame
+): ReturnType<typeof decodeBinaryBuffer> | null {
+  const { cols, rows, viewportY, cursorX, cursorY } = frame;
+  if (frame.keyframe) {
+    return { cols, rows, viewportY, cursorX, cursorY, cells: frame.cells };
+  }
+  if (!previous || frame.seq !== (previous.seq + 1) >>> 0) return null;
+
+  const cells = previous.snapshot.cells.slice();
+  for (const [row, rowCells] of frame.changedRows) {
+    cells[row] = rowCells;
+  }
   return { cols, rows, viewportY, cursorX, cursorY, cells };
 }
 
+// Decode one row marker: an empty row run or a row with content
+function decodeRows(
+  uint8: Uint8Array,
+  view: DataView,
+  offset: number
+): { rows: BufferCell[][]; offset: number } {
+  const rows: BufferCell[][] = [];
+  const marker = uint8[offset++];
+
+  if (marker === 0xfe) {
+    // Empty row(s)
+    const count = uint8[offset++];
+    for (let i = 0; i < count; i++) {
+      rows.push([{ char: ' ', width: 1 }]);
+    }
+  } else if (marker === 0xfd) {
+    // Row with content
+    const cellCount = view.getUint16(offset, true);
+    offset += 2;
+
+    const rowCells: BufferCell[] = [];
+    for (let i = 0; i < cellCount; i++) {
+      const result = decodeCell(uint8, offset);
+      offset = result.offset;
+      rowCells.push(result.cell);
+    }
+    rows.push(rowCells);
+  }
+
+  return { rows, offset };
+}
+
 function decodeCell(uint8: Uint8Array, offset: number): { cell: BufferCell; offset: number } {
   const typeByte = uint8[offset++];
 
@@ -431,4 +579,7 @@ export const TerminalRenderer = {
   renderLineFromBuffer,
   renderLineFromCells,
   decodeBinaryBuffer,
+  decodeSnapshotFrame,
+  applySnapshotFrame,
+  renderSnapshotAsAnsi,
 };
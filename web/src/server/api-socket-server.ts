@@ -18,7 +18,10 @@ import {
   MessageType,
   parsePayload,
   type StatusResponse,
+  type WorkspaceRequest,
+  type WorkspaceResponse,
 } from './pty/socket-protocol.js';
+import type { WorkspaceService } from './services/workspace-service.js';
 import { createGitError } from './utils/git-error.js';
 import { areHooksInstalled, installGitHooks, uninstallGitHooks } from './utils/git-hooks.js';
 import { createLogger } from './utils/logger.js';
@@ -58,6 +61,7 @@ export class ApiSocketServer {
   private readonly socketPath: string;
   private serverPort?: number;
   private serverUrl?: string;
+  private workspaceService?: WorkspaceService;
 
   constructor() {
     // Use control directory from environment or default
@@ -81,6 +85,13 @@ export class ApiSocketServer {
     this.serverUrl = url;
   }
 
+  /**
+   * Set the service that handles workspace requests
+   */
+  setWorkspaceService(service: WorkspaceService): void {
+    this.workspaceService = service;
+  }
+
   /**
    * Start the API socket server
    */
@@ -169,6 +180,10 @@ export class ApiSocketServer {
           await this.handleGitEventNotify(socket, data as GitEventNotify);
           break;
 
+        case MessageType.WORKSPACE_REQUEST:
+          await this.handleWorkspaceRequest(socket, data as WorkspaceRequest);
+          break;
+
         default:
           logger.warn(`Unhandled message type: ${type}`);
       }
@@ -521,6 +536,44 @@ export class ApiSocketServer {
     }
   }
 
+  /**
+   * Handle workspace up/down/list
+   */
+  private async handleWorkspaceRequest(
+    socket: net.Socket,
+    request: WorkspaceRequest
+  ): Promise<void> {
+    const service = this.workspaceService;
+    let response: WorkspaceResponse;
+    try {
+      if (!service) {
+        throw new Error('Workspaces are not available');
+      }
+
+      if (request.action === 'list') {
+        const workspaces = await Promise.all(
+          service.listWorkspaces().map(async (workspace) => ({
+            name: workspace.name,
+            sessions: workspace.sessions.map((session) => session.name),
+            runningSessionIds: [...(await service.getRunningSessions(workspace.name)).values()],
+          }))
+        );
+        response = { success: true, workspaces };
+      } else if (!request.name) {
+        throw new Error('Workspace name is required');
+      } else if (request.action === 'up') {
+        response = { success: true, up: await service.up(request.name) };
+      } else {
+        response = { success: true, down: await service.down(request.name) };
+      }
+    } catch (error) {
+      logger.error(`Workspace ${request.action} failed:`, error);
+      response = { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    socket.write(MessageBuilder.workspaceResponse(response));
+  }
+
   /**
    * Send error response
    */
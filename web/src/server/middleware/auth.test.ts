@@ -1,13 +1,19 @@
 import type { NextFunction, Response } from 'express';
 import express from 'express';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import request from 'supertest';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiTokenService } from '../services/api-token-service.js';
 import type { AuthService } from '../services/auth-service.js';
+import { ShareTokenService } from '../services/share-token-service.js';
 import { type AuthenticatedRequest, createAuthMiddleware } from './auth.js';
 
 // Mock the logger
 vi.mock('../utils/logger.js', () => ({
   createLogger: vi.fn(() => ({
+    log: vi.fn(),
     info: vi.fn(),
     warn: vi.fn(),
     error: vi.fn(),
@@ -318,6 +324,151 @@ describe('Auth Middleware', () => {
     });
   });
 
+  describe('Share Token Authentication', () => {
+    let shareTokenService: ShareTokenService;
+
+    beforeEach(() => {
+      shareTokenService = new ShareTokenService();
+    });
+
+    afterEach(() => {
+      shareTokenService.destroy();
+    });
+
+    function mountShareApp() {
+      app.use('/api', createAuthMiddleware({ authService: mockAuthService, shareTokenService }));
+      const handler = (req: AuthenticatedRequest, res: Response) =>
+        res.json({ authMethod: req.authMethod, shareSessionId: req.shareSessionId });
+      app.get('/api/sessions/:sessionId', handler);
+      app.get('/api/sessions/:sessionId/text', handler);
+      app.post('/api/sessions/:sessionId/input', handler);
+      app.get('/api/sessions', handler);
+    }
+
+    it('should allow reading the shared session', async () => {
+      const share = shareTokenService.createShare('s1');
+      mountShareApp();
+
+      const info = await request(app)
+        .get('/api/sessions/s1')
+        .set('Authorization', `Bearer ${share.token}`);
+      expect(info.status).toBe(200);
+      expect(info.body).toEqual({ authMethod: 'share-token', shareSessionId: 's1' });
+
+      const text = await request(app).get(`/api/sessions/s1/text?token=${share.token}`);
+      expect(text.status).toBe(200);
+    });
+
+    it('should reject other sessions, listing and input', async () => {
+      const share = shareTokenService.createShare('s1');
+      mountShareApp();
+
+      const auth = `Bearer ${share.token}`;
+      expect((await request(app).get('/api/sessions/s2').set('Authorization', auth)).status).toBe(
+        403
+      );
+      expect((await request(app).get('/api/sessions').set('Authorization', auth)).status).toBe(403);
+      expect(
+        (await request(app).post('/api/sessions/s1/input').set('Authorization', auth)).status
+      ).toBe(403);
+    });
+
+    it('should reject revoked share tokens', async () => {
+      const share = shareTokenService.createShare('s1');
+      shareTokenService.revokeShare('s1', share.id);
+      mountShareApp();
+
+      const response = await request(app)
+        .get('/api/sessions/s1')
+        .set('Authorization', `Bearer ${share.token}`);
+      expect(response.status).toBe(401);
+      expect(mockAuthService.verifyToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('API Token Authentication', () => {
+    let configDir: string;
+    let apiTokenService: ApiTokenService;
+
+    beforeEach(() => {
+      configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'api-tokens-'));
+      apiTokenService = new ApiTokenService(configDir);
+    });
+
+    afterEach(() => {
+      fs.rmSync(configDir, { recursive: true, force: true });
+    });
+
+    function mountTokenApp() {
+      app.use('/api', createAuthMiddleware({ authService: mockAuthService, apiTokenService }));
+      const handler = (req: AuthenticatedRequest, res: Response) =>
+        res.json({ authMethod: req.authMethod, userId: req.userId });
+      app.get('/api/sessions', handler);
+      app.post('/api/sessions/:sessionId/input', handler);
+      app.get('/api/fs/browse', handler);
+      app.post('/api/fs/mkdir', handler);
+      app.get('/api/auth/tokens', handler);
+    }
+
+    it('should allow routes covered by the token scopes', async () => {
+      const { token } = apiTokenService.createToken({
+        name: 'ci',
+        scopes: ['sessions:read', 'sessions:input'],
+        createdBy: 'alice',
+      });
+      mountTokenApp();
+
+      const auth = `Bearer ${token}`;
+      const list = await request(app).get('/api/sessions').set('Authorization', auth);
+      expect(list.status).toBe(200);
+      expect(list.body).toEqual({ authMethod: 'api-token', userId: 'alice' });
+      expect(
+        (await request(app).post('/api/sessions/s1/input').set('Authorization', auth)).status
+      ).toBe(200);
+      expect(apiTokenService.listTokens()[0].lastUsedAt).toBeDefined();
+    });
+
+    it('should reject routes outside the token scopes', async () => {
+      const { token } = apiTokenService.createToken({ name: 'ci', scopes: ['fs:read'] });
+      mountTokenApp();
+
+      const auth = `Bearer ${token}`;
+      expect((await request(app).get('/api/fs/browse').set('Authorization', auth)).status).toBe(
+        200
+      );
+      const mkdir = await request(app).post('/api/fs/mkdir').set('Authorization', auth);
+      expect(mkdir.status).toBe(403);
+      expect(mkdir.body.error).toContain('fs:write');
+      // Tokens can never manage tokens
+      expect((await request(app).get('/api/auth/tokens').set('Authorization', auth)).status).toBe(
+        403
+      );
+      expect(mockAuthService.verifyToken).not.toHaveBeenCalled();
+    });
+
+    it('should reject expired and revoked tokens', async () => {
+      const expired = apiTokenService.createToken({
+        name: 'old',
+        scopes: ['sessions:read'],
+        expiresAt: new Date(Date.now() - 1000).toISOString(),
+      });
+      const revoked = apiTokenService.createToken({ name: 'gone', scopes: ['sessions:read'] });
+      apiTokenService.revokeToken(revoked.apiToken.id);
+      mountTokenApp();
+
+      for (const { token } of [expired, revoked]) {
+        const response = await request(app).get(`/api/sessions?token=${token}`);
+        expect(response.status).toBe(401);
+      }
+    });
+
+    it('should require a user login for token management', async () => {
+      mountTokenApp();
+
+      expect((await request(app).get('/api/auth/tokens')).status).toBe(401);
+    });
+  });
+
   describe('Security Validations', () => {
     it('should skip auth for auth endpoints', async () => {
       const middleware = createAuthMiddleware({
@@ -1,5 +1,8 @@
 import type { NextFunction, Request, Response } from 'express';
+import type { ApiToken, ApiTokenScope } from '../../shared/types.js';
+import { ApiTokenService } from '../services/api-token-service.js';
 import type { AuthService } from '../services/auth-service.js';
+import { ShareTokenService } from '../services/share-token-service.js';
 import { createLogger } from '../utils/logger.js';
 
 const logger = createLogger('auth');
@@ -14,13 +17,25 @@ interface AuthConfig {
   allowLocalBypass?: boolean; // Allow localhost connections to bypass auth
   localAuthToken?: string; // Token for localhost authentication
   allowTailscaleAuth?: boolean; // Allow Tailscale identity headers for authentication
+  shareTokenService?: ShareTokenService; // Read-only per-session share links
+  apiTokenService?: ApiTokenService; // Named, scoped tokens for automation
 }
 
 export interface AuthenticatedRequest extends Request {
   userId?: string;
-  authMethod?: 'ssh-key' | 'password' | 'hq-bearer' | 'no-auth' | 'local-bypass' | 'tailscale';
+  authMethod?:
+    | 'ssh-key'
+    | 'password'
+    | 'hq-bearer'
+    | 'no-auth'
+    | 'local-bypass'
+    | 'tailscale'
+    | 'share-token'
+    | 'api-token';
   isHQRequest?: boolean;
   tailscaleUser?: TailscaleUser;
+  shareSessionId?: string; // Set when authenticated via a read-only share token
+  apiToken?: ApiToken; // Set when authenticated via an API token
 }
 
 // Helper function to check if request is from localhost
@@ -55,6 +70,56 @@ function isFromLocalhostAddress(req: Request): boolean {
   return remoteAddr === '127.0.0.1' || remoteAddr === '::1' || remoteAddr === '::ffff:127.0.0.1';
 }
 
+// Share tokens only grant read access to their own session and the v3 WebSocket
+// or its SSE fallback (where WsV3Hub enforces the same scope per frame).
+function isShareTokenRouteAllowed(req: Request, sessionId: string): boolean {
+  if (req.path === '/ws' || req.path.startsWith('/ws/sse')) return true;
+  if (req.method !== 'GET') return false;
+
+  const match = req.path.match(/^\/sessions\/([^/]+)(\/text)?$/);
+  return !!match && decodeURIComponent(match[1]) === sessionId;
+}
+
+// Routes API tokens can reach and the scopes each needs. Anything else,
+// including token management itself, needs a user login.
+const API_TOKEN_ROUTES: Array<{ methods: string[]; path: RegExp; scopes: ApiTokenScope[] }> = [
+  {
+    methods: ['GET'],
+    path: /^\/sessions(\/[^/]+(\/(text|recording|markers|git-status))?)?$/,
+    scopes: ['sessions:read'],
+  },
+  { methods: ['POST'], path: /^\/sessions$/, scopes: ['sessions:create'] },
+  { methods: ['DELETE'], path: /^\/sessions\/[^/]+(\/cleanup)?$/, scopes: ['sessions:create'] },
+  {
+    methods: ['POST'],
+    path: /^\/sessions\/[^/]+\/(input|resize|markers)$/,
+    scopes: ['sessions:input'],
+  },
+  // The v3 WebSocket (and its SSE fallback). Frames that act on a session
+  // are checked against the token's scopes in WsV3Hub, as their routes are here.
+  {
+    methods: ['GET', 'POST'],
+    path: /^\/ws(\/sse(\/[^/]+)?)?$/,
+    scopes: ['sessions:read'],
+  },
+  { methods: ['GET'], path: /^\/(fs|files)(\/|$)/, scopes: ['fs:read'] },
+  { methods: ['POST', 'DELETE'], path: /^\/(fs|files)(\/|$)/, scopes: ['fs:write'] },
+  {
+    methods: ['GET', 'POST', 'DELETE'],
+    path: /^\/(git|worktrees|repositories)(\/|$)/,
+    scopes: ['git'],
+  },
+];
+
+// Scopes an API token needs for this request, or null when tokens may not use it
+function getApiTokenScopes(req: Request): ApiTokenScope[] | null {
+  const method = req.method || 'GET'; // WebSocket upgrades are GET requests
+  const route = API_TOKEN_ROUTES.find(
+    (candidate) => candidate.methods.includes(method) && candidate.path.test(req.path)
+  );
+  return route?.scopes ?? null;
+}
+
 // Type definition for Tailscale headers
 interface TailscaleHeaders {
   'tailscale-user-login'?: string;
@@ -92,10 +157,14 @@ function getTailscaleUser(req: Request): TailscaleUser | null {
 
 export function createAuthMiddleware(config: AuthConfig) {
   return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-    // Skip auth for auth endpoints, client logging, push notifications, and Tailscale status
+    // Skip auth for auth endpoints, client logging, push notifications, and Tailscale status.
+    // API token and two-factor management are the exception: only logged-in users may use them.
+    const isAccountManagement = ['/auth/tokens', '/auth/totp/'].some(
+      (prefix) => req.path.startsWith(prefix) || req.path.startsWith(`/api${prefix}`)
+    );
     if (
-      req.path.startsWith('/auth') ||
-      req.path.startsWith('/api/auth') ||
+      (!isAccountManagement &&
+        (req.path.startsWith('/auth') || req.path.startsWith('/api/auth'))) ||
       req.path.startsWith('/logs') ||
       req.path === '/sessions/tailscale/status' ||
       req.path.startsWith('/push')
@@ -123,6 +192,70 @@ export function createAuthMiddleware(config: AuthConfig) {
       return next();
     }
 
+    // Check for read-only share token (header or query, so WebSocket clients work too)
+    if (config.shareTokenService) {
+      const headerToken = req.headers.authorization?.startsWith('Bearer ')
+        ? req.headers.authorization.substring(7)
+        : undefined;
+      const candidate = ShareTokenService.isShareToken(headerToken)
+        ? headerToken
+        : (req.query.token as string | undefined);
+
+      if (ShareTokenService.isShareToken(candidate)) {
+        const share = config.shareTokenService.verifyToken(candidate);
+        if (!share) {
+          logger.warn(`Invalid or expired share token for ${req.method} ${req.path}`);
+          return res.status(401).json({ error: 'Share link is invalid or has expired' });
+        }
+
+        if (!isShareTokenRouteAllowed(req, share.sessionId)) {
+          logger.warn(`Share ${share.id} denied access to ${req.method} ${req.path}`);
+          return res
+            .status(403)
+            .json({ error: 'Share link does not grant access to this resource' });
+        }
+
+        req.authMethod = 'share-token';
+        req.userId = `share:${share.id}`;
+        req.shareSessionId = share.sessionId;
+        return next();
+      }
+    }
+
+    // Check for scoped API token (header or query, so WebSocket clients work too)
+    if (config.apiTokenService) {
+      const headerToken = req.headers.authorization?.startsWith('Bearer ')
+        ? req.headers.authorization.substring(7)
+        : undefined;
+      const candidate = ApiTokenService.isApiToken(headerToken)
+        ? headerToken
+        : (req.query.token as string | undefined);
+
+      if (ApiTokenService.isApiToken(candidate)) {
+        const apiToken = config.apiTokenService.verifyToken(candidate);
+        if (!apiToken) {
+          logger.warn(`Invalid or expired API token for ${req.method} ${req.path}`);
+          return res.status(401).json({ error: 'API token is invalid or has expired' });
+        }
+
+        const scopes = getApiTokenScopes(req);
+        const missing = scopes?.filter((scope) => !apiToken.scopes.includes(scope));
+        if (!scopes || (missing && missing.length > 0)) {
+          logger.warn(`API token ${apiToken.id} denied access to ${req.method} ${req.path}`);
+          return res.status(403).json({
+            error: missing?.length
+              ? `API token is missing the ${missing.join(', ')} scope`
+              : 'API tokens cannot access this resource',
+          });
+        }
+
+        req.authMethod = 'api-token';
+        req.userId = apiToken.createdBy ?? `api-token:${apiToken.id}`;
+        req.apiToken = apiToken;
+        return next();
+      }
+    }
+
     // Check for Tailscale authentication if enabled
     if (config.allowTailscaleAuth) {
       const tailscaleUser = getTailscaleUser(req);
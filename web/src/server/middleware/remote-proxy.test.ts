@@ -0,0 +1,90 @@
+import express from 'express';
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { RemoteRegistry, RemoteServer } from '../services/remote-registry.js';
+import { createRemoteProxyMiddleware } from './remote-proxy.js';
+
+vi.mock('../utils/logger.js', () => ({
+  createLogger: () => ({
+    log: vi.fn(),
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+describe('remote proxy middleware', () => {
+  const remote = { id: 'r1', name: 'build-box', token: 'secret' } as RemoteServer;
+  let fetchRemote: ReturnType<typeof vi.fn>;
+  let app: express.Application;
+
+  beforeEach(() => {
+    fetchRemote = vi.fn(
+      async () =>
+        new Response(JSON.stringify({ files: [] }), {
+          status: 200,
+          headers: { 'Content-Type': 'application/json', 'X-Internal': 'yes' },
+        })
+    );
+    const remoteRegistry = {
+      getRemote: (remoteId: string) => (remoteId === 'r1' ? remote : undefined),
+      fetchRemote,
+    } as unknown as RemoteRegistry;
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/fs', createRemoteProxyMiddleware({ remoteRegistry, isHQMode: true }));
+    app.get('/api/fs/browse', (_req, res) => res.json({ local: true }));
+    app.post('/api/fs/mkdir', (_req, res) => res.json({ local: true }));
+  });
+
+  it('handles requests without remoteId locally', async () => {
+    const response = await request(app).get('/api/fs/browse?path=/tmp');
+    expect(response.body).toEqual({ local: true });
+    expect(fetchRemote).not.toHaveBeenCalled();
+  });
+
+  it('forwards requests to the remote without remoteId', async () => {
+    const response = await request(app).get('/api/fs/browse?path=%2Ftmp&remoteId=r1');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ files: [] });
+    expect(response.headers['x-internal']).toBeUndefined();
+    expect(fetchRemote).toHaveBeenCalledWith(
+      remote,
+      '/api/fs/browse?path=%2Ftmp',
+      expect.objectContaining({
+        method: 'GET',
+        headers: { Authorization: 'Bearer secret' },
+        body: undefined,
+      })
+    );
+  });
+
+  it('forwards JSON bodies', async () => {
+    await request(app)
+      .post('/api/fs/mkdir?remoteId=r1')
+      .send({ path: '/tmp', name: 'new' })
+      .expect(200);
+
+    expect(fetchRemote).toHaveBeenCalledWith(
+      remote,
+      '/api/fs/mkdir',
+      expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ path: '/tmp', name: 'new' }),
+      })
+    );
+  });
+
+  it('rejects unknown and unreachable remotes', async () => {
+    const unknown = await request(app).get('/api/fs/browse?remoteId=r2');
+    expect(unknown.status).toBe(404);
+
+    fetchRemote.mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+    const unreachable = await request(app).get('/api/fs/browse?remoteId=r1');
+    expect(unreachable.status).toBe(503);
+    expect(unreachable.body).toEqual({ error: 'Failed to reach remote server' });
+  });
+});
@@ -0,0 +1,85 @@
+import type { NextFunction, Request, Response } from 'express';
+import { HttpMethod } from '../../shared/types.js';
+import type { RemoteRegistry } from '../services/remote-registry.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('remote-proxy');
+
+const REMOTE_PROXY_TIMEOUT_MS = 30000;
+
+// Response headers worth passing through; the rest describe the remote's connection
+const FORWARDED_RESPONSE_HEADERS = [
+  'content-type',
+  'content-disposition',
+  'cache-control',
+  'last-modified',
+  'etag',
+];
+
+interface RemoteProxyConfig {
+  remoteRegistry: RemoteRegistry | null;
+  isHQMode: boolean;
+}
+
+/**
+ * Forward requests carrying a `remoteId` query parameter to that remote.
+ *
+ * The filesystem, git, worktree and repository APIs act on the machine that
+ * serves them. In HQ mode the client passes the `remoteId` of the session it
+ * works with, so these APIs run on the machine the session lives on. Requests
+ * without `remoteId` are handled locally.
+ */
+export function createRemoteProxyMiddleware(config: RemoteProxyConfig) {
+  const { remoteRegistry, isHQMode } = config;
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const remoteId = typeof req.query.remoteId === 'string' ? req.query.remoteId : undefined;
+    if (!remoteId) {
+      return next();
+    }
+
+    if (!isHQMode || !remoteRegistry) {
+      return res.status(400).json({ error: 'remoteId is only supported in HQ mode' });
+    }
+
+    const remote = remoteRegistry.getRemote(remoteId);
+    if (!remote) {
+      logger.warn(`cannot proxy ${req.method} ${req.path}: remote ${remoteId} not found`);
+      return res.status(404).json({ error: 'Remote server not found' });
+    }
+
+    // Don't forward remoteId, the remote would try to proxy again
+    const url = new URL(req.originalUrl, 'http://hq');
+    url.searchParams.delete('remoteId');
+    const hasBody = [HttpMethod.POST, HttpMethod.PUT, HttpMethod.PATCH].includes(
+      req.method as HttpMethod
+    );
+
+    try {
+      const response = await remoteRegistry.fetchRemote(remote, `${url.pathname}${url.search}`, {
+        method: req.method,
+        headers: {
+          ...(hasBody ? { 'Content-Type': 'application/json' } : {}),
+          Authorization: `Bearer ${remote.token}`,
+        },
+        body: hasBody ? JSON.stringify(req.body ?? {}) : undefined,
+        signal: AbortSignal.timeout(REMOTE_PROXY_TIMEOUT_MS),
+      });
+
+      res.status(response.status);
+      for (const header of FORWARDED_RESPONSE_HEADERS) {
+        const value = response.headers.get(header);
+        if (value) res.setHeader(header, value);
+      }
+      res.send(Buffer.from(await response.arrayBuffer()));
+    } catch (error) {
+      logger.error(
+        `failed to proxy ${req.method} ${url.pathname} to remote ${remote.name}:`,
+        error
+      );
+      if (!res.headersSent) {
+        res.status(503).json({ error: 'Failed to reach remote server' });
+      }
+    }
+  };
+}
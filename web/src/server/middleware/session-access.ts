@@ -0,0 +1,29 @@
+import type { NextFunction, Response } from 'express';
+import type { SessionOwnership } from '../services/session-ownership.js';
+import { createLogger } from '../utils/logger.js';
+import type { AuthenticatedRequest } from './auth.js';
+
+const logger = createLogger('session-access');
+
+interface SessionAccessConfig {
+  sessionOwnership: SessionOwnership;
+}
+
+/**
+ * Guard the per-session APIs (`/api/sessions/:sessionId/...`) in multi-user
+ * mode. Sessions owned by someone else answer 404, the same as sessions that
+ * don't exist, so their IDs aren't revealed.
+ */
+export function createSessionAccessMiddleware(config: SessionAccessConfig) {
+  const { sessionOwnership } = config;
+
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    const sessionId = req.params.sessionId;
+    if (!sessionId || sessionOwnership.canAccessSession(req, sessionId)) {
+      return next();
+    }
+
+    logger.warn(`user ${req.userId || 'unknown'} denied access to session ${sessionId}`);
+    return res.status(404).json({ error: 'Session not found' });
+  };
+}
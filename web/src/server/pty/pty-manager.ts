@@ -53,6 +53,7 @@ import {
 } from './socket-protocol.js';
 import {
   type KillControlMessage,
+  type MarkControlMessage,
   PtyError,
   type PtySession,
   type ResetSizeControlMessage,
@@ -365,6 +366,9 @@ export class PtyManager extends EventEmitter {
         gitIsWorktree: options.gitIsWorktree,
         gitMainRepoPath: options.gitMainRepoPath,
         attachedViaVT,
+        workspace: options.workspace,
+        multiplexer: options.multiplexer,
+        userId: options.userId,
       };
 
       // Save initial session info
@@ -406,6 +410,9 @@ export class PtyManager extends EventEmitter {
             delete ptyEnv[key];
           }
         }
+        // Session-specific variables (e.g. from a quick start template) win over the
+        // server's environment but not over the variables VibeTunnel relies on
+        Object.assign(ptyEnv, options.env);
         ptyEnv.TERM = term;
         // Set session ID to prevent recursive vt calls and for debugging
         ptyEnv.VIBETUNNEL_SESSION_ID = sessionId;
@@ -1011,6 +1018,9 @@ export class PtyManager extends EventEmitter {
       logger.debug(`[IPC] Received title update for session ${session.id}: "${message.title}"`);
       logger.debug(`[IPC] Current session name before update: "${session.sessionInfo.name}"`);
       this.updateSessionName(session.id, message.title);
+    } else if (message.cmd === 'mark' && typeof message.label === 'string') {
+      // Handle marker via IPC (used by vt mark command)
+      session.asciinemaWriter?.writeMarker(message.label);
     }
   }
 
@@ -1156,7 +1166,11 @@ export class PtyManager extends EventEmitter {
    */
   private sendControlMessage(
     sessionId: string,
-    message: ResizeControlMessage | KillControlMessage | ResetSizeControlMessage
+    message:
+      | ResizeControlMessage
+      | KillControlMessage
+      | ResetSizeControlMessage
+      | MarkControlMessage
   ): boolean {
     const sessionPaths = this.sessionManager.getSessionPaths(sessionId);
     if (!sessionPaths) {
@@ -1392,6 +1406,29 @@ export class PtyManager extends EventEmitter {
     }
   }
 
+  /**
+   * Write a marker event into a session's recording
+   */
+  addMarker(sessionId: string, label: string): void {
+    const memorySession = this.sessions.get(sessionId);
+    if (memorySession?.asciinemaWriter) {
+      memorySession.asciinemaWriter.writeMarker(label);
+      logger.debug(`Added marker to session ${sessionId}: ${label}`);
+      return;
+    }
+
+    // External sessions own their recording; ask the forwarder to write it
+    const markMessage: MarkControlMessage = { cmd: 'mark', label };
+    if (!this.sendControlMessage(sessionId, markMessage)) {
+      throw new PtyError(
+        `Failed to send mark command to session ${sessionId}`,
+        'CONTROL_MESSAGE_FAILED',
+        sessionId
+      );
+    }
+    logger.debug(`Sent mark command to session ${sessionId}`);
+  }
+
   /**
    * Detach from a tmux session gracefully
    * @param sessionId The session ID of the tmux attachment
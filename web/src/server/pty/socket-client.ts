@@ -12,6 +12,7 @@ import {
   type GitEventNotify,
   type GitFollowRequest,
   type KillCommand,
+  type MarkCommand,
   MessageBuilder,
   MessageParser,
   type MessagePayload,
@@ -20,6 +21,7 @@ import {
   type ResizeCommand,
   type StatusUpdate,
   type UpdateTitleCommand,
+  type WorkspaceRequest,
 } from './socket-protocol.js';
 
 const logger = createLogger('socket-client');
@@ -253,6 +255,13 @@ export class VibeTunnelSocketClient extends EventEmitter {
     return this.send(MessageBuilder.updateTitle(title));
   }
 
+  /**
+   * Send marker command (bookmark in the session recording)
+   */
+  mark(label: string): boolean {
+    return this.send(MessageBuilder.mark(label));
+  }
+
   /**
    * Send status update
    */
@@ -332,6 +341,8 @@ export class VibeTunnelSocketClient extends EventEmitter {
             return MessageBuilder.resetSize();
           case 'update-title':
             return MessageBuilder.updateTitle((cmd as UpdateTitleCommand).title);
+          case 'mark':
+            return MessageBuilder.mark((cmd as MarkCommand).label);
           default:
             // For generic control commands, use frameMessage directly
             return frameMessage(MessageType.CONTROL_CMD, cmd);
@@ -353,6 +364,8 @@ export class VibeTunnelSocketClient extends EventEmitter {
         return MessageBuilder.gitFollowRequest(payload as GitFollowRequest);
       case MessageType.GIT_EVENT_NOTIFY:
         return MessageBuilder.gitEventNotify(payload as GitEventNotify);
+      case MessageType.WORKSPACE_REQUEST:
+        return MessageBuilder.workspaceRequest(payload as WorkspaceRequest);
       default:
         throw new Error(`Unsupported message type: ${type}`);
     }
@@ -8,6 +8,7 @@
  */
 
 import { Buffer } from 'buffer';
+import type { WorkspaceDownResult, WorkspaceUpResult } from '../../shared/types.js';
 
 /**
  * Message types for the socket protocol
@@ -29,6 +30,9 @@ export enum MessageType {
   GIT_FOLLOW_RESPONSE = 0x31, // Response to follow request
   GIT_EVENT_NOTIFY = 0x32, // Git event notification
   GIT_EVENT_ACK = 0x33, // Git event acknowledgment
+  // Workspace operations
+  WORKSPACE_REQUEST = 0x40, // Start, stop or list workspaces
+  WORKSPACE_RESPONSE = 0x41, // Result of a workspace request
 }
 
 /**
@@ -59,6 +63,11 @@ export interface UpdateTitleCommand extends ControlCommand {
   title: string;
 }
 
+export interface MarkCommand extends ControlCommand {
+  cmd: 'mark';
+  label: string;
+}
+
 /**
  * Status update payload
  */
@@ -136,6 +145,25 @@ export interface GitEventAck {
   handled: boolean;
 }
 
+/**
+ * Workspace request
+ */
+export interface WorkspaceRequest {
+  action: 'up' | 'down' | 'list';
+  name?: string; // Required for up and down
+}
+
+/**
+ * Workspace response
+ */
+export interface WorkspaceResponse {
+  success: boolean;
+  error?: string;
+  up?: WorkspaceUpResult;
+  down?: WorkspaceDownResult;
+  workspaces?: Array<{ name: string; sessions: string[]; runningSessionIds: string[] }>;
+}
+
 /**
  * Type-safe mapping of message types to their payload types
  */
@@ -151,6 +179,8 @@ export type MessagePayloadMap = {
   [MessageType.GIT_FOLLOW_RESPONSE]: GitFollowResponse;
   [MessageType.GIT_EVENT_NOTIFY]: GitEventNotify;
   [MessageType.GIT_EVENT_ACK]: GitEventAck;
+  [MessageType.WORKSPACE_REQUEST]: WorkspaceRequest;
+  [MessageType.WORKSPACE_RESPONSE]: WorkspaceResponse;
 };
 
 /**
@@ -252,6 +282,10 @@ export const MessageBuilder = {
     return frameMessage(MessageType.CONTROL_CMD, { cmd: 'update-title', title });
   },
 
+  mark(label: string): Buffer {
+    return frameMessage(MessageType.CONTROL_CMD, { cmd: 'mark', label });
+  },
+
   status(app: string, status: string, extra?: Record<string, unknown>): Buffer {
     return frameMessage(MessageType.STATUS_UPDATE, { app, status, ...extra });
   },
@@ -287,6 +321,14 @@ export const MessageBuilder = {
   statusResponse(response: StatusResponse): Buffer {
     return frameMessage(MessageType.STATUS_RESPONSE, response);
   },
+
+  workspaceRequest(request: WorkspaceRequest): Buffer {
+    return frameMessage(MessageType.WORKSPACE_REQUEST, request);
+  },
+
+  workspaceResponse(response: WorkspaceResponse): Buffer {
+    return frameMessage(MessageType.WORKSPACE_RESPONSE, response);
+  },
 } as const;
 
 /**
@@ -306,6 +348,8 @@ export function parsePayload(type: MessageType, payload: Buffer): unknown {
     case MessageType.GIT_FOLLOW_RESPONSE:
     case MessageType.GIT_EVENT_NOTIFY:
     case MessageType.GIT_EVENT_ACK:
+    case MessageType.WORKSPACE_REQUEST:
+    case MessageType.WORKSPACE_RESPONSE:
       try {
         return JSON.parse(payload.toString('utf8'));
       } catch (e) {
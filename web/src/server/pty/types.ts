@@ -50,6 +50,11 @@ export interface ResetSizeControlMessage extends ControlMessage {
   cmd: 'reset-size';
 }
 
+export interface MarkControlMessage extends ControlMessage {
+  cmd: 'mark';
+  label: string;
+}
+
 export type AsciinemaEvent = {
   time: number;
   type: 'o' | 'i' | 'r' | 'm';
@@ -0,0 +1,94 @@
+import express from 'express';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import request from 'supertest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
+import type { PtyManager } from '../pty/index.js';
+import { ApiTokenService } from '../services/api-token-service.js';
+import { SessionOwnership } from '../services/session-ownership.js';
+import { createApiTokenRoutes } from './api-tokens.js';
+
+vi.mock('../utils/logger.js', () => ({
+  createLogger: () => ({
+    log: vi.fn(),
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+describe('API token routes in multi-user mode', () => {
+  let configDir: string;
+  let apiTokenService: ApiTokenService;
+  let app: express.Express;
+
+  beforeEach(() => {
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vt-api-tokens-'));
+    apiTokenService = new ApiTokenService(configDir);
+    const sessionOwnership = new SessionOwnership({
+      enabled: true,
+      adminUsers: ['root'],
+      serverUser: 'vibetunnel',
+      ptyManager: {} as PtyManager,
+      remoteRegistry: null,
+    });
+
+    app = express();
+    app.use(express.json());
+    app.use((req: AuthenticatedRequest, _res, next) => {
+      req.userId = req.header('x-test-user');
+      req.authMethod = 'password';
+      next();
+    });
+    app.use('/api', createApiTokenRoutes({ apiTokenService, sessionOwnership }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(configDir, { recursive: true, force: true });
+  });
+
+  function createToken(user: string) {
+    return apiTokenService.createToken({ name: user, scopes: ['sessions:read'], createdBy: user })
+      .apiToken;
+  }
+
+  it('lists only the caller’s tokens, and everyone’s for admins', async () => {
+    const alice = createToken('alice');
+    const bob = createToken('bob');
+
+    const asAlice = await request(app).get('/api/auth/tokens').set('x-test-user', 'alice');
+    expect(asAlice.body.map((token: { id: string }) => token.id)).toEqual([alice.id]);
+
+    const asAdmin = await request(app).get('/api/auth/tokens').set('x-test-user', 'root');
+    expect(asAdmin.body.map((token: { id: string }) => token.id).sort()).toEqual(
+      [alice.id, bob.id].sort()
+    );
+  });
+
+  it('does not let users revoke each other’s tokens', async () => {
+    const bob = createToken('bob');
+
+    const asAlice = await request(app)
+      .delete(`/api/auth/tokens/${bob.id}`)
+      .set('x-test-user', 'alice');
+    expect(asAlice.status).toBe(404);
+    expect(apiTokenService.listTokens()).toHaveLength(1);
+
+    const asBob = await request(app).delete(`/api/auth/tokens/${bob.id}`).set('x-test-user', 'bob');
+    expect(asBob.status).toBe(200);
+    expect(apiTokenService.listTokens()).toEqual([]);
+  });
+
+  it('lets admins revoke any token', async () => {
+    const alice = createToken('alice');
+
+    const response = await request(app)
+      .delete(`/api/auth/tokens/${alice.id}`)
+      .set('x-test-user', 'root');
+    expect(response.status).toBe(200);
+    expect(apiTokenService.listTokens()).toEqual([]);
+  });
+});
@@ -0,0 +1,84 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { API_TOKEN_SCOPES } from '../../shared/types.js';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
+import type { ApiTokenService } from '../services/api-token-service.js';
+import type { SessionOwnership } from '../services/session-ownership.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('api-token-routes');
+
+const MAX_TOKEN_NAME_LENGTH = 100;
+const MAX_EXPIRY_DAYS = 3650;
+
+const CreateApiTokenSchema = z.object({
+  name: z.string().trim().min(1).max(MAX_TOKEN_NAME_LENGTH),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1),
+  expiresInDays: z.number().int().min(1).max(MAX_EXPIRY_DAYS).optional(),
+});
+
+interface ApiTokenRoutesConfig {
+  apiTokenService: ApiTokenService;
+  sessionOwnership: SessionOwnership;
+}
+
+/**
+ * Management of scoped API tokens. The auth middleware lets only logged-in
+ * users reach these routes, so a token can never mint or revoke tokens.
+ * In multi-user mode users only see and revoke their own tokens; admins
+ * manage everyone's.
+ */
+export function createApiTokenRoutes(config: ApiTokenRoutesConfig): Router {
+  const router = Router();
+  const { apiTokenService, sessionOwnership } = config;
+
+  const visibleTokens = (req: AuthenticatedRequest) => {
+    const tokens = apiTokenService.listTokens();
+    if (sessionOwnership.isAdmin(req)) return tokens;
+    return tokens.filter((token) => !!req.userId && token.createdBy === req.userId);
+  };
+
+  // List API tokens (metadata only, never the secrets)
+  router.get('/auth/tokens', (req: AuthenticatedRequest, res) => {
+    res.json(visibleTokens(req));
+  });
+
+  // Create an API token; the secret is only returned here
+  router.post('/auth/tokens', (req: AuthenticatedRequest, res) => {
+    const parsed = CreateApiTokenSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: 'Invalid token request',
+        details: parsed.error.issues.map((issue) => issue.message).join(', '),
+      });
+    }
+
+    const { name, scopes, expiresInDays } = parsed.data;
+    const { token, apiToken } = apiTokenService.createToken({
+      name,
+      scopes,
+      expiresAt:
+        expiresInDays !== undefined
+          ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+          : undefined,
+      createdBy: req.userId,
+    });
+    logger.debug(`api token ${apiToken.id} created by ${req.userId || 'unknown'}`);
+    res.status(201).json({ ...apiToken, token });
+  });
+
+  // Revoke an API token
+  router.delete('/auth/tokens/:tokenId', (req: AuthenticatedRequest, res) => {
+    const { tokenId } = req.params;
+    // Other users' tokens answer like unknown ones
+    if (
+      !visibleTokens(req).some((token) => token.id === tokenId) ||
+      !apiTokenService.revokeToken(tokenId)
+    ) {
+      return res.status(404).json({ error: 'Token not found' });
+    }
+    res.json({ success: true });
+  });
+
+  return router;
+}
@@ -0,0 +1,60 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { AUDIT_ACTIONS } from '../../shared/types.js';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
+import type { AuditLog } from '../services/audit-log.js';
+import type { SessionOwnership } from '../services/session-ownership.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('audit-routes');
+
+const AuditQuerySchema = z.object({
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  userId: z.string().min(1).optional(),
+  sessionId: z.string().min(1).optional(),
+  since: z.iso.datetime({ offset: true }).optional(),
+  until: z.iso.datetime({ offset: true }).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).optional(),
+});
+
+interface AuditRoutesConfig {
+  auditLog: AuditLog;
+  sessionOwnership: SessionOwnership;
+}
+
+export function createAuditRoutes(config: AuditRoutesConfig): Router {
+  const router = Router();
+  const { auditLog, sessionOwnership } = config;
+
+  // Query the audit log, newest entries first. In multi-user mode only
+  // admins may read it, since it covers every user's activity.
+  router.get('/audit', async (req: AuthenticatedRequest, res) => {
+    if (!sessionOwnership.isAdmin(req)) {
+      logger.warn(`user ${req.userId || 'unknown'} denied access to the audit log`);
+      return res.status(403).json({ error: 'Only admins can read the audit log' });
+    }
+
+    const parsed = AuditQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: 'Invalid audit query',
+        details: parsed.error.issues.map((issue) => issue.message).join(', '),
+      });
+    }
+
+    const { since, until, ...filters } = parsed.data;
+    try {
+      const entries = await auditLog.query({
+        ...filters,
+        since: since ? new Date(since) : undefined,
+        until: until ? new Date(until) : undefined,
+      });
+      res.json({ entries });
+    } catch (error) {
+      logger.error('failed to read audit log:', error);
+      res.status(500).json({ error: 'Failed to read audit log' });
+    }
+  });
+
+  return router;
+}
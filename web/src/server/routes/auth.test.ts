@@ -3,7 +3,9 @@ import express from 'express';
 import request from 'supertest';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import type { AuthenticatedRequest } from '../middleware/auth.js';
+import { AuthRateLimiter } from '../services/auth-rate-limiter.js';
 import type { AuthService } from '../services/auth-service.js';
+import type { TotpService } from '../services/totp-service.js';
 import { createAuthRoutes } from './auth.js';
 
 // Mock the logger
@@ -31,6 +33,8 @@ describe('Auth Routes', () => {
       createChallenge: vi.fn(),
       authenticateWithSSHKey: vi.fn(),
       authenticateWithPassword: vi.fn(),
+      authenticateWithTotp: vi.fn(),
+      getTotpChallengeUser: vi.fn(),
       getCurrentUser: vi.fn(),
       userExists: vi.fn(),
     } as unknown as AuthService;
@@ -321,4 +325,151 @@ describe('Auth Routes', () => {
       expect(mockAuthService.generateTokenForUser).not.toHaveBeenCalled();
     });
   });
+
+  describe('TOTP second factor', () => {
+    it('should ask for a code instead of issuing a token', async () => {
+      mockAuthService.authenticateWithPassword = vi.fn().mockResolvedValue({
+        success: false,
+        userId: 'alice',
+        totpRequired: true,
+        totpChallengeId: 'challenge-1',
+      });
+      app.use('/api/auth', createAuthRoutes({ authService: mockAuthService }));
+
+      const response = await request(app)
+        .post('/api/auth/password')
+        .send({ userId: 'alice', password: 'secret' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        success: false,
+        totpRequired: true,
+        totpChallengeId: 'challenge-1',
+        userId: 'alice',
+      });
+    });
+
+    it('should issue the token after a valid code', async () => {
+      mockAuthService.authenticateWithTotp = vi
+        .fn()
+        .mockReturnValueOnce({ success: false, totpRequired: true, error: 'Invalid code' })
+        .mockReturnValueOnce({ success: true, userId: 'alice', token: 'jwt' });
+      app.use('/api/auth', createAuthRoutes({ authService: mockAuthService }));
+
+      const rejected = await request(app)
+        .post('/api/auth/totp')
+        .send({ totpChallengeId: 'challenge-1', code: '000000' });
+      expect(rejected.status).toBe(401);
+      expect(rejected.body.totpRequired).toBe(true);
+
+      const accepted = await request(app)
+        .post('/api/auth/totp')
+        .send({ totpChallengeId: 'challenge-1', code: ' 123456 ' });
+      expect(accepted.status).toBe(200);
+      expect(accepted.body).toEqual({
+        success: true,
+        token: 'jwt',
+        userId: 'alice',
+        authMethod: 'password',
+      });
+      expect(mockAuthService.authenticateWithTotp).toHaveBeenLastCalledWith(
+        'challenge-1',
+        '123456'
+      );
+    });
+
+    it('should only enroll password accounts', async () => {
+      const totpService = {
+        isEnrolled: vi.fn().mockReturnValue(false),
+        beginEnrollment: vi.fn().mockReturnValue({ secret: 'ABC', otpauthUrl: 'otpauth://x' }),
+      } as unknown as TotpService;
+      let authMethod: AuthenticatedRequest['authMethod'] = 'tailscale';
+      app.use((req: AuthenticatedRequest, _res: Response, next: NextFunction) => {
+        req.authMethod = authMethod;
+        req.userId = 'alice';
+        next();
+      });
+      app.use('/api/auth', createAuthRoutes({ authService: mockAuthService, totpService }));
+
+      const denied = await request(app).post('/api/auth/totp/enroll');
+      expect(denied.status).toBe(403);
+
+      authMethod = 'password';
+      const enrolled = await request(app).post('/api/auth/totp/enroll');
+      expect(enrolled.status).toBe(200);
+      expect(enrolled.body).toEqual({ secret: 'ABC', otpauthUrl: 'otpauth://x' });
+      expect(totpService.beginEnrollment).toHaveBeenCalledWith('alice');
+    });
+  });
+
+  describe('Login rate limiting', () => {
+    it('should lock a user out with Retry-After after repeated failures', async () => {
+      mockAuthService.authenticateWithPassword = vi
+        .fn()
+        .mockResolvedValue({ success: false, error: 'Invalid username or password' });
+      const rateLimiter = new AuthRateLimiter({ maxAttemptsPerUser: 2, lockoutMs: 30_000 });
+      app.use('/api/auth', createAuthRoutes({ authService: mockAuthService, rateLimiter }));
+
+      for (let i = 0; i < 2; i++) {
+        const response = await request(app)
+          .post('/api/auth/password')
+          .send({ userId: 'alice', password: 'wrong' });
+        expect(response.status).toBe(401);
+      }
+
+      const locked = await request(app)
+        .post('/api/auth/password')
+        .send({ userId: 'alice', password: 'right' });
+      expect(locked.status).toBe(429);
+      expect(locked.headers['retry-after']).toBe('30');
+      expect(locked.body).toMatchObject({ success: false, retryAfter: 30 });
+      expect(mockAuthService.authenticateWithPassword).toHaveBeenCalledTimes(2);
+
+      // Other users are still allowed from the same address
+      const other = await request(app)
+        .post('/api/auth/password')
+        .send({ userId: 'bob', password: 'wrong' });
+      expect(other.status).toBe(401);
+    });
+
+    it('should lock out the user behind a TOTP challenge after invalid codes', async () => {
+      mockAuthService.getTotpChallengeUser = vi.fn().mockReturnValue('alice');
+      mockAuthService.authenticateWithTotp = vi.fn().mockReturnValue({
+        success: false,
+        userId: 'alice',
+        totpRequired: true,
+        error: 'Invalid authentication code',
+      });
+      const rateLimiter = new AuthRateLimiter({ maxAttemptsPerUser: 2, maxAttemptsPerIp: 100 });
+      app.use('/api/auth', createAuthRoutes({ authService: mockAuthService, rateLimiter }));
+
+      for (const challenge of ['challenge-1', 'challenge-2']) {
+        const response = await request(app)
+          .post('/api/auth/totp')
+          .send({ totpChallengeId: challenge, code: '000000' });
+        expect(response.status).toBe(401);
+      }
+
+      // A fresh challenge for the same user doesn't get around the lockout
+      const locked = await request(app)
+        .post('/api/auth/totp')
+        .send({ totpChallengeId: 'challenge-3', code: '123456' });
+      expect(locked.status).toBe(429);
+      expect(mockAuthService.authenticateWithTotp).toHaveBeenCalledTimes(2);
+      expect(rateLimiter.getRetryAfter('198.51.100.7', 'alice')).toBeGreaterThan(0);
+    });
+
+    it('should count unknown users against the IP when issuing challenges', async () => {
+      mockAuthService.userExists = vi.fn().mockResolvedValue(false);
+      const rateLimiter = new AuthRateLimiter({ maxAttemptsPerIp: 1 });
+      app.use('/api/auth', createAuthRoutes({ authService: mockAuthService, rateLimiter }));
+
+      const missing = await request(app).post('/api/auth/challenge').send({ userId: 'nobody' });
+      expect(missing.status).toBe(404);
+
+      const locked = await request(app).post('/api/auth/challenge').send({ userId: 'alice' });
+      expect(locked.status).toBe(429);
+      expect(locked.headers['retry-after']).toBe('60');
+    });
+  });
 });
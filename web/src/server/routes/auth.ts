@@ -1,10 +1,16 @@
-import { Router } from 'express';
+import { type Response, Router } from 'express';
 import { promisify } from 'util';
 import type { AuthenticatedRequest, TailscaleUser } from '../middleware/auth.js';
+import { type AuditLog, auditActorFromRequest } from '../services/audit-log.js';
+import type { AuthRateLimiter } from '../services/auth-rate-limiter.js';
 import type { AuthService } from '../services/auth-service.js';
+import type { TotpService } from '../services/totp-service.js';
 
 interface AuthRoutesConfig {
   authService: AuthService;
+  totpService?: TotpService;
+  auditLog?: AuditLog;
+  rateLimiter?: AuthRateLimiter;
   enableSSHKeys?: boolean;
   disallowUserPassword?: boolean;
   noAuth?: boolean;
@@ -15,6 +21,16 @@ function isFromLocalhost(req: AuthenticatedRequest): boolean {
   return remoteAddr === '127.0.0.1' || remoteAddr === '::1' || remoteAddr === '::ffff:127.0.0.1';
 }
 
+// Tunnels (Tailscale Serve, ngrok, Cloudflare) reach us over loopback and
+// append the real client to X-Forwarded-For; use the entry they added
+function getClientIp(req: AuthenticatedRequest): string {
+  const remoteAddr = req.socket.remoteAddress || 'unknown';
+  const forwardedFor = getHeaderValue(req.headers['x-forwarded-for']);
+  if (!forwardedFor || !isFromLocalhost(req)) return remoteAddr;
+  const hops = forwardedFor.split(',');
+  return hops[hops.length - 1].trim() || remoteAddr;
+}
+
 function hasProxyHeaders(req: AuthenticatedRequest): boolean {
   return Boolean(
     req.headers['x-forwarded-proto'] &&
@@ -32,9 +48,48 @@ function getTailscaleLogin(req: AuthenticatedRequest): string | undefined {
   return getHeaderValue(req.headers['tailscale-user-login']);
 }
 
+// Two-factor enrollment belongs to accounts that sign in with a password
+function getTotpUser(req: AuthenticatedRequest): string | undefined {
+  if (req.authMethod !== 'password' && req.authMethod !== 'ssh-key') return undefined;
+  return req.userId;
+}
+
 export function createAuthRoutes(config: AuthRoutesConfig): Router {
   const router = Router();
-  const { authService } = config;
+  const { authService, totpService, auditLog, rateLimiter } = config;
+
+  // Answer 429 while the client IP or user is locked out after failed logins
+  const rejectIfLockedOut = (req: AuthenticatedRequest, res: Response, userId?: string) => {
+    const retryAfter = rateLimiter?.getRetryAfter(getClientIp(req), userId) ?? 0;
+    if (retryAfter === 0) return false;
+
+    res.setHeader('Retry-After', String(retryAfter));
+    res.status(429).json({
+      success: false,
+      error: `Too many failed attempts. Try again in ${retryAfter} seconds.`,
+      retryAfter,
+    });
+    return true;
+  };
+
+  // Record the outcome of a login attempt for the user it claimed to be
+  const auditLogin = (
+    req: AuthenticatedRequest,
+    success: boolean,
+    userId: string | undefined,
+    authMethod: string
+  ) => {
+    auditLog?.record(success ? 'auth.login' : 'auth.login_failed', {
+      ...auditActorFromRequest(req),
+      userId,
+      authMethod,
+    });
+    if (success && userId) {
+      rateLimiter?.recordSuccess(userId);
+    } else if (!success) {
+      rateLimiter?.recordFailure(getClientIp(req), userId);
+    }
+  };
 
   /**
    * Create authentication challenge for SSH key auth
@@ -48,9 +103,13 @@ export function createAuthRoutes(config: AuthRoutesConfig): Router {
         return res.status(400).json({ error: 'User ID is required' });
       }
 
+      if (rejectIfLockedOut(req, res, userId)) return;
+
       // Check if user exists
       const userExists = await authService.userExists(userId);
       if (!userExists) {
+        // Probing for user names counts against the IP
+        rateLimiter?.recordFailure(getClientIp(req));
         return res.status(404).json({ error: 'User not found' });
       }
 
@@ -82,12 +141,16 @@ export function createAuthRoutes(config: AuthRoutesConfig): Router {
         });
       }
 
+      // The user was checked when the challenge was issued
+      if (rejectIfLockedOut(req, res)) return;
+
       const result = await authService.authenticateWithSSHKey({
         challengeId,
         publicKey,
         signature,
       });
 
+      auditLogin(req, result.success, result.userId, 'ssh-key');
       if (result.success) {
         res.json({
           success: true,
@@ -121,8 +184,21 @@ export function createAuthRoutes(config: AuthRoutesConfig): Router {
         });
       }
 
+      if (rejectIfLockedOut(req, res, userId)) return;
+
       const result = await authService.authenticateWithPassword(userId, password);
 
+      if (result.totpRequired) {
+        // Password was right; the token is issued by POST /api/auth/totp
+        return res.json({
+          success: false,
+          totpRequired: true,
+          totpChallengeId: result.totpChallengeId,
+          userId: result.userId,
+        });
+      }
+
+      auditLogin(req, result.success, userId, 'password');
       if (result.success) {
         res.json({
           success: true,
@@ -142,6 +218,112 @@ export function createAuthRoutes(config: AuthRoutesConfig): Router {
     }
   });
 
+  /**
+   * Second step of a password login for users enrolled in TOTP
+   * POST /api/auth/totp
+   */
+  router.post('/totp', (req, res) => {
+    try {
+      const { totpChallengeId, code } = req.body;
+
+      if (typeof totpChallengeId !== 'string' || typeof code !== 'string') {
+        return res.status(400).json({
+          error: 'Challenge ID and code are required',
+        });
+      }
+
+      // Lock out the user behind the challenge too, not just this IP, so
+      // codes can't be guessed from many addresses
+      const challengeUser = authService.getTotpChallengeUser(totpChallengeId);
+      if (rejectIfLockedOut(req, res, challengeUser)) return;
+
+      const result = authService.authenticateWithTotp(totpChallengeId, code.trim());
+
+      auditLogin(req, result.success, result.userId, 'password');
+      if (result.success) {
+        res.json({
+          success: true,
+          token: result.token,
+          userId: result.userId,
+          authMethod: 'password',
+        });
+      } else {
+        res.status(401).json({
+          success: false,
+          totpRequired: result.totpRequired,
+          error: result.error,
+        });
+      }
+    } catch (error) {
+      console.error('Error verifying TOTP code:', error);
+      res.status(500).json({ error: 'Two-factor authentication failed' });
+    }
+  });
+
+  /**
+   * Two-factor status of the current user
+   * GET /api/auth/totp/status
+   */
+  router.get('/totp/status', (req: AuthenticatedRequest, res) => {
+    const userId = getTotpUser(req);
+    res.json({
+      available: !!totpService && !!userId,
+      enabled: !!totpService && !!userId && totpService.isEnrolled(userId),
+    });
+  });
+
+  /**
+   * Start TOTP enrollment; returns the secret and otpauth URI for the QR code
+   * POST /api/auth/totp/enroll
+   */
+  router.post('/totp/enroll', (req: AuthenticatedRequest, res) => {
+    const userId = getTotpUser(req);
+    if (!totpService || !userId) {
+      return res.status(403).json({ error: 'Two-factor authentication requires a password login' });
+    }
+    if (totpService.isEnrolled(userId)) {
+      return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+    }
+
+    res.json(totpService.beginEnrollment(userId));
+  });
+
+  /**
+   * Finish TOTP enrollment with a code from the authenticator app
+   * POST /api/auth/totp/enroll/confirm
+   */
+  router.post('/totp/enroll/confirm', (req: AuthenticatedRequest, res) => {
+    const userId = getTotpUser(req);
+    if (!totpService || !userId) {
+      return res.status(403).json({ error: 'Two-factor authentication requires a password login' });
+    }
+
+    const code = typeof req.body.code === 'string' ? req.body.code.trim() : '';
+    if (!totpService.confirmEnrollment(userId, code)) {
+      return res.status(400).json({ error: 'Invalid or expired authentication code' });
+    }
+
+    res.json({ enabled: true });
+  });
+
+  /**
+   * Turn TOTP off for the current user; requires a current code
+   * POST /api/auth/totp/disable
+   */
+  router.post('/totp/disable', (req: AuthenticatedRequest, res) => {
+    const userId = getTotpUser(req);
+    if (!totpService || !userId) {
+      return res.status(403).json({ error: 'Two-factor authentication requires a password login' });
+    }
+
+    const code = typeof req.body.code === 'string' ? req.body.code.trim() : '';
+    if (!totpService.disable(userId, code)) {
+      return res.status(400).json({ error: 'Invalid authentication code' });
+    }
+
+    res.json({ enabled: false });
+  });
+
   /**
    * Verify current authentication status
    * GET /api/auth/verify
@@ -265,6 +447,7 @@ export function createAuthRoutes(config: AuthRoutesConfig): Router {
       // Generate a JWT token for WebSocket authentication
       // Use the private generateToken method via a wrapper in AuthService
       const token = authService.generateTokenForUser(req.userId);
+      auditLogin(req, true, req.userId, 'tailscale');
 
       res.json({
         success: true,
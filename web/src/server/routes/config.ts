@@ -2,7 +2,9 @@ import { Router } from 'express';
 import { z } from 'zod';
 import { DEFAULT_REPOSITORY_BASE_PATH } from '../../shared/constants.js';
 import type { NotificationPreferences, QuickStartCommand } from '../../types/config.js';
-import type { ConfigService } from '../services/config-service.js';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
+import { type AuditLog, auditActorFromRequest } from '../services/audit-log.js';
+import { type ConfigService, QuickStartCommandSchema } from '../services/config-service.js';
 import { createLogger } from '../utils/logger.js';
 
 const logger = createLogger('config');
@@ -21,8 +23,7 @@ const NotificationPreferencesSchema = z
   })
   .partial();
 
-const QuickStartCommandSchema = z.object({
-  name: z.string().optional(),
+const QuickStartCommandInputSchema = QuickStartCommandSchema.extend({
   command: z.string().min(1).trim(),
 });
 
@@ -35,6 +36,7 @@ export interface AppConfig {
 
 interface ConfigRouteOptions {
   configService: ConfigService;
+  auditLog?: AuditLog;
 }
 
 /**
@@ -42,7 +44,7 @@ interface ConfigRouteOptions {
  */
 export function createConfigRoutes(options: ConfigRouteOptions): Router {
   const router = Router();
-  const { configService } = options;
+  const { configService, auditLog } = options;
 
   /**
    * Get application configuration
@@ -73,7 +75,7 @@ export function createConfigRoutes(options: ConfigRouteOptions): Router {
    * Update application configuration
    * PUT /api/config
    */
-  router.put('/config', (req, res) => {
+  router.put('/config', (req: AuthenticatedRequest, res) => {
     try {
       const { quickStartCommands, repositoryBasePath, notificationPreferences } = req.body;
       const updates: { [key: string]: unknown } = {};
@@ -92,7 +94,7 @@ export function createConfigRoutes(options: ConfigRouteOptions): Router {
               // Skip null/undefined entries
               if (cmd == null) continue;
 
-              const validated = QuickStartCommandSchema.parse(cmd);
+              const validated = QuickStartCommandInputSchema.parse(cmd);
               // Skip empty commands
               if (validated.command.trim()) {
                 validatedCommands.push(validated);
@@ -140,6 +142,9 @@ export function createConfigRoutes(options: ConfigRouteOptions): Router {
       }
 
       if (Object.keys(updates).length > 0) {
+        auditLog?.record('config.change', auditActorFromRequest(req), {
+          details: { keys: Object.keys(updates).join(',') },
+        });
         res.json({ success: true, ...updates });
       } else {
         res.status(400).json({ error: 'No valid updates provided' });
@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
+import type { SessionOwnership } from '../services/session-ownership.js';
+import type { WsV3Hub } from '../services/ws-v3-hub.js';
+
+interface ConnectionRoutesConfig {
+  wsV3Hub: WsV3Hub;
+  sessionOwnership: SessionOwnership;
+}
+
+export function createConnectionRoutes(config: ConnectionRoutesConfig): Router {
+  const router = Router();
+  const { wsV3Hub, sessionOwnership } = config;
+
+  // Traffic stats of the open WebSocket connections, including what frame
+  // compression saves. In multi-user mode non-admins only see their own.
+  router.get('/connections', (req: AuthenticatedRequest, res) => {
+    const connections = wsV3Hub.getConnectionStats();
+    if (sessionOwnership.isAdmin(req)) {
+      return res.json({ connections });
+    }
+    res.json({
+      connections: connections.filter(
+        (connection) => !!req.userId && connection.userId === req.userId
+      ),
+    });
+  });
+
+  return router;
+}
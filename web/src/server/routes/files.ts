@@ -8,6 +8,7 @@ import * as os from 'os';
 import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import type { AuthenticatedRequest } from '../middleware/auth.js';
+import { type AuditLog, auditActorFromRequest } from '../services/audit-log.js';
 import { createLogger } from '../utils/logger.js';
 
 const logger = createLogger('files');
@@ -65,8 +66,13 @@ const upload = multer({
   },
 });
 
-export function createFileRoutes(): Router {
+interface FileRoutesConfig {
+  auditLog?: AuditLog;
+}
+
+export function createFileRoutes(config: FileRoutesConfig = {}): Router {
   const router = Router();
+  const { auditLog } = config;
 
   // Upload file endpoint
   router.post(
@@ -85,6 +91,13 @@ export function createFileRoutes(): Router {
         logger.log(
           `File uploaded by user ${req.userId}: ${req.file.filename} (${req.file.size} bytes)`
         );
+        auditLog?.record('file.upload', auditActorFromRequest(req), {
+          details: {
+            path: absolutePath,
+            originalName: req.file.originalname,
+            size: req.file.size,
+          },
+        });
 
         res.json({
           success: true,
@@ -6,6 +6,8 @@ import * as fs from 'fs/promises';
 import mime from 'mime-types';
 import * as path from 'path';
 import { promisify } from 'util';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
+import { type AuditLog, auditActorFromRequest } from '../services/audit-log.js';
 import { createLogger } from '../utils/logger.js';
 import { expandTildePath } from '../utils/path-utils.js';
 
@@ -34,8 +36,13 @@ interface GitStatus {
   untracked: string[];
 }
 
-export function createFilesystemRoutes(): Router {
+interface FilesystemRoutesConfig {
+  auditLog?: AuditLog;
+}
+
+export function createFilesystemRoutes(config: FilesystemRoutesConfig = {}): Router {
   const router = Router();
+  const { auditLog } = config;
 
   // Helper to check if path is safe (no directory traversal) - DISABLED for full filesystem access
   function isPathSafe(_requestedPath: string, _basePath: string): boolean {
@@ -379,7 +386,7 @@ export function createFilesystemRoutes(): Router {
   });
 
   // Serve raw file content
-  router.get('/fs/raw', (req: Request, res: Response) => {
+  router.get('/fs/raw', (req: AuthenticatedRequest, res: Response) => {
     try {
       const requestedPath = req.query.path as string;
       if (!requestedPath) {
@@ -405,6 +412,9 @@ export function createFilesystemRoutes(): Router {
       // Set appropriate content type
       const mimeType = mime.lookup(fullPath) || 'application/octet-stream';
       res.setHeader('Content-Type', mimeType);
+      auditLog?.record('file.download', auditActorFromRequest(req), {
+        details: { path: fullPath },
+      });
 
       // Stream the file
       const stream = createReadStream(fullPath);
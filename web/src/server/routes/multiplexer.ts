@@ -1,6 +1,7 @@
 import { Router } from 'express';
-import type { MultiplexerType } from '../../shared/multiplexer-types.js';
+import type { MultiplexerType, TmuxSshTarget } from '../../shared/multiplexer-types.js';
 import type { SessionCreateOptions } from '../../shared/types.js';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
 import type { PtyManager } from '../pty/pty-manager.js';
 import { MultiplexerManager } from '../services/multiplexer-manager.js';
 import { createLogger } from '../utils/logger.js';
@@ -78,10 +79,21 @@ export function createMultiplexerRoutes(options: { ptyManager: PtyManager }): Ro
   /**
    * Attach to a session
    */
-  router.post('/attach', async (req, res) => {
+  router.post('/attach', async (req: AuthenticatedRequest, res) => {
     try {
-      const { type, sessionName, windowIndex, paneIndex, cols, rows, workingDir, titleMode } =
-        req.body;
+      const {
+        type,
+        sessionName,
+        windowIndex,
+        paneIndex,
+        cols,
+        rows,
+        workingDir,
+        titleMode,
+        name,
+        ssh,
+        userId,
+      } = req.body;
 
       if (!type || !sessionName) {
         return res.status(400).json({ error: 'Type and session name are required' });
@@ -90,6 +102,7 @@ export function createMultiplexerRoutes(options: { ptyManager: PtyManager }): Ro
       const options: Partial<SessionCreateOptions> & {
         windowIndex?: number;
         paneIndex?: number;
+        ssh?: TmuxSshTarget;
       } = {
         cols,
         rows,
@@ -97,6 +110,10 @@ export function createMultiplexerRoutes(options: { ptyManager: PtyManager }): Ro
         titleMode,
         windowIndex,
         paneIndex,
+        name,
+        ssh,
+        // HQ attaches on behalf of the session's owner (see session moves)
+        userId: req.authMethod === 'hq-bearer' && typeof userId === 'string' ? userId : req.userId,
       };
 
       const sessionId = await multiplexerManager.attachToSession(type, sessionName, options);
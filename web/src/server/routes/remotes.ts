@@ -15,17 +15,17 @@ export function createRemoteRoutes(config: RemoteRoutesConfig): Router {
   const router = Router();
   const { remoteRegistry, isHQMode } = config;
 
-  // HQ Mode: List all registered remotes
+  // HQ Mode: List all known remotes with their online/offline history
   router.get('/remotes', (_req, res) => {
     if (!isHQMode || !remoteRegistry) {
       logger.debug('remotes list requested but not in HQ mode');
       return res.status(404).json({ error: 'Not running in HQ mode' });
     }
 
-    const remotes = remoteRegistry.getRemotes();
+    const remotes = remoteRegistry.getAllRemotes();
     logger.debug(`listing ${remotes.length} registered remotes`);
-    // Convert Set to Array for JSON serialization
-    const remotesWithArraySessionIds = remotes.map((remote) => ({
+    // Convert Set to Array for JSON serialization; bearer tokens stay on HQ
+    const remotesWithArraySessionIds = remotes.map(({ token: _token, ...remote }) => ({
       ...remote,
       sessionIds: Array.from(remote.sessionIds),
     }));
@@ -63,7 +63,7 @@ export function createRemoteRoutes(config: RemoteRoutesConfig): Router {
     }
   });
 
-  // HQ Mode: Unregister a remote
+  // HQ Mode: Unregister a remote (it stays known as offline unless ?forget=true)
   router.delete('/remotes/:remoteId', (req, res) => {
     if (!isHQMode || !remoteRegistry) {
       logger.debug('remote unregistration attempted but not in HQ mode');
@@ -71,11 +71,12 @@ export function createRemoteRoutes(config: RemoteRoutesConfig): Router {
     }
 
     const remoteId = req.params.remoteId;
-    logger.debug(`attempting to unregister remote ${remoteId}`);
-    const success = remoteRegistry.unregister(remoteId);
+    const forget = req.query.forget === 'true';
+    logger.debug(`attempting to ${forget ? 'forget' : 'unregister'} remote ${remoteId}`);
+    const success = forget ? remoteRegistry.forget(remoteId) : remoteRegistry.unregister(remoteId);
 
     if (success) {
-      logger.log(chalk.yellow(`remote unregistered: ${remoteId}`));
+      logger.log(chalk.yellow(`remote ${forget ? 'forgotten' : 'unregistered'}: ${remoteId}`));
       res.json({ success: true });
     } else {
       logger.warn(`attempted to unregister non-existent remote: ${remoteId}`);
@@ -114,7 +115,7 @@ export function createRemoteRoutes(config: RemoteRoutesConfig): Router {
     try {
       // Fetch latest sessions from the remote
       const startTime = Date.now();
-      const response = await fetch(`${remote.url}/api/sessions`, {
+      const response = await remoteRegistry.fetchRemote(remote, `/api/sessions`, {
         headers: {
           Authorization: `Bearer ${remote.token}`,
         },
@@ -0,0 +1,103 @@
+import express from 'express';
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
+import type { PtyManager } from '../pty/index.js';
+import type { RemoteRegistry, RemoteServer } from '../services/remote-registry.js';
+import type { ScrollbackSearchService } from '../services/scrollback-search.js';
+import { SessionOwnership } from '../services/session-ownership.js';
+import { createSearchRoutes } from './search.js';
+
+vi.mock('../utils/logger.js', () => ({
+  createLogger: () => ({
+    log: vi.fn(),
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+describe('Search routes in multi-user HQ mode', () => {
+  let app: express.Express;
+  let searchService: ScrollbackSearchService;
+  let fetchRemote: ReturnType<typeof vi.fn>;
+  const remoteSessionIds = Array.from({ length: 600 }, (_, i) => `remote-${i}`);
+
+  beforeEach(() => {
+    searchService = {
+      search: vi.fn(async (query: string) => ({ query, hits: [], truncated: false })),
+    } as unknown as ScrollbackSearchService;
+
+    const remote = {
+      id: 'r1',
+      name: 'build-box',
+      token: 'secret',
+      sessionIds: new Set([...remoteSessionIds, 'someone-elses']),
+    } as unknown as RemoteServer;
+    fetchRemote = vi.fn(
+      async () =>
+        new Response(
+          JSON.stringify({
+            query: 'needle',
+            hits: [{ sessionId: 'remote-1', line: 'needle' }],
+            truncated: false,
+          })
+        )
+    );
+    const remoteRegistry = {
+      getRemotes: () => [remote],
+      getRemoteBySessionId: (sessionId: string) =>
+        remote.sessionIds.has(sessionId) ? remote : undefined,
+      fetchRemote,
+    } as unknown as RemoteRegistry;
+
+    const sessionOwnership = new SessionOwnership({
+      enabled: true,
+      adminUsers: ['root'],
+      serverUser: 'vibetunnel',
+      ptyManager: { getSession: () => undefined } as unknown as PtyManager,
+      remoteRegistry,
+    });
+    for (const id of remoteSessionIds) sessionOwnership.rememberRemoteOwner(id, 'alice');
+    sessionOwnership.rememberRemoteOwner('someone-elses', 'bob');
+
+    app = express();
+    app.use(express.json());
+    app.use((req: AuthenticatedRequest, _res, next) => {
+      req.userId = req.header('x-test-user');
+      req.authMethod = 'password';
+      next();
+    });
+    app.use(
+      '/api',
+      createSearchRoutes({ searchService, remoteRegistry, isHQMode: true, sessionOwnership })
+    );
+  });
+
+  it('sends the caller’s remote sessions in the body, however many there are', async () => {
+    const response = await request(app).get('/api/search?q=needle').set('x-test-user', 'alice');
+
+    expect(response.status).toBe(200);
+    expect(response.body.hits).toEqual([
+      { sessionId: 'remote-1', line: 'needle', remoteName: 'build-box' },
+    ]);
+    const [, path, init] = fetchRemote.mock.calls[0];
+    expect(path).toBe('/api/search');
+    expect(init.method).toBe('POST');
+    expect(JSON.parse(init.body)).toMatchObject({ q: 'needle', sessionIds: remoteSessionIds });
+  });
+
+  it('searches only the listed sessions when POSTed sessionIds', async () => {
+    const response = await request(app)
+      .post('/api/search')
+      .set('x-test-user', 'root')
+      .send({ q: 'needle', limit: 5, sessionIds: ['s1'] });
+
+    expect(response.status).toBe(200);
+    const [, options] = vi.mocked(searchService.search).mock.calls[0];
+    expect(options.limit).toBe(5);
+    expect(options.include?.({ id: 's1' } as never)).toBe(true);
+    expect(options.include?.({ id: 's2' } as never)).toBe(false);
+  });
+});
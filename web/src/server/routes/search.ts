@@ -0,0 +1,147 @@
+import { type Response, Router } from 'express';
+import type { ScrollbackSearchHit, ScrollbackSearchResult, Session } from '../../shared/types.js';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
+import type { RemoteRegistry } from '../services/remote-registry.js';
+import type { ScrollbackSearchService } from '../services/scrollback-search.js';
+import type { SessionOwnership } from '../services/session-ownership.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('search');
+
+const MIN_QUERY_LENGTH = 2;
+const MAX_QUERY_LENGTH = 200;
+const MAX_LIMIT = 200;
+const MAX_CONTEXT_LINES = 10;
+
+interface SearchRoutesConfig {
+  searchService: ScrollbackSearchService;
+  remoteRegistry: RemoteRegistry | null;
+  isHQMode: boolean;
+  sessionOwnership: SessionOwnership;
+}
+
+function parseBoundedInt(value: unknown, fallback: number, max: number): number | null {
+  if (value === undefined) return fallback;
+  const parsed = Number.parseInt(String(value), 10);
+  if (!Number.isFinite(parsed) || parsed < 0) return null;
+  return Math.min(parsed, max);
+}
+
+// `sessionIds` restricts the search to a list of sessions
+function parseSessionIds(value: unknown): Set<string> | null | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || !value.every((id) => typeof id === 'string')) return null;
+  return new Set(value);
+}
+
+export function createSearchRoutes(config: SearchRoutesConfig): Router {
+  const router = Router();
+  const { searchService, remoteRegistry, isHQMode, sessionOwnership } = config;
+
+  // Full-text search across session scrollback. GET takes the search in the
+  // query string, POST in a JSON body, which can also carry `sessionIds`:
+  // HQ sends those to remotes and they can be too many for a URL.
+  router.get('/search', (req: AuthenticatedRequest, res) => search(req, res, req.query));
+  router.post('/search', (req: AuthenticatedRequest, res) => search(req, res, req.body ?? {}));
+
+  async function search(req: AuthenticatedRequest, res: Response, params: Record<string, unknown>) {
+    const query = typeof params.q === 'string' ? params.q.trim() : '';
+    if (query.length < MIN_QUERY_LENGTH || query.length > MAX_QUERY_LENGTH) {
+      return res.status(400).json({
+        error: `Query must be between ${MIN_QUERY_LENGTH} and ${MAX_QUERY_LENGTH} characters`,
+      });
+    }
+
+    const limit = parseBoundedInt(params.limit, 50, MAX_LIMIT);
+    const contextLines = parseBoundedInt(params.context, 2, MAX_CONTEXT_LINES);
+    if (limit === null || contextLines === null) {
+      return res.status(400).json({ error: 'limit and context must be non-negative integers' });
+    }
+    const sessionId = typeof params.sessionId === 'string' ? params.sessionId : undefined;
+    const sessionIds = parseSessionIds(params.sessionIds);
+    if (sessionIds === null) {
+      return res.status(400).json({ error: 'Invalid sessionIds' });
+    }
+
+    // In multi-user mode, only search the caller's own sessions. This is
+    // decided before scanning so other users' hits can't use up the limit.
+    const isAdmin = sessionOwnership.isAdmin(req);
+    const include =
+      isAdmin && !sessionIds
+        ? undefined
+        : (session: Session) =>
+            (!sessionIds || sessionIds.has(session.id)) &&
+            sessionOwnership.canAccess(req, session.userId);
+
+    try {
+      const local = await searchService.search(query, { limit, contextLines, sessionId, include });
+      let hits: ScrollbackSearchHit[] = local.hits;
+      let truncated = local.truncated;
+
+      // In HQ mode, fan the query out to every remote and merge the results
+      if (isHQMode && remoteRegistry) {
+        const remoteResults = await Promise.all(
+          remoteRegistry.getRemotes().map(async (remote) => {
+            // Remotes answer HQ as an admin, so tell them which sessions this caller may see
+            let accessible: string[] | undefined;
+            if (!isAdmin) {
+              accessible = [...remote.sessionIds].filter((id) =>
+                sessionOwnership.canAccessSession(req, id)
+              );
+              if (accessible.length === 0) return null;
+            }
+
+            try {
+              const response = await remoteRegistry.fetchRemote(remote, '/api/search', {
+                method: 'POST',
+                headers: {
+                  Authorization: `Bearer ${remote.token}`,
+                  'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                  q: query,
+                  limit,
+                  context: contextLines,
+                  sessionId,
+                  sessionIds: accessible,
+                }),
+                signal: AbortSignal.timeout(10000),
+              });
+              if (!response.ok) {
+                logger.warn(`search on remote ${remote.name} failed: HTTP ${response.status}`);
+                return null;
+              }
+              const result = (await response.json()) as ScrollbackSearchResult;
+              return {
+                ...result,
+                hits: result.hits.map((hit) => ({ ...hit, remoteName: remote.name })),
+              };
+            } catch (error) {
+              logger.error(`failed to search remote ${remote.name}:`, error);
+              return null;
+            }
+          })
+        );
+
+        for (const result of remoteResults) {
+          if (!result) continue;
+          hits = hits.concat(result.hits);
+          truncated ||= result.truncated;
+        }
+      }
+
+      if (hits.length > limit) {
+        hits = hits.slice(0, limit);
+        truncated = true;
+      }
+
+      const result: ScrollbackSearchResult = { query, hits, truncated };
+      res.json(result);
+    } catch (error) {
+      logger.error('scrollback search failed:', error);
+      res.status(500).json({ error: 'Failed to search sessions' });
+    }
+  }
+
+  return router;
+}
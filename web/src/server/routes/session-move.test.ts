@@ -0,0 +1,169 @@
+import express from 'express';
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PtyManager } from '../pty/pty-manager.js';
+import type { RemoteRegistry, RemoteServer } from '../services/remote-registry.js';
+import { createSessionMoveRoutes } from './session-move.js';
+
+vi.mock('../utils/logger.js', () => ({
+  createLogger: () => ({
+    log: vi.fn(),
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+const { mockAttachToSession } = vi.hoisted(() => ({ mockAttachToSession: vi.fn() }));
+
+vi.mock('../services/multiplexer-manager.js', () => ({
+  MultiplexerManager: {
+    getInstance: () => ({ attachToSession: mockAttachToSession }),
+  },
+}));
+
+const tmuxSession = {
+  id: 'old-session',
+  name: 'build',
+  status: 'running',
+  initialCols: 120,
+  initialRows: 40,
+  multiplexer: { type: 'tmux', session: 'build', socketPath: '/tmp/tmux-1000/default' },
+};
+
+describe('session move routes', () => {
+  const source = {
+    id: 'r1',
+    name: 'build-box',
+    url: 'http://build-box.lan:4020',
+    token: 'secret-1',
+    connection: 'direct',
+  } as RemoteServer;
+  const target = {
+    id: 'r2',
+    name: 'laptop',
+    url: 'http://laptop.lan:4020',
+    token: 'secret-2',
+    connection: 'direct',
+  } as RemoteServer;
+
+  let fetchRemote: ReturnType<typeof vi.fn>;
+  let remoteRegistry: RemoteRegistry;
+  let ptyManager: PtyManager;
+  let app: express.Application;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    fetchRemote = vi.fn(async (_remote: RemoteServer, path: string, init: RequestInit) => {
+      let body: unknown = { success: true };
+      if (path === '/api/sessions/old-session' && init.method === 'GET') body = tmuxSession;
+      if (path === '/api/multiplexer/attach') body = { success: true, sessionId: 'new-session' };
+      return new Response(JSON.stringify(body), { status: 200 });
+    });
+    remoteRegistry = {
+      getRemoteBySessionId: vi.fn((sessionId: string) =>
+        sessionId === 'old-session' ? source : undefined
+      ),
+      getRemote: vi.fn((remoteId: string) => (remoteId === 'r2' ? target : undefined)),
+      addSessionToRemote: vi.fn(),
+      removeSessionFromRemote: vi.fn(),
+      fetchRemote,
+    } as unknown as RemoteRegistry;
+    ptyManager = {
+      getSession: vi.fn(() => null),
+      addMarker: vi.fn(),
+      killSession: vi.fn(),
+      cleanupSession: vi.fn(),
+    } as unknown as PtyManager;
+
+    app = express();
+    app.use(express.json());
+    app.use('/api', createSessionMoveRoutes({ ptyManager, remoteRegistry, isHQMode: true }));
+  });
+
+  function calls(remote: RemoteServer) {
+    return fetchRemote.mock.calls
+      .filter(([r]) => r === remote)
+      .map(([, path, init]) => `${init.method} ${path}`);
+  }
+
+  it('reattaches the tmux session on the target and retires the old one', async () => {
+    const response = await request(app)
+      .post('/api/sessions/old-session/move')
+      .send({ targetRemoteId: 'r2' });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      sessionId: 'new-session',
+      remoteId: 'r2',
+      remoteName: 'laptop',
+    });
+
+    const attach = fetchRemote.mock.calls.find(([, path]) => path === '/api/multiplexer/attach');
+    expect(JSON.parse(attach?.[2].body)).toEqual({
+      type: 'tmux',
+      sessionName: 'build',
+      name: 'build',
+      cols: 120,
+      rows: 40,
+      ssh: { host: 'build-box.lan', socketPath: '/tmp/tmux-1000/default' },
+    });
+    expect(calls(target)).toEqual([
+      'POST /api/multiplexer/attach',
+      'POST /api/sessions/new-session/markers',
+    ]);
+    expect(calls(source)).toEqual([
+      'GET /api/sessions/old-session',
+      'POST /api/sessions/old-session/markers',
+      'DELETE /api/sessions/old-session',
+      'DELETE /api/sessions/old-session/cleanup',
+    ]);
+    expect(remoteRegistry.addSessionToRemote).toHaveBeenCalledWith('r2', 'new-session');
+    expect(remoteRegistry.removeSessionFromRemote).toHaveBeenCalledWith('old-session');
+  });
+
+  it('moves remote sessions onto HQ itself', async () => {
+    mockAttachToSession.mockResolvedValue('hq-session');
+
+    const response = await request(app)
+      .post('/api/sessions/old-session/move')
+      .send({ targetRemoteId: '' });
+
+    expect(response.body).toEqual({ sessionId: 'hq-session' });
+    expect(mockAttachToSession).toHaveBeenCalledWith(
+      'tmux',
+      'build',
+      expect.objectContaining({
+        ssh: { host: 'build-box.lan', socketPath: '/tmp/tmux-1000/default' },
+      })
+    );
+    expect(ptyManager.addMarker).toHaveBeenCalledWith('hq-session', 'Moved from build-box');
+  });
+
+  it('leaves sessions in place when they cannot be moved', async () => {
+    vi.mocked(ptyManager.getSession).mockReturnValue({
+      ...tmuxSession,
+      id: 'plain',
+      multiplexer: undefined,
+    } as never);
+    const plain = await request(app)
+      .post('/api/sessions/plain/move')
+      .send({ targetRemoteId: 'r2' });
+    expect(plain.status).toBe(400);
+
+    const offline = await request(app)
+      .post('/api/sessions/old-session/move')
+      .send({ targetRemoteId: 'r3' });
+    expect(offline.status).toBe(404);
+
+    fetchRemote.mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+    const unreachable = await request(app)
+      .post('/api/sessions/old-session/move')
+      .send({ targetRemoteId: 'r2' });
+    expect(unreachable.status).toBe(503);
+
+    expect(calls(target)).toEqual([]);
+    expect(remoteRegistry.removeSessionFromRemote).not.toHaveBeenCalled();
+  });
+});
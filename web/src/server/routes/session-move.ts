@@ -0,0 +1,225 @@
+import chalk from 'chalk';
+import { Router } from 'express';
+import * as os from 'os';
+import { z } from 'zod';
+import { HttpMethod, type Session } from '../../shared/types.js';
+import type { PtyManager } from '../pty/pty-manager.js';
+import { MultiplexerManager } from '../services/multiplexer-manager.js';
+import type { RemoteRegistry, RemoteServer } from '../services/remote-registry.js';
+import type { SessionOwnership } from '../services/session-ownership.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('session-move');
+
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]', '::1']);
+
+const MoveSessionSchema = z.object({
+  // Empty string moves the session onto HQ itself
+  targetRemoteId: z.string(),
+  sshHost: z.string().trim().min(1).max(255).optional(),
+});
+
+interface SessionMoveRoutesConfig {
+  ptyManager: PtyManager;
+  remoteRegistry: RemoteRegistry | null;
+  isHQMode: boolean;
+  sessionOwnership?: SessionOwnership;
+}
+
+class MoveError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'MoveError';
+  }
+}
+
+/**
+ * HQ route that moves a tmux-backed session to another host.
+ *
+ * tmux keeps running where it is; the target host attaches to the same tmux
+ * server over SSH, then the old VibeTunnel session is killed (which only
+ * detaches its tmux client) and cleaned up. The new session keeps the name,
+ * and a marker in each recording notes where the session went.
+ */
+export function createSessionMoveRoutes(config: SessionMoveRoutesConfig): Router {
+  const router = Router();
+  const { ptyManager, remoteRegistry, isHQMode, sessionOwnership } = config;
+
+  // Call an API on a remote and return its JSON body; failures become MoveErrors
+  async function callRemote<T>(
+    remote: RemoteServer,
+    path: string,
+    method: HttpMethod,
+    body?: unknown
+  ): Promise<T> {
+    if (!remoteRegistry) {
+      throw new MoveError(404, 'Not running in HQ mode');
+    }
+    let response: Response;
+    try {
+      response = await remoteRegistry.fetchRemote(remote, path, {
+        method,
+        headers: {
+          ...(body ? { 'Content-Type': 'application/json' } : {}),
+          Authorization: `Bearer ${remote.token}`,
+        },
+        body: body ? JSON.stringify(body) : undefined,
+        signal: AbortSignal.timeout(10000),
+      });
+    } catch (error) {
+      logger.error(`failed to reach remote ${remote.name}:`, error);
+      throw new MoveError(503, `Failed to reach remote server ${remote.name}`);
+    }
+    const data = (await response.json().catch(() => ({}))) as { error?: string };
+    if (!response.ok) {
+      throw new MoveError(
+        response.status,
+        data.error || `Remote ${remote.name} responded with ${response.status}`
+      );
+    }
+    return data as T;
+  }
+
+  async function addMarker(remote: RemoteServer | null, sessionId: string, label: string) {
+    try {
+      if (remote) {
+        await callRemote(remote, `/api/sessions/${sessionId}/markers`, HttpMethod.POST, { label });
+      } else {
+        ptyManager.addMarker(sessionId, label);
+      }
+    } catch (error) {
+      logger.warn(`failed to add marker to session ${sessionId}:`, error);
+    }
+  }
+
+  async function retireSession(remote: RemoteServer | null, sessionId: string) {
+    try {
+      if (remote) {
+        await callRemote(remote, `/api/sessions/${sessionId}`, HttpMethod.DELETE);
+        await callRemote(remote, `/api/sessions/${sessionId}/cleanup`, HttpMethod.DELETE);
+        remoteRegistry?.removeSessionFromRemote(sessionId);
+      } else {
+        await ptyManager.killSession(sessionId, 'SIGTERM');
+        ptyManager.cleanupSession(sessionId);
+      }
+    } catch (error) {
+      logger.warn(`failed to retire moved session ${sessionId}:`, error);
+    }
+  }
+
+  // Host the target should SSH to for the tmux server behind the session
+  function resolveSshHost(
+    session: Session,
+    source: RemoteServer | null,
+    requested: string | undefined
+  ): string | undefined {
+    // Already attached over SSH: the target connects to the same host
+    if (session.multiplexer?.sshHost) return session.multiplexer.sshHost;
+    if (requested) return requested;
+    if (!source) return os.hostname();
+    if (source.connection === 'tunnel') return undefined;
+    const hostname = new URL(source.url).hostname;
+    return LOOPBACK_HOSTS.has(hostname) ? undefined : hostname;
+  }
+
+  // HQ Mode: Move a tmux-backed session to another host
+  router.post('/sessions/:sessionId/move', async (req, res) => {
+    if (!isHQMode || !remoteRegistry) {
+      return res.status(404).json({ error: 'Not running in HQ mode' });
+    }
+
+    const parsed = MoveSessionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid move request' });
+    }
+
+    const sessionId = req.params.sessionId;
+    const { targetRemoteId, sshHost } = parsed.data;
+
+    try {
+      const source = remoteRegistry.getRemoteBySessionId(sessionId) ?? null;
+      const session = source
+        ? await callRemote<Session>(source, `/api/sessions/${sessionId}`, HttpMethod.GET)
+        : ptyManager.getSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+      if (session.status !== 'running') {
+        return res.status(400).json({ error: 'Session is not running' });
+      }
+
+      const ref = session.multiplexer;
+      if (ref?.type !== 'tmux' || !ref.socketPath) {
+        return res.status(400).json({ error: 'Only sessions attached to tmux can be moved' });
+      }
+
+      if (targetRemoteId === (source?.id ?? '')) {
+        return res.status(400).json({ error: 'Session is already on the target host' });
+      }
+      const target = targetRemoteId ? (remoteRegistry.getRemote(targetRemoteId) ?? null) : null;
+      if (targetRemoteId && !target) {
+        return res.status(404).json({ error: 'Target remote not found or offline' });
+      }
+
+      const host = resolveSshHost(session, source, sshHost);
+      if (!host) {
+        return res
+          .status(400)
+          .json({ error: 'sshHost is required to reach the tmux server of this session' });
+      }
+
+      // Attach on the target before retiring the old session, so a failed
+      // attach leaves the session where it was
+      const attachOptions = {
+        windowIndex: ref.window,
+        cols: session.initialCols,
+        rows: session.initialRows,
+        name: session.name,
+        ssh: { host, socketPath: ref.socketPath },
+        userId: session.userId, // The moved session keeps its owner
+      };
+      let newSessionId: string;
+      if (target) {
+        const result = await callRemote<{ sessionId: string }>(
+          target,
+          '/api/multiplexer/attach',
+          HttpMethod.POST,
+          { type: 'tmux', sessionName: ref.session, ...attachOptions }
+        );
+        newSessionId = result.sessionId;
+        remoteRegistry.addSessionToRemote(target.id, newSessionId);
+        sessionOwnership?.rememberRemoteOwner(newSessionId, session.userId);
+      } else {
+        newSessionId = await MultiplexerManager.getInstance(ptyManager).attachToSession(
+          'tmux',
+          ref.session,
+          attachOptions
+        );
+      }
+
+      const sourceName = source?.name ?? 'HQ';
+      const targetName = target?.name ?? 'HQ';
+      await addMarker(target, newSessionId, `Moved from ${sourceName}`);
+      await addMarker(source, sessionId, `Moved to ${targetName}`);
+      await retireSession(source, sessionId);
+
+      logger.log(
+        chalk.green(
+          `session ${sessionId} moved from ${sourceName} to ${targetName} as ${newSessionId}`
+        )
+      );
+      res.json({ sessionId: newSessionId, remoteId: target?.id, remoteName: target?.name });
+    } catch (error) {
+      if (error instanceof MoveError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      logger.error(`error moving session ${sessionId}:`, error);
+      res.status(500).json({ error: 'Failed to move session' });
+    }
+  });
+
+  return router;
+}
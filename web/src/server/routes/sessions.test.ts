@@ -762,12 +762,16 @@ describe('sessions routes', () => {
     let mockRemoteRegistry: {
       getRemote: ReturnType<typeof vi.fn>;
       addSessionToRemote: ReturnType<typeof vi.fn>;
+      fetchRemote: ReturnType<typeof vi.fn>;
     };
 
     beforeEach(() => {
       mockRemoteRegistry = {
         getRemote: vi.fn(),
         addSessionToRemote: vi.fn(),
+        fetchRemote: vi.fn((remote: { url: string }, path: string, init?: RequestInit) =>
+          fetch(`${remote.url}${path}`, init)
+        ),
       };
 
       // Mock fetch for remote server communication
@@ -1013,4 +1017,86 @@ describe('sessions routes', () => {
       expect(requestBody.remoteId).toBeUndefined();
     });
   });
+
+  describe('POST /sessions - Templates', () => {
+    const getCreateHandler = () => {
+      const router = createSessionRoutes({
+        ptyManager: mockPtyManager,
+        terminalManager: mockTerminalManager,
+        remoteRegistry: null,
+        isHQMode: false,
+      });
+      const routes = (
+        router as {
+          stack: Array<{
+            route?: {
+              path: string;
+              methods: { post?: boolean };
+              stack: Array<{ handle: (req: Request, res: Response) => Promise<void> }>;
+            };
+          }>;
+        }
+      ).stack;
+      const createRoute = routes.find(
+        (r) => r.route && r.route.path === '/sessions' && r.route.methods.post
+      );
+      if (!createRoute?.route?.stack?.[0]) {
+        throw new Error('Could not find POST /sessions route handler');
+      }
+      return createRoute.route.stack[0].handle;
+    };
+
+    beforeEach(() => {
+      mockPtyManager.createSession = vi.fn(() => ({
+        sessionId: 'session-template',
+        sessionInfo: { id: 'session-template', pid: 1 },
+      }));
+    });
+
+    it('should pass env through and run the setup script before the command', async () => {
+      const mockReq = {
+        body: {
+          command: ['pnpm', 'dev'],
+          workingDir: '/test/dir',
+          env: { NODE_ENV: 'development' },
+          preCommand: 'nvm use',
+        },
+      } as Request;
+      const mockRes = {
+        json: vi.fn(),
+        status: vi.fn().mockReturnThis(),
+      } as unknown as Response;
+
+      await getCreateHandler()(mockReq, mockRes);
+
+      const [command, options] = mockPtyManager.createSession.mock.calls[0];
+      expect(command).toEqual([
+        '/bin/sh',
+        '-c',
+        'set -e\nnvm use\nset +e\nexec "$@"',
+        'vibetunnel',
+        'pnpm',
+        'dev',
+      ]);
+      expect(options).toMatchObject({
+        name: expect.stringMatching(/^pnpm/),
+        env: { NODE_ENV: 'development' },
+      });
+    });
+
+    it('should reject invalid environment variable names', async () => {
+      const mockReq = {
+        body: { command: ['bash'], workingDir: '/test/dir', env: { 'NOT VALID': '1' } },
+      } as Request;
+      const mockRes = {
+        json: vi.fn(),
+        status: vi.fn().mockReturnThis(),
+      } as unknown as Response;
+
+      await getCreateHandler()(mockReq, mockRes);
+
+      expect(mockRes.status).toHaveBeenCalledWith(400);
+      expect(mockPtyManager.createSession).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -6,26 +6,53 @@ import { promisify } from 'util';
 import { cellsToText } from '../../shared/terminal-text-formatter.js';
 import type { ServerStatus, Session, TitleMode } from '../../shared/types.js';
 import { HttpMethod } from '../../shared/types.js';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
 import { PtyError, type PtyManager } from '../pty/index.js';
+import { type AuditLog, auditActorFromRequest } from '../services/audit-log.js';
+import { QuickStartCommandSchema } from '../services/config-service.js';
 import type { RemoteRegistry } from '../services/remote-registry.js';
+import {
+  createSingleUserOwnership,
+  type SessionOwnership,
+  type SessionUser,
+} from '../services/session-ownership.js';
 import { tailscaleServeService } from '../services/tailscale-serve-service.js';
 import type { TerminalManager } from '../services/terminal-manager.js';
+import type { GitError } from '../utils/git-error.js';
 import { detectGitInfo } from '../utils/git-info.js';
 import { getDetailedGitStatus } from '../utils/git-status.js';
 import { createLogger } from '../utils/logger.js';
 import { resolveAbsolutePath } from '../utils/path-utils.js';
+import { buildAsciicast, readCastMarkers, renderRecordingHtml } from '../utils/recording-export.js';
 import { generateSessionName } from '../utils/session-naming.js';
+import {
+  createSessionWorktree,
+  wrapAsUser,
+  wrapWithEnv,
+  wrapWithPreCommand,
+} from '../utils/session-template.js';
 import { createControlMessage, type TerminalSpawnResponse } from '../websocket/control-protocol.js';
 import { controlUnixHandler } from '../websocket/control-unix-handler.js';
 
 const logger = createLogger('sessions');
 const _execFile = promisify(require('child_process').execFile);
 
+const MAX_MARKER_LABEL_LENGTH = 200;
+
+// Quick start template fields that POST /sessions applies on top of the basic options
+const SessionTemplateSchema = QuickStartCommandSchema.pick({
+  env: true,
+  preCommand: true,
+  gitWorktree: true,
+});
+
 interface SessionRoutesConfig {
   ptyManager: PtyManager;
   terminalManager: TerminalManager;
   remoteRegistry: RemoteRegistry | null;
   isHQMode: boolean;
+  sessionOwnership?: SessionOwnership;
+  auditLog?: AuditLog;
 }
 
 // Helper function to resolve path with default fallback
@@ -45,9 +72,20 @@ function resolvePath(inputPath: string, defaultPath: string): string {
   return expanded;
 }
 
+function isForwardedOwner(value: unknown): value is SessionUser {
+  if (!value || typeof value !== 'object') return false;
+  const { userId, authMethod } = value as Record<string, unknown>;
+  return (
+    (userId === undefined || typeof userId === 'string') &&
+    (authMethod === undefined || typeof authMethod === 'string')
+  );
+}
+
 export function createSessionRoutes(config: SessionRoutesConfig): Router {
   const router = Router();
-  const { ptyManager, terminalManager, remoteRegistry, isHQMode } = config;
+  const { ptyManager, terminalManager, remoteRegistry, isHQMode, auditLog } = config;
+  const sessionOwnership =
+    config.sessionOwnership ?? createSingleUserOwnership(ptyManager, remoteRegistry);
 
   // Server status endpoint
   router.get('/server/status', async (_req, res) => {
@@ -195,7 +233,7 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
   });
 
   // List all sessions (aggregate local + remote in HQ mode)
-  router.get('/sessions', async (_req, res) => {
+  router.get('/sessions', async (req: AuthenticatedRequest, res) => {
     logger.debug('[GET /sessions] Listing all sessions');
     try {
       let allSessions = [];
@@ -251,7 +289,7 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
         // Fetch sessions from each remote in parallel
         const remotePromises = remotes.map(async (remote) => {
           try {
-            const response = await fetch(`${remote.url}/api/sessions`, {
+            const response = await remoteRegistry.fetchRemote(remote, `/api/sessions`, {
               headers: {
                 Authorization: `Bearer ${remote.token}`,
               },
@@ -265,6 +303,9 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
               // Track session IDs for this remote
               const sessionIds = remoteSessions.map((s: Session) => s.id);
               remoteRegistry.updateRemoteSessions(remote.id, sessionIds);
+              for (const session of remoteSessions) {
+                sessionOwnership.rememberRemoteOwner(session.id, session.userId);
+              }
 
               // Add remote info to each session
               return remoteSessions.map((session: Session) => ({
@@ -293,6 +334,9 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
         allSessions = [...allSessions, ...remoteSessions];
       }
 
+      // In multi-user mode, users only see their own sessions
+      allSessions = sessionOwnership.filterSessions(req, allSessions);
+
       logger.debug(`returning ${allSessions.length} total sessions`);
       res.json(allSessions);
     } catch (error) {
@@ -302,7 +346,7 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
   });
 
   // Create new session (local or on remote)
-  router.post('/sessions', async (req, res) => {
+  router.post('/sessions', async (req: AuthenticatedRequest, res) => {
     const { command, workingDir, name, remoteId, spawn_terminal, cols, rows, titleMode } = req.body;
     logger.debug(
       `creating new session: command=${JSON.stringify(command)}, remoteId=${remoteId || 'local'}, spawn_terminal=${spawn_terminal}, cols=${cols}, rows=${rows}`
@@ -313,6 +357,27 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
       return res.status(400).json({ error: 'Command array is required' });
     }
 
+    // Quick start template options
+    const template = SessionTemplateSchema.safeParse(req.body);
+    if (!template.success) {
+      logger.warn('session creation failed: invalid template options');
+      return res.status(400).json({
+        error: 'Invalid session template options',
+        details: template.error.issues.map((issue) => issue.message).join(', '),
+      });
+    }
+    const { env, preCommand, gitWorktree } = template.data;
+
+    // The user the session belongs to. HQ forwards the user it authenticated.
+    const owner: SessionUser =
+      req.authMethod === 'hq-bearer' && isForwardedOwner(req.body.owner) ? req.body.owner : req;
+    const auditCreate = (sessionId: string, details: Record<string, string> = {}) =>
+      auditLog?.record(
+        'session.create',
+        { ...auditActorFromRequest(req), userId: owner.userId },
+        { sessionId, details: { command: command.join(' '), ...details } }
+      );
+
     try {
       // If remoteId is specified and we're in HQ mode, forward to remote
       if (remoteId && isHQMode && remoteRegistry) {
@@ -326,7 +391,7 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
 
         // Forward the request to the remote server
         const startTime = Date.now();
-        const response = await fetch(`${remote.url}/api/sessions`, {
+        const response = await remoteRegistry.fetchRemote(remote, `/api/sessions`, {
           method: HttpMethod.POST,
           headers: {
             'Content-Type': 'application/json',
@@ -340,6 +405,12 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
             cols,
             rows,
             titleMode,
+            env,
+            preCommand,
+            gitWorktree,
+            owner: owner.userId
+              ? { userId: owner.userId, authMethod: owner.authMethod }
+              : undefined,
             // Don't forward remoteId to avoid recursion
           }),
           signal: AbortSignal.timeout(10000), // 10 second timeout
@@ -356,6 +427,8 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
         // Track the session in the remote's sessionIds
         if (result.sessionId) {
           remoteRegistry.addSessionToRemote(remote.id, result.sessionId);
+          sessionOwnership.rememberRemoteOwner(result.sessionId, owner.userId);
+          auditCreate(result.sessionId, { remote: remote.name });
         }
 
         // Forward the complete response (maintains compatibility with newer/older servers)
@@ -363,12 +436,39 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
         return;
       }
 
+      // Templates can ask for a fresh worktree; the session then starts inside it
+      let sessionWorkingDir = workingDir;
+      if (gitWorktree) {
+        try {
+          const worktree = await createSessionWorktree(
+            resolvePath(workingDir, process.cwd()),
+            gitWorktree
+          );
+          sessionWorkingDir = worktree.worktreePath;
+        } catch (error) {
+          logger.warn('session creation failed: could not create worktree:', error);
+          return res.status(400).json({
+            error: 'Failed to create worktree',
+            details: (error as GitError).stderr || (error as Error).message,
+          });
+        }
+      }
+
+      const sessionCommand = preCommand?.trim() ? wrapWithPreCommand(command, preCommand) : command;
+
+      // In multi-user mode the session runs as the user who asked for it. sudo
+      // resets the environment, so template env is applied inside it.
+      const spawnUser = sessionOwnership.getSpawnUser(owner);
+      const spawnCommand = spawnUser
+        ? wrapAsUser(env ? wrapWithEnv(sessionCommand, env) : sessionCommand, spawnUser)
+        : sessionCommand;
+
       // If spawn_terminal is true, use the control socket for terminal spawning
       if (spawn_terminal) {
         try {
           // Generate session ID
           const sessionId = generateSessionId();
-          const resolvedCwd = resolvePath(workingDir, process.cwd());
+          const resolvedCwd = resolvePath(sessionWorkingDir, process.cwd());
           const sessionName = name || generateSessionName(command, resolvedCwd);
 
           // Detect Git information for terminal spawn
@@ -381,7 +481,7 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
           const spawnResult = await requestTerminalSpawn({
             sessionId,
             sessionName,
-            command,
+            command: env && !spawnUser ? wrapWithEnv(spawnCommand, env) : spawnCommand,
             workingDir: resolvedCwd,
             titleMode,
             gitRepoPath: gitInfo.gitRepoPath,
@@ -403,6 +503,7 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
 
             // Return the session ID - client will poll for the session to appear
             logger.log(chalk.green(`terminal spawn requested for session ${sessionId}`));
+            auditCreate(sessionId, { spawnTerminal: 'true' });
             res.json({
               sessionId,
               createdAt: new Date().toISOString(),
@@ -418,7 +519,7 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
       }
 
       // Create local session
-      let cwd = resolvePath(workingDir, process.cwd());
+      let cwd = resolvePath(sessionWorkingDir, process.cwd());
 
       // Check if the working directory exists, fall back to process.cwd() if not
       if (!fs.existsSync(cwd)) {
@@ -439,12 +540,14 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
         )
       );
 
-      const result = await ptyManager.createSession(command, {
+      const result = await ptyManager.createSession(spawnCommand, {
         name: sessionName,
         workingDir: cwd,
         cols,
         rows,
         titleMode,
+        env,
+        userId: owner.userId,
         gitRepoPath: gitInfo.gitRepoPath,
         gitBranch: gitInfo.gitBranch,
         gitAheadCount: gitInfo.gitAheadCount,
@@ -455,7 +558,13 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
       });
 
       const { sessionId, sessionInfo } = result;
-      logger.log(chalk.green(`WEB session ${sessionId} created (PID: ${sessionInfo.pid})`));
+      logger.log(
+        chalk.green(
+          `WEB session ${sessionId} created (PID: ${sessionInfo.pid}${spawnUser ? `, user: ${spawnUser}` : ''})`
+        )
+      );
+
+      auditCreate(sessionId);
 
       // Stream watcher is set up when clients connect to the stream endpoint
 
@@ -481,12 +590,16 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
         if (remote) {
           // Forward to remote server
           try {
-            const response = await fetch(`${remote.url}/api/sessions/${sessionId}/git-status`, {
-              headers: {
-                Authorization: `Bearer ${remote.token}`,
-              },
-              signal: AbortSignal.timeout(5000),
-            });
+            const response = await remoteRegistry.fetchRemote(
+              remote,
+              `/api/sessions/${sessionId}/git-status`,
+              {
+                headers: {
+                  Authorization: `Bearer ${remote.token}`,
+                },
+                signal: AbortSignal.timeout(5000),
+              }
+            );
 
             if (!response.ok) {
               return res.status(response.status).json(await response.json());
@@ -528,12 +641,16 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
         if (remote) {
           // Forward to remote server
           try {
-            const response = await fetch(`${remote.url}/api/sessions/${sessionId}`, {
-              headers: {
-                Authorization: `Bearer ${remote.token}`,
-              },
-              signal: AbortSignal.timeout(5000),
-            });
+            const response = await remoteRegistry.fetchRemote(
+              remote,
+              `/api/sessions/${sessionId}`,
+              {
+                headers: {
+                  Authorization: `Bearer ${remote.token}`,
+                },
+                signal: AbortSignal.timeout(5000),
+              }
+            );
 
             if (!response.ok) {
               return res.status(response.status).json(await response.json());
@@ -579,7 +696,7 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
   });
 
   // Kill session (just kill the process)
-  router.delete('/sessions/:sessionId', async (req, res) => {
+  router.delete('/sessions/:sessionId', async (req: AuthenticatedRequest, res) => {
     const sessionId = req.params.sessionId;
     logger.debug(`killing session ${sessionId}`);
 
@@ -590,13 +707,17 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
         if (remote) {
           // Forward kill request to remote server
           try {
-            const response = await fetch(`${remote.url}/api/sessions/${sessionId}`, {
-              method: HttpMethod.DELETE,
-              headers: {
-                Authorization: `Bearer ${remote.token}`,
-              },
-              signal: AbortSignal.timeout(10000),
-            });
+            const response = await remoteRegistry.fetchRemote(
+              remote,
+              `/api/sessions/${sessionId}`,
+              {
+                method: HttpMethod.DELETE,
+                headers: {
+                  Authorization: `Bearer ${remote.token}`,
+                },
+                signal: AbortSignal.timeout(10000),
+              }
+            );
 
             if (!response.ok) {
               return res.status(response.status).json(await response.json());
@@ -605,6 +726,10 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
             // Remote killed the session, now update our registry
             remoteRegistry.removeSessionFromRemote(sessionId);
             logger.log(chalk.yellow(`remote session ${sessionId} killed on ${remote.name}`));
+            auditLog?.record('session.kill', auditActorFromRequest(req), {
+              sessionId,
+              details: { remote: remote.name },
+            });
 
             return res.json(await response.json());
           } catch (error) {
@@ -632,6 +757,7 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
           session.name?.startsWith('tmux:') || session.command?.includes('tmux attach');
 
         await ptyManager.killSession(sessionId, 'SIGTERM');
+        auditLog?.record('session.kill', auditActorFromRequest(req), { sessionId });
 
         if (isTmuxAttachment) {
           logger.log(chalk.yellow(`local session ${sessionId} detached from tmux`));
@@ -663,13 +789,17 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
         if (remote) {
           // Forward cleanup request to remote server
           try {
-            const response = await fetch(`${remote.url}/api/sessions/${sessionId}/cleanup`, {
-              method: HttpMethod.DELETE,
-              headers: {
-                Authorization: `Bearer ${remote.token}`,
-              },
-              signal: AbortSignal.timeout(10000),
-            });
+            const response = await remoteRegistry.fetchRemote(
+              remote,
+              `/api/sessions/${sessionId}/cleanup`,
+              {
+                method: HttpMethod.DELETE,
+                headers: {
+                  Authorization: `Bearer ${remote.token}`,
+                },
+                signal: AbortSignal.timeout(10000),
+              }
+            );
 
             if (!response.ok) {
               return res.status(response.status).json(await response.json());
@@ -703,9 +833,25 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
   });
 
   // Cleanup all exited sessions (local and remote)
-  router.post('/cleanup-exited', async (_req, res) => {
+  router.post('/cleanup-exited', async (req: AuthenticatedRequest, res) => {
     logger.log(chalk.blue('cleaning up all exited sessions'));
     try {
+      // Users other than admins can only clean up their own local sessions
+      if (!sessionOwnership.isAdmin(req)) {
+        const ownExited = sessionOwnership
+          .filterSessions(req, await ptyManager.listSessions())
+          .filter((session) => session.status === 'exited');
+        for (const session of ownExited) {
+          ptyManager.cleanupSession(session.id);
+        }
+        return res.json({
+          success: true,
+          message: `${ownExited.length} exited sessions cleaned up`,
+          localCleaned: ownExited.length,
+          remoteResults: [],
+        });
+      }
+
       // Clean up local sessions
       const localCleanedSessions = await ptyManager.cleanupExitedSessions();
       logger.log(chalk.green(`cleaned up ${localCleanedSessions.length} local exited sessions`));
@@ -727,7 +873,7 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
         // Clean up on each remote in parallel
         const remoteCleanupPromises = allRemotes.map(async (remote) => {
           try {
-            const response = await fetch(`${remote.url}/api/cleanup-exited`, {
+            const response = await remoteRegistry.fetchRemote(remote, `/api/cleanup-exited`, {
               method: HttpMethod.POST,
               headers: {
                 'Content-Type': 'application/json',
@@ -795,17 +941,17 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
         if (remote) {
           // Forward text request to remote server
           try {
-            const url = new URL(`${remote.url}/api/sessions/${sessionId}/text`);
-            if (includeStyles) {
-              url.searchParams.set('styles', '');
-            }
-
-            const response = await fetch(url.toString(), {
-              headers: {
-                Authorization: `Bearer ${remote.token}`,
-              },
-              signal: AbortSignal.timeout(5000),
-            });
+            const query = includeStyles ? '?styles' : '';
+            const response = await remoteRegistry.fetchRemote(
+              remote,
+              `/api/sessions/${sessionId}/text${query}`,
+              {
+                headers: {
+                  Authorization: `Bearer ${remote.token}`,
+                },
+                signal: AbortSignal.timeout(5000),
+              }
+            );
 
             if (!response.ok) {
               return res.status(response.status).json(await response.json());
@@ -843,9 +989,186 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
     }
   });
 
+  // Export session recording as asciicast v2 or a self-contained HTML player
+  router.get('/sessions/:sessionId/recording', async (req, res) => {
+    const sessionId = req.params.sessionId;
+    const format = req.query.format === 'html' ? 'html' : 'cast';
+    const trim = req.query.trim === 'true' || req.query.trim === '1';
+    logger.debug(`exporting recording for session ${sessionId}, format=${format}, trim=${trim}`);
+
+    try {
+      // If in HQ mode, check if this is a remote session
+      if (isHQMode && remoteRegistry) {
+        const remote = remoteRegistry.getRemoteBySessionId(sessionId);
+        if (remote) {
+          try {
+            const params = new URLSearchParams({ format });
+            if (trim) params.set('trim', 'true');
+
+            const response = await remoteRegistry.fetchRemote(
+              remote,
+              `/api/sessions/${sessionId}/recording?${params}`,
+              {
+                headers: {
+                  Authorization: `Bearer ${remote.token}`,
+                },
+                signal: AbortSignal.timeout(30000),
+              }
+            );
+
+            if (!response.ok) {
+              return res.status(response.status).json(await response.json());
+            }
+
+            for (const header of ['Content-Type', 'Content-Disposition']) {
+              const value = response.headers.get(header);
+              if (value) res.setHeader(header, value);
+            }
+            return res.send(Buffer.from(await response.arrayBuffer()));
+          } catch (error) {
+            logger.error(`failed to get recording from remote ${remote.name}:`, error);
+            return res.status(503).json({ error: 'Failed to reach remote server' });
+          }
+        }
+      }
+
+      const sessionManager = ptyManager.getSessionManager();
+      const sessionInfo = sessionManager.loadSessionInfo(sessionId);
+      const paths = sessionManager.getSessionPaths(sessionId, true);
+      if (!sessionInfo || !paths || !fs.existsSync(paths.stdoutPath)) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+
+      const cast = await buildAsciicast(paths.stdoutPath, {
+        fromOffset: trim ? sessionInfo.lastClearOffset : undefined,
+      });
+      const title = sessionInfo.name || sessionId;
+      const baseName = `${title.replace(/[^a-zA-Z0-9._-]+/g, '-').replace(/^-+|-+$/g, '') || 'session'}-${sessionId.slice(0, 8)}`;
+
+      if (format === 'html') {
+        res.setHeader('Content-Type', 'text/html; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="${baseName}.html"`);
+        return res.send(renderRecordingHtml(cast, title));
+      }
+
+      res.setHeader('Content-Type', 'application/x-asciicast');
+      res.setHeader('Content-Disposition', `attachment; filename="${baseName}.cast"`);
+      res.send(cast);
+    } catch (error) {
+      logger.error('error exporting recording:', error);
+      res.status(500).json({ error: 'Failed to export recording' });
+    }
+  });
+
+  // List markers written into the session recording
+  router.get('/sessions/:sessionId/markers', async (req, res) => {
+    const sessionId = req.params.sessionId;
+
+    try {
+      // If in HQ mode, check if this is a remote session
+      if (isHQMode && remoteRegistry) {
+        const remote = remoteRegistry.getRemoteBySessionId(sessionId);
+        if (remote) {
+          try {
+            const response = await remoteRegistry.fetchRemote(
+              remote,
+              `/api/sessions/${sessionId}/markers`,
+              {
+                headers: {
+                  Authorization: `Bearer ${remote.token}`,
+                },
+                signal: AbortSignal.timeout(10000),
+              }
+            );
+            return res.status(response.status).json(await response.json());
+          } catch (error) {
+            logger.error(`failed to get markers from remote ${remote.name}:`, error);
+            return res.status(503).json({ error: 'Failed to reach remote server' });
+          }
+        }
+      }
+
+      const paths = ptyManager.getSessionManager().getSessionPaths(sessionId, true);
+      if (!paths || !fs.existsSync(paths.stdoutPath)) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+
+      res.json(await readCastMarkers(paths.stdoutPath));
+    } catch (error) {
+      logger.error('error listing markers:', error);
+      res.status(500).json({ error: 'Failed to list markers' });
+    }
+  });
+
+  // Add a marker (bookmark) to the session recording
+  router.post('/sessions/:sessionId/markers', async (req, res) => {
+    const sessionId = req.params.sessionId;
+    const { label } = req.body ?? {};
+
+    if (typeof label !== 'string' || !label.trim() || label.length > MAX_MARKER_LABEL_LENGTH) {
+      logger.warn(`invalid marker request for session ${sessionId}`);
+      return res.status(400).json({
+        error: `Label must be a non-empty string of at most ${MAX_MARKER_LABEL_LENGTH} characters`,
+      });
+    }
+
+    try {
+      // If in HQ mode, check if this is a remote session
+      if (isHQMode && remoteRegistry) {
+        const remote = remoteRegistry.getRemoteBySessionId(sessionId);
+        if (remote) {
+          try {
+            const response = await remoteRegistry.fetchRemote(
+              remote,
+              `/api/sessions/${sessionId}/markers`,
+              {
+                method: HttpMethod.POST,
+                headers: {
+                  'Content-Type': 'application/json',
+                  Authorization: `Bearer ${remote.token}`,
+                },
+                body: JSON.stringify({ label }),
+                signal: AbortSignal.timeout(5000),
+              }
+            );
+            return res.status(response.status).json(await response.json());
+          } catch (error) {
+            logger.error(`failed to add marker on remote ${remote.name}:`, error);
+            return res.status(503).json({ error: 'Failed to reach remote server' });
+          }
+        }
+      }
+
+      const session = ptyManager.getSession(sessionId);
+      if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+      if (session.status !== 'running') {
+        return res.status(400).json({ error: 'Session is not running' });
+      }
+
+      ptyManager.addMarker(sessionId, label.trim());
+      res.json({ success: true });
+    } catch (error) {
+      logger.error('error adding marker:', error);
+      if (error instanceof PtyError) {
+        res.status(500).json({ error: 'Failed to add marker', details: error.message });
+      } else {
+        res.status(500).json({ error: 'Failed to add marker' });
+      }
+    }
+  });
+
   // Send input to session
-  router.post('/sessions/:sessionId/input', async (req, res) => {
+  router.post('/sessions/:sessionId/input', async (req: AuthenticatedRequest, res) => {
     const sessionId = req.params.sessionId;
+    // Input relayed by an HQ server is told apart from direct API calls
+    const auditInput = () =>
+      auditLog?.recordInput(
+        sessionId,
+        req.authMethod === 'hq-bearer' ? 'hq' : 'rest',
+        auditActorFromRequest(req)
+      );
     const { text, key } = req.body;
 
     // Validate that only one of text or key is provided
@@ -873,20 +1196,25 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
         if (remote) {
           // Forward input to remote server
           try {
-            const response = await fetch(`${remote.url}/api/sessions/${sessionId}/input`, {
-              method: HttpMethod.POST,
-              headers: {
-                'Content-Type': 'application/json',
-                Authorization: `Bearer ${remote.token}`,
-              },
-              body: JSON.stringify(req.body),
-              signal: AbortSignal.timeout(5000),
-            });
+            const response = await remoteRegistry.fetchRemote(
+              remote,
+              `/api/sessions/${sessionId}/input`,
+              {
+                method: HttpMethod.POST,
+                headers: {
+                  'Content-Type': 'application/json',
+                  Authorization: `Bearer ${remote.token}`,
+                },
+                body: JSON.stringify(req.body),
+                signal: AbortSignal.timeout(5000),
+              }
+            );
 
             if (!response.ok) {
               return res.status(response.status).json(await response.json());
             }
 
+            auditInput();
             return res.json(await response.json());
           } catch (error) {
             logger.error(`failed to send input to remote ${remote.name}:`, error);
@@ -911,6 +1239,7 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
       logger.debug(`sending input to session ${sessionId}: ${JSON.stringify(inputData)}`);
 
       ptyManager.sendInput(sessionId, inputData);
+      auditInput();
       res.json({ success: true });
     } catch (error) {
       logger.error('error sending input:', error);
@@ -949,15 +1278,19 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
         if (remote) {
           // Forward resize to remote server
           try {
-            const response = await fetch(`${remote.url}/api/sessions/${sessionId}/resize`, {
-              method: HttpMethod.POST,
-              headers: {
-                'Content-Type': 'application/json',
-                Authorization: `Bearer ${remote.token}`,
-              },
-              body: JSON.stringify({ cols, rows }),
-              signal: AbortSignal.timeout(5000),
-            });
+            const response = await remoteRegistry.fetchRemote(
+              remote,
+              `/api/sessions/${sessionId}/resize`,
+              {
+                method: HttpMethod.POST,
+                headers: {
+                  'Content-Type': 'application/json',
+                  Authorization: `Bearer ${remote.token}`,
+                },
+                body: JSON.stringify({ cols, rows }),
+                signal: AbortSignal.timeout(5000),
+              }
+            );
 
             if (!response.ok) {
               return res.status(response.status).json(await response.json());
@@ -1021,15 +1354,19 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
         if (remote) {
           // Forward update to remote server
           try {
-            const response = await fetch(`${remote.url}/api/sessions/${sessionId}`, {
-              method: HttpMethod.PATCH,
-              headers: {
-                'Content-Type': 'application/json',
-                Authorization: `Bearer ${remote.token}`,
-              },
-              body: JSON.stringify({ name }),
-              signal: AbortSignal.timeout(5000),
-            });
+            const response = await remoteRegistry.fetchRemote(
+              remote,
+              `/api/sessions/${sessionId}`,
+              {
+                method: HttpMethod.PATCH,
+                headers: {
+                  'Content-Type': 'application/json',
+                  Authorization: `Bearer ${remote.token}`,
+                },
+                body: JSON.stringify({ name }),
+                signal: AbortSignal.timeout(5000),
+              }
+            );
 
             if (!response.ok) {
               return res.status(response.status).json(await response.json());
@@ -1080,13 +1417,17 @@ export function createSessionRoutes(config: SessionRoutesConfig): Router {
         const remote = remoteRegistry.getRemoteBySessionId(sessionId);
         if (remote) {
           logger.debug(`forwarding reset-size to remote ${remote.id}`);
-          const response = await fetch(`${remote.url}/api/sessions/${sessionId}/reset-size`, {
-            method: HttpMethod.POST,
-            headers: {
-              'Content-Type': 'application/json',
-              Authorization: `Bearer ${remote.token}`,
-            },
-          });
+          const response = await remoteRegistry.fetchRemote(
+            remote,
+            `/api/sessions/${sessionId}/reset-size`,
+            {
+              method: HttpMethod.POST,
+              headers: {
+                'Content-Type': 'application/json',
+                Authorization: `Bearer ${remote.token}`,
+              },
+            }
+          );
 
           if (!response.ok) {
             const error = await response.json();
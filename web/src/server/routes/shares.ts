@@ -0,0 +1,68 @@
+import { Router } from 'express';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
+import type { PtyManager } from '../pty/index.js';
+import type { RemoteRegistry } from '../services/remote-registry.js';
+import type { ShareTokenService } from '../services/share-token-service.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('shares');
+
+interface ShareRoutesConfig {
+  shareTokenService: ShareTokenService;
+  ptyManager: PtyManager;
+  remoteRegistry: RemoteRegistry | null;
+  isHQMode: boolean;
+}
+
+export function createShareRoutes(config: ShareRoutesConfig): Router {
+  const router = Router();
+  const { shareTokenService, ptyManager, remoteRegistry, isHQMode } = config;
+
+  const sessionExists = (sessionId: string): boolean => {
+    if (isHQMode && remoteRegistry?.getRemoteBySessionId(sessionId)) return true;
+    return !!ptyManager.getSession(sessionId);
+  };
+
+  // List share links for a session
+  router.get('/sessions/:sessionId/shares', (req, res) => {
+    res.json(shareTokenService.listShares(req.params.sessionId));
+  });
+
+  // Mint a new read-only share link
+  router.post('/sessions/:sessionId/shares', (req: AuthenticatedRequest, res) => {
+    const sessionId = req.params.sessionId;
+    const { expiresInMinutes, label } = req.body ?? {};
+    if (
+      expiresInMinutes !== undefined &&
+      (typeof expiresInMinutes !== 'number' || !Number.isFinite(expiresInMinutes))
+    ) {
+      return res.status(400).json({ error: 'expiresInMinutes must be a number' });
+    }
+    if (label !== undefined && typeof label !== 'string') {
+      return res.status(400).json({ error: 'label must be a string' });
+    }
+
+    if (!sessionExists(sessionId)) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const share = shareTokenService.createShare(sessionId, {
+      ttlMs: expiresInMinutes !== undefined ? expiresInMinutes * 60 * 1000 : undefined,
+      label: label?.trim() || undefined,
+      createdBy: req.userId,
+    });
+    logger.debug(`share ${share.id} minted for session ${sessionId} by ${req.userId || 'unknown'}`);
+    res.status(201).json(share);
+  });
+
+  // Revoke a share link
+  router.delete('/sessions/:sessionId/shares/:shareId', (req, res) => {
+    const { sessionId, shareId } = req.params;
+    if (!shareTokenService.revokeShare(sessionId, shareId)) {
+      return res.status(404).json({ error: 'Share not found' });
+    }
+    res.json({ success: true });
+  });
+
+  return router;
+}
@@ -0,0 +1,133 @@
+import { type Request, type Response, Router } from 'express';
+import { z } from 'zod';
+import { HttpMethod } from '../../shared/types.js';
+import type { RemoteRegistry } from '../services/remote-registry.js';
+import type { SessionMonitor } from '../services/session-monitor.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('watches');
+
+const MAX_WATCHES_PER_SESSION = 20;
+const MIN_IDLE_SECONDS = 5;
+const MAX_IDLE_SECONDS = 24 * 60 * 60;
+const MAX_PATTERN_LENGTH = 500;
+const MAX_LABEL_LENGTH = 100;
+
+const WatchSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('idle'),
+    idleSeconds: z.number().int().min(MIN_IDLE_SECONDS).max(MAX_IDLE_SECONDS),
+    label: z.string().trim().max(MAX_LABEL_LENGTH).optional(),
+    once: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal('output'),
+    pattern: z
+      .string()
+      .min(1)
+      .max(MAX_PATTERN_LENGTH)
+      .refine(
+        (pattern) => {
+          try {
+            new RegExp(pattern);
+            return true;
+          } catch {
+            return false;
+          }
+        },
+        { message: 'Pattern must be a valid regular expression' }
+      ),
+    caseSensitive: z.boolean().optional(),
+    label: z.string().trim().max(MAX_LABEL_LENGTH).optional(),
+    once: z.boolean().optional(),
+  }),
+]);
+
+interface WatchRoutesConfig {
+  sessionMonitor: SessionMonitor;
+  remoteRegistry: RemoteRegistry | null;
+  isHQMode: boolean;
+}
+
+/**
+ * Per-session watch rules. Watches fire `session-idle` and `output-matched`
+ * events through the session monitor, so they reach the event stream and push
+ * notifications like any other session event. They live in memory and end
+ * with their session.
+ */
+export function createWatchRoutes(config: WatchRoutesConfig): Router {
+  const router = Router();
+  const { sessionMonitor, remoteRegistry, isHQMode } = config;
+
+  // Forward the request to the remote owning the session; returns false for local sessions
+  async function forwardToRemote(req: Request, res: Response, path: string): Promise<boolean> {
+    if (!isHQMode || !remoteRegistry) return false;
+    const remote = remoteRegistry.getRemoteBySessionId(req.params.sessionId);
+    if (!remote) return false;
+
+    try {
+      const response = await remoteRegistry.fetchRemote(remote, `/api${path}`, {
+        method: req.method,
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${remote.token}`,
+        },
+        body: req.method === HttpMethod.POST ? JSON.stringify(req.body) : undefined,
+        signal: AbortSignal.timeout(5000),
+      });
+      res.status(response.status).json(await response.json());
+    } catch (error) {
+      logger.error(`failed to forward watch request to remote ${remote.name}:`, error);
+      res.status(503).json({ error: 'Failed to reach remote server' });
+    }
+    return true;
+  }
+
+  // List the watches of a session
+  router.get('/sessions/:sessionId/watches', async (req, res) => {
+    const { sessionId } = req.params;
+    if (await forwardToRemote(req, res, `/sessions/${sessionId}/watches`)) return;
+
+    res.json(sessionMonitor.listWatches(sessionId));
+  });
+
+  // Register a watch on a running session
+  router.post('/sessions/:sessionId/watches', async (req, res) => {
+    const { sessionId } = req.params;
+    const parsed = WatchSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      logger.warn(`invalid watch request for session ${sessionId}`);
+      return res.status(400).json({
+        error: 'Invalid watch',
+        details: parsed.error.issues.map((issue) => issue.message).join(', '),
+      });
+    }
+
+    if (await forwardToRemote(req, res, `/sessions/${sessionId}/watches`)) return;
+
+    if (sessionMonitor.listWatches(sessionId).length >= MAX_WATCHES_PER_SESSION) {
+      return res.status(400).json({
+        error: `A session can have at most ${MAX_WATCHES_PER_SESSION} watches`,
+      });
+    }
+
+    const watch = sessionMonitor.addWatch(sessionId, parsed.data);
+    if (!watch) {
+      return res.status(404).json({ error: 'Session not found or not running' });
+    }
+    res.status(201).json(watch);
+  });
+
+  // Remove a watch
+  router.delete('/sessions/:sessionId/watches/:watchId', async (req, res) => {
+    const { sessionId, watchId } = req.params;
+    if (await forwardToRemote(req, res, `/sessions/${sessionId}/watches/${watchId}`)) return;
+
+    if (!sessionMonitor.removeWatch(sessionId, watchId)) {
+      return res.status(404).json({ error: 'Watch not found' });
+    }
+    res.json({ success: true });
+  });
+
+  return router;
+}
@@ -0,0 +1,89 @@
+import express from 'express';
+import request from 'supertest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
+import type { PtyManager } from '../pty/index.js';
+import type { AuditLog } from '../services/audit-log.js';
+import { SessionOwnership } from '../services/session-ownership.js';
+import type { WorkspaceService } from '../services/workspace-service.js';
+import { createWorkspaceRoutes } from './workspaces.js';
+
+vi.mock('../utils/logger.js', () => ({
+  createLogger: () => ({
+    log: vi.fn(),
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+describe('Workspace routes in multi-user mode', () => {
+  let app: express.Express;
+  let workspaceService: WorkspaceService;
+  let auditLog: AuditLog;
+
+  beforeEach(() => {
+    workspaceService = {
+      listWorkspaces: vi.fn(() => []),
+      saveWorkspace: vi.fn((definition) => definition),
+      up: vi.fn(async (name: string) => ({
+        workspace: name,
+        sessions: [
+          { name: 'server', sessionId: 's1', created: true },
+          { name: 'shell', sessionId: 's2', created: false },
+        ],
+        layoutPath: '/',
+      })),
+      down: vi.fn(async (name: string) => ({ workspace: name, killed: ['s1'] })),
+    } as unknown as WorkspaceService;
+    auditLog = { record: vi.fn() } as unknown as AuditLog;
+    const sessionOwnership = new SessionOwnership({
+      enabled: true,
+      adminUsers: ['root'],
+      serverUser: 'vibetunnel',
+      ptyManager: {} as PtyManager,
+      remoteRegistry: null,
+    });
+
+    app = express();
+    app.use(express.json());
+    app.use((req: AuthenticatedRequest, _res, next) => {
+      req.userId = req.header('x-test-user');
+      req.authMethod = 'password';
+      next();
+    });
+    app.use('/api', createWorkspaceRoutes({ workspaceService, sessionOwnership, auditLog }));
+  });
+
+  it('rejects non-admins before anything runs', async () => {
+    const save = await request(app)
+      .put('/api/workspaces/dev')
+      .set('x-test-user', 'alice')
+      .send({ sessions: [{ name: 'x', command: 'id' }] });
+    const up = await request(app).post('/api/workspaces/dev/up').set('x-test-user', 'alice');
+    const down = await request(app).post('/api/workspaces/dev/down').set('x-test-user', 'alice');
+
+    expect([save.status, up.status, down.status]).toEqual([403, 403, 403]);
+    expect(workspaceService.saveWorkspace).not.toHaveBeenCalled();
+    expect(workspaceService.up).not.toHaveBeenCalled();
+    expect(workspaceService.down).not.toHaveBeenCalled();
+  });
+
+  it('starts sessions as the admin and audits up and down', async () => {
+    const up = await request(app).post('/api/workspaces/dev/up').set('x-test-user', 'root');
+    expect(up.status).toBe(200);
+    expect(workspaceService.up).toHaveBeenCalledWith('dev', {
+      userId: 'root',
+      spawnUser: 'root',
+    });
+
+    await request(app).post('/api/workspaces/dev/down').set('x-test-user', 'root');
+
+    const records = vi.mocked(auditLog.record).mock.calls;
+    expect(records.map(([action, , target]) => [action, target?.sessionId])).toEqual([
+      ['session.create', 's1'],
+      ['session.kill', 's1'],
+    ]);
+  });
+});
@@ -0,0 +1,122 @@
+import { type Response, Router } from 'express';
+import { z } from 'zod';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
+import { type AuditLog, auditActorFromRequest } from '../services/audit-log.js';
+import type { SessionOwnership } from '../services/session-ownership.js';
+import { WorkspaceNotFoundError, type WorkspaceService } from '../services/workspace-service.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('workspaces');
+
+interface WorkspaceRoutesConfig {
+  workspaceService: WorkspaceService;
+  sessionOwnership: SessionOwnership;
+  auditLog?: AuditLog;
+}
+
+function sendWorkspaceError(res: Response, error: unknown, action: string) {
+  if (error instanceof WorkspaceNotFoundError) {
+    return res.status(404).json({ error: error.message });
+  }
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      error: 'Invalid workspace definition',
+      details: error.issues.map((issue) => issue.message).join(', '),
+    });
+  }
+  logger.error(`failed to ${action}:`, error);
+  return res.status(500).json({
+    error: `Failed to ${action}`,
+    details: error instanceof Error ? error.message : String(error),
+  });
+}
+
+/**
+ * Workspaces: named groups of sessions started and stopped together
+ */
+export function createWorkspaceRoutes(config: WorkspaceRoutesConfig): Router {
+  const router = Router();
+  const { workspaceService, sessionOwnership, auditLog } = config;
+
+  // Workspaces are shared by all users and start commands, so in multi-user
+  // mode only admins may manage them
+  router.use('/workspaces', (req: AuthenticatedRequest, res, next) => {
+    if (sessionOwnership.isAdmin(req)) return next();
+    logger.warn(`user ${req.userId || 'unknown'} denied access to workspaces`);
+    res.status(403).json({ error: 'Only admins can manage workspaces' });
+  });
+
+  // List workspace definitions with the IDs of their running sessions
+  router.get('/workspaces', async (_req, res) => {
+    try {
+      const workspaces = workspaceService.listWorkspaces();
+      const result = await Promise.all(
+        workspaces.map(async (workspace) => ({
+          ...workspace,
+          runningSessionIds: [
+            ...(await workspaceService.getRunningSessions(workspace.name)).values(),
+          ],
+        }))
+      );
+      res.json(result);
+    } catch (error) {
+      sendWorkspaceError(res, error, 'list workspaces');
+    }
+  });
+
+  // Create or replace a workspace definition
+  router.put('/workspaces/:name', (req, res) => {
+    try {
+      const workspace = workspaceService.saveWorkspace({ ...req.body, name: req.params.name });
+      res.json(workspace);
+    } catch (error) {
+      sendWorkspaceError(res, error, 'save workspace');
+    }
+  });
+
+  router.delete('/workspaces/:name', (req, res) => {
+    try {
+      workspaceService.deleteWorkspace(req.params.name);
+      res.json({ success: true });
+    } catch (error) {
+      sendWorkspaceError(res, error, 'delete workspace');
+    }
+  });
+
+  // Start all sessions of a workspace; already running ones are reused
+  router.post('/workspaces/:name/up', async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await workspaceService.up(req.params.name, {
+        userId: req.userId,
+        spawnUser: sessionOwnership.getSpawnUser(req),
+      });
+      for (const session of result.sessions.filter((s) => s.created)) {
+        auditLog?.record('session.create', auditActorFromRequest(req), {
+          sessionId: session.sessionId,
+          details: { workspace: result.workspace, name: session.name },
+        });
+      }
+      res.json(result);
+    } catch (error) {
+      sendWorkspaceError(res, error, 'start workspace');
+    }
+  });
+
+  // Kill all running sessions of a workspace
+  router.post('/workspaces/:name/down', async (req: AuthenticatedRequest, res) => {
+    try {
+      const result = await workspaceService.down(req.params.name);
+      for (const sessionId of result.killed) {
+        auditLog?.record('session.kill', auditActorFromRequest(req), {
+          sessionId,
+          details: { workspace: result.workspace },
+        });
+      }
+      res.json(result);
+    } catch (error) {
+      sendWorkspaceError(res, error, 'stop workspace');
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,163 @@
+import express from 'express';
+import type { AddressInfo } from 'net';
+import request from 'supertest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { WebSocket } from 'ws';
+import { decodeWsV3Frame, encodeWsV3Frame, WsV3MessageType } from '../../shared/ws-v3.js';
+import type { WsV3Hub } from '../services/ws-v3-hub.js';
+import { createWsSseRoutes } from './ws-sse.js';
+
+vi.mock('../utils/logger.js', () => ({
+  createLogger: () => ({
+    log: vi.fn(),
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+type SseEvent = { event: string; data: string };
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+// Reads events off an SSE response until `count` have arrived
+async function readEvents(response: Response, count: number): Promise<SseEvent[]> {
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error('expected a response body');
+  const decoder = new TextDecoder();
+  const events: SseEvent[] = [];
+  let buffer = '';
+  while (events.length < count) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let end = buffer.indexOf('\n\n');
+    while (end !== -1) {
+      const lines = buffer.slice(0, end).split('\n');
+      buffer = buffer.slice(end + 2);
+      events.push({
+        event: lines.find((line) => line.startsWith('event: '))?.slice(7) ?? 'message',
+        data: lines.find((line) => line.startsWith('data: '))?.slice(6) ?? '',
+      });
+      end = buffer.indexOf('\n\n');
+    }
+  }
+  reader.releaseLock();
+  return events;
+}
+
+describe('WebSocket SSE fallback routes', () => {
+  let app: express.Express;
+  let server: ReturnType<express.Express['listen']>;
+  let baseUrl: string;
+  let socket: WebSocket | null;
+  let received: Buffer[];
+  let abort: AbortController;
+
+  beforeEach(async () => {
+    socket = null;
+    received = [];
+    abort = new AbortController();
+
+    const wsV3Hub = {
+      handleClientConnection: vi.fn((ws: WebSocket) => {
+        socket = ws;
+        ws.on('message', (message: Buffer) => received.push(message));
+        ws.send(
+          encodeWsV3Frame({
+            type: WsV3MessageType.WELCOME,
+            payload: new TextEncoder().encode('{"ok":true}'),
+          })
+        );
+      }),
+    } as unknown as WsV3Hub;
+
+    app = express();
+    app.use(express.json({ limit: MAX_BODY_BYTES }));
+    app.use('/api', createWsSseRoutes({ wsV3Hub, maxBodyBytes: MAX_BODY_BYTES }));
+    server = app.listen(0);
+    await new Promise<void>((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    abort.abort();
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  async function connect() {
+    const response = await fetch(`${baseUrl}/api/ws/sse`, { signal: abort.signal });
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    const [connection, welcome] = await readEvents(response, 2);
+    expect(connection.event).toBe('connection');
+    const { connectionId, maxPostBytes, maxFramesPerPost } = JSON.parse(connection.data);
+    expect({ maxPostBytes, maxFramesPerPost }).toEqual({
+      maxPostBytes: MAX_BODY_BYTES,
+      maxFramesPerPost: 1000,
+    });
+    return { connectionId: connectionId as string, welcome };
+  }
+
+  it('streams hub frames as base64 events after announcing the connection', async () => {
+    const { welcome } = await connect();
+
+    const frame = decodeWsV3Frame(Buffer.from(welcome.data, 'base64'));
+    expect(frame?.type).toBe(WsV3MessageType.WELCOME);
+    expect(new TextDecoder().decode(frame?.payload)).toBe('{"ok":true}');
+  });
+
+  it('hands POSTed frames to the hub in order', async () => {
+    const { connectionId } = await connect();
+    const frames = ['one', 'two'].map((text) =>
+      encodeWsV3Frame({
+        type: WsV3MessageType.INPUT_TEXT,
+        sessionId: 's1',
+        payload: Buffer.from(text),
+      })
+    );
+
+    const response = await request(app)
+      .post(`/api/ws/sse/${connectionId}`)
+      .send({ frames: frames.map((frame) => Buffer.from(frame).toString('base64')) });
+
+    expect(response.status).toBe(204);
+    expect(received.map((message) => decodeWsV3Frame(message)?.payload.toString())).toEqual([
+      'one',
+      'two',
+    ]);
+  });
+
+  it('rejects POSTs over the body limit and keeps the connection', async () => {
+    const { connectionId } = await connect();
+    const oversized = Buffer.alloc(MAX_BODY_BYTES).toString('base64');
+
+    const rejected = await request(app)
+      .post(`/api/ws/sse/${connectionId}`)
+      .send({ frames: [oversized] });
+    expect(rejected.status).toBe(413);
+    expect(received).toEqual([]);
+
+    const frame = encodeWsV3Frame({
+      type: WsV3MessageType.INPUT_TEXT,
+      sessionId: 's1',
+      payload: Buffer.from('still here'),
+    });
+    const accepted = await request(app)
+      .post(`/api/ws/sse/${connectionId}`)
+      .send({ frames: [Buffer.from(frame).toString('base64')] });
+    expect(accepted.status).toBe(204);
+    expect(received).toHaveLength(1);
+  });
+
+  it('forgets the connection once the stream closes', async () => {
+    const { connectionId } = await connect();
+    const closed = new Promise<void>((resolve) => socket?.on('close', () => resolve()));
+    abort.abort();
+    await closed;
+
+    const response = await request(app).post(`/api/ws/sse/${connectionId}`).send({ frames: [] });
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,81 @@
+import { Router } from 'express';
+import type { WebSocket } from 'ws';
+import { z } from 'zod';
+import type { AuthenticatedRequest } from '../middleware/auth.js';
+import type { WsV3Hub } from '../services/ws-v3-hub.js';
+import { WsV3SseSocket } from '../services/ws-v3-sse.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('ws-sse-routes');
+
+const MAX_FRAMES_PER_POST = 1000;
+
+interface WsSseRoutesConfig {
+  wsV3Hub: WsV3Hub;
+  // Limit of the JSON body parser in front of this router; larger POSTs never get here
+  maxBodyBytes: number;
+}
+
+/**
+ * SSE + POST fallback for the v3 WebSocket (`/ws`), carrying the same frames.
+ */
+export function createWsSseRoutes(config: WsSseRoutesConfig): Router {
+  const router = Router();
+  const { wsV3Hub, maxBodyBytes } = config;
+  const sockets = new Map<string, WsV3SseSocket>();
+  const FramesSchema = z.object({
+    frames: z.array(z.string().max(maxBodyBytes)).max(MAX_FRAMES_PER_POST),
+  });
+
+  // Downstream: one base64 v3 frame per event
+  router.get('/ws/sse', (req: AuthenticatedRequest, res) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      // no-transform keeps the compression middleware from buffering events
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+
+    const socket = new WsV3SseSocket(
+      res,
+      {
+        userId: req.userId,
+        shareSessionId: req.shareSessionId,
+        apiTokenId: req.apiToken?.id,
+      },
+      // Clients split their POSTs to stay under both limits
+      { maxPostBytes: maxBodyBytes, maxFramesPerPost: MAX_FRAMES_PER_POST }
+    );
+    sockets.set(socket.id, socket);
+    socket.on('close', () => sockets.delete(socket.id));
+
+    logger.log(`v3 SSE client connected (user=${req.userId || 'unknown'})`);
+    wsV3Hub.handleClientConnection(socket as unknown as WebSocket, req);
+  });
+
+  // Upstream: base64 v3 frames, handled in order
+  router.post('/ws/sse/:connectionId', (req: AuthenticatedRequest, res) => {
+    const socket = sockets.get(req.params.connectionId);
+    if (
+      !socket ||
+      socket.owner.userId !== req.userId ||
+      socket.owner.shareSessionId !== req.shareSessionId ||
+      socket.owner.apiTokenId !== req.apiToken?.id
+    ) {
+      return res.status(404).json({ error: 'Connection not found' });
+    }
+
+    const parsed = FramesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid frames' });
+    }
+
+    for (const frame of parsed.data.frames) {
+      socket.receive(Buffer.from(frame, 'base64'));
+    }
+    res.status(204).end();
+  });
+
+  return router;
+}
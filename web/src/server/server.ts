@@ -11,13 +11,18 @@ import * as os from 'os';
 import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { WebSocketServer } from 'ws';
-import { ServerEventType } from '../shared/types.js';
+import { type ApiToken, ServerEventType } from '../shared/types.js';
 import { apiSocketServer } from './api-socket-server.js';
 import type { AuthenticatedRequest } from './middleware/auth.js';
 import { createAuthMiddleware } from './middleware/auth.js';
+import { createRemoteProxyMiddleware } from './middleware/remote-proxy.js';
+import { createSessionAccessMiddleware } from './middleware/session-access.js';
 import { PtyManager } from './pty/index.js';
+import { createApiTokenRoutes } from './routes/api-tokens.js';
+import { createAuditRoutes } from './routes/audit.js';
 import { createAuthRoutes } from './routes/auth.js';
 import { createConfigRoutes } from './routes/config.js';
+import { createConnectionRoutes } from './routes/connections.js';
 import { createFileRoutes } from './routes/files.js';
 import { createFilesystemRoutes } from './routes/filesystem.js';
 import { createGitRoutes } from './routes/git.js';
@@ -26,10 +31,19 @@ import { createMultiplexerRoutes } from './routes/multiplexer.js';
 import { createPushRoutes } from './routes/push.js';
 import { createRemoteRoutes } from './routes/remotes.js';
 import { createRepositoryRoutes } from './routes/repositories.js';
+import { createSearchRoutes } from './routes/search.js';
+import { createSessionMoveRoutes } from './routes/session-move.js';
 import { createSessionRoutes } from './routes/sessions.js';
+import { createShareRoutes } from './routes/shares.js';
 import { createTestNotificationRouter } from './routes/test-notification.js';
 import { createTmuxRoutes } from './routes/tmux.js';
+import { createWatchRoutes } from './routes/watches.js';
+import { createWorkspaceRoutes } from './routes/workspaces.js';
 import { createWorktreeRoutes } from './routes/worktrees.js';
+import { createWsSseRoutes } from './routes/ws-sse.js';
+import { ApiTokenService } from './services/api-token-service.js';
+import { AuditLog } from './services/audit-log.js';
+import { AuthRateLimiter, DEFAULT_AUTH_RATE_LIMITS } from './services/auth-rate-limiter.js';
 import { AuthService } from './services/auth-service.js';
 import { CastOutputHub } from './services/cast-output-hub.js';
 import { CloudflareService } from './services/cloudflare-service.js';
@@ -37,13 +51,19 @@ import { ConfigService } from './services/config-service.js';
 import { ControlDirWatcher } from './services/control-dir-watcher.js';
 import { GitStatusHub } from './services/git-status-hub.js';
 import { HQClient } from './services/hq-client.js';
+import { HQ_TUNNEL_PATH } from './services/hq-tunnel.js';
 import { mdnsService } from './services/mdns-service.js';
 import { NgrokService } from './services/ngrok-service.js';
 import { PushNotificationService } from './services/push-notification-service.js';
 import { RemoteRegistry } from './services/remote-registry.js';
+import { ScrollbackSearchService } from './services/scrollback-search.js';
 import { SessionMonitor } from './services/session-monitor.js';
+import { SessionOwnership } from './services/session-ownership.js';
+import { ShareTokenService } from './services/share-token-service.js';
 import { tailscaleServeService } from './services/tailscale-serve-service.js';
 import { TerminalManager } from './services/terminal-manager.js';
+import { TotpService } from './services/totp-service.js';
+import { WorkspaceService } from './services/workspace-service.js';
 import { WsV3Hub } from './services/ws-v3-hub.js';
 import { closeLogger, createLogger, initLogger, setDebugMode } from './utils/logger.js';
 import { VapidManager } from './utils/vapid-manager.js';
@@ -56,6 +76,8 @@ interface WebSocketRequest extends http.IncomingMessage {
   searchParams?: URLSearchParams;
   userId?: string;
   authMethod?: string;
+  shareSessionId?: string;
+  apiToken?: ApiToken;
 }
 
 interface TailscaleConnectionInfo {
@@ -90,6 +112,9 @@ const globalTunnelState = global as typeof global & GlobalTunnelState;
 
 const logger = createLogger('server');
 
+// Largest JSON request body the API accepts
+const JSON_BODY_LIMIT_BYTES = 10 * 1024 * 1024;
+
 // Global shutdown state management
 let shuttingDown = false;
 
@@ -107,11 +132,20 @@ interface Config {
   enableSSHKeys: boolean;
   disallowUserPassword: boolean;
   noAuth: boolean;
+  // Multi-user mode: sessions belong to the user who created them
+  multiUser: boolean;
+  adminUsers: string[];
+  // Failed login limits (see AuthRateLimiter)
+  authMaxAttempts: number;
+  authMaxAttemptsPerIp: number;
+  authLockoutSeconds: number;
   isHQMode: boolean;
   hqUrl: string | null;
   hqUsername: string | null;
   hqPassword: string | null;
   remoteName: string | null;
+  // Reach HQ over an outbound WebSocket instead of being dialed by it
+  hqTunnel: boolean;
   allowInsecureHQ: boolean;
   showHelp: boolean;
   showVersion: boolean;
@@ -158,6 +192,11 @@ Options:
   --no-auth             Disable authentication (auto-login as current user)
   --allow-local-bypass  Allow localhost connections to bypass authentication
   --local-auth-token <token>  Token for localhost authentication bypass
+  --multi-user          Users only see their own sessions, which run as their OS account
+  --admin-users <list>  Comma-separated users who can see all sessions (with --multi-user)
+  --auth-max-attempts <n>         Failed logins per user before a lockout (default: 5)
+  --auth-max-attempts-per-ip <n>  Failed logins per client IP before a lockout (default: 20)
+  --auth-lockout <seconds>        First lockout, doubled for each further one up to 1 hour (default: 60)
   --enable-tailscale-serve  Enable Tailscale Serve integration (auto-manages proxy and auth)
   --enable-tailscale-funnel Enable Tailscale Funnel for public internet access (requires --enable-tailscale-serve)
   --debug               Enable debug logging
@@ -186,6 +225,7 @@ Remote Server Options:
   --hq-username <user>  Username for HQ authentication
   --hq-password <pass>  Password for HQ authentication
   --name <name>         Unique name for this remote server
+  --hq-tunnel           Connect to HQ over an outbound WebSocket (for remotes behind NAT)
   --allow-insecure-hq   Allow HTTP URLs for HQ (default: HTTPS only)
   --no-hq-auth          Disable HQ authentication (for testing only)
 
@@ -218,6 +258,12 @@ Examples:
     --hq-url https://hq.example.com \\
     --hq-username hq-admin --hq-password hq-secret \\
     --name remote-1
+
+  # Run as remote server behind NAT (no inbound port needed)
+  vibetunnel-server --username local --password local123 \\
+    --hq-url https://hq.example.com \\
+    --hq-username hq-admin --hq-password hq-secret \\
+    --name build-box-1 --hq-tunnel
 `);
 }
 
@@ -231,11 +277,17 @@ function parseArgs(): Config {
     enableSSHKeys: false,
     disallowUserPassword: false,
     noAuth: false,
+    multiUser: false,
+    adminUsers: [] as string[],
+    authMaxAttempts: DEFAULT_AUTH_RATE_LIMITS.maxAttemptsPerUser,
+    authMaxAttemptsPerIp: DEFAULT_AUTH_RATE_LIMITS.maxAttemptsPerIp,
+    authLockoutSeconds: DEFAULT_AUTH_RATE_LIMITS.lockoutMs / 1000,
     isHQMode: false,
     hqUrl: null as string | null,
     hqUsername: null as string | null,
     hqPassword: null as string | null,
     remoteName: null as string | null,
+    hqTunnel: false,
     allowInsecureHQ: false,
     showHelp: false,
     showVersion: false,
@@ -292,6 +344,23 @@ function parseArgs(): Config {
       config.enableSSHKeys = true; // Auto-enable SSH keys
     } else if (args[i] === '--no-auth') {
       config.noAuth = true;
+    } else if (args[i] === '--multi-user') {
+      config.multiUser = true;
+    } else if (args[i] === '--admin-users' && i + 1 < args.length) {
+      config.adminUsers = args[i + 1]
+        .split(',')
+        .map((user) => user.trim())
+        .filter(Boolean);
+      i++; // Skip the user list in next iteration
+    } else if (args[i] === '--auth-max-attempts' && i + 1 < args.length) {
+      config.authMaxAttempts = Number.parseInt(args[i + 1], 10);
+      i++; // Skip the limit value in next iteration
+    } else if (args[i] === '--auth-max-attempts-per-ip' && i + 1 < args.length) {
+      config.authMaxAttemptsPerIp = Number.parseInt(args[i + 1], 10);
+      i++; // Skip the limit value in next iteration
+    } else if (args[i] === '--auth-lockout' && i + 1 < args.length) {
+      config.authLockoutSeconds = Number.parseInt(args[i + 1], 10);
+      i++; // Skip the seconds value in next iteration
     } else if (args[i] === '--hq') {
       config.isHQMode = true;
     } else if (args[i] === '--hq-url' && i + 1 < args.length) {
@@ -306,6 +375,8 @@ function parseArgs(): Config {
     } else if (args[i] === '--name' && i + 1 < args.length) {
       config.remoteName = args[i + 1];
       i++; // Skip the name value in next iteration
+    } else if (args[i] === '--hq-tunnel') {
+      config.hqTunnel = true;
     } else if (args[i] === '--allow-insecure-hq') {
       config.allowInsecureHQ = true;
     } else if (args[i] === '--debug') {
@@ -373,6 +444,27 @@ function validateConfig(config: ReturnType<typeof parseArgs>) {
     );
   }
 
+  if (config.multiUser && config.noAuth) {
+    logger.warn(
+      '--multi-user has no effect with --no-auth (every request acts as the server user)'
+    );
+  }
+
+  if (config.adminUsers.length > 0 && !config.multiUser) {
+    logger.warn('--admin-users only applies with --multi-user');
+  }
+
+  for (const [flag, value] of [
+    ['--auth-max-attempts', config.authMaxAttempts],
+    ['--auth-max-attempts-per-ip', config.authMaxAttemptsPerIp],
+    ['--auth-lockout', config.authLockoutSeconds],
+  ] as const) {
+    if (!Number.isInteger(value) || value < 1) {
+      logger.error(`${flag} must be a positive integer`);
+      process.exit(1);
+    }
+  }
+
   if (config.disallowUserPassword && !config.enableSSHKeys) {
     logger.warn('--disallow-user-password requires SSH keys, auto-enabling --enable-ssh-keys');
     config.enableSSHKeys = true;
@@ -424,6 +516,11 @@ function validateConfig(config: ReturnType<typeof parseArgs>) {
     process.exit(1);
   }
 
+  if (config.hqTunnel && !config.hqUrl) {
+    logger.error('--hq-tunnel requires --hq-url');
+    process.exit(1);
+  }
+
   // Warn about no-hq-auth
   if (config.noHqAuth && config.hqUrl) {
     logger.warn('--no-hq-auth is enabled: Remote servers can register without authentication');
@@ -504,7 +601,7 @@ export async function createApp(): Promise<AppInstance> {
   logger.debug('Configured compression middleware');
 
   // Add JSON body parser middleware with size limit
-  app.use(express.json({ limit: '10mb' }));
+  app.use(express.json({ limit: JSON_BODY_LIMIT_BYTES }));
   logger.debug('Configured express middleware');
 
   // Control directory for session data
@@ -519,6 +616,12 @@ export async function createApp(): Promise<AppInstance> {
     logger.debug(`Using existing control directory: ${CONTROL_DIR}`);
   }
 
+  // HQ registry, remote key and API tokens live next to the control directory by
+  // default; a custom control directory keeps them to itself so instances don't share them
+  const stateDir = process.env.VIBETUNNEL_CONTROL_DIR
+    ? CONTROL_DIR
+    : path.join(os.homedir(), '.vibetunnel');
+
   // Initialize PTY manager with fallback support
   await PtyManager.initialize();
   const ptyManager = new PtyManager(CONTROL_DIR);
@@ -649,6 +752,24 @@ export async function createApp(): Promise<AppInstance> {
             };
             break;
 
+          case ServerEventType.SessionIdle:
+            pushPayload = {
+              type: 'session-idle',
+              title: '💤 Session Idle',
+              body: `${event.sessionName || 'Terminal'}: ${event.message || 'No output'}`,
+              data: { watchId: event.watchId },
+            };
+            break;
+
+          case ServerEventType.OutputMatched:
+            pushPayload = {
+              type: 'output-matched',
+              title: '🔍 Output Matched',
+              body: `${event.sessionName || 'Terminal'}: ${event.message || 'Pattern matched'}`,
+              data: { watchId: event.watchId },
+            };
+            break;
+
           case ServerEventType.TestNotification:
             // Test notifications are already handled by the test endpoint
             return;
@@ -700,7 +821,7 @@ export async function createApp(): Promise<AppInstance> {
   let remoteBearerToken: string | null = null;
 
   if (config.isHQMode) {
-    remoteRegistry = new RemoteRegistry();
+    remoteRegistry = new RemoteRegistry(stateDir);
     logger.log(chalk.green('Running in HQ mode'));
     logger.debug('Initialized remote registry for HQ mode');
   } else if (
@@ -713,10 +834,41 @@ export async function createApp(): Promise<AppInstance> {
     logger.debug(`Generated bearer token for remote server: ${config.remoteName}`);
   }
 
-  // Initialize authentication service
-  const authService = new AuthService();
+  // Initialize authentication service with the optional TOTP second factor
+  const totpService = new TotpService(stateDir);
+  const authService = new AuthService(totpService);
   logger.debug('Initialized authentication service');
 
+  // Lock out IPs and users that keep failing to log in
+  const authRateLimiter = new AuthRateLimiter({
+    maxAttemptsPerUser: config.authMaxAttempts,
+    maxAttemptsPerIp: config.authMaxAttemptsPerIp,
+    lockoutMs: config.authLockoutSeconds * 1000,
+  });
+  logger.debug('Initialized authentication rate limiter');
+
+  // Initialize read-only session share links
+  const shareTokenService = new ShareTokenService();
+  logger.debug('Initialized share token service');
+
+  // Initialize scoped API tokens for automation
+  const apiTokenService = new ApiTokenService(stateDir);
+  logger.debug('Initialized API token service');
+
+  // Initialize per-user session ownership (multi-user mode)
+  const sessionOwnership = new SessionOwnership({
+    enabled: config.multiUser,
+    adminUsers: config.adminUsers,
+    serverUser: os.userInfo().username,
+    ptyManager,
+    remoteRegistry,
+  });
+  logger.debug('Initialized session ownership');
+
+  // Initialize the append-only audit log of security-relevant actions
+  const auditLog = new AuditLog(stateDir);
+  logger.debug('Initialized audit log');
+
   // Initialize v3 WebSocket hub (single-socket terminal transport)
   const wsV3Hub = new WsV3Hub({
     ptyManager,
@@ -726,6 +878,9 @@ export async function createApp(): Promise<AppInstance> {
     sessionMonitor,
     remoteRegistry,
     isHQMode: config.isHQMode,
+    sessionOwnership,
+    auditLog,
+    shareTokenService,
   });
   logger.debug('Initialized WebSocket v3 hub');
 
@@ -740,6 +895,8 @@ export async function createApp(): Promise<AppInstance> {
     allowLocalBypass: config.allowLocalBypass,
     localAuthToken: config.localAuthToken || undefined,
     allowTailscaleAuth: config.enableTailscaleServe,
+    shareTokenService,
+    apiTokenService,
   });
 
   // Serve static files with .html extension handling and caching headers
@@ -1067,6 +1224,9 @@ export async function createApp(): Promise<AppInstance> {
     '/api/auth',
     createAuthRoutes({
       authService,
+      totpService,
+      auditLog,
+      rateLimiter: authRateLimiter,
       enableSSHKeys: config.enableSSHKeys,
       disallowUserPassword: config.disallowUserPassword,
       noAuth: config.noAuth,
@@ -1074,6 +1234,13 @@ export async function createApp(): Promise<AppInstance> {
   );
   logger.debug('Mounted authentication routes');
 
+  app.use('/api', createApiTokenRoutes({ apiTokenService, sessionOwnership }));
+  logger.debug('Mounted API token routes');
+
+  // Per-session APIs only reach sessions the user owns (multi-user mode)
+  app.use('/api/sessions/:sessionId', createSessionAccessMiddleware({ sessionOwnership }));
+  logger.debug('Applied session access middleware to /api/sessions/:sessionId routes');
+
   // Mount routes
   app.use(
     '/api',
@@ -1082,10 +1249,45 @@ export async function createApp(): Promise<AppInstance> {
       terminalManager,
       remoteRegistry,
       isHQMode: config.isHQMode,
+      sessionOwnership,
+      auditLog,
     })
   );
   logger.debug('Mounted session routes');
 
+  app.use(
+    '/api',
+    createSessionMoveRoutes({
+      ptyManager,
+      remoteRegistry,
+      isHQMode: config.isHQMode,
+      sessionOwnership,
+    })
+  );
+  logger.debug('Mounted session move routes');
+
+  app.use(
+    '/api',
+    createShareRoutes({
+      shareTokenService,
+      ptyManager,
+      remoteRegistry,
+      isHQMode: config.isHQMode,
+    })
+  );
+  logger.debug('Mounted share routes');
+
+  app.use(
+    '/api',
+    createSearchRoutes({
+      searchService: new ScrollbackSearchService(sessionManager),
+      remoteRegistry,
+      isHQMode: config.isHQMode,
+      sessionOwnership,
+    })
+  );
+  logger.debug('Mounted search routes');
+
   app.use(
     '/api',
     createRemoteRoutes({
@@ -1095,8 +1297,18 @@ export async function createApp(): Promise<AppInstance> {
   );
   logger.debug('Mounted remote routes');
 
+  // Machine-local APIs run on a session's remote when given its remoteId
+  app.use(
+    ['/api/fs', '/api/git', '/api/worktrees', '/api/repositories'],
+    createRemoteProxyMiddleware({
+      remoteRegistry,
+      isHQMode: config.isHQMode,
+    })
+  );
+  logger.debug('Mounted remote proxy middleware');
+
   // Mount filesystem routes
-  app.use('/api', createFilesystemRoutes());
+  app.use('/api', createFilesystemRoutes({ auditLog }));
   logger.debug('Mounted filesystem routes');
 
   // Mount log routes
@@ -1104,7 +1316,7 @@ export async function createApp(): Promise<AppInstance> {
   logger.debug('Mounted log routes');
 
   // Mount file routes
-  app.use('/api', createFileRoutes());
+  app.use('/api', createFileRoutes({ auditLog }));
   logger.debug('Mounted file routes');
 
   // Mount repository routes
@@ -1116,10 +1328,23 @@ export async function createApp(): Promise<AppInstance> {
     '/api',
     createConfigRoutes({
       configService,
+      auditLog,
     })
   );
   logger.debug('Mounted config routes');
 
+  // Mount audit log routes
+  app.use('/api', createAuditRoutes({ auditLog, sessionOwnership }));
+  logger.debug('Mounted audit routes');
+
+  // Mount WebSocket connection stats routes
+  app.use('/api', createConnectionRoutes({ wsV3Hub, sessionOwnership }));
+  logger.debug('Mounted connection routes');
+
+  // Mount SSE fallback for the v3 WebSocket
+  app.use('/api', createWsSseRoutes({ wsV3Hub, maxBodyBytes: JSON_BODY_LIMIT_BYTES }));
+  logger.debug('Mounted WebSocket SSE fallback routes');
+
   // Mount Git routes
   app.use('/api', createGitRoutes());
   logger.debug('Mounted Git routes');
@@ -1128,6 +1353,22 @@ export async function createApp(): Promise<AppInstance> {
   app.use('/api', createWorktreeRoutes());
   logger.debug('Mounted worktree routes');
 
+  // Mount workspace routes
+  const workspaceService = new WorkspaceService(ptyManager, stateDir);
+  app.use('/api', createWorkspaceRoutes({ workspaceService, sessionOwnership, auditLog }));
+  logger.debug('Mounted workspace routes');
+
+  // Mount session watch routes
+  app.use(
+    '/api',
+    createWatchRoutes({
+      sessionMonitor,
+      remoteRegistry,
+      isHQMode: config.isHQMode,
+    })
+  );
+  logger.debug('Mounted watch routes');
+
   // Mount tmux routes
   app.use('/api/tmux', createTmuxRoutes({ ptyManager }));
   logger.debug('Mounted tmux routes');
@@ -1165,6 +1406,7 @@ export async function createApp(): Promise<AppInstance> {
 
   // Initialize API socket for CLI commands
   try {
+    apiSocketServer.setWorkspaceService(workspaceService);
     await apiSocketServer.start();
     logger.log(chalk.green('API socket server: READY'));
   } catch (error) {
@@ -1177,8 +1419,9 @@ export async function createApp(): Promise<AppInstance> {
     // Parse the URL to extract path and query parameters
     const parsedUrl = new URL(request.url || '', `http://${request.headers.host || 'localhost'}`);
 
-    // Handle WebSocket paths
-    if (parsedUrl.pathname !== '/ws') {
+    // Handle WebSocket paths (the tunnel path only exists on HQ)
+    const isTunnel = config.isHQMode && parsedUrl.pathname === HQ_TUNNEL_PATH;
+    if (parsedUrl.pathname !== '/ws' && !isTunnel) {
       socket.write('HTTP/1.1 404 Not Found\r\n\r\n');
       socket.destroy();
       return;
@@ -1189,6 +1432,8 @@ export async function createApp(): Promise<AppInstance> {
       authenticated: boolean;
       userId?: string;
       authMethod?: string;
+      shareSessionId?: string;
+      apiToken?: ApiToken;
     }>((resolve) => {
       // Track if promise has been resolved to prevent multiple resolutions
       let resolved = false;
@@ -1196,6 +1441,8 @@ export async function createApp(): Promise<AppInstance> {
         authenticated: boolean;
         userId?: string;
         authMethod?: string;
+        shareSessionId?: string;
+        apiToken?: ApiToken;
       }) => {
         if (!resolved) {
           resolved = true;
@@ -1257,6 +1504,8 @@ export async function createApp(): Promise<AppInstance> {
           authenticated,
           userId: req.userId,
           authMethod: req.authMethod,
+          shareSessionId: req.shareSessionId,
+          apiToken: req.apiToken,
         });
       };
 
@@ -1293,6 +1542,8 @@ export async function createApp(): Promise<AppInstance> {
       wsRequest.searchParams = parsedUrl.searchParams;
       wsRequest.userId = authResult.userId;
       wsRequest.authMethod = authResult.authMethod;
+      wsRequest.shareSessionId = authResult.shareSessionId;
+      wsRequest.apiToken = authResult.apiToken;
       wss.emit('connection', ws, wsRequest);
     });
   });
@@ -1309,6 +1560,9 @@ export async function createApp(): Promise<AppInstance> {
     if (pathname === '/ws') {
       logger.log('🧩 Handling v3 WebSocket connection');
       wsV3Hub.handleClientConnection(ws, wsReq);
+    } else if (pathname === HQ_TUNNEL_PATH && remoteRegistry) {
+      logger.log('🚇 Handling HQ tunnel connection');
+      remoteRegistry.acceptTunnel(ws);
     } else {
       logger.error(`❌ Unknown WebSocket path: ${pathname}`);
       ws.close();
@@ -1330,8 +1584,8 @@ export async function createApp(): Promise<AppInstance> {
     res.sendFile(path.join(publicPath, 'index.html'));
   });
 
-  // Handle /split/:leftId/:rightId route by serving the same index.html
-  app.get('/split/:leftId/:rightId', (_req, res) => {
+  // Handle /split/:layout (and the older /split/:leftId/:rightId) routes by serving the same index.html
+  app.get(['/split/:layout', '/split/:leftId/:rightId'], (_req, res) => {
     res.sendFile(path.join(publicPath, 'index.html'));
   });
 
@@ -1557,7 +1811,8 @@ export async function createApp(): Promise<AppInstance> {
           config.hqPassword || 'no-auth',
           config.remoteName,
           remoteUrl,
-          remoteBearerToken || ''
+          remoteBearerToken || '',
+          stateDir
         );
         if (config.noHqAuth) {
           logger.log(
@@ -1580,11 +1835,18 @@ export async function createApp(): Promise<AppInstance> {
       }
 
       // Register with HQ if configured
-      if (hqClient) {
-        logger.log(`Registering with HQ at ${config.hqUrl}`);
-        hqClient.register().catch((err) => {
-          logger.error('Failed to register with HQ:', err);
+      if (hqClient && config.hqTunnel) {
+        // HQ reaches us through the tunnel; requests are replayed against our own port
+        const localHost = bindAddress === '0.0.0.0' ? '127.0.0.1' : bindAddress;
+        hqClient.connectTunnel(`http://${localHost}:${actualPort}`, (ws) => {
+          wsV3Hub.handleClientConnection(ws, {
+            userId: `hq:${config.hqUrl}`,
+            authMethod: 'hq-bearer',
+          } as WebSocketRequest);
         });
+      } else if (hqClient) {
+        logger.log(`Registering with HQ at ${config.hqUrl}`);
+        hqClient.registerWithRetry();
       }
 
       // Start control directory watcher
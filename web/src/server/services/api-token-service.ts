@@ -0,0 +1,138 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { ApiToken, ApiTokenScope } from '../../shared/types.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('api-tokens');
+
+export const API_TOKEN_PREFIX = 'vtk_';
+
+// How often lastUsedAt is written back to disk per token
+const LAST_USED_SAVE_INTERVAL_MS = 60 * 1000;
+
+type PersistedApiToken = ApiToken & { tokenHash: string };
+
+interface CreateApiTokenOptions {
+  name: string;
+  scopes: ApiTokenScope[];
+  expiresAt?: string;
+  createdBy?: string;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Issues and verifies named, scoped API tokens for automation.
+ *
+ * Tokens are kept in `api-tokens.json` in the config directory so scripts keep
+ * working across restarts. Only a SHA-256 hash of each secret is stored; the
+ * secret itself is returned once, by `createToken`.
+ */
+export class ApiTokenService {
+  private readonly filePath: string;
+  private tokens = new Map<string, PersistedApiToken>(); // tokenHash -> token
+  private lastSavedUse = new Map<string, number>(); // tokenId -> time lastUsedAt was saved
+
+  constructor(configDir = path.join(os.homedir(), '.vibetunnel')) {
+    this.filePath = path.join(configDir, 'api-tokens.json');
+    this.load();
+  }
+
+  static isApiToken(token: string | undefined): token is string {
+    return typeof token === 'string' && token.startsWith(API_TOKEN_PREFIX);
+  }
+
+  createToken(options: CreateApiTokenOptions): { token: string; apiToken: ApiToken } {
+    const token = `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    const persisted: PersistedApiToken = {
+      id: crypto.randomUUID(),
+      name: options.name,
+      scopes: Array.from(new Set(options.scopes)),
+      createdBy: options.createdBy,
+      createdAt: new Date().toISOString(),
+      expiresAt: options.expiresAt,
+      tokenHash: hashToken(token),
+    };
+
+    this.tokens.set(persisted.tokenHash, persisted);
+    this.save();
+    logger.log(`api token ${persisted.id} (${persisted.name}) created`);
+    return { token, apiToken: this.toApiToken(persisted) };
+  }
+
+  listTokens(): ApiToken[] {
+    return Array.from(this.tokens.values()).map((token) => this.toApiToken(token));
+  }
+
+  revokeToken(tokenId: string): boolean {
+    for (const [tokenHash, token] of this.tokens) {
+      if (token.id === tokenId) {
+        this.tokens.delete(tokenHash);
+        this.lastSavedUse.delete(tokenId);
+        this.save();
+        logger.log(`api token ${tokenId} (${token.name}) revoked`);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Resolve an API token to its metadata, or null when unknown or expired.
+   */
+  verifyToken(token: string): ApiToken | null {
+    const persisted = this.tokens.get(hashToken(token));
+    if (!persisted) return null;
+
+    if (persisted.expiresAt && Date.parse(persisted.expiresAt) <= Date.now()) {
+      logger.debug(`api token ${persisted.id} used after expiring`);
+      return null;
+    }
+
+    const now = Date.now();
+    persisted.lastUsedAt = new Date(now).toISOString();
+    if (now - (this.lastSavedUse.get(persisted.id) ?? 0) >= LAST_USED_SAVE_INTERVAL_MS) {
+      this.lastSavedUse.set(persisted.id, now);
+      this.save();
+    }
+
+    return this.toApiToken(persisted);
+  }
+
+  private toApiToken({ tokenHash: _tokenHash, ...token }: PersistedApiToken): ApiToken {
+    return token;
+  }
+
+  private load() {
+    if (!fs.existsSync(this.filePath)) return;
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as {
+        tokens?: PersistedApiToken[];
+      };
+      for (const token of data.tokens ?? []) {
+        this.tokens.set(token.tokenHash, token);
+      }
+      logger.debug(`loaded ${this.tokens.size} api tokens from ${this.filePath}`);
+    } catch (error) {
+      logger.error(`failed to load api tokens from ${this.filePath}:`, error);
+    }
+  }
+
+  private save() {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tokens = Array.from(this.tokens.values());
+      fs.writeFileSync(this.filePath, JSON.stringify({ version: 1, tokens }, null, 2), {
+        encoding: 'utf8',
+        mode: 0o600,
+      });
+    } catch (error) {
+      logger.error(`failed to save api tokens to ${this.filePath}:`, error);
+    }
+  }
+}
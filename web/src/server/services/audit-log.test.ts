@@ -0,0 +1,138 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AuditLog } from './audit-log.js';
+
+vi.mock('../utils/logger.js', () => ({
+  createLogger: () => ({
+    log: vi.fn(),
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+const alice = { userId: 'alice', authMethod: 'password', remoteAddress: '10.0.0.2' };
+const bob = { userId: 'bob', authMethod: 'ssh-key' };
+
+describe('AuditLog', () => {
+  let configDir: string;
+  let auditLog: AuditLog;
+
+  beforeEach(() => {
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vt-audit-'));
+    auditLog = new AuditLog(configDir);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it('appends entries and returns them newest first', async () => {
+    auditLog.record('auth.login', alice);
+    auditLog.record('session.create', alice, { sessionId: 's1', details: { command: 'zsh' } });
+    auditLog.record('session.kill', bob, { sessionId: 's1' });
+
+    const entries = await auditLog.query();
+    expect(entries.map((entry) => entry.action)).toEqual([
+      'session.kill',
+      'session.create',
+      'auth.login',
+    ]);
+    expect(entries[1]).toMatchObject({
+      userId: 'alice',
+      authMethod: 'password',
+      remoteAddress: '10.0.0.2',
+      sessionId: 's1',
+      details: { command: 'zsh' },
+    });
+
+    const filePath = path.join(configDir, 'audit.log');
+    expect(fs.readFileSync(filePath, 'utf8').trim().split('\n')).toHaveLength(3);
+    if (process.platform !== 'win32') {
+      expect(fs.statSync(filePath).mode & 0o777).toBe(0o600);
+    }
+  });
+
+  it('filters by action, user, session and time', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T10:00:00Z'));
+    auditLog.record('session.create', alice, { sessionId: 's1' });
+    vi.setSystemTime(new Date('2026-01-01T11:00:00Z'));
+    auditLog.record('session.create', bob, { sessionId: 's2' });
+    auditLog.record('auth.login_failed', { userId: 'alice', authMethod: 'password' });
+
+    expect(await auditLog.query({ action: 'session.create' })).toHaveLength(2);
+    expect(await auditLog.query({ userId: 'alice' })).toHaveLength(2);
+    expect((await auditLog.query({ sessionId: 's2' })).map((entry) => entry.userId)).toEqual([
+      'bob',
+    ]);
+    expect(await auditLog.query({ since: new Date('2026-01-01T10:30:00Z') })).toHaveLength(2);
+    expect(await auditLog.query({ until: new Date('2026-01-01T10:30:00Z') })).toHaveLength(1);
+    expect((await auditLog.query({ limit: 1 })).map((entry) => entry.action)).toEqual([
+      'auth.login_failed',
+    ]);
+  });
+
+  it('folds repeated input per session, user and source into one entry a minute', async () => {
+    vi.useFakeTimers();
+    auditLog.recordInput('s1', 'ws', alice);
+    auditLog.recordInput('s1', 'ws', alice);
+    auditLog.recordInput('s1', 'rest', alice);
+    auditLog.recordInput('s1', 'ws', bob);
+    expect(await auditLog.query({ action: 'session.input' })).toHaveLength(3);
+
+    vi.advanceTimersByTime(60 * 1000);
+    auditLog.recordInput('s1', 'ws', alice);
+
+    const inputs = await auditLog.query({ action: 'session.input', userId: 'alice' });
+    expect(inputs.map((entry) => entry.source)).toEqual(['ws', 'rest', 'ws']);
+  });
+
+  it('reads entries spanning many chunks, newest first and only up to the limit', async () => {
+    for (let i = 0; i < 2000; i++) {
+      auditLog.record('session.create', alice, {
+        sessionId: `s${i}`,
+        details: { pad: 'x'.repeat(50) },
+      });
+    }
+
+    const entries = await auditLog.query({ limit: 1000 });
+    expect(entries).toHaveLength(1000);
+    expect(entries[0].sessionId).toBe('s1999');
+    expect(entries[999].sessionId).toBe('s1000');
+  });
+
+  it('rotates the file once it is full and queries across rotated files', async () => {
+    auditLog = new AuditLog(configDir, 1024);
+    for (let i = 0; i < 100; i++) {
+      auditLog.record('session.kill', bob, { sessionId: `s${i}` });
+    }
+
+    const files = fs.readdirSync(configDir).sort();
+    expect(files).toEqual([
+      'audit.log',
+      'audit.log.1',
+      'audit.log.2',
+      'audit.log.3',
+      'audit.log.4',
+      'audit.log.5',
+    ]);
+    for (const file of files) {
+      expect(fs.statSync(path.join(configDir, file)).size).toBeLessThanOrEqual(1024);
+    }
+
+    const entries = await auditLog.query({ limit: 1000 });
+    expect(entries[0].sessionId).toBe('s99');
+    expect(entries.map((entry) => Number(entry.sessionId?.slice(1)))).toEqual(
+      [...entries.keys()].map((index) => 99 - index)
+    );
+  });
+
+  it('returns nothing before the first entry is written', async () => {
+    expect(await auditLog.query()).toEqual([]);
+  });
+});
@@ -0,0 +1,218 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { AuditAction, AuditEntry, AuditInputSource } from '../../shared/types.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('audit-log');
+
+// Input is recorded once per session, user and source within this window,
+// so the log answers "who typed here" without storing every keystroke
+const INPUT_WINDOW_MS = 60 * 1000;
+const MAX_TRACKED_INPUTS = 1000;
+
+const DEFAULT_QUERY_LIMIT = 200;
+const MAX_QUERY_LIMIT = 1000;
+
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+const MAX_ROTATED_FILES = 5; // audit.log.1 (newest) to audit.log.5
+const READ_CHUNK_BYTES = 64 * 1024;
+
+/**
+ * Who performed an audited action
+ */
+export interface AuditActor {
+  userId?: string;
+  authMethod?: string;
+  remoteAddress?: string;
+}
+
+export interface AuditQuery {
+  action?: AuditAction;
+  userId?: string;
+  sessionId?: string;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+/**
+ * Actor of an authenticated API request
+ */
+export function auditActorFromRequest(req: {
+  userId?: string;
+  authMethod?: string;
+  ip?: string;
+  socket?: { remoteAddress?: string };
+}): AuditActor {
+  return {
+    userId: req.userId,
+    authMethod: req.authMethod,
+    remoteAddress: req.ip || req.socket?.remoteAddress,
+  };
+}
+
+/**
+ * Lines of a file from last to first, read in chunks from the end
+ */
+async function* readLinesReverse(filePath: string): AsyncGenerator<string> {
+  let handle: fs.promises.FileHandle;
+  try {
+    handle = await fs.promises.open(filePath, 'r');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+    throw error;
+  }
+
+  try {
+    let position = (await handle.stat()).size;
+    let rest = Buffer.alloc(0); // start of a line that began in an earlier chunk
+    while (position > 0) {
+      const length = Math.min(READ_CHUNK_BYTES, position);
+      position -= length;
+      const chunk = Buffer.alloc(length);
+      await handle.read(chunk, 0, length, position);
+
+      const buffer = Buffer.concat([chunk, rest]);
+      let end = buffer.length;
+      for (let i = buffer.length - 1; i >= 0; i--) {
+        if (buffer[i] !== 0x0a) continue;
+        if (end > i + 1) yield buffer.toString('utf8', i + 1, end);
+        end = i;
+      }
+      rest = buffer.subarray(0, end);
+    }
+    if (rest.length > 0) yield rest.toString('utf8');
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Append-only log of security-relevant actions: logins, session lifecycle,
+ * who sent input to which session, file transfers and config changes.
+ *
+ * Entries are written as JSON lines to `audit.log` in the config directory.
+ * Entries are never rewritten; once the file reaches 10 MiB it is rotated to
+ * `audit.log.1`, and the oldest of the five rotated files is dropped.
+ */
+export class AuditLog {
+  private readonly filePath: string;
+  private fileSize: number | undefined; // read from disk on the first write
+  private lastInput = new Map<string, number>(); // session/source/user -> last recorded time
+
+  constructor(
+    configDir = path.join(os.homedir(), '.vibetunnel'),
+    private readonly maxFileBytes = MAX_FILE_BYTES
+  ) {
+    this.filePath = path.join(configDir, 'audit.log');
+  }
+
+  record(
+    action: AuditAction,
+    actor: AuditActor,
+    fields: Pick<AuditEntry, 'sessionId' | 'source' | 'details'> = {}
+  ): void {
+    const entry: AuditEntry = {
+      timestamp: new Date().toISOString(),
+      action,
+      ...actor,
+      ...fields,
+    };
+
+    const line = `${JSON.stringify(entry)}\n`;
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      this.rotateIfFull(Buffer.byteLength(line));
+      fs.appendFileSync(this.filePath, line, { encoding: 'utf8', mode: 0o600 });
+      this.fileSize = (this.fileSize ?? 0) + Buffer.byteLength(line);
+    } catch (error) {
+      logger.error(`failed to write audit entry to ${this.filePath}:`, error);
+    }
+  }
+
+  /**
+   * Record that input reached a session. Repeated input from the same user
+   * and source is folded into one entry per minute.
+   */
+  recordInput(sessionId: string, source: AuditInputSource, actor: AuditActor): void {
+    const key = `${sessionId}\0${source}\0${actor.userId ?? ''}`;
+    const now = Date.now();
+    const last = this.lastInput.get(key);
+    if (last !== undefined && now - last < INPUT_WINDOW_MS) return;
+
+    if (this.lastInput.size >= MAX_TRACKED_INPUTS) {
+      for (const [staleKey, time] of this.lastInput) {
+        if (now - time >= INPUT_WINDOW_MS) this.lastInput.delete(staleKey);
+      }
+    }
+    this.lastInput.set(key, now);
+    this.record('session.input', actor, { sessionId, source });
+  }
+
+  /**
+   * Entries matching the query, newest first. Files are read backwards from
+   * the end, so only as much is read as the limit and `since` need.
+   */
+  async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    const limit = Math.min(query.limit ?? DEFAULT_QUERY_LIMIT, MAX_QUERY_LIMIT);
+    const since = query.since?.getTime();
+    const until = query.until?.getTime();
+    const entries: AuditEntry[] = [];
+
+    for (const filePath of this.filePaths()) {
+      for await (const line of readLinesReverse(filePath)) {
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          logger.warn(`skipping malformed audit entry in ${filePath}`);
+          continue;
+        }
+
+        // Entries are appended in time order, so everything after this is older
+        const time = Date.parse(entry.timestamp);
+        if (since !== undefined && time < since) return entries;
+        if (until !== undefined && time > until) continue;
+        if (query.action && entry.action !== query.action) continue;
+        if (query.userId && entry.userId !== query.userId) continue;
+        if (query.sessionId && entry.sessionId !== query.sessionId) continue;
+
+        entries.push(entry);
+        if (entries.length >= limit) return entries;
+      }
+    }
+
+    return entries;
+  }
+
+  // The live file, then rotated ones from newest to oldest
+  private filePaths(): string[] {
+    const paths = [this.filePath];
+    for (let i = 1; i <= MAX_ROTATED_FILES; i++) paths.push(`${this.filePath}.${i}`);
+    return paths;
+  }
+
+  private rotateIfFull(incomingBytes: number) {
+    if (this.fileSize === undefined) {
+      try {
+        this.fileSize = fs.statSync(this.filePath).size;
+      } catch {
+        this.fileSize = 0;
+      }
+    }
+    if (this.fileSize === 0 || this.fileSize + incomingBytes <= this.maxFileBytes) return;
+
+    // Shift audit.log.N to audit.log.N+1, overwriting the oldest
+    const paths = this.filePaths();
+    for (let i = paths.length - 1; i > 0; i--) {
+      try {
+        fs.renameSync(paths[i - 1], paths[i]);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+    }
+    this.fileSize = 0;
+    logger.log(`rotated audit log to ${paths[1]}`);
+  }
+}
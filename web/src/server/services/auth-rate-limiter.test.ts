@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AuthRateLimiter } from './auth-rate-limiter.js';
+
+vi.mock('../utils/logger.js', () => ({
+  createLogger: () => ({
+    log: vi.fn(),
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+describe('AuthRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('locks a user out once the limit is reached', () => {
+    const limiter = new AuthRateLimiter({ maxAttemptsPerUser: 3, lockoutMs: 60_000 });
+
+    limiter.recordFailure('10.0.0.1', 'alice');
+    limiter.recordFailure('10.0.0.2', 'alice');
+    expect(limiter.getRetryAfter('10.0.0.3', 'alice')).toBe(0);
+
+    limiter.recordFailure('10.0.0.3', 'alice');
+    expect(limiter.getRetryAfter('10.0.0.4', 'alice')).toBe(60);
+    expect(limiter.getRetryAfter('10.0.0.4', 'bob')).toBe(0);
+
+    vi.advanceTimersByTime(60_000);
+    expect(limiter.getRetryAfter('10.0.0.4', 'alice')).toBe(0);
+  });
+
+  it('locks an IP out across user names', () => {
+    const limiter = new AuthRateLimiter({ maxAttemptsPerIp: 2, lockoutMs: 10_000 });
+
+    limiter.recordFailure('10.0.0.1', 'alice');
+    limiter.recordFailure('10.0.0.1', 'bob');
+
+    expect(limiter.getRetryAfter('10.0.0.1', 'carol')).toBe(10);
+    expect(limiter.getRetryAfter('10.0.0.1')).toBe(10);
+    expect(limiter.getRetryAfter('10.0.0.2', 'carol')).toBe(0);
+  });
+
+  it('doubles the lockout for repeated lockouts up to an hour', () => {
+    const limiter = new AuthRateLimiter({ maxAttemptsPerUser: 1, lockoutMs: 20 * 60_000 });
+
+    limiter.recordFailure('10.0.0.1', 'alice');
+    expect(limiter.getRetryAfter('10.0.0.1', 'alice')).toBe(20 * 60);
+
+    vi.advanceTimersByTime(20 * 60_000);
+    limiter.recordFailure('10.0.0.1', 'alice');
+    expect(limiter.getRetryAfter('10.0.0.1', 'alice')).toBe(40 * 60);
+
+    vi.advanceTimersByTime(40 * 60_000);
+    limiter.recordFailure('10.0.0.1', 'alice');
+    expect(limiter.getRetryAfter('10.0.0.1', 'alice')).toBe(60 * 60);
+  });
+
+  it('forgets failures after a successful login or a quiet period', () => {
+    const limiter = new AuthRateLimiter({ maxAttemptsPerUser: 2, lockoutMs: 60_000 });
+
+    limiter.recordFailure('10.0.0.1', 'alice');
+    limiter.recordSuccess('alice');
+    limiter.recordFailure('10.0.0.1', 'alice');
+    expect(limiter.getRetryAfter('10.0.0.1', 'alice')).toBe(0);
+
+    vi.advanceTimersByTime(16 * 60_000);
+    limiter.recordFailure('10.0.0.1', 'alice');
+    expect(limiter.getRetryAfter('10.0.0.1', 'alice')).toBe(0);
+  });
+});
@@ -0,0 +1,108 @@
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('auth-rate-limiter');
+
+// Failures older than this no longer count, and a key that stays quiet this
+// long after its last lockout starts again from the base lockout
+const FAILURE_WINDOW_MS = 15 * 60 * 1000;
+// Repeated lockouts double up to this cap
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+// Forget idle keys once this many are tracked
+const PRUNE_THRESHOLD = 10000;
+
+export interface AuthRateLimitOptions {
+  maxAttemptsPerUser: number;
+  maxAttemptsPerIp: number;
+  lockoutMs: number; // first lockout, doubled for each further one
+}
+
+export const DEFAULT_AUTH_RATE_LIMITS: AuthRateLimitOptions = {
+  maxAttemptsPerUser: 5,
+  maxAttemptsPerIp: 20,
+  lockoutMs: 60 * 1000,
+};
+
+interface AttemptRecord {
+  failures: number;
+  lockouts: number;
+  lockedUntil: number;
+  lastFailureAt: number;
+}
+
+/**
+ * Brute-force protection for the login endpoints.
+ *
+ * Failed attempts are counted per client IP and per user. Reaching either
+ * limit locks that IP or user out, starting at `lockoutMs` and doubling with
+ * every further lockout. State is kept in memory only.
+ */
+export class AuthRateLimiter {
+  private readonly options: AuthRateLimitOptions;
+  private records = new Map<string, AttemptRecord>(); // "ip:<addr>" or "user:<id>"
+
+  constructor(options: Partial<AuthRateLimitOptions> = {}) {
+    this.options = { ...DEFAULT_AUTH_RATE_LIMITS, ...options };
+  }
+
+  /**
+   * Seconds until the IP or user may try again, 0 if neither is locked out
+   */
+  getRetryAfter(ip: string, userId?: string): number {
+    const now = Date.now();
+    let lockedUntil = 0;
+    for (const key of this.keysFor(ip, userId)) {
+      lockedUntil = Math.max(lockedUntil, this.records.get(key)?.lockedUntil ?? 0);
+    }
+    return lockedUntil > now ? Math.ceil((lockedUntil - now) / 1000) : 0;
+  }
+
+  recordFailure(ip: string, userId?: string): void {
+    const now = Date.now();
+    if (this.records.size >= PRUNE_THRESHOLD) this.prune(now);
+
+    for (const key of this.keysFor(ip, userId)) {
+      const limit = key.startsWith('ip:')
+        ? this.options.maxAttemptsPerIp
+        : this.options.maxAttemptsPerUser;
+      let record = this.records.get(key);
+      if (!record || this.isIdle(record, now)) {
+        record = { failures: 0, lockouts: 0, lockedUntil: 0, lastFailureAt: now };
+        this.records.set(key, record);
+      }
+
+      record.failures++;
+      record.lastFailureAt = now;
+      if (record.failures < limit) continue;
+
+      const duration = Math.min(this.options.lockoutMs * 2 ** record.lockouts, MAX_LOCKOUT_MS);
+      record.lockouts++;
+      record.failures = 0;
+      record.lockedUntil = now + duration;
+      logger.warn(
+        `locked out ${key.replace(':', ' ')} for ${Math.ceil(duration / 1000)}s after ${limit} failed login attempts`
+      );
+    }
+  }
+
+  /**
+   * A successful login clears the user's failures. The IP keeps its count so
+   * one valid account can't be used to reset guessing against others.
+   */
+  recordSuccess(userId: string): void {
+    this.records.delete(`user:${userId}`);
+  }
+
+  private keysFor(ip: string, userId?: string): string[] {
+    return userId ? [`ip:${ip}`, `user:${userId}`] : [`ip:${ip}`];
+  }
+
+  private isIdle(record: AttemptRecord, now: number): boolean {
+    return now - Math.max(record.lastFailureAt, record.lockedUntil) > FAILURE_WINDOW_MS;
+  }
+
+  private prune(now: number) {
+    for (const [key, record] of this.records) {
+      if (this.isIdle(record, now)) this.records.delete(key);
+    }
+  }
+}
@@ -1,6 +1,10 @@
 import * as crypto from 'crypto';
 import * as jwt from 'jsonwebtoken';
 import { authenticate as pamAuthenticate } from './authenticate-pam-loader.js';
+import type { TotpService } from './totp-service.js';
+
+// Wrong codes allowed per password login before it has to start over
+const MAX_TOTP_ATTEMPTS = 5;
 
 interface AuthChallenge {
   challengeId: string;
@@ -9,11 +13,20 @@ interface AuthChallenge {
   userId: string;
 }
 
+// A password login waiting for its TOTP code
+interface PendingTotpLogin {
+  userId: string;
+  timestamp: number;
+  attempts: number;
+}
+
 interface AuthResult {
   success: boolean;
   userId?: string;
   token?: string;
   error?: string;
+  totpRequired?: boolean;
+  totpChallengeId?: string;
 }
 
 interface SSHKeyAuth {
@@ -24,10 +37,11 @@ interface SSHKeyAuth {
 
 export class AuthService {
   private challenges = new Map<string, AuthChallenge>();
+  private pendingTotpLogins = new Map<string, PendingTotpLogin>();
   private jwtSecret: string;
   private challengeTimeout = 5 * 60 * 1000; // 5 minutes
 
-  constructor() {
+  constructor(private totpService?: TotpService) {
     // Generate or load JWT secret
     this.jwtSecret = process.env.JWT_SECRET || this.generateSecret();
 
@@ -46,6 +60,11 @@ export class AuthService {
         this.challenges.delete(id);
       }
     }
+    for (const [id, login] of this.pendingTotpLogins.entries()) {
+      if (now - login.timestamp > this.challengeTimeout) {
+        this.pendingTotpLogins.delete(id);
+      }
+    }
   }
 
   /**
@@ -67,7 +86,7 @@ export class AuthService {
       );
 
       if (!isValidSignature) {
-        return { success: false, error: 'Invalid SSH key signature' };
+        return { success: false, userId: challenge.userId, error: 'Invalid SSH key signature' };
       }
 
       // Check if this key is authorized for the user
@@ -76,7 +95,11 @@ export class AuthService {
         sshKeyAuth.publicKey
       );
       if (!isAuthorized) {
-        return { success: false, error: 'SSH key not authorized for this user' };
+        return {
+          success: false,
+          userId: challenge.userId,
+          error: 'SSH key not authorized for this user',
+        };
       }
 
       // Clean up challenge
@@ -108,12 +131,7 @@ export class AuthService {
       if (envUsername && envPassword) {
         // Use environment variable authentication
         if (userId === envUsername && password === envPassword) {
-          const token = this.generateToken(userId);
-          return {
-            success: true,
-            userId,
-            token,
-          };
+          return this.completePasswordLogin(userId);
         } else {
           return { success: false, error: 'Invalid username or password' };
         }
@@ -125,19 +143,82 @@ export class AuthService {
         return { success: false, error: 'Invalid username or password' };
       }
 
-      const token = this.generateToken(userId);
-
-      return {
-        success: true,
-        userId,
-        token,
-      };
+      return this.completePasswordLogin(userId);
     } catch (error) {
       console.error('PAM authentication error:', error);
       return { success: false, error: 'Authentication failed' };
     }
   }
 
+  /**
+   * Finish a password login whose credentials checked out. Users enrolled in
+   * TOTP get a challenge instead of a token and continue with
+   * `authenticateWithTotp`.
+   */
+  private completePasswordLogin(userId: string): AuthResult {
+    if (this.totpService?.isEnrolled(userId)) {
+      const totpChallengeId = crypto.randomUUID();
+      this.pendingTotpLogins.set(totpChallengeId, { userId, timestamp: Date.now(), attempts: 0 });
+      return { success: false, userId, totpRequired: true, totpChallengeId };
+    }
+
+    return {
+      success: true,
+      userId,
+      token: this.generateToken(userId),
+    };
+  }
+
+  /**
+   * User a pending TOTP challenge belongs to, so callers can apply per-user
+   * limits before a code is checked
+   */
+  getTotpChallengeUser(totpChallengeId: string): string | undefined {
+    const login = this.pendingTotpLogins.get(totpChallengeId);
+    if (!login || Date.now() - login.timestamp > this.challengeTimeout) return undefined;
+    return login.userId;
+  }
+
+  /**
+   * Second step of a password login for users enrolled in TOTP
+   */
+  authenticateWithTotp(totpChallengeId: string, code: string): AuthResult {
+    const login = this.pendingTotpLogins.get(totpChallengeId);
+    if (!login || Date.now() - login.timestamp > this.challengeTimeout || !this.totpService) {
+      this.pendingTotpLogins.delete(totpChallengeId);
+      return {
+        success: false,
+        userId: login?.userId,
+        error: 'Login expired, please sign in again',
+      };
+    }
+
+    if (!this.totpService.verifyCode(login.userId, code)) {
+      login.attempts++;
+      if (login.attempts >= MAX_TOTP_ATTEMPTS) {
+        this.pendingTotpLogins.delete(totpChallengeId);
+        return {
+          success: false,
+          userId: login.userId,
+          error: 'Too many invalid codes, please sign in again',
+        };
+      }
+      return {
+        success: false,
+        userId: login.userId,
+        totpRequired: true,
+        error: 'Invalid authentication code',
+      };
+    }
+
+    this.pendingTotpLogins.delete(totpChallengeId);
+    return {
+      success: true,
+      userId: login.userId,
+      token: this.generateToken(login.userId),
+    };
+  }
+
   /**
    * Create authentication challenge for SSH key auth
    */
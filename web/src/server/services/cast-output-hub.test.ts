@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SessionManager } from '../pty/session-manager.js';
+import { CastOutputHub, type CastOutputHubEvent } from './cast-output-hub.js';
+
+vi.mock('../utils/logger.js', () => ({
+  createLogger: () => ({
+    log: vi.fn(),
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+const lines = [
+  JSON.stringify({ version: 2, width: 80, height: 24 }),
+  JSON.stringify([0.1, 'o', 'one\r\n']),
+  JSON.stringify([0.2, 'o', 'two\r\n']),
+  JSON.stringify([0.3, 'o', 'three\r\n']),
+];
+
+function outputs(events: CastOutputHubEvent[]) {
+  return events.flatMap((event) => (event.kind === 'output' ? [event] : []));
+}
+
+describe('CastOutputHub', () => {
+  let dir: string;
+  let stdoutPath: string;
+  let lastClearOffset: number;
+  let hub: CastOutputHub;
+  const unsubscribers: Array<() => void> = [];
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vt-cast-'));
+    stdoutPath = path.join(dir, 'stdout');
+    fs.writeFileSync(stdoutPath, `${lines.join('\n')}\n`);
+    lastClearOffset = 0;
+
+    const sessionManager = {
+      getSessionPaths: () => ({ stdoutPath }),
+      loadSessionInfo: () => ({ lastClearOffset }),
+      saveSessionInfo: vi.fn(),
+    } as unknown as SessionManager;
+    hub = new CastOutputHub(sessionManager);
+  });
+
+  afterEach(() => {
+    for (const unsubscribe of unsubscribers.splice(0)) unsubscribe();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function subscribe(resumeFrom?: number) {
+    const events: CastOutputHubEvent[] = [];
+    unsubscribers.push(hub.subscribe('s1', (event) => events.push(event), resumeFrom));
+    return events;
+  }
+
+  async function waitForOutputs(events: CastOutputHubEvent[], count: number) {
+    await vi.waitFor(() => expect(outputs(events)).toHaveLength(count));
+  }
+
+  it('tags replayed output with the offset just past its line', async () => {
+    const events = subscribe();
+    await waitForOutputs(events, 3);
+
+    const content = fs.readFileSync(stdoutPath, 'utf8');
+    expect(outputs(events).map((event) => event.offset)).toEqual([
+      content.indexOf(lines[2]),
+      content.indexOf(lines[3]),
+      content.length,
+    ]);
+  });
+
+  it('sends only the output after a resume offset', async () => {
+    const first = subscribe();
+    await waitForOutputs(first, 3);
+    const cursor = outputs(first)[0].offset;
+
+    const resumed = subscribe(cursor);
+    expect(resumed[0]).toEqual({ kind: 'resume', resumed: true });
+    expect(outputs(resumed).map((event) => event.data)).toEqual(['two\r\n', 'three\r\n']);
+  });
+
+  it('falls back to a full replay when the offset was pruned or is not a line end', async () => {
+    const first = subscribe();
+    await waitForOutputs(first, 3);
+    const [one, two] = outputs(first).map((event) => event.offset);
+
+    const midLine = subscribe(two - 3);
+    expect(midLine[0]).toEqual({ kind: 'resume', resumed: false });
+    await waitForOutputs(midLine, 3);
+
+    lastClearOffset = two;
+    const pruned = subscribe(one);
+    expect(pruned[0]).toEqual({ kind: 'resume', resumed: false });
+  });
+});
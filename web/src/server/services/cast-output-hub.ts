@@ -40,12 +40,15 @@ function isExitEvent(event: AsciinemaEvent): event is AsciinemaExitEvent {
   return Array.isArray(event) && event[0] === 'exit';
 }
 
+// `offset` is the cast file byte offset just past the event's line. Passing
+// the last one seen back to subscribe() resumes the stream after it.
 export type CastOutputHubEvent =
   | { kind: 'header'; header: AsciinemaHeader }
-  | { kind: 'output'; data: string; historical: boolean }
+  | { kind: 'output'; data: string; historical: boolean; offset: number }
   | { kind: 'resize'; dimensions: string; historical: boolean }
   | { kind: 'exit'; exitCode: number }
-  | { kind: 'error'; message: string };
+  | { kind: 'error'; message: string }
+  | { kind: 'resume'; resumed: boolean };
 
 export type CastOutputHubListener = (event: CastOutputHubEvent) => void;
 
@@ -67,7 +70,12 @@ export class CastOutputHub {
     process.on('beforeExit', () => this.cleanup());
   }
 
-  subscribe(sessionId: string, listener: CastOutputHubListener): () => void {
+  /**
+   * Follow a session's output. New subscribers get the pruned existing content
+   * first. With `resumeFrom` they get only the output after that offset
+   * instead, unless it has been pruned; a `resume` event reports which.
+   */
+  subscribe(sessionId: string, listener: CastOutputHubListener, resumeFrom?: number): () => void {
     const paths = this.sessionManager.getSessionPaths(sessionId, true);
     if (!paths) {
       listener({ kind: 'error', message: 'Session paths not found' });
@@ -88,9 +96,6 @@ export class CastOutputHub {
       };
       this.activeWatchers.set(sessionId, watcherInfo);
 
-      // Send existing content (pruned) to the first subscriber.
-      this.sendExistingContent(sessionId, streamPath, listener);
-
       // Initialize offsets if file exists.
       if (fs.existsSync(streamPath)) {
         const stats = fs.statSync(streamPath);
@@ -101,9 +106,19 @@ export class CastOutputHub {
 
       // Start watching (or retry until file exists).
       this.startWatchingWithRetry(sessionId, watcherInfo);
-    } else {
-      // Send pruned existing content to late joiners too.
+    }
+
+    if (resumeFrom === undefined) {
+      // Send pruned existing content to first subscribers and late joiners alike.
       this.sendExistingContent(sessionId, watcherInfo.streamPath, listener);
+    } else {
+      const resumed = this.canResume(sessionId, watcherInfo, resumeFrom);
+      listener({ kind: 'resume', resumed });
+      if (resumed) {
+        this.sendMissedContent(sessionId, watcherInfo, resumeFrom, listener);
+      } else {
+        this.sendExistingContent(sessionId, watcherInfo.streamPath, listener);
+      }
     }
 
     watcherInfo.clients.add(listener);
@@ -175,6 +190,7 @@ export class CastOutputHub {
         fs.readSync(fd, buffer, 0, buffer.length, watcherInfo.lastOffset);
         fs.closeSync(fd);
 
+        let lineOffset = this.getLineStartOffset(watcherInfo);
         watcherInfo.lastOffset = stats.size;
 
         watcherInfo.lineBuffer += buffer.toString('utf8');
@@ -182,8 +198,9 @@ export class CastOutputHub {
         watcherInfo.lineBuffer = lines.pop() || '';
 
         for (const line of lines) {
+          lineOffset += Buffer.byteLength(line, 'utf8') + 1;
           if (!line.trim()) continue;
-          this.broadcastLine(sessionId, line, watcherInfo);
+          this.broadcastLine(line, lineOffset, watcherInfo.clients, false);
         }
       } catch (error) {
         logger.error(`failed to read file changes for session ${sessionId}:`, error);
@@ -212,12 +229,17 @@ export class CastOutputHub {
     }
   }
 
-  private broadcastLine(_sessionId: string, line: string, watcherInfo: WatcherInfo): void {
+  private broadcastLine(
+    line: string,
+    offset: number,
+    clients: Iterable<CastOutputHubListener>,
+    historical: boolean
+  ): void {
     const parsed = this.parseAsciinemaLine(line);
     if (!parsed) {
       // Treat as raw output line
-      for (const client of watcherInfo.clients) {
-        client({ kind: 'output', data: line, historical: false });
+      for (const client of clients) {
+        client({ kind: 'output', data: line, historical, offset });
       }
       return;
     }
@@ -226,20 +248,78 @@ export class CastOutputHub {
     if (!Array.isArray(parsed)) return;
 
     if (isExitEvent(parsed)) {
-      for (const client of watcherInfo.clients) {
+      for (const client of clients) {
         client({ kind: 'exit', exitCode: parsed[1] });
       }
       return;
     }
 
     if (isOutputEvent(parsed)) {
-      for (const client of watcherInfo.clients) {
-        client({ kind: 'output', data: parsed[2], historical: false });
+      for (const client of clients) {
+        client({ kind: 'output', data: parsed[2], historical, offset });
       }
     } else if (isResizeEvent(parsed)) {
-      for (const client of watcherInfo.clients) {
-        client({ kind: 'resize', dimensions: parsed[2], historical: false });
+      for (const client of clients) {
+        client({ kind: 'resize', dimensions: parsed[2], historical });
+      }
+    }
+  }
+
+  // Offset of the first line the live follow has not broadcast yet
+  private getLineStartOffset(watcherInfo: WatcherInfo): number {
+    return watcherInfo.lastOffset - Buffer.byteLength(watcherInfo.lineBuffer, 'utf8');
+  }
+
+  /**
+   * A resume offset is usable if it ends a line the live follow has already
+   * broadcast and lies after the last prune point.
+   */
+  private canResume(sessionId: string, watcherInfo: WatcherInfo, offset: number): boolean {
+    const lastClearOffset = this.sessionManager.loadSessionInfo(sessionId)?.lastClearOffset ?? 0;
+    if (offset < lastClearOffset || offset > this.getLineStartOffset(watcherInfo)) return false;
+    if (offset === 0) return true;
+
+    let fd: number | null = null;
+    try {
+      fd = fs.openSync(watcherInfo.streamPath, 'r');
+      const byte = Buffer.alloc(1);
+      return fs.readSync(fd, byte, 0, 1, offset - 1) === 1 && byte[0] === 0x0a;
+    } catch {
+      return false;
+    } finally {
+      if (fd !== null) fs.closeSync(fd);
+    }
+  }
+
+  // Replay the lines between `from` and the live follow position, so the
+  // listener continues exactly where the live broadcast picks up.
+  private sendMissedContent(
+    sessionId: string,
+    watcherInfo: WatcherInfo,
+    from: number,
+    listener: CastOutputHubListener
+  ) {
+    const end = this.getLineStartOffset(watcherInfo);
+    if (end <= from) return;
+
+    try {
+      const buffer = Buffer.alloc(end - from);
+      const fd = fs.openSync(watcherInfo.streamPath, 'r');
+      try {
+        fs.readSync(fd, buffer, 0, buffer.length, from);
+      } finally {
+        fs.closeSync(fd);
       }
+
+      let offset = from;
+      for (const line of buffer.toString('utf8').split('\n')) {
+        offset += Buffer.byteLength(line, 'utf8') + 1;
+        if (!line.trim()) continue;
+        this.broadcastLine(line, offset, [listener], true);
+      }
+    } catch (error) {
+      logger.error(`failed to resume cast output for ${sessionId}:`, error);
+      listener({ kind: 'error', message: 'Failed to read session output' });
     }
   }
 
@@ -322,6 +402,7 @@ export class CastOutputHub {
       });
       let lineBuffer = '';
       const events: AsciinemaEvent[] = [];
+      const eventOffsets: number[] = [];
       let lastClearIndex = -1;
       let lastResizeBeforeClear: AsciinemaResizeEvent | null = null;
       let currentResize: AsciinemaResizeEvent | null = null;
@@ -344,6 +425,7 @@ export class CastOutputHub {
 
           if (parsed[0] === 'exit') {
             events.push(parsed as AsciinemaExitEvent);
+            eventOffsets.push(fileOffset);
             return;
           }
 
@@ -368,6 +450,7 @@ export class CastOutputHub {
           }
 
           events.push(event);
+          eventOffsets.push(fileOffset);
         } catch {
           // ignore invalid lines
         }
@@ -416,7 +499,12 @@ export class CastOutputHub {
             exitFound = true;
             listener({ kind: 'exit', exitCode: event[1] });
           } else if (isOutputEvent(event)) {
-            listener({ kind: 'output', data: event[2], historical: true });
+            listener({
+              kind: 'output',
+              data: event[2],
+              historical: true,
+              offset: eventOffsets[i],
+            });
           } else if (isResizeEvent(event)) {
             listener({ kind: 'resize', dimensions: event[2], historical: true });
           }
@@ -209,6 +209,36 @@ describe('ConfigService', () => {
       configService.updateQuickStartCommands(commandsWithNames);
       expect(configService.getConfig().quickStartCommands).toEqual(commandsWithNames);
     });
+
+    it('should accept template options', () => {
+      const templates: QuickStartCommand[] = [
+        {
+          name: 'api',
+          command: 'pnpm dev',
+          workingDir: '~/code/api',
+          env: { NODE_ENV: 'development', PORT: '3000' },
+          titleMode: 'static',
+          cols: 160,
+          rows: 48,
+          preCommand: 'nvm use',
+          gitWorktree: { branchPrefix: 'api', baseBranch: 'main' },
+        },
+      ];
+
+      configService.updateQuickStartCommands(templates);
+      expect(configService.getConfig().quickStartCommands).toEqual(templates);
+    });
+
+    it('should reject invalid template options', () => {
+      expect(() => {
+        configService.updateQuickStartCommands([{ command: 'zsh', env: { 'BAD-NAME': 'x' } }]);
+      }).toThrow('Invalid config');
+      expect(() => {
+        configService.updateQuickStartCommands([{ command: 'zsh', cols: 0 }]);
+      }).toThrow('Invalid config');
+
+      expect(configService.getConfig()).toEqual(DEFAULT_CONFIG);
+    });
   });
 
   describe('config change notifications', () => {
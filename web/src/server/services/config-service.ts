@@ -14,15 +14,34 @@ import { createLogger } from '../utils/logger.js';
 
 const logger = createLogger('config-service');
 
+// Environment variable names accepted in quick start templates
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+// Branch names passed to `git worktree add`; a leading dash would be read as an option
+const GIT_REF_PATTERN = /^[^-\s][^\s]*$/;
+
+export const QuickStartCommandSchema = z.object({
+  name: z.string().optional(),
+  command: z.string().min(1, 'Command cannot be empty'),
+  workingDir: z.string().min(1).optional(),
+  env: z
+    .record(z.string().regex(ENV_NAME_PATTERN, 'Invalid environment variable name'), z.string())
+    .optional(),
+  titleMode: z.enum(['none', 'filter', 'static']).optional(),
+  cols: z.number().int().positive().max(1000).optional(),
+  rows: z.number().int().positive().max(1000).optional(),
+  preCommand: z.string().optional(),
+  gitWorktree: z
+    .object({
+      branchPrefix: z.string().regex(GIT_REF_PATTERN, 'Invalid branch prefix').optional(),
+      baseBranch: z.string().regex(GIT_REF_PATTERN, 'Invalid base branch').optional(),
+    })
+    .optional(),
+});
+
 // Zod schema for config validation
 const ConfigSchema = z.object({
   version: z.number(),
-  quickStartCommands: z.array(
-    z.object({
-      name: z.string().optional(),
-      command: z.string().min(1, 'Command cannot be empty'),
-    })
-  ),
+  quickStartCommands: z.array(QuickStartCommandSchema),
   repositoryBasePath: z.string().optional(),
   // Extended configuration sections - we parse but don't use most of these yet
   server: z
@@ -1,10 +1,55 @@
 import chalk from 'chalk';
-import { v4 as uuidv4 } from 'uuid';
+import { createHash, randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WebSocket } from 'ws';
 import { HttpMethod } from '../../shared/types.js';
 import { createLogger } from '../utils/logger.js';
+import {
+  HQ_TUNNEL_PATH,
+  handleTunnelRequest,
+  parseTunnelMessage,
+  type TunnelRegisterMessage,
+} from './hq-tunnel.js';
 
 const logger = createLogger('hq-client');
 
+const TUNNEL_PING_INTERVAL_MS = 30000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+const REMOTE_KEY_FILE = 'hq-remote.key';
+
+/**
+ * Stable remote ID derived from a random key kept in the config directory and
+ * the remote name, so HQ recognizes this remote (and its sessions) across
+ * restarts while several remotes on one machine still get distinct IDs
+ */
+export function loadRemoteId(configDir: string, remoteName: string): string {
+  const keyPath = path.join(configDir, REMOTE_KEY_FILE);
+  let key: string;
+  try {
+    key = fs.readFileSync(keyPath, 'utf8').trim();
+  } catch {
+    key = '';
+  }
+
+  if (!key) {
+    key = randomBytes(32).toString('hex');
+    fs.mkdirSync(configDir, { recursive: true });
+    fs.writeFileSync(keyPath, `${key}\n`, { mode: 0o600 });
+    logger.log(`generated remote key at ${keyPath}`);
+  }
+
+  const hash = createHash('sha256').update(`vibetunnel-remote:${key}:${remoteName}`).digest('hex');
+  return [
+    hash.slice(0, 8),
+    hash.slice(8, 12),
+    hash.slice(12, 16),
+    hash.slice(16, 20),
+    hash.slice(20, 32),
+  ].join('-');
+}
+
 /**
  * HQ Client
  *
@@ -24,10 +69,19 @@ const logger = createLogger('hq-client');
  * ## Registration Process
  *
  * 1. Remote server starts with HQ configuration (URL, credentials, bearer token)
- * 2. HQClient generates a unique remote ID and registers with HQ
+ * 2. HQClient derives its remote ID from `~/.vibetunnel/hq-remote.key` and registers with HQ,
+ *    retrying with backoff until HQ is reachable
  * 3. HQ stores remote information and uses bearer token for authentication
  * 4. Remote server maintains registration until shutdown
- * 5. On shutdown, remote unregisters from HQ gracefully
+ * 5. On shutdown, remote unregisters from HQ gracefully; HQ keeps it as offline
+ *    and re-attaches its sessions when the same ID registers again
+ *
+ * ## Tunnel Mode
+ *
+ * Remotes that HQ can't reach (behind NAT) call `connectTunnel()` instead of
+ * `register()`. The remote opens one WebSocket to HQ and registers over it;
+ * HQ proxies REST requests and v3 frames through that socket and drops the
+ * registration when it closes. The client reconnects with backoff.
  *
  * ## Authentication
  *
@@ -72,6 +126,12 @@ export class HQClient {
   private readonly hqUsername: string;
   private readonly hqPassword: string;
   private readonly remoteUrl: string;
+  private tunnel: WebSocket | null = null;
+  private tunnelReconnectTimer: NodeJS.Timeout | null = null;
+  private tunnelPingTimer: NodeJS.Timeout | null = null;
+  private tunnelAttempts = 0;
+  private registerRetryTimer: NodeJS.Timeout | null = null;
+  private destroyed = false;
 
   /**
    * Create a new HQ client
@@ -82,6 +142,7 @@ export class HQClient {
    * @param remoteName - Human-readable name for this remote server (e.g., 'us-west-1')
    * @param remoteUrl - Public URL of this remote server for HQ to connect back
    * @param bearerToken - Bearer token that HQ will use to authenticate with this remote
+   * @param configDir - Directory holding the key the remote ID is derived from
    */
   constructor(
     hqUrl: string,
@@ -89,10 +150,11 @@ export class HQClient {
     hqPassword: string,
     remoteName: string,
     remoteUrl: string,
-    bearerToken: string
+    bearerToken: string,
+    configDir = path.join(os.homedir(), '.vibetunnel')
   ) {
     this.hqUrl = hqUrl;
-    this.remoteId = uuidv4();
+    this.remoteId = loadRemoteId(configDir, remoteName);
     this.remoteName = remoteName;
     this.token = bearerToken;
     this.hqUsername = hqUsername;
@@ -185,6 +247,22 @@ export class HQClient {
     }
   }
 
+  /**
+   * Register, retrying with backoff until it succeeds or the client is destroyed
+   *
+   * Lets a remote start before its HQ is up.
+   */
+  registerWithRetry(attempt = 0): void {
+    if (this.destroyed) return;
+
+    this.register().catch(() => {
+      if (this.destroyed) return;
+      const delay = Math.min(1000 * 2 ** attempt, MAX_RECONNECT_DELAY_MS);
+      logger.log(chalk.yellow(`retrying hq registration in ${delay}ms`));
+      this.registerRetryTimer = setTimeout(() => this.registerWithRetry(attempt + 1), delay);
+    });
+  }
+
   /**
    * Unregister from HQ and clean up
    *
@@ -208,6 +286,16 @@ export class HQClient {
    */
   async destroy(): Promise<void> {
     logger.log(chalk.yellow(`unregistering from hq: ${this.remoteName} (${this.remoteId})`));
+    this.destroyed = true;
+
+    if (this.registerRetryTimer) clearTimeout(this.registerRetryTimer);
+    if (this.tunnelReconnectTimer) clearTimeout(this.tunnelReconnectTimer);
+    if (this.tunnel) {
+      // HQ drops the registration when the tunnel closes
+      this.tunnel.close();
+      this.tunnel = null;
+      return;
+    }
 
     try {
       // Try to unregister
@@ -229,11 +317,93 @@ export class HQClient {
     }
   }
 
+  /**
+   * Connect to HQ over an outbound WebSocket tunnel
+   *
+   * Used instead of `register()` when HQ can't reach this server. Requests HQ
+   * sends through the tunnel are replayed against `localUrl`; the socket itself
+   * is handed to `onConnection` so it can serve WS v3 frames like any client.
+   *
+   * @param localUrl - URL this server listens on, reachable from this machine
+   * @param onConnection - Called with each newly opened tunnel socket
+   */
+  connectTunnel(localUrl: string, onConnection: (ws: WebSocket) => void): void {
+    if (this.destroyed) return;
+
+    const tunnelUrl = `${this.hqUrl.replace(/^http/, 'ws')}${HQ_TUNNEL_PATH}`;
+    logger.log(`opening tunnel to hq at ${tunnelUrl}`);
+
+    const ws = new WebSocket(tunnelUrl, { headers: { Authorization: this.getHQAuth() } });
+    this.tunnel = ws;
+    let alive = true;
+
+    ws.on('open', () => {
+      this.tunnelAttempts = 0;
+      const register: TunnelRegisterMessage = {
+        type: 'register',
+        id: this.remoteId,
+        name: this.remoteName,
+        url: this.remoteUrl,
+        token: this.token,
+      };
+      ws.send(JSON.stringify(register));
+      onConnection(ws);
+      logger.log(
+        chalk.green(`tunnel to hq open: ${this.remoteName} (${this.remoteId})`) +
+          chalk.gray(` at ${this.hqUrl}`)
+      );
+
+      // NAT gateways drop idle connections; pings keep it open and detect dead peers
+      this.tunnelPingTimer = setInterval(() => {
+        if (!alive) {
+          logger.warn('tunnel to hq stopped responding');
+          ws.terminate();
+          return;
+        }
+        alive = false;
+        ws.ping();
+      }, TUNNEL_PING_INTERVAL_MS);
+    });
+
+    ws.on('pong', () => {
+      alive = true;
+    });
+
+    ws.on('message', (data: Buffer, isBinary: boolean) => {
+      if (isBinary) return; // v3 frames are handled by the hub
+      const message = parseTunnelMessage(data);
+      if (message?.type !== 'request') return;
+
+      handleTunnelRequest(message, localUrl, this.token).then((response) => {
+        if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(response));
+      });
+    });
+
+    ws.on('error', (error) => {
+      logger.warn(`tunnel to hq failed: ${error.message}`);
+    });
+
+    ws.on('close', () => {
+      if (this.tunnelPingTimer) clearInterval(this.tunnelPingTimer);
+      this.tunnelPingTimer = null;
+      if (this.tunnel === ws) this.tunnel = null;
+      if (this.destroyed) return;
+
+      const delay = Math.min(1000 * 2 ** this.tunnelAttempts, MAX_RECONNECT_DELAY_MS);
+      this.tunnelAttempts++;
+      logger.log(chalk.yellow(`tunnel to hq closed, reconnecting in ${delay}ms`));
+      this.tunnelReconnectTimer = setTimeout(
+        () => this.connectTunnel(localUrl, onConnection),
+        delay
+      );
+    });
+  }
+
   /**
    * Get the unique ID of this remote
    *
-   * The remote ID is a UUID v4 generated when the HQClient is created.
-   * This ID uniquely identifies this remote server in the HQ registry.
+   * The remote ID is derived from this server's remote key, so it stays the
+   * same across restarts. It uniquely identifies this remote in the HQ registry.
    *
    * @returns The remote's unique identifier
    */
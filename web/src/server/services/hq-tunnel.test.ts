@@ -0,0 +1,107 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebSocket, WebSocketServer } from 'ws';
+import { HQTunnel, handleTunnelRequest, parseTunnelMessage } from './hq-tunnel.js';
+
+vi.mock('../utils/logger.js', () => ({
+  createLogger: () => ({
+    log: vi.fn(),
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+function listen(server: http.Server | WebSocketServer): Promise<number> {
+  return new Promise((resolve) => {
+    if (server instanceof WebSocketServer) {
+      server.on('listening', () => resolve((server.address() as AddressInfo).port));
+    } else {
+      server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port));
+    }
+  });
+}
+
+describe('HQ tunnel', () => {
+  let localServer: http.Server;
+  let hqServer: WebSocketServer;
+  let remoteSocket: WebSocket;
+  let tunnel: HQTunnel;
+  let seenAuth: string | undefined;
+
+  beforeEach(async () => {
+    // The remote's own API, only reachable from the remote
+    localServer = http.createServer((req, res) => {
+      seenAuth = req.headers.authorization;
+      let body = '';
+      req.on('data', (chunk) => {
+        body += chunk;
+      });
+      req.on('end', () => {
+        res.writeHead(req.url === '/api/missing' ? 404 : 200, {
+          'Content-Type': 'application/json',
+        });
+        res.end(JSON.stringify({ method: req.method, url: req.url, body }));
+      });
+    });
+    const localUrl = `http://127.0.0.1:${await listen(localServer)}`;
+
+    hqServer = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    const hqPort = await listen(hqServer);
+    const accepted = new Promise<HQTunnel>((resolve) => {
+      hqServer.on('connection', (ws) => resolve(new HQTunnel(ws, 'build-box')));
+    });
+
+    // Remote side: answer tunneled requests from the local server
+    remoteSocket = new WebSocket(`ws://127.0.0.1:${hqPort}`);
+    remoteSocket.on('message', async (data: Buffer, isBinary: boolean) => {
+      const message = isBinary ? null : parseTunnelMessage(data);
+      if (message?.type !== 'request') return;
+      remoteSocket.send(JSON.stringify(await handleTunnelRequest(message, localUrl, 'secret')));
+    });
+    await new Promise((resolve) => remoteSocket.once('open', resolve));
+    tunnel = await accepted;
+  });
+
+  afterEach(async () => {
+    remoteSocket.close();
+    await new Promise((resolve) => hqServer.close(resolve));
+    await new Promise((resolve) => localServer.close(resolve));
+  });
+
+  it('proxies requests to the remote with its bearer token', async () => {
+    const response = await tunnel.fetch('/api/sessions?x=1', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer hq-side' },
+      body: JSON.stringify({ name: 'test' }),
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      method: 'POST',
+      url: '/api/sessions?x=1',
+      body: '{"name":"test"}',
+    });
+    expect(seenAuth).toBe('Bearer secret');
+
+    const missing = await tunnel.fetch('/api/missing');
+    expect(missing.status).toBe(404);
+  });
+
+  it('only tunnels API paths', async () => {
+    const response = await tunnel.fetch('/index.html');
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Only API requests can be tunneled' });
+  });
+
+  it('rejects pending requests when the tunnel closes', async () => {
+    remoteSocket.removeAllListeners('message');
+    const pending = tunnel.fetch('/api/health');
+    remoteSocket.close();
+
+    await expect(pending).rejects.toThrow('Tunnel to remote build-box closed');
+    await expect(tunnel.fetch('/api/health')).rejects.toThrow('is not connected');
+  });
+});
@@ -0,0 +1,205 @@
+import { randomUUID } from 'crypto';
+import { WebSocket } from 'ws';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('hq-tunnel');
+
+/**
+ * HQ tunnel
+ *
+ * Remotes behind NAT can't be dialed by HQ, so they open a single outbound
+ * WebSocket to HQ instead and HQ sends everything over it:
+ * - Text messages are JSON: the remote's `register` message, then REST requests
+ *   from HQ and the remote's responses, matched by `id`.
+ * - Binary messages are WS v3 frames. The remote treats the tunnel as a v3
+ *   client connection, so HQ uses it exactly like the `/ws` socket it would
+ *   otherwise dial.
+ */
+export const HQ_TUNNEL_PATH = '/api/remotes/tunnel';
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+
+export interface TunnelRegisterMessage {
+  type: 'register';
+  id: string;
+  name: string;
+  url: string;
+  token: string;
+}
+
+export interface TunnelRequestMessage {
+  type: 'request';
+  id: string;
+  method: string;
+  path: string;
+  headers: Record<string, string>;
+  body?: string; // base64
+}
+
+export interface TunnelResponseMessage {
+  type: 'response';
+  id: string;
+  status: number;
+  headers: Record<string, string>;
+  body: string; // base64
+}
+
+export type TunnelMessage = TunnelRegisterMessage | TunnelRequestMessage | TunnelResponseMessage;
+
+export function parseTunnelMessage(data: Buffer | string): TunnelMessage | null {
+  try {
+    const message = JSON.parse(data.toString()) as TunnelMessage;
+    return typeof message?.type === 'string' ? message : null;
+  } catch {
+    return null;
+  }
+}
+
+type PendingRequest = {
+  resolve: (response: Response) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+};
+
+/**
+ * HQ side of a tunnel: sends REST requests to the remote and resolves them
+ * with `Response` objects, so callers can treat it like `fetch`.
+ */
+export class HQTunnel {
+  private pending = new Map<string, PendingRequest>();
+
+  constructor(
+    readonly ws: WebSocket,
+    private readonly remoteName: string
+  ) {
+    ws.on('message', (data: Buffer, isBinary: boolean) => {
+      if (isBinary) return; // v3 frames are handled by WsV3Hub
+      const message = parseTunnelMessage(data);
+      if (message?.type === 'response') this.handleResponse(message);
+    });
+
+    ws.on('close', () => {
+      for (const request of this.pending.values()) {
+        request.cleanup();
+        request.reject(new Error(`Tunnel to remote ${remoteName} closed`));
+      }
+      this.pending.clear();
+    });
+  }
+
+  isOpen(): boolean {
+    return this.ws.readyState === WebSocket.OPEN;
+  }
+
+  fetch(path: string, init: RequestInit = {}): Promise<Response> {
+    if (!this.isOpen()) {
+      return Promise.reject(new Error(`Tunnel to remote ${this.remoteName} is not connected`));
+    }
+    if (init.body !== undefined && init.body !== null && typeof init.body !== 'string') {
+      return Promise.reject(new Error('Tunnel requests only support string bodies'));
+    }
+
+    const id = randomUUID();
+    const message: TunnelRequestMessage = {
+      type: 'request',
+      id,
+      method: init.method ?? 'GET',
+      path,
+      headers: Object.fromEntries(new Headers(init.headers).entries()),
+      body: init.body ? Buffer.from(init.body).toString('base64') : undefined,
+    };
+
+    return new Promise<Response>((resolve, reject) => {
+      const signal = init.signal ?? AbortSignal.timeout(DEFAULT_REQUEST_TIMEOUT_MS);
+      const onAbort = () => {
+        this.pending.delete(id);
+        reject(signal.reason instanceof Error ? signal.reason : new Error('Request aborted'));
+      };
+      if (signal.aborted) return onAbort();
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      this.pending.set(id, {
+        resolve,
+        reject,
+        cleanup: () => signal.removeEventListener('abort', onAbort),
+      });
+      this.ws.send(JSON.stringify(message));
+    });
+  }
+
+  close() {
+    this.ws.close();
+  }
+
+  private handleResponse(message: TunnelResponseMessage) {
+    const request = this.pending.get(message.id);
+    if (!request) return;
+    this.pending.delete(message.id);
+    request.cleanup();
+
+    const body = Buffer.from(message.body, 'base64');
+    try {
+      request.resolve(
+        new Response(body.length > 0 ? body : null, {
+          status: message.status,
+          headers: message.headers,
+        })
+      );
+    } catch (error) {
+      logger.warn(`invalid tunnel response from ${this.remoteName}:`, error);
+      request.reject(new Error(`Invalid response from remote ${this.remoteName}`));
+    }
+  }
+}
+
+/**
+ * Remote side: answer a tunneled request by replaying it against the local
+ * server, authenticated with the remote's own bearer token.
+ */
+export async function handleTunnelRequest(
+  request: TunnelRequestMessage,
+  localUrl: string,
+  bearerToken: string
+): Promise<TunnelResponseMessage> {
+  if (!request.path.startsWith('/api/')) {
+    return createTunnelErrorResponse(request.id, 400, 'Only API requests can be tunneled');
+  }
+
+  try {
+    const response = await fetch(`${localUrl}${request.path}`, {
+      method: request.method,
+      headers: { ...request.headers, authorization: `Bearer ${bearerToken}` },
+      body: request.body ? Buffer.from(request.body, 'base64') : undefined,
+      signal: AbortSignal.timeout(DEFAULT_REQUEST_TIMEOUT_MS),
+    });
+    const body = Buffer.from(await response.arrayBuffer());
+    const headers = Object.fromEntries(response.headers.entries());
+    // fetch already decoded the body
+    delete headers['content-encoding'];
+    delete headers['content-length'];
+    return {
+      type: 'response',
+      id: request.id,
+      status: response.status,
+      headers,
+      body: body.toString('base64'),
+    };
+  } catch (error) {
+    logger.error(`tunneled ${request.method} ${request.path} failed:`, error);
+    return createTunnelErrorResponse(request.id, 502, 'Remote request failed');
+  }
+}
+
+function createTunnelErrorResponse(
+  id: string,
+  status: number,
+  error: string
+): TunnelResponseMessage {
+  return {
+    type: 'response',
+    id,
+    status,
+    headers: { 'content-type': 'application/json' },
+    body: Buffer.from(JSON.stringify({ error })).toString('base64'),
+  };
+}
@@ -3,6 +3,7 @@ import type {
   MultiplexerStatus,
   MultiplexerType,
   TmuxPane,
+  TmuxSshTarget,
   TmuxWindow,
 } from '../../shared/multiplexer-types.js';
 import type { SessionCreateOptions } from '../../shared/types.js';
@@ -145,8 +146,15 @@ export class MultiplexerManager {
   async attachToSession(
     type: MultiplexerType,
     sessionName: string,
-    options?: Partial<SessionCreateOptions> & { windowIndex?: number; paneIndex?: number }
+    options?: Partial<SessionCreateOptions> & {
+      windowIndex?: number;
+      paneIndex?: number;
+      ssh?: TmuxSshTarget;
+    }
   ): Promise<string> {
+    if (options?.ssh && type !== 'tmux') {
+      throw new Error(`Attaching over SSH is not supported for ${type}`);
+    }
     if (type === 'tmux') {
       return this.tmuxManager.attachToTmux(
         sessionName,
@@ -0,0 +1,102 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RemoteRegistry } from './remote-registry.js';
+
+vi.mock('../utils/logger.js', () => ({
+  createLogger: () => ({
+    log: vi.fn(),
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+vi.mock('../server.js', () => ({
+  isShuttingDown: () => false,
+}));
+
+const remote = { id: 'r1', name: 'build-box', url: 'http://build-box:4020', token: 'secret' };
+
+describe('RemoteRegistry', () => {
+  let configDir: string;
+  let healthy: boolean;
+  let registries: RemoteRegistry[];
+
+  function createRegistry() {
+    const registry = new RemoteRegistry(configDir);
+    registries.push(registry);
+    return registry;
+  }
+
+  beforeEach(() => {
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'remote-registry-'));
+    healthy = true;
+    registries = [];
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response(null, { status: healthy ? 200 : 503 }))
+    );
+  });
+
+  afterEach(() => {
+    for (const registry of registries) registry.destroy();
+    vi.unstubAllGlobals();
+    fs.rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it('keeps offline remotes and their sessions across restarts', async () => {
+    const registry = createRegistry();
+    registry.register(remote);
+    registry.updateRemoteSessions('r1', ['s1', 's2']);
+    registry.destroy();
+
+    healthy = false;
+    const restarted = createRegistry();
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(2));
+
+    expect(restarted.getRemote('r1')).toBeUndefined();
+    expect(restarted.getRemoteBySessionId('s1')?.status).toBe('offline');
+    expect(restarted.getAllRemotes()[0].history.map((change) => change.reason)).toEqual([
+      'registered',
+      'hq restarted',
+    ]);
+    expect(fs.statSync(path.join(configDir, 'hq-remotes.json')).mode & 0o777).toBe(0o600);
+
+    // Re-registering with the same ID brings the sessions back online
+    healthy = true;
+    const registered = restarted.register({ ...remote, url: 'http://build-box:4021' });
+    expect(registered.sessionIds).toEqual(new Set(['s1', 's2']));
+    expect(restarted.getRemoteBySessionId('s2')).toBe(registered);
+    expect(registered.history.map((change) => change.status)).toEqual([
+      'online',
+      'offline',
+      'online',
+    ]);
+  });
+
+  it('only lets a new remote take the name of an offline one', () => {
+    const registry = createRegistry();
+    registry.register(remote);
+    expect(() => registry.register({ ...remote, id: 'r2' })).toThrow('already registered');
+
+    registry.unregister('r1', 'health check failed');
+    expect(registry.getRemotes()).toEqual([]);
+    expect(registry.getAllRemotes()[0].status).toBe('offline');
+
+    registry.register({ ...remote, id: 'r2' });
+    expect(registry.getAllRemotes().map((r) => r.id)).toEqual(['r2']);
+  });
+
+  it('forgets remotes for good', () => {
+    const registry = createRegistry();
+    registry.register(remote);
+    registry.addSessionToRemote('r1', 's1');
+
+    expect(registry.forget('r1')).toBe(true);
+    expect(registry.getRemoteBySessionId('s1')).toBeUndefined();
+    expect(createRegistry().getAllRemotes()).toEqual([]);
+  });
+});
@@ -1,54 +1,130 @@
 import chalk from 'chalk';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { WebSocket } from 'ws';
 import { isShuttingDown } from '../server.js';
 import { createLogger } from '../utils/logger.js';
+import { HQTunnel, parseTunnelMessage } from './hq-tunnel.js';
 
 const logger = createLogger('remote-registry');
 
+const TUNNEL_REGISTER_TIMEOUT_MS = 10000;
+const MAX_STATUS_HISTORY = 50;
+
+export type RemoteStatus = 'online' | 'offline';
+
+export interface RemoteStatusChange {
+  status: RemoteStatus;
+  at: string;
+  reason: string;
+}
+
 export interface RemoteServer {
   id: string;
   name: string;
   url: string;
   token: string;
+  // 'tunnel' remotes are reached over the WebSocket they opened to HQ
+  connection: 'direct' | 'tunnel';
   registeredAt: Date;
   lastHeartbeat: Date;
   sessionIds: Set<string>; // Track which sessions belong to this remote
+  status: RemoteStatus;
+  history: RemoteStatusChange[]; // Most recent last
 }
 
+type PersistedRemote = Omit<RemoteServer, 'registeredAt' | 'lastHeartbeat' | 'sessionIds'> & {
+  registeredAt: string;
+  lastHeartbeat: string;
+  sessionIds: string[];
+};
+
+/**
+ * Registry of the remotes known to HQ.
+ *
+ * Registrations survive restarts in `hq-remotes.json` in the config directory. Remotes
+ * that stop answering go offline instead of being dropped, so their session
+ * routing comes back when they return: a remote that re-registers with the
+ * same ID (remotes derive it from a persistent key) picks up its record, and
+ * offline direct remotes are re-checked and brought back online by the health
+ * checker. Only `forget()` removes a remote.
+ */
 export class RemoteRegistry {
   private remotes: Map<string, RemoteServer> = new Map();
   private remotesByName: Map<string, RemoteServer> = new Map();
   private sessionToRemote: Map<string, string> = new Map(); // sessionId -> remoteId
+  private tunnels: Map<string, HQTunnel> = new Map(); // remoteId -> tunnel
   private healthCheckInterval: NodeJS.Timeout | null = null;
   private readonly HEALTH_CHECK_INTERVAL = 15000; // Check every 15 seconds
   private readonly HEALTH_CHECK_TIMEOUT = 5000; // 5 second timeout per check
+  private readonly filePath: string;
 
-  constructor() {
+  constructor(configDir = path.join(os.homedir(), '.vibetunnel')) {
+    this.filePath = path.join(configDir, 'hq-remotes.json');
+    this.load();
     this.startHealthChecker();
     logger.debug('remote registry initialized with health check interval', {
       interval: this.HEALTH_CHECK_INTERVAL,
       timeout: this.HEALTH_CHECK_TIMEOUT,
     });
+
+    // Direct remotes may still be up after an HQ restart
+    for (const remote of this.remotes.values()) {
+      if (remote.connection === 'direct') this.checkRemoteHealth(remote);
+    }
   }
 
   register(
-    remote: Omit<RemoteServer, 'registeredAt' | 'lastHeartbeat' | 'sessionIds'>
+    remote: Pick<RemoteServer, 'id' | 'name' | 'url' | 'token'>,
+    tunnel?: HQTunnel
   ): RemoteServer {
-    // Check if a remote with the same name already exists
-    if (this.remotesByName.has(remote.name)) {
-      throw new Error(`Remote with name '${remote.name}' is already registered`);
+    // Names are unique; an offline remote gives its name up to a new one
+    const sameName = this.remotesByName.get(remote.name);
+    if (sameName && sameName.id !== remote.id) {
+      if (sameName.status === 'online') {
+        throw new Error(`Remote with name '${remote.name}' is already registered`);
+      }
+      logger.log(`replacing offline remote ${sameName.name} (${sameName.id}) with ${remote.id}`);
+      this.removeRemote(sameName);
     }
 
     const now = new Date();
+    const known = this.remotes.get(remote.id);
+    if (known) {
+      this.remotesByName.delete(known.name);
+      const previousTunnel = this.tunnels.get(remote.id);
+      if (previousTunnel && previousTunnel !== tunnel) {
+        // A reconnecting remote replaces its previous (possibly half-open) tunnel
+        this.tunnels.delete(remote.id);
+        previousTunnel.close();
+      }
+    }
+
+    // Known remotes keep their sessions until the next refresh, so routing works right away
     const registeredRemote: RemoteServer = {
       ...remote,
-      registeredAt: now,
+      connection: tunnel ? 'tunnel' : 'direct',
+      registeredAt: known?.registeredAt ?? now,
       lastHeartbeat: now,
-      sessionIds: new Set<string>(),
+      sessionIds: known?.sessionIds ?? new Set<string>(),
+      status: known?.status ?? 'offline',
+      history: known?.history ?? [],
     };
 
     this.remotes.set(remote.id, registeredRemote);
     this.remotesByName.set(remote.name, registeredRemote);
-    logger.log(chalk.green(`remote registered: ${remote.name} (${remote.id}) from ${remote.url}`));
+    for (const sessionId of registeredRemote.sessionIds) {
+      this.sessionToRemote.set(sessionId, remote.id);
+    }
+    if (tunnel) this.tunnels.set(remote.id, tunnel);
+    this.setStatus(registeredRemote, 'online', known ? 're-registered' : 'registered');
+    this.save();
+    logger.log(
+      chalk.green(
+        `remote ${known ? 're-registered' : 'registered'}: ${remote.name} (${remote.id}) ${tunnel ? 'via tunnel' : `from ${remote.url}`}`
+      )
+    );
 
     // Immediately check health of new remote
     this.checkRemoteHealth(registeredRemote);
@@ -56,38 +132,156 @@ export class RemoteRegistry {
     return registeredRemote;
   }
 
-  unregister(remoteId: string): boolean {
+  /**
+   * Mark a remote offline. Its record and session routing are kept so it can
+   * come back; requests for its sessions fail until it does.
+   */
+  unregister(remoteId: string, reason = 'unregistered'): boolean {
     const remote = this.remotes.get(remoteId);
-    if (remote) {
-      logger.log(chalk.yellow(`remote unregistered: ${remote.name} (${remoteId})`));
+    if (!remote) return false;
+
+    logger.log(chalk.yellow(`remote offline: ${remote.name} (${remoteId}): ${reason}`));
+    const tunnel = this.tunnels.get(remoteId);
+    if (tunnel) {
+      this.tunnels.delete(remoteId);
+      tunnel.close();
+    }
+    this.setStatus(remote, 'offline', reason);
+    this.save();
+    return true;
+  }
 
-      // Clean up session mappings
-      for (const sessionId of remote.sessionIds) {
+  /**
+   * Remove a remote and its history for good
+   */
+  forget(remoteId: string): boolean {
+    const remote = this.remotes.get(remoteId);
+    if (!remote) return false;
+
+    logger.log(chalk.yellow(`remote forgotten: ${remote.name} (${remoteId})`));
+    this.removeRemote(remote);
+    this.save();
+    return true;
+  }
+
+  private removeRemote(remote: RemoteServer) {
+    // Clean up session mappings
+    for (const sessionId of remote.sessionIds) {
+      if (this.sessionToRemote.get(sessionId) === remote.id) {
         this.sessionToRemote.delete(sessionId);
       }
+    }
+
+    const tunnel = this.tunnels.get(remote.id);
+    if (tunnel) {
+      this.tunnels.delete(remote.id);
+      tunnel.close();
+    }
+    this.remotesByName.delete(remote.name);
+    this.remotes.delete(remote.id);
+  }
+
+  private setStatus(remote: RemoteServer, status: RemoteStatus, reason: string) {
+    if (remote.status === status && remote.history.length > 0) return;
+    remote.status = status;
+    remote.history.push({ status, at: new Date().toISOString(), reason });
+    if (remote.history.length > MAX_STATUS_HISTORY) {
+      remote.history.splice(0, remote.history.length - MAX_STATUS_HISTORY);
+    }
+  }
+
+  /**
+   * Accept a tunnel opened by a remote behind NAT. The remote registers with
+   * its first message; the registration ends when the tunnel closes.
+   */
+  acceptTunnel(ws: WebSocket): void {
+    const timeout = setTimeout(() => {
+      logger.warn('closing tunnel: remote did not register in time');
+      ws.close();
+    }, TUNNEL_REGISTER_TIMEOUT_MS);
+
+    ws.once('message', (data: Buffer, isBinary: boolean) => {
+      clearTimeout(timeout);
+      const message = isBinary ? null : parseTunnelMessage(data);
+      if (message?.type !== 'register' || !message.id || !message.name || !message.token) {
+        logger.warn('closing tunnel: invalid register message');
+        ws.close();
+        return;
+      }
 
-      this.remotesByName.delete(remote.name);
-      return this.remotes.delete(remoteId);
+      const tunnel = new HQTunnel(ws, message.name);
+      try {
+        this.register(
+          { id: message.id, name: message.name, url: message.url, token: message.token },
+          tunnel
+        );
+      } catch (error) {
+        logger.warn(`closing tunnel from ${message.name}:`, error);
+        ws.close();
+        return;
+      }
+
+      ws.on('close', () => {
+        if (this.tunnels.get(message.id) === tunnel) {
+          this.unregister(message.id, 'tunnel closed');
+        }
+      });
+    });
+  }
+
+  getTunnel(remoteId: string): HQTunnel | undefined {
+    return this.tunnels.get(remoteId);
+  }
+
+  /**
+   * Send an HTTP request to a remote, over its tunnel if it has one.
+   * `path` starts with `/api/`.
+   */
+  fetchRemote(remote: RemoteServer, path: string, init?: RequestInit): Promise<Response> {
+    if (remote.connection === 'tunnel') {
+      const tunnel = this.tunnels.get(remote.id);
+      if (!tunnel) {
+        return Promise.reject(new Error(`Tunnel to remote ${remote.name} is not connected`));
+      }
+      return tunnel.fetch(path, init);
     }
-    return false;
+    return fetch(`${remote.url}${path}`, init);
   }
 
+  /**
+   * Online remote by ID
+   */
   getRemote(remoteId: string): RemoteServer | undefined {
     const remote = this.remotes.get(remoteId);
-    if (!remote) {
-      logger.debug(`remote not found: ${remoteId}`);
+    if (remote?.status !== 'online') {
+      logger.debug(`remote not found or offline: ${remoteId}`);
+      return undefined;
     }
     return remote;
   }
 
   getRemoteByUrl(url: string): RemoteServer | undefined {
-    return Array.from(this.remotes.values()).find((r) => r.url === url);
+    return this.getRemotes().find((r) => r.url === url);
   }
 
+  /**
+   * Online remotes
+   */
   getRemotes(): RemoteServer[] {
+    return Array.from(this.remotes.values()).filter((r) => r.status === 'online');
+  }
+
+  /**
+   * All known remotes, including offline ones
+   */
+  getAllRemotes(): RemoteServer[] {
     return Array.from(this.remotes.values());
   }
 
+  /**
+   * Owner of a session, even if it is offline (requests to it then fail
+   * instead of falling through to a local lookup)
+   */
   getRemoteBySessionId(sessionId: string): RemoteServer | undefined {
     const remoteId = this.sessionToRemote.get(sessionId);
     return remoteId ? this.remotes.get(remoteId) : undefined;
@@ -101,6 +295,8 @@ export class RemoteRegistry {
     }
 
     const oldCount = remote.sessionIds.size;
+    const changed =
+      sessionIds.length !== oldCount || sessionIds.some((id) => !remote.sessionIds.has(id));
 
     // Remove old session mappings
     for (const oldSessionId of remote.sessionIds) {
@@ -117,6 +313,8 @@ export class RemoteRegistry {
       oldCount,
       newCount: sessionIds.length,
     });
+    // Session lists are polled often; only write when they change
+    if (changed) this.save();
   }
 
   addSessionToRemote(remoteId: string, sessionId: string): void {
@@ -129,6 +327,7 @@ export class RemoteRegistry {
     remote.sessionIds.add(sessionId);
     this.sessionToRemote.set(sessionId, remoteId);
     logger.debug(`session ${sessionId} added to remote ${remote.name}`);
+    this.save();
   }
 
   removeSessionFromRemote(sessionId: string): void {
@@ -145,6 +344,7 @@ export class RemoteRegistry {
     }
 
     this.sessionToRemote.delete(sessionId);
+    this.save();
   }
 
   private async checkRemoteHealth(remote: RemoteServer): Promise<void> {
@@ -163,7 +363,7 @@ export class RemoteRegistry {
       };
 
       // Only check health endpoint - all remotes MUST have it
-      const response = await fetch(`${remote.url}/api/health`, {
+      const response = await this.fetchRemote(remote, '/api/health', {
         headers,
         signal: controller.signal,
       });
@@ -173,15 +373,19 @@ export class RemoteRegistry {
       if (response.ok) {
         remote.lastHeartbeat = new Date();
         logger.debug(`health check passed for ${remote.name}`);
+        if (remote.status === 'offline' && this.remotes.get(remote.id) === remote) {
+          logger.log(chalk.green(`remote back online: ${remote.name} (${remote.id})`));
+          this.setStatus(remote, 'online', 'health check passed');
+          this.save();
+        }
       } else {
         throw new Error(`HTTP ${response.status}`);
       }
     } catch (error) {
       // During shutdown, don't log errors or unregister remotes
-      if (!isShuttingDown()) {
+      if (!isShuttingDown() && remote.status === 'online') {
         logger.warn(`remote failed health check: ${remote.name} (${remote.id})`, error);
-        // Remove the remote if it fails health check
-        this.unregister(remote.id);
+        this.unregister(remote.id, 'health check failed');
       }
     }
   }
@@ -194,10 +398,10 @@ export class RemoteRegistry {
         return;
       }
 
-      // Check all remotes in parallel
-      const healthChecks = Array.from(this.remotes.values()).map((remote) =>
-        this.checkRemoteHealth(remote)
-      );
+      // Check all remotes in parallel; offline tunnel remotes come back by reconnecting
+      const healthChecks = Array.from(this.remotes.values())
+        .filter((remote) => remote.status === 'online' || remote.connection === 'direct')
+        .map((remote) => this.checkRemoteHealth(remote));
 
       Promise.all(healthChecks).catch((err) => {
         logger.error('error in health checks:', err);
@@ -205,6 +409,55 @@ export class RemoteRegistry {
     }, this.HEALTH_CHECK_INTERVAL);
   }
 
+  private load() {
+    if (!fs.existsSync(this.filePath)) return;
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as {
+        remotes?: PersistedRemote[];
+      };
+      for (const persisted of data.remotes ?? []) {
+        const remote: RemoteServer = {
+          ...persisted,
+          registeredAt: new Date(persisted.registeredAt),
+          lastHeartbeat: new Date(persisted.lastHeartbeat),
+          sessionIds: new Set(persisted.sessionIds),
+          history: persisted.history ?? [],
+        };
+        // Nothing is connected yet; remotes come back through re-registration or health checks
+        this.setStatus(remote, 'offline', 'hq restarted');
+        this.remotes.set(remote.id, remote);
+        this.remotesByName.set(remote.name, remote);
+        for (const sessionId of remote.sessionIds) {
+          this.sessionToRemote.set(sessionId, remote.id);
+        }
+      }
+      logger.log(`loaded ${this.remotes.size} known remotes`);
+    } catch (error) {
+      logger.error(`failed to load remotes from ${this.filePath}:`, error);
+    }
+  }
+
+  private save() {
+    const remotes: PersistedRemote[] = Array.from(this.remotes.values()).map((remote) => ({
+      ...remote,
+      registeredAt: remote.registeredAt.toISOString(),
+      lastHeartbeat: remote.lastHeartbeat.toISOString(),
+      sessionIds: Array.from(remote.sessionIds),
+    }));
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      // Holds the bearer tokens HQ uses to reach the remotes
+      fs.writeFileSync(this.filePath, JSON.stringify({ version: 1, remotes }, null, 2), {
+        encoding: 'utf8',
+        mode: 0o600,
+      });
+    } catch (error) {
+      logger.error(`failed to save remotes to ${this.filePath}:`, error);
+    }
+  }
+
   destroy() {
     logger.log(chalk.yellow('destroying remote registry'));
     if (this.healthCheckInterval) {
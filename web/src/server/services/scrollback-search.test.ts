@@ -0,0 +1,107 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Session } from '../../shared/types.js';
+import type { SessionManager } from '../pty/session-manager.js';
+import { ScrollbackSearchService } from './scrollback-search.js';
+
+vi.mock('../utils/logger.js', () => ({
+  createLogger: () => ({
+    log: vi.fn(),
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+describe('ScrollbackSearchService', () => {
+  let controlDir: string;
+  let sessions: Session[];
+  let service: ScrollbackSearchService;
+
+  const writeCast = (sessionId: string, events: unknown[]) => {
+    const dir = path.join(controlDir, sessionId);
+    fs.mkdirSync(dir, { recursive: true });
+    const lines = [JSON.stringify({ version: 2, width: 80, height: 24 })];
+    for (const event of events) lines.push(JSON.stringify(event));
+    fs.writeFileSync(path.join(dir, 'stdout'), `${lines.join('\n')}\n`);
+    sessions.push({
+      id: sessionId,
+      name: `name-${sessionId}`,
+      lastModified: new Date(Date.now() + sessions.length).toISOString(),
+    } as Session);
+  };
+
+  beforeEach(() => {
+    controlDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scrollback-search-'));
+    sessions = [];
+    const sessionManager = {
+      listSessions: vi.fn(async () => [...sessions]),
+      getSessionPaths: vi.fn((sessionId: string) => ({
+        stdoutPath: path.join(controlDir, sessionId, 'stdout'),
+      })),
+    } as unknown as SessionManager;
+    service = new ScrollbackSearchService(sessionManager);
+  });
+
+  afterEach(() => {
+    fs.rmSync(controlDir, { recursive: true, force: true });
+  });
+
+  it('finds ANSI-colored matches split across writes, with context', async () => {
+    writeCast('s1', [
+      [0.1, 'o', '$ npm test\r\n'],
+      [0.5, 'i', 'TypeError typed by the user'],
+      [1.2, 'o', 'running\r\n\x1b[31mType'],
+      [1.3, 'o', 'Error\x1b[0m: boom\r\n    at main.js:1\r\n'],
+    ]);
+
+    const result = await service.search('typeerror', { contextLines: 1 });
+
+    expect(result.truncated).toBe(false);
+    expect(result.hits).toEqual([
+      {
+        sessionId: 's1',
+        sessionName: 'name-s1',
+        timestamp: 1.2,
+        line: 'TypeError: boom',
+        before: ['running'],
+        after: ['    at main.js:1'],
+      },
+    ]);
+  });
+
+  it('searches newest sessions first and reports truncation at the limit', async () => {
+    writeCast('old', [[1, 'o', 'needle one\r\nneedle two\r\n']]);
+    writeCast('new', [[2, 'o', 'needle three\r\n']]);
+
+    const result = await service.search('needle', { limit: 2, contextLines: 0 });
+
+    expect(result.hits.map((hit) => hit.line)).toEqual(['needle three', 'needle one']);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('skips sessions the caller may not search before applying the limit', async () => {
+    writeCast('mine', [[1, 'o', 'needle mine\r\n']]);
+    writeCast('theirs', [[2, 'o', 'needle theirs\r\n']]);
+
+    const result = await service.search('needle', {
+      limit: 1,
+      contextLines: 0,
+      include: (session) => session.id === 'mine',
+    });
+
+    expect(result.hits.map((hit) => hit.line)).toEqual(['needle mine']);
+    expect(result.truncated).toBe(false);
+  });
+
+  it('keeps only the final frame of carriage-return redraws', async () => {
+    writeCast('s1', [[1, 'o', 'Downloading 10%\rDownloading 100%\r\n']]);
+
+    const result = await service.search('downloading', { contextLines: 0 });
+
+    expect(result.hits.map((hit) => hit.line)).toEqual(['Downloading 100%']);
+  });
+});
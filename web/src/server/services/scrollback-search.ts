@@ -0,0 +1,159 @@
+import * as fs from 'fs';
+import * as readline from 'readline';
+import { stripAnsiCodes } from '../../shared/terminal-text-formatter.js';
+import type { ScrollbackSearchHit, ScrollbackSearchResult, Session } from '../../shared/types.js';
+import type { SessionManager } from '../pty/session-manager.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('scrollback-search');
+
+const DEFAULT_LIMIT = 50;
+const DEFAULT_CONTEXT_LINES = 2;
+const MAX_LINE_LENGTH = 500;
+
+export interface ScrollbackSearchOptions {
+  limit?: number;
+  contextLines?: number;
+  sessionId?: string;
+  // Sessions the caller may search; the rest are skipped before scanning
+  include?: (session: Session) => boolean;
+}
+
+type PendingLine = { text: string; timestamp: number };
+
+/**
+ * Case-insensitive full-text search over the asciinema `stdout` files of all
+ * sessions in the control directory.
+ *
+ * Output events are ANSI-stripped and re-assembled into lines, so a match can
+ * span several writes. Input events are ignored. Files are streamed line by
+ * line and scanning stops as soon as the hit limit is reached.
+ */
+export class ScrollbackSearchService {
+  constructor(private sessionManager: SessionManager) {}
+
+  async search(
+    query: string,
+    options: ScrollbackSearchOptions = {}
+  ): Promise<ScrollbackSearchResult> {
+    const limit = options.limit ?? DEFAULT_LIMIT;
+    const contextLines = options.contextLines ?? DEFAULT_CONTEXT_LINES;
+    const needle = query.toLowerCase();
+
+    let sessions = await this.sessionManager.listSessions();
+    if (options.sessionId) {
+      sessions = sessions.filter((session) => session.id === options.sessionId);
+    }
+    if (options.include) {
+      sessions = sessions.filter(options.include);
+    }
+    // Most recently active sessions first: those are the likeliest targets
+    sessions.sort((a, b) => Date.parse(b.lastModified) - Date.parse(a.lastModified));
+
+    const hits: ScrollbackSearchHit[] = [];
+    let truncated = false;
+
+    for (const session of sessions) {
+      const remaining = limit - hits.length;
+      if (remaining <= 0) {
+        truncated = true;
+        break;
+      }
+
+      try {
+        const result = await this.searchSession(session, needle, contextLines, remaining);
+        hits.push(...result.hits);
+        truncated ||= result.truncated;
+      } catch (error) {
+        logger.warn(`failed to search scrollback of session ${session.id}:`, error);
+      }
+    }
+
+    logger.debug(`search for "${query}" found ${hits.length} hits in ${sessions.length} sessions`);
+    return { query, hits, truncated };
+  }
+
+  private async searchSession(
+    session: Session,
+    needle: string,
+    contextLines: number,
+    limit: number
+  ): Promise<{ hits: ScrollbackSearchHit[]; truncated: boolean }> {
+    const paths = this.sessionManager.getSessionPaths(session.id);
+    const hits: ScrollbackSearchHit[] = [];
+    if (!paths || !fs.existsSync(paths.stdoutPath)) return { hits, truncated: false };
+
+    const recent: string[] = [];
+    let awaitingContext: ScrollbackSearchHit[] = [];
+    let truncated = false;
+    let pending: PendingLine | null = null;
+
+    const finalizeLine = ({ text, timestamp }: PendingLine) => {
+      // A carriage return redraws the line: keep the last non-empty frame
+      const segments = text.split('\r').filter((segment) => segment.length > 0);
+      const line = (segments[segments.length - 1] ?? '').trimEnd().slice(0, MAX_LINE_LENGTH);
+
+      for (const hit of awaitingContext) hit.after.push(line);
+      awaitingContext = awaitingContext.filter((hit) => hit.after.length < contextLines);
+
+      if (line.toLowerCase().includes(needle)) {
+        if (hits.length < limit) {
+          const hit: ScrollbackSearchHit = {
+            sessionId: session.id,
+            sessionName: session.name,
+            timestamp,
+            line,
+            before: [...recent],
+            after: [],
+          };
+          hits.push(hit);
+          if (contextLines > 0) awaitingContext.push(hit);
+        } else {
+          truncated = true;
+        }
+      }
+
+      if (contextLines > 0) {
+        recent.push(line);
+        if (recent.length > contextLines) recent.shift();
+      }
+    };
+
+    const stream = fs.createReadStream(paths.stdoutPath, { encoding: 'utf8' });
+    const rl = readline.createInterface({ input: stream, crlfDelay: Number.POSITIVE_INFINITY });
+
+    try {
+      for await (const raw of rl) {
+        if (truncated && awaitingContext.length === 0) break;
+        if (!raw.startsWith('[')) continue; // header or blank line
+
+        let event: unknown;
+        try {
+          event = JSON.parse(raw);
+        } catch {
+          continue;
+        }
+        if (!Array.isArray(event) || event[1] !== 'o' || typeof event[2] !== 'string') continue;
+
+        const timestamp = typeof event[0] === 'number' ? event[0] : 0;
+        const parts = stripAnsiCodes(event[2]).split('\n');
+        for (let i = 0; i < parts.length; i++) {
+          if (i > 0 && pending) {
+            finalizeLine(pending);
+            pending = null;
+          }
+          if (!pending) pending = { text: '', timestamp };
+          else if (!pending.text) pending.timestamp = timestamp;
+          if (pending.text.length < MAX_LINE_LENGTH * 4) pending.text += parts[i];
+        }
+      }
+
+      if (pending?.text) finalizeLine(pending);
+    } finally {
+      rl.close();
+      stream.destroy();
+    }
+
+    return { hits, truncated };
+  }
+}
@@ -0,0 +1,109 @@
+import { EventEmitter } from 'events';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { type ServerEvent, ServerEventType } from '../../shared/types.js';
+import type { PtyManager } from '../pty/pty-manager.js';
+import { SessionMonitor } from './session-monitor.js';
+
+vi.mock('../utils/logger.js', () => ({
+  createLogger: () => ({
+    log: vi.fn(),
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+describe('SessionMonitor watches', () => {
+  let ptyManager: EventEmitter & { getSession: ReturnType<typeof vi.fn> };
+  let monitor: SessionMonitor;
+  let events: ServerEvent[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    ptyManager = Object.assign(new EventEmitter(), {
+      getSession: vi.fn(() => ({ command: ['zsh'], workingDir: '/tmp', pid: 1 })),
+    });
+    monitor = new SessionMonitor(ptyManager as unknown as PtyManager);
+    events = [];
+    monitor.on('notification', (event: ServerEvent) => {
+      if (event.type !== ServerEventType.SessionStart) events.push(event);
+    });
+    ptyManager.emit('sessionStarted', 's1', 'build');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('matches ANSI-stripped output across chunks once per line', () => {
+    const watch = monitor.addWatch('s1', { type: 'output', pattern: 'error:', label: 'tsc' });
+
+    monitor.trackPtyOutput('s1', 'compiling\r\n\x1b[31mERR');
+    monitor.trackPtyOutput('s1', 'OR: missing\x1b[0m ; ');
+    monitor.trackPtyOutput('s1', 'still the same line\r\n');
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      type: ServerEventType.OutputMatched,
+      sessionId: 's1',
+      sessionName: 'build',
+      watchId: watch?.id,
+      message: 'tsc: ERROR: missing ;',
+    });
+    expect(monitor.listWatches('s1')[0].triggerCount).toBe(1);
+
+    // Further matches within the cooldown are dropped
+    monitor.trackPtyOutput('s1', 'error: again\n');
+    expect(events).toHaveLength(1);
+    vi.advanceTimersByTime(10000);
+    monitor.trackPtyOutput('s1', 'error: later\n');
+    expect(events).toHaveLength(2);
+  });
+
+  it('removes output watches whose pattern backtracks for too long', () => {
+    monitor.addWatch('s1', { type: 'output', pattern: '(a+)+$' });
+    const healthy = monitor.addWatch('s1', { type: 'output', pattern: 'done' });
+
+    const start = Date.now();
+    monitor.trackPtyOutput('s1', `${'a'.repeat(40)}!\n${'a'.repeat(40)}!\ndone\n`);
+
+    expect(Date.now() - start).toBeLessThan(1000);
+    expect(monitor.listWatches('s1').map((watch) => watch.id)).toEqual([healthy?.id]);
+    expect(events).toHaveLength(1);
+  });
+
+  it('fires idle watches once per burst of output', () => {
+    monitor.addWatch('s1', { type: 'idle', idleSeconds: 5 });
+
+    // Not armed before any output
+    vi.advanceTimersByTime(10000);
+    expect(events).toHaveLength(0);
+
+    monitor.trackPtyOutput('s1', 'working...');
+    vi.advanceTimersByTime(4000);
+    expect(events).toHaveLength(0);
+    vi.advanceTimersByTime(2000);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: ServerEventType.SessionIdle, message: 'Idle for 5s' });
+
+    vi.advanceTimersByTime(10000);
+    expect(events).toHaveLength(1);
+
+    monitor.trackPtyOutput('s1', 'more');
+    vi.advanceTimersByTime(6000);
+    expect(events).toHaveLength(2);
+  });
+
+  it('removes one-shot watches after they fire and all watches on exit', () => {
+    monitor.addWatch('s1', { type: 'output', pattern: 'done', once: true });
+    const idle = monitor.addWatch('s1', { type: 'idle', idleSeconds: 5 });
+
+    monitor.trackPtyOutput('s1', 'Done\n');
+    expect(monitor.listWatches('s1')).toEqual([idle]);
+
+    ptyManager.emit('sessionExited', 's1', 'build', 0);
+    expect(monitor.listWatches('s1')).toEqual([]);
+    expect(monitor.addWatch('s1', { type: 'idle', idleSeconds: 5 })).toBeNull();
+  });
+});
@@ -3,11 +3,16 @@
  *
  * Replaces the Mac app's polling-based SessionMonitor with real-time
  * event detection directly from PTY streams. Tracks session states and
- * command execution.
+ * command execution, and evaluates per-session watch rules (idle and output
+ * pattern) registered through the API.
  */
 
+import { randomUUID } from 'crypto';
 import { EventEmitter } from 'events';
-import { ServerEventType } from '../../shared/types.js';
+import * as vm from 'vm';
+import { stripAnsiCodes } from '../../shared/terminal-text-formatter.js';
+import { ServerEventType, type SessionWatch } from '../../shared/types.js';
+import { computeActivityStatus } from '../pty/activity-status.js';
 import type { PtyManager } from '../pty/pty-manager.js';
 import { createLogger } from '../utils/logger.js';
 import type { SessionMonitorEvent } from '../websocket/control-protocol.js';
@@ -17,6 +22,39 @@ const logger = createLogger('session-monitor');
 // Command tracking thresholds
 const MIN_COMMAND_DURATION_MS = 3000; // Minimum duration for command completion notifications
 
+// Watch evaluation
+const IDLE_CHECK_INTERVAL_MS = 1000;
+const OUTPUT_WATCH_COOLDOWN_MS = 10000; // A chatty match can't notify more often than this
+const MAX_PENDING_LINE_LENGTH = 4096; // Output without newlines is matched in chunks of this size
+const MAX_WATCH_MESSAGE_LENGTH = 200;
+const WATCH_MATCH_BUDGET_MS = 20; // Patterns slower than this on one line are removed
+
+// User patterns run with a time limit: a backtracking pattern like `(a+)+$`
+// or even `\s*\s*x` would otherwise block the event loop for every session
+const matchContext = vm.createContext({ regex: /$^/, line: '' });
+const matchScript = new vm.Script('regex.test(line)');
+
+function testWithBudget(regex: RegExp, line: string): boolean {
+  matchContext.regex = regex;
+  matchContext.line = line;
+  return matchScript.runInContext(matchContext, { timeout: WATCH_MATCH_BUDGET_MS }) === true;
+}
+
+export type SessionWatchInput = Pick<
+  SessionWatch,
+  'type' | 'idleSeconds' | 'pattern' | 'caseSensitive' | 'label' | 'once'
+>;
+
+interface WatchState {
+  watch: SessionWatch;
+  regex?: RegExp;
+  // Idle watches fire once per burst of output
+  armed: boolean;
+  // Output watches fire once per line, even while a partial line keeps growing
+  matchedPendingLine: boolean;
+  lastTriggeredAt: number;
+}
+
 export interface SessionState {
   id: string;
   name: string;
@@ -30,6 +68,10 @@ export interface SessionState {
   commandStartTime?: Date;
   lastCommand?: string;
   lastExitCode?: number;
+
+  // Watch tracking
+  lastOutputAt?: number;
+  pendingLine?: string;
 }
 
 export interface CommandFinishedEvent {
@@ -42,6 +84,8 @@ export interface CommandFinishedEvent {
 
 export class SessionMonitor extends EventEmitter {
   private sessions = new Map<string, SessionState>();
+  private watches = new Map<string, WatchState[]>();
+  private idleCheckTimer: NodeJS.Timeout | null = null;
   private commandThresholdMs = MIN_COMMAND_DURATION_MS;
 
   constructor(private ptyManager: PtyManager) {
@@ -70,12 +114,14 @@ export class SessionMonitor extends EventEmitter {
   }
 
   /**
-   * Track PTY output for bell characters
+   * Track PTY output for bell characters and watch rules
    */
   public trackPtyOutput(sessionId: string, data: string) {
     const session = this.sessions.get(sessionId);
     if (!session) return;
 
+    session.lastOutputAt = Date.now();
+
     // Detect bell character
     if (data.includes('\x07')) {
       this.emitNotificationEvent({
@@ -85,6 +131,196 @@ export class SessionMonitor extends EventEmitter {
         timestamp: new Date().toISOString(),
       });
     }
+
+    const watches = this.watches.get(sessionId);
+    if (watches && watches.length > 0) {
+      this.evaluateOutputWatches(session, watches, data);
+    }
+  }
+
+  /**
+   * Register a watch rule for a running session. Returns null if the session
+   * isn't running. Patterns must be valid regular expressions.
+   */
+  public addWatch(sessionId: string, input: SessionWatchInput): SessionWatch | null {
+    const session = this.sessions.get(sessionId);
+    if (!session?.isRunning) return null;
+
+    const watch: SessionWatch = {
+      id: randomUUID(),
+      sessionId,
+      type: input.type,
+      createdAt: new Date().toISOString(),
+      triggerCount: 0,
+    };
+    if (input.type === 'idle') watch.idleSeconds = input.idleSeconds;
+    if (input.type === 'output') {
+      watch.pattern = input.pattern;
+      watch.caseSensitive = input.caseSensitive ?? false;
+    }
+    if (input.label) watch.label = input.label;
+    if (input.once) watch.once = true;
+
+    const state: WatchState = {
+      watch,
+      regex:
+        input.type === 'output' && input.pattern !== undefined
+          ? new RegExp(input.pattern, watch.caseSensitive ? '' : 'i')
+          : undefined,
+      armed: false,
+      matchedPendingLine: false,
+      lastTriggeredAt: 0,
+    };
+
+    this.watches.set(sessionId, [...(this.watches.get(sessionId) ?? []), state]);
+    this.updateIdleCheckTimer();
+    logger.log(`added ${watch.type} watch ${watch.id} to session ${sessionId}`);
+    return watch;
+  }
+
+  public listWatches(sessionId: string): SessionWatch[] {
+    return (this.watches.get(sessionId) ?? []).map((state) => state.watch);
+  }
+
+  public removeWatch(sessionId: string, watchId: string): boolean {
+    const watches = this.watches.get(sessionId) ?? [];
+    const remaining = watches.filter((state) => state.watch.id !== watchId);
+    if (remaining.length === watches.length) return false;
+
+    if (remaining.length > 0) {
+      this.watches.set(sessionId, remaining);
+    } else {
+      this.watches.delete(sessionId);
+    }
+    this.updateIdleCheckTimer();
+    logger.log(`removed watch ${watchId} from session ${sessionId}`);
+    return true;
+  }
+
+  private evaluateOutputWatches(session: SessionState, watches: WatchState[], data: string) {
+    // Any output re-arms idle watches
+    for (const state of watches) {
+      if (state.watch.type === 'idle') state.armed = true;
+    }
+
+    const outputWatches = watches.filter((state) => state.regex);
+    if (outputWatches.length === 0) return;
+
+    // Match whole lines; the trailing partial line is kept so matches can span chunks
+    const lines = `${session.pendingLine ?? ''}${stripAnsiCodes(data)}`.split('\n');
+    let pending = lines.pop() ?? '';
+    for (const line of lines) {
+      this.matchLine(session, outputWatches, line, true);
+    }
+
+    if (pending.length > MAX_PENDING_LINE_LENGTH) {
+      this.matchLine(session, outputWatches, pending, true);
+      pending = '';
+    } else if (pending) {
+      // Prompts often don't end in a newline; match them as they arrive
+      this.matchLine(session, outputWatches, pending, false);
+    }
+    session.pendingLine = pending;
+  }
+
+  private matchLine(
+    session: SessionState,
+    watches: WatchState[],
+    rawLine: string,
+    complete: boolean
+  ) {
+    // Only the text after the last carriage return is visible (progress bars, spinners)
+    const withoutTrailingCr = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine;
+    const line = withoutTrailingCr.slice(withoutTrailingCr.lastIndexOf('\r') + 1);
+
+    for (const state of watches) {
+      const alreadyMatched = state.matchedPendingLine;
+      if (complete) state.matchedPendingLine = false;
+      if (alreadyMatched || !state.regex || !this.testWatchPattern(session, state, line)) continue;
+
+      if (!complete) state.matchedPendingLine = true;
+      if (Date.now() - state.lastTriggeredAt < OUTPUT_WATCH_COOLDOWN_MS) continue;
+      this.triggerWatch(session, state, line.trim());
+    }
+  }
+
+  private testWatchPattern(session: SessionState, state: WatchState, line: string): boolean {
+    if (!state.regex) return false;
+    try {
+      return testWithBudget(state.regex, line);
+    } catch (error) {
+      logger.warn(
+        `removing output watch ${state.watch.id} of session ${session.id}: pattern took over ${WATCH_MATCH_BUDGET_MS}ms`,
+        error
+      );
+      // Also skips it for the remaining lines of this chunk
+      state.regex = undefined;
+      this.removeWatch(session.id, state.watch.id);
+      return false;
+    }
+  }
+
+  private checkIdleWatches() {
+    const now = Date.now();
+    for (const [sessionId, watches] of this.watches) {
+      const session = this.sessions.get(sessionId);
+      if (!session?.isRunning) continue;
+
+      // Copy: watches with `once` remove themselves when they fire
+      for (const state of [...watches]) {
+        if (state.watch.type !== 'idle' || !state.armed) continue;
+
+        const { isActive } = computeActivityStatus({
+          status: 'running',
+          lastOutputTimestamp: session.lastOutputAt,
+          now,
+          idleTimeoutMs: (state.watch.idleSeconds ?? 0) * 1000,
+        });
+        if (isActive) continue;
+
+        state.armed = false;
+        this.triggerWatch(session, state, `Idle for ${state.watch.idleSeconds}s`);
+      }
+    }
+  }
+
+  private triggerWatch(session: SessionState, state: WatchState, message: string) {
+    const { watch } = state;
+    state.lastTriggeredAt = Date.now();
+    watch.triggerCount++;
+    watch.lastTriggeredAt = new Date(state.lastTriggeredAt).toISOString();
+
+    const text = watch.label ? `${watch.label}: ${message}` : message;
+    logger.debug(`watch ${watch.id} fired for session ${session.id}`);
+    this.emitNotificationEvent({
+      type: watch.type === 'idle' ? 'session-idle' : 'output-matched',
+      sessionId: session.id,
+      sessionName: session.name,
+      message: text.slice(0, MAX_WATCH_MESSAGE_LENGTH),
+      watchId: watch.id,
+      timestamp: watch.lastTriggeredAt,
+    });
+
+    if (watch.once) {
+      this.removeWatch(session.id, watch.id);
+    }
+  }
+
+  /**
+   * Run the idle check only while idle watches exist
+   */
+  private updateIdleCheckTimer() {
+    const hasIdleWatches = Array.from(this.watches.values()).some((watches) =>
+      watches.some((state) => state.watch.type === 'idle')
+    );
+
+    if (hasIdleWatches && !this.idleCheckTimer) {
+      this.idleCheckTimer = setInterval(() => this.checkIdleWatches(), IDLE_CHECK_INTERVAL_MS);
+      this.idleCheckTimer.unref();
+    } else if (!hasIdleWatches && this.idleCheckTimer) {
+      clearInterval(this.idleCheckTimer);
+      this.idleCheckTimer = null;
+    }
   }
 
   /**
@@ -100,6 +336,8 @@ export class SessionMonitor extends EventEmitter {
       exitCode: event.exitCode,
       command: event.command,
       duration: event.duration,
+      message: event.message,
+      watchId: event.watchId,
     });
   }
 
@@ -113,6 +351,8 @@ export class SessionMonitor extends EventEmitter {
       'command-finished': ServerEventType.CommandFinished,
       'command-error': ServerEventType.CommandError,
       bell: ServerEventType.Bell,
+      'session-idle': ServerEventType.SessionIdle,
+      'output-matched': ServerEventType.OutputMatched,
     };
     return mapping[action];
   }
@@ -211,6 +451,11 @@ export class SessionMonitor extends EventEmitter {
     session.status = 'exited';
     session.isRunning = false;
 
+    // Watches don't outlive their session
+    if (this.watches.delete(sessionId)) {
+      this.updateIdleCheckTimer();
+    }
+
     logger.info(`Session exited: ${sessionId} - ${sessionName} (exit code: ${exitCode})`);
 
     // Emit notification event
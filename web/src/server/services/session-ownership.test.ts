@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { PtyManager } from '../pty/pty-manager.js';
+import type { RemoteRegistry } from './remote-registry.js';
+import { SessionOwnership } from './session-ownership.js';
+
+vi.mock('../utils/logger.js', () => ({
+  createLogger: () => ({
+    log: vi.fn(),
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+const localSessions: Record<string, { userId?: string }> = {
+  'alice-session': { userId: 'alice' },
+  'vt-session': {},
+};
+
+function createOwnership(enabled = true) {
+  const ptyManager = {
+    getSession: vi.fn((id: string) => localSessions[id] ?? null),
+  } as unknown as PtyManager;
+  const remoteRegistry = {
+    getRemoteBySessionId: vi.fn((id: string) => (id === 'remote-session' ? { id: 'r1' } : null)),
+  } as unknown as RemoteRegistry;
+
+  return new SessionOwnership({
+    enabled,
+    adminUsers: ['carol'],
+    serverUser: 'server',
+    ptyManager,
+    remoteRegistry,
+  });
+}
+
+const alice = { userId: 'alice', authMethod: 'password' };
+const bob = { userId: 'bob', authMethod: 'password' };
+
+describe('SessionOwnership', () => {
+  it('allows everything when multi-user mode is off', () => {
+    const ownership = createOwnership(false);
+
+    expect(ownership.canAccessSession(bob, 'alice-session')).toBe(true);
+    expect(ownership.getSpawnUser(bob)).toBeUndefined();
+  });
+
+  it('limits users to their own sessions', () => {
+    const ownership = createOwnership();
+
+    expect(ownership.canAccessSession(alice, 'alice-session')).toBe(true);
+    expect(ownership.canAccessSession(bob, 'alice-session')).toBe(false);
+    // Sessions without an owner belong to the server user
+    expect(ownership.canAccessSession(alice, 'vt-session')).toBe(false);
+    // Unknown sessions are left to the route's own 404
+    expect(ownership.canAccessSession(bob, 'missing')).toBe(true);
+
+    const sessions = [{ id: '1', userId: 'alice' }, { id: '2', userId: 'bob' }, { id: '3' }];
+    expect(ownership.filterSessions(alice, sessions).map((s) => s.id)).toEqual(['1']);
+  });
+
+  it('lets admins and the server itself see every session', () => {
+    const ownership = createOwnership();
+
+    expect(
+      ownership.canAccessSession({ userId: 'carol', authMethod: 'password' }, 'alice-session')
+    ).toBe(true);
+    expect(
+      ownership.canAccessSession({ userId: 'server', authMethod: 'ssh-key' }, 'vt-session')
+    ).toBe(true);
+    expect(ownership.canAccessSession({ authMethod: 'hq-bearer' }, 'alice-session')).toBe(true);
+    expect(ownership.canAccessSession({ authMethod: 'local-bypass' }, 'alice-session')).toBe(true);
+  });
+
+  it('checks remote sessions against owners learned by HQ', () => {
+    const ownership = createOwnership();
+
+    expect(ownership.canAccessSession(alice, 'remote-session')).toBe(false);
+    ownership.rememberRemoteOwner('remote-session', 'alice');
+    expect(ownership.canAccessSession(alice, 'remote-session')).toBe(true);
+    expect(ownership.canAccessSession(bob, 'remote-session')).toBe(false);
+  });
+
+  it('scopes share links to their session', () => {
+    const ownership = createOwnership();
+    const share = {
+      userId: 'share:abc',
+      authMethod: 'share-token',
+      shareSessionId: 'alice-session',
+    };
+
+    expect(ownership.canAccessSession(share, 'alice-session')).toBe(true);
+    expect(ownership.canAccessSession(share, 'vt-session')).toBe(false);
+  });
+
+  it('spawns sessions as OS users only for OS-backed logins', () => {
+    const ownership = createOwnership();
+
+    expect(ownership.getSpawnUser(alice)).toBe('alice');
+    expect(ownership.getSpawnUser({ userId: 'server', authMethod: 'password' })).toBeUndefined();
+    expect(ownership.getSpawnUser({ userId: 'alice@example.com', authMethod: 'tailscale' })).toBe(
+      undefined
+    );
+    expect(ownership.getSpawnUser({ userId: 'api-token:1', authMethod: 'api-token' })).toBe(
+      undefined
+    );
+  });
+});
@@ -0,0 +1,125 @@
+import type { PtyManager } from '../pty/pty-manager.js';
+import { createLogger } from '../utils/logger.js';
+import type { RemoteRegistry } from './remote-registry.js';
+
+const logger = createLogger('session-ownership');
+
+// Auth methods that act for the server itself rather than for a user
+const SYSTEM_AUTH_METHODS = new Set(['hq-bearer', 'local-bypass', 'no-auth']);
+
+// Auth methods whose userId is an OS account sessions can be spawned as
+const OS_USER_AUTH_METHODS = new Set(['password', 'ssh-key', 'api-token']);
+
+const POSIX_USERNAME = /^[a-z_][a-z0-9_.-]*$/i;
+
+/**
+ * The authenticated caller, as set on requests by the auth middleware
+ */
+export interface SessionUser {
+  userId?: string;
+  authMethod?: string;
+  shareSessionId?: string; // Share links grant access to exactly this session
+}
+
+interface SessionOwnershipConfig {
+  enabled: boolean; // --multi-user
+  adminUsers: string[]; // --admin-users, plus the user running the server
+  serverUser: string;
+  ptyManager: PtyManager;
+  remoteRegistry: RemoteRegistry | null;
+}
+
+/**
+ * Per-user session ownership for multi-user mode.
+ *
+ * Sessions record the `userId` that created them. Users see and control only
+ * their own sessions; admins, and the server acting for itself (HQ, local
+ * bypass, no-auth), see all of them. Sessions without an owner, such as those
+ * started with `vt` in a terminal, belong to the user running the server.
+ *
+ * When multi-user mode is off every check passes, as before.
+ */
+export class SessionOwnership {
+  // Owners of remote sessions, learned by HQ when it lists or creates them
+  private remoteOwners = new Map<string, string | undefined>();
+
+  constructor(private config: SessionOwnershipConfig) {
+    if (config.enabled) {
+      logger.log(
+        `multi-user mode enabled (admins: ${[config.serverUser, ...config.adminUsers].join(', ')})`
+      );
+    }
+  }
+
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  isAdmin(user: SessionUser): boolean {
+    if (!this.config.enabled) return true;
+    if (user.authMethod && SYSTEM_AUTH_METHODS.has(user.authMethod)) return true;
+    return (
+      !!user.userId &&
+      (user.userId === this.config.serverUser || this.config.adminUsers.includes(user.userId))
+    );
+  }
+
+  canAccess(user: SessionUser, ownerId: string | undefined): boolean {
+    return this.isAdmin(user) || (!!ownerId && ownerId === user.userId);
+  }
+
+  /**
+   * Check access to a session by ID. Unknown sessions pass, so routes can
+   * answer with their usual 404.
+   */
+  canAccessSession(user: SessionUser, sessionId: string): boolean {
+    if (user.shareSessionId) return user.shareSessionId === sessionId;
+    if (this.isAdmin(user)) return true;
+
+    if (this.config.remoteRegistry?.getRemoteBySessionId(sessionId)) {
+      return this.canAccess(user, this.remoteOwners.get(sessionId));
+    }
+    const session = this.config.ptyManager.getSession(sessionId);
+    return !session || this.canAccess(user, session.userId);
+  }
+
+  /**
+   * Keep only the sessions the user may see
+   */
+  filterSessions<T extends { userId?: string }>(user: SessionUser, sessions: T[]): T[] {
+    if (this.isAdmin(user)) return sessions;
+    return sessions.filter((session) => this.canAccess(user, session.userId));
+  }
+
+  rememberRemoteOwner(sessionId: string, ownerId: string | undefined) {
+    this.remoteOwners.set(sessionId, ownerId);
+  }
+
+  /**
+   * The OS user a new session should run as, or undefined to run it as the
+   * server's own user
+   */
+  getSpawnUser(user: SessionUser): string | undefined {
+    if (!this.config.enabled || !user.userId || user.userId === this.config.serverUser) {
+      return undefined;
+    }
+    if (!user.authMethod || !OS_USER_AUTH_METHODS.has(user.authMethod)) return undefined;
+    return POSIX_USERNAME.test(user.userId) ? user.userId : undefined;
+  }
+}
+
+/**
+ * Ownership checks for components created without multi-user mode wiring
+ */
+export function createSingleUserOwnership(
+  ptyManager: PtyManager,
+  remoteRegistry: RemoteRegistry | null = null
+): SessionOwnership {
+  return new SessionOwnership({
+    enabled: false,
+    adminUsers: [],
+    serverUser: '',
+    ptyManager,
+    remoteRegistry,
+  });
+}
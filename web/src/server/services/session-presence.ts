@@ -0,0 +1,152 @@
+import type { SessionPresence, SessionViewer } from '../../shared/types.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('session-presence');
+
+type ViewerEntry = Omit<SessionViewer, 'role'>;
+
+type SessionState = {
+  viewers: Map<string, ViewerEntry>; // clientId -> viewer
+  driverClientId: string | null;
+  pendingRequests: Set<string>;
+};
+
+/**
+ * Tracks who is watching each session and which client holds input control.
+ *
+ * Exactly one client (the driver) may send input or resize a session at a time.
+ * Control is claimed implicitly when nobody drives, and otherwise handed over
+ * explicitly by the current driver. Methods return true when presence changed
+ * so callers know to broadcast a fresh snapshot.
+ */
+export class SessionPresenceTracker {
+  private sessions = new Map<string, SessionState>();
+
+  join(sessionId: string, clientId: string, userId?: string): boolean {
+    const state = this.getOrCreate(sessionId);
+    if (state.viewers.has(clientId)) return false;
+
+    state.viewers.set(clientId, { clientId, userId, joinedAt: new Date().toISOString() });
+    logger.debug(`client ${clientId} joined session ${sessionId} (${state.viewers.size} viewers)`);
+    return true;
+  }
+
+  leave(sessionId: string, clientId: string): boolean {
+    const state = this.sessions.get(sessionId);
+    if (!state) return false;
+
+    const wasViewer = state.viewers.delete(clientId);
+    const wasDriver = state.driverClientId === clientId;
+    const hadRequest = state.pendingRequests.delete(clientId);
+    if (wasDriver) {
+      state.driverClientId = null;
+      logger.debug(`driver ${clientId} left session ${sessionId}, control is free`);
+    }
+
+    if (state.viewers.size === 0 && !state.driverClientId) {
+      this.sessions.delete(sessionId);
+    }
+    return wasViewer || wasDriver || hadRequest;
+  }
+
+  /**
+   * Returns session IDs whose presence changed because the client went away.
+   */
+  leaveAll(clientId: string): string[] {
+    const changed: string[] = [];
+    for (const sessionId of Array.from(this.sessions.keys())) {
+      if (this.leave(sessionId, clientId)) changed.push(sessionId);
+    }
+    return changed;
+  }
+
+  getDriver(sessionId: string): string | null {
+    return this.sessions.get(sessionId)?.driverClientId ?? null;
+  }
+
+  /**
+   * Whether the client may drive the session. Claims control when it is free.
+   */
+  claimIfFree(sessionId: string, clientId: string): { allowed: boolean; changed: boolean } {
+    const state = this.getOrCreate(sessionId);
+    if (state.driverClientId === clientId) return { allowed: true, changed: false };
+    if (state.driverClientId) return { allowed: false, changed: false };
+
+    this.setDriver(sessionId, state, clientId);
+    return { allowed: true, changed: true };
+  }
+
+  request(sessionId: string, clientId: string): boolean {
+    const state = this.getOrCreate(sessionId);
+    if (state.driverClientId === clientId) return false;
+    if (!state.driverClientId) {
+      this.setDriver(sessionId, state, clientId);
+      return true;
+    }
+    if (state.pendingRequests.has(clientId)) return false;
+
+    state.pendingRequests.add(clientId);
+    logger.debug(`client ${clientId} requested control of session ${sessionId}`);
+    return true;
+  }
+
+  release(sessionId: string, clientId: string): boolean {
+    const state = this.sessions.get(sessionId);
+    if (!state || state.driverClientId !== clientId) return false;
+
+    state.driverClientId = null;
+    logger.debug(`driver ${clientId} released control of session ${sessionId}`);
+    return true;
+  }
+
+  grant(sessionId: string, driverClientId: string, targetClientId: string): boolean {
+    const state = this.sessions.get(sessionId);
+    if (!state || state.driverClientId !== driverClientId) return false;
+    if (!state.viewers.has(targetClientId) || targetClientId === driverClientId) return false;
+
+    this.setDriver(sessionId, state, targetClientId);
+    return true;
+  }
+
+  deny(sessionId: string, driverClientId: string, targetClientId: string): boolean {
+    const state = this.sessions.get(sessionId);
+    if (!state || state.driverClientId !== driverClientId) return false;
+    return state.pendingRequests.delete(targetClientId);
+  }
+
+  getViewerIds(sessionId: string): string[] {
+    return Array.from(this.sessions.get(sessionId)?.viewers.keys() ?? []);
+  }
+
+  getPresence(sessionId: string, selfClientId: string): SessionPresence {
+    const state = this.sessions.get(sessionId);
+    const driverClientId = state?.driverClientId ?? null;
+
+    return {
+      kind: 'presence',
+      sessionId,
+      selfClientId,
+      driverClientId,
+      viewers: Array.from(state?.viewers.values() ?? []).map((viewer) => ({
+        ...viewer,
+        role: viewer.clientId === driverClientId ? 'driver' : 'observer',
+      })),
+      pendingRequests: Array.from(state?.pendingRequests ?? []),
+    };
+  }
+
+  private setDriver(sessionId: string, state: SessionState, clientId: string) {
+    state.driverClientId = clientId;
+    state.pendingRequests.delete(clientId);
+    logger.debug(`client ${clientId} now drives session ${sessionId}`);
+  }
+
+  private getOrCreate(sessionId: string): SessionState {
+    let state = this.sessions.get(sessionId);
+    if (!state) {
+      state = { viewers: new Map(), driverClientId: null, pendingRequests: new Set() };
+      this.sessions.set(sessionId, state);
+    }
+    return state;
+  }
+}
@@ -0,0 +1,121 @@
+import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
+import type { SessionShare } from '../../shared/types.js';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('share-tokens');
+
+export const SHARE_TOKEN_PREFIX = 'vts_';
+
+const DEFAULT_TTL_MS = 60 * 60 * 1000; // 1 hour
+const MAX_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+interface CreateShareOptions {
+  ttlMs?: number;
+  label?: string;
+  createdBy?: string;
+}
+
+/**
+ * Issues and verifies read-only share tokens scoped to a single session.
+ *
+ * Tokens live in memory only: a server restart revokes every outstanding link.
+ * Emits `share-ended` with the share when it is revoked or expires, so open
+ * connections made with it can be closed.
+ */
+export class ShareTokenService extends EventEmitter {
+  private shares = new Map<string, SessionShare>(); // shareId -> share
+  private sharesByToken = new Map<string, SessionShare>(); // token -> share
+  private expiryTimers = new Map<string, NodeJS.Timeout>(); // shareId -> timer
+  private cleanupInterval: NodeJS.Timeout;
+
+  constructor() {
+    super();
+    // Drop expired shares every minute
+    this.cleanupInterval = setInterval(() => this.cleanupExpired(), 60000);
+    this.cleanupInterval.unref?.();
+  }
+
+  static isShareToken(token: string | undefined): token is string {
+    return typeof token === 'string' && token.startsWith(SHARE_TOKEN_PREFIX);
+  }
+
+  createShare(sessionId: string, options: CreateShareOptions = {}): SessionShare {
+    const ttlMs = Math.min(Math.max(options.ttlMs ?? DEFAULT_TTL_MS, 60000), MAX_TTL_MS);
+    const now = Date.now();
+
+    const share: SessionShare = {
+      id: crypto.randomUUID(),
+      sessionId,
+      token: `${SHARE_TOKEN_PREFIX}${crypto.randomBytes(24).toString('base64url')}`,
+      label: options.label,
+      createdBy: options.createdBy,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + ttlMs).toISOString(),
+    };
+
+    this.shares.set(share.id, share);
+    this.sharesByToken.set(share.token, share);
+    const timer = setTimeout(() => {
+      logger.debug(`share ${share.id} expired for session ${sessionId}`);
+      this.removeShare(share);
+    }, ttlMs);
+    timer.unref?.();
+    this.expiryTimers.set(share.id, timer);
+    logger.log(`share ${share.id} created for session ${sessionId} (expires ${share.expiresAt})`);
+    return share;
+  }
+
+  listShares(sessionId: string): SessionShare[] {
+    this.cleanupExpired();
+    return Array.from(this.shares.values()).filter((share) => share.sessionId === sessionId);
+  }
+
+  revokeShare(sessionId: string, shareId: string): boolean {
+    const share = this.shares.get(shareId);
+    if (!share || share.sessionId !== sessionId) return false;
+
+    this.removeShare(share);
+    logger.log(`share ${shareId} revoked for session ${sessionId}`);
+    return true;
+  }
+
+  /**
+   * Resolve a share token to its share, or null when unknown or expired.
+   */
+  verifyToken(token: string): SessionShare | null {
+    const share = this.sharesByToken.get(token);
+    if (!share) return null;
+
+    if (Date.parse(share.expiresAt) <= Date.now()) {
+      this.removeShare(share);
+      return null;
+    }
+
+    return share;
+  }
+
+  private cleanupExpired(): void {
+    const now = Date.now();
+    for (const share of this.shares.values()) {
+      if (Date.parse(share.expiresAt) <= now) {
+        this.removeShare(share);
+        logger.debug(`share ${share.id} expired for session ${share.sessionId}`);
+      }
+    }
+  }
+
+  private removeShare(share: SessionShare): void {
+    if (!this.shares.delete(share.id)) return;
+    this.sharesByToken.delete(share.token);
+    clearTimeout(this.expiryTimers.get(share.id));
+    this.expiryTimers.delete(share.id);
+    this.emit('share-ended', share);
+  }
+
+  destroy(): void {
+    clearInterval(this.cleanupInterval);
+    for (const timer of this.expiryTimers.values()) clearTimeout(timer);
+    this.expiryTimers.clear();
+  }
+}
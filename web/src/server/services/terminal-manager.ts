@@ -114,6 +114,25 @@ interface SessionTerminal {
 
 type BufferChangeListener = (sessionId: string, snapshot: BufferSnapshot) => void;
 
+// A snapshot v2 stream sends a full keyframe at least this often
+const SNAPSHOT_KEYFRAME_INTERVAL = 30;
+
+/**
+ * Per-subscriber state of a snapshot v2 stream: the rows the client holds,
+ * as encoded bytes so unchanged rows can be found with a byte compare.
+ */
+export interface SnapshotDeltaState {
+  seq: number;
+  cols: number;
+  rows: Buffer[];
+  framesSinceKeyframe: number;
+  forceKeyframe?: boolean;
+}
+
+export function createSnapshotDeltaState(): SnapshotDeltaState {
+  return { seq: 0, cols: 0, rows: [], framesSinceKeyframe: 0, forceKeyframe: true };
+}
+
 interface BufferCell {
   char: string;
   width: number;
@@ -1031,6 +1050,97 @@ export class TerminalManager {
     return result;
   }
 
+  /**
+   * Encode buffer snapshot in the v2 format
+   *
+   * Same 32-byte header as v1 with version 2. The flags byte marks keyframes
+   * (bit 0) and the reserved field holds a sequence number that grows by one
+   * per frame, so clients can tell when they missed one.
+   *
+   * - Keyframe: every row, encoded as in v1
+   * - Delta: only rows that changed since the previous frame, each as
+   *   `u16 rowIndex` followed by the v1 row encoding
+   *
+   * A keyframe is sent first, whenever the size changes, when most rows
+   * changed anyway, and every SNAPSHOT_KEYFRAME_INTERVAL frames.
+   *
+   * @param snapshot - Terminal buffer snapshot to encode
+   * @param state - Stream state of the receiving client, updated in place
+   * @returns Binary buffer ready for transmission
+   */
+  encodeSnapshotDelta(snapshot: BufferSnapshot, state: SnapshotDeltaState): Buffer {
+    const { cols, rows, viewportY, cursorX, cursorY, cells } = snapshot;
+    const encodedRows = cells.map((rowCells) => this.encodeRow(rowCells));
+
+    const changed: number[] = [];
+    for (let row = 0; row < encodedRows.length; row++) {
+      if (!state.rows[row]?.equals(encodedRows[row])) changed.push(row);
+    }
+
+    const keyframe =
+      state.forceKeyframe === true ||
+      cols !== state.cols ||
+      encodedRows.length !== state.rows.length ||
+      state.framesSinceKeyframe >= SNAPSHOT_KEYFRAME_INTERVAL ||
+      changed.length * 2 > encodedRows.length;
+
+    state.seq = (state.seq + 1) >>> 0;
+    state.cols = cols;
+    state.rows = encodedRows;
+    state.forceKeyframe = false;
+    state.framesSinceKeyframe = keyframe ? 0 : state.framesSinceKeyframe + 1;
+
+    const header = Buffer.alloc(32);
+    header.writeUInt16LE(0x5654, 0); // Magic "VT"
+    header.writeUInt8(0x02, 2); // Version 2
+    header.writeUInt8(keyframe ? 0x01 : 0x00, 3); // Flags
+    header.writeUInt32LE(cols, 4);
+    header.writeUInt32LE(rows, 8);
+    header.writeInt32LE(viewportY, 12);
+    header.writeInt32LE(cursorX, 16);
+    header.writeInt32LE(cursorY, 20);
+    header.writeUInt32LE(state.seq, 24);
+
+    if (keyframe) return Buffer.concat([header, ...encodedRows]);
+
+    const parts: Buffer[] = [header];
+    for (const row of changed) {
+      const index = Buffer.allocUnsafe(2);
+      index.writeUInt16LE(row, 0);
+      parts.push(index, encodedRows[row]);
+    }
+    return Buffer.concat(parts);
+  }
+
+  /**
+   * Encode one row as in the v1 format: empty row marker or row marker,
+   * cell count and cells
+   */
+  private encodeRow(rowCells: BufferCell[]): Buffer {
+    if (
+      rowCells.length === 0 ||
+      (rowCells.length === 1 &&
+        rowCells[0].char === ' ' &&
+        !rowCells[0].fg &&
+        !rowCells[0].bg &&
+        !rowCells[0].attributes)
+    ) {
+      return Buffer.from([0xfe, 1]);
+    }
+
+    let size = 3;
+    for (const cell of rowCells) size += this.calculateCellSize(cell);
+
+    const buffer = Buffer.allocUnsafe(size);
+    buffer.writeUInt8(0xfd, 0);
+    buffer.writeUInt16LE(rowCells.length, 1);
+    let offset = 3;
+    for (const cell of rowCells) {
+      offset = this.encodeCell(buffer, offset, cell);
+    }
+    return buffer.subarray(0, offset);
+  }
+
   /**
    * Calculate the size needed to encode a cell
    */
@@ -1,7 +1,8 @@
 import { execFile, execFileSync } from 'child_process';
 import { promisify } from 'util';
+import type { TmuxSshTarget } from '../../shared/multiplexer-types.js';
 import type { TmuxPane, TmuxSession, TmuxWindow } from '../../shared/tmux-types.js';
-import { type SessionCreateOptions, TitleMode } from '../../shared/types.js';
+import { type MultiplexerRef, type SessionCreateOptions, TitleMode } from '../../shared/types.js';
 import type { PtyManager } from '../pty/pty-manager.js';
 import { createLogger } from '../utils/logger.js';
 
@@ -52,6 +53,20 @@ export class TmuxManager {
     }
   }
 
+  /**
+   * Validate an SSH target. Arguments after the host are joined into a remote
+   * shell command by ssh, so both values are restricted to shell-safe characters.
+   * Neither the user nor the host may start with a dash, so ssh can't read them as options.
+   */
+  private validateSshTarget(ssh: TmuxSshTarget): void {
+    if (!/^([A-Za-z0-9][A-Za-z0-9._-]*@)?[A-Za-z0-9][A-Za-z0-9._-]*$/.test(ssh.host || '')) {
+      throw new Error('SSH host can only contain letters, numbers, dots, dashes, and underscores');
+    }
+    if (!/^\/[A-Za-z0-9._/-]+$/.test(ssh.socketPath || '')) {
+      throw new Error('tmux socket path must be an absolute path');
+    }
+  }
+
   static getInstance(ptyManager: PtyManager): TmuxManager {
     if (!TmuxManager.instance) {
       TmuxManager.instance = new TmuxManager(ptyManager);
@@ -217,12 +232,15 @@ export class TmuxManager {
 
   /**
    * Attach to a tmux session/window/pane through VibeTunnel
+   *
+   * With `options.ssh` the tmux server on another host is attached over SSH,
+   * which is how HQ moves a tmux-backed session between hosts.
    */
   async attachToTmux(
     sessionName: string,
     windowIndex?: number,
     paneIndex?: number,
-    options?: Partial<SessionCreateOptions>
+    options?: Partial<SessionCreateOptions> & { ssh?: TmuxSshTarget }
   ): Promise<string> {
     let target = sessionName;
     if (windowIndex !== undefined) {
@@ -235,21 +253,68 @@ export class TmuxManager {
     // Always attach to session/window level, not individual panes
     // This gives users full control over pane management once attached
     const attachTarget = windowIndex !== undefined ? `${sessionName}:${windowIndex}` : sessionName;
-    const tmuxCommand = ['tmux', 'attach-session', '-t', attachTarget];
+    let tmuxCommand = ['tmux', 'attach-session', '-t', attachTarget];
+
+    // Remember which tmux session this is so it can be reattached elsewhere
+    const multiplexer: MultiplexerRef = { type: 'tmux', session: sessionName, window: windowIndex };
+    if (options?.ssh) {
+      this.validateSessionName(sessionName);
+      if (windowIndex !== undefined) {
+        this.validateWindowIndex(windowIndex);
+      }
+      this.validateSshTarget(options.ssh);
+      tmuxCommand = [
+        'ssh',
+        '-t',
+        '--',
+        options.ssh.host,
+        'tmux',
+        '-S',
+        options.ssh.socketPath,
+        'attach-session',
+        '-t',
+        attachTarget,
+      ];
+      multiplexer.sshHost = options.ssh.host;
+      multiplexer.socketPath = options.ssh.socketPath;
+    } else {
+      multiplexer.socketPath = await this.getSocketPath(sessionName);
+    }
 
     // Create a new VibeTunnel session that runs tmux attach
     const sessionOptions: SessionCreateOptions = {
-      name: `tmux: ${target}`,
+      name: options?.name || `tmux: ${target}`,
       workingDir: options?.workingDir || process.env.HOME || '/',
       cols: options?.cols || 80,
       rows: options?.rows || 24,
       titleMode: options?.titleMode || TitleMode.STATIC,
+      multiplexer,
+      userId: options?.userId,
     };
 
     const session = await this.ptyManager.createSession(tmuxCommand, sessionOptions);
     return session.sessionId;
   }
 
+  /**
+   * Get the socket of the tmux server running a session
+   */
+  private async getSocketPath(sessionName: string): Promise<string | undefined> {
+    try {
+      const { stdout } = await execFileAsync('tmux', [
+        'display-message',
+        '-p',
+        '-t',
+        sessionName,
+        '#{socket_path}',
+      ]);
+      return stdout.trim() || undefined;
+    } catch (error) {
+      logger.warn('Failed to get tmux socket path', { sessionName, error });
+      return undefined;
+    }
+  }
+
   /**
    * Send a command to a specific tmux pane
    */
@@ -0,0 +1,82 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { base32Decode, base32Encode, generateTotpCode, TotpService } from './totp-service.js';
+
+vi.mock('../utils/logger.js', () => ({
+  createLogger: () => ({
+    log: vi.fn(),
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+function currentCode(secret: string, offsetSteps = 0) {
+  return generateTotpCode(secret, Math.floor(Date.now() / 30000) + offsetSteps);
+}
+
+describe('TotpService', () => {
+  let configDir: string;
+
+  beforeEach(() => {
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'totp-'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it('generates RFC 6238 codes', () => {
+    const secret = base32Encode(Buffer.from('12345678901234567890'));
+
+    expect(secret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode(secret).toString()).toBe('12345678901234567890');
+    // RFC 6238 appendix B, truncated to 6 digits
+    expect(generateTotpCode(secret, 1)).toBe('287082');
+    expect(generateTotpCode(secret, 37037036)).toBe('081804');
+  });
+
+  it('enrolls after a valid code and persists the enrollment', () => {
+    const service = new TotpService(configDir);
+    const { secret, otpauthUrl } = service.beginEnrollment('alice');
+
+    expect(otpauthUrl).toContain(`secret=${secret}`);
+    expect(service.isEnrolled('alice')).toBe(false);
+    expect(service.confirmEnrollment('alice', 'abcdef')).toBe(false);
+    expect(service.confirmEnrollment('alice', currentCode(secret, 1))).toBe(true);
+
+    const filePath = path.join(configDir, 'totp.json');
+    expect(fs.statSync(filePath).mode & 0o777).toBe(0o600);
+    expect(new TotpService(configDir).isEnrolled('alice')).toBe(true);
+  });
+
+  it('rejects replayed and stale codes', () => {
+    vi.useFakeTimers();
+    const service = new TotpService(configDir);
+    const { secret } = service.beginEnrollment('alice');
+    expect(service.confirmEnrollment('alice', currentCode(secret))).toBe(true);
+
+    vi.advanceTimersByTime(30000);
+    const code = currentCode(secret);
+    expect(service.verifyCode('alice', code)).toBe(true);
+    expect(service.verifyCode('alice', code)).toBe(false);
+    expect(service.verifyCode('alice', currentCode(secret, -3))).toBe(false);
+    expect(service.verifyCode('bob', code)).toBe(false);
+  });
+
+  it('disables with a current code', () => {
+    vi.useFakeTimers();
+    const service = new TotpService(configDir);
+    const { secret } = service.beginEnrollment('alice');
+    service.confirmEnrollment('alice', currentCode(secret));
+
+    vi.advanceTimersByTime(30000);
+    expect(service.disable('alice', 'abcdef')).toBe(false);
+    expect(service.disable('alice', currentCode(secret))).toBe(true);
+    expect(service.isEnrolled('alice')).toBe(false);
+  });
+});
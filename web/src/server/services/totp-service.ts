@@ -0,0 +1,194 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createLogger } from '../utils/logger.js';
+
+const logger = createLogger('totp');
+
+const ISSUER = 'VibeTunnel';
+const PERIOD_SECONDS = 30;
+const DIGITS = 6;
+// Accept codes one step either side to allow for clock drift
+const DRIFT_STEPS = 1;
+// Enrollments not confirmed within this time must be started again
+const ENROLLMENT_TIMEOUT_MS = 10 * 60 * 1000;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+interface TotpEnrollment {
+  secret: string; // base32
+  enabledAt: string;
+}
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of input.toUpperCase().replace(/=+$/, '')) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character: ${char}`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Compute the TOTP code for a time step (RFC 6238, HMAC-SHA1, 6 digits)
+ */
+export function generateTotpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, '0');
+}
+
+function currentStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / PERIOD_SECONDS);
+}
+
+/**
+ * Optional TOTP second factor for password logins.
+ *
+ * Enrollments are kept in `totp.json` in the config directory. A user enrolls
+ * by scanning the otpauth URI from `beginEnrollment` and confirming a code;
+ * until then their logins stay password-only.
+ */
+export class TotpService {
+  private readonly filePath: string;
+  private enrollments = new Map<string, TotpEnrollment>(); // userId -> enrollment
+  private pending = new Map<string, { secret: string; createdAt: number }>();
+  // Last accepted time step per user, so a code can't be replayed
+  private lastUsedStep = new Map<string, number>();
+
+  constructor(configDir = path.join(os.homedir(), '.vibetunnel')) {
+    this.filePath = path.join(configDir, 'totp.json');
+    this.load();
+  }
+
+  isEnrolled(userId: string): boolean {
+    return this.enrollments.has(userId);
+  }
+
+  /**
+   * Start enrolling a user. The returned secret is only active once
+   * `confirmEnrollment` accepts a code generated from it.
+   */
+  beginEnrollment(userId: string): { secret: string; otpauthUrl: string } {
+    const secret = base32Encode(crypto.randomBytes(20));
+    this.pending.set(userId, { secret, createdAt: Date.now() });
+
+    const label = encodeURIComponent(`${ISSUER}:${userId}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: ISSUER,
+      algorithm: 'SHA1',
+      digits: String(DIGITS),
+      period: String(PERIOD_SECONDS),
+    });
+    return { secret, otpauthUrl: `otpauth://totp/${label}?${params}` };
+  }
+
+  confirmEnrollment(userId: string, code: string): boolean {
+    const pending = this.pending.get(userId);
+    if (!pending || Date.now() - pending.createdAt > ENROLLMENT_TIMEOUT_MS) {
+      this.pending.delete(userId);
+      return false;
+    }
+    if (!this.checkCode(userId, pending.secret, code)) return false;
+
+    this.pending.delete(userId);
+    this.enrollments.set(userId, { secret: pending.secret, enabledAt: new Date().toISOString() });
+    this.save();
+    logger.log(`two-factor authentication enabled for ${userId}`);
+    return true;
+  }
+
+  /**
+   * Turn the second factor off; requires a current code
+   */
+  disable(userId: string, code: string): boolean {
+    if (!this.verifyCode(userId, code)) return false;
+
+    this.enrollments.delete(userId);
+    this.lastUsedStep.delete(userId);
+    this.save();
+    logger.log(`two-factor authentication disabled for ${userId}`);
+    return true;
+  }
+
+  verifyCode(userId: string, code: string): boolean {
+    const enrollment = this.enrollments.get(userId);
+    return !!enrollment && this.checkCode(userId, enrollment.secret, code);
+  }
+
+  private checkCode(userId: string, secret: string, code: string): boolean {
+    if (!/^\d{6}$/.test(code)) return false;
+
+    const now = currentStep();
+    const lastUsed = this.lastUsedStep.get(userId) ?? -1;
+    for (let step = now - DRIFT_STEPS; step <= now + DRIFT_STEPS; step++) {
+      if (step <= lastUsed) continue;
+      const expected = generateTotpCode(secret, step);
+      if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+        this.lastUsedStep.set(userId, step);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private load() {
+    if (!fs.existsSync(this.filePath)) return;
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as {
+        users?: Record<string, TotpEnrollment>;
+      };
+      for (const [userId, enrollment] of Object.entries(data.users ?? {})) {
+        this.enrollments.set(userId, enrollment);
+      }
+      logger.debug(`loaded ${this.enrollments.size} totp enrollments from ${this.filePath}`);
+    } catch (error) {
+      logger.error(`failed to load totp enrollments from ${this.filePath}:`, error);
+    }
+  }
+
+  private save() {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const users = Object.fromEntries(this.enrollments);
+      fs.writeFileSync(this.filePath, JSON.stringify({ version: 1, users }, null, 2), {
+        encoding: 'utf8',
+        mode: 0o600,
+      });
+    } catch (error) {
+      logger.error(`failed to save totp enrollments to ${this.filePath}:`, error);
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Session, SessionCreateOptions } from '../../shared/types.js';
+import type { PtyManager } from '../pty/index.js';
+import { WorkspaceNotFoundError, WorkspaceService } from './workspace-service.js';
+
+vi.mock('../utils/logger.js', () => ({
+  createLogger: () => ({
+    log: vi.fn(),
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+vi.mock('../utils/git-info.js', () => ({
+  detectGitInfo: vi.fn(async () => ({})),
+}));
+
+describe('WorkspaceService', () => {
+  let configDir: string;
+  let sessions: Session[];
+  let createSession: ReturnType<typeof vi.fn>;
+  let killSession: ReturnType<typeof vi.fn>;
+  let service: WorkspaceService;
+
+  beforeEach(() => {
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'workspace-service-'));
+    sessions = [];
+    createSession = vi.fn(async (_command: string[], options: SessionCreateOptions) => {
+      const sessionId = `id-${sessions.length + 1}`;
+      sessions.push({
+        id: sessionId,
+        name: options.name,
+        status: 'running',
+        workspace: options.workspace,
+      } as Session);
+      return { sessionId };
+    });
+    killSession = vi.fn(async (sessionId: string) => {
+      sessions = sessions.filter((s) => s.id !== sessionId);
+    });
+    const ptyManager = {
+      listSessions: vi.fn(async () => [...sessions]),
+      createSession,
+      killSession,
+    } as unknown as PtyManager;
+    service = new WorkspaceService(ptyManager, configDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it('rejects layouts that reference unknown sessions', () => {
+    expect(() =>
+      service.saveWorkspace({
+        name: 'dev',
+        sessions: [{ name: 'server', command: 'npm run dev' }],
+        layout: { panes: ['server', 'tests'] },
+      })
+    ).toThrow('Layout panes must reference sessions of the workspace');
+    expect(service.listWorkspaces()).toEqual([]);
+  });
+
+  it('starts sessions once and returns the split layout path', async () => {
+    service.saveWorkspace({
+      name: 'dev',
+      workingDir: configDir,
+      sessions: [
+        { name: 'server', command: 'npm run dev', env: { PORT: '3000' } },
+        { name: 'tests', command: 'npm test -- --watch', workingDir: 'pkg' },
+        { name: 'shell', command: 'zsh', preCommand: 'source .envrc' },
+      ],
+      layout: { panes: ['tests', 'server'], ratio: 0.6 },
+    });
+
+    const result = await service.up('dev');
+
+    expect(result.layoutPath).toBe('/split/r60(id-2,id-1)');
+    expect(createSession).toHaveBeenCalledTimes(3);
+    expect(createSession).toHaveBeenNthCalledWith(
+      1,
+      ['npm', 'run', 'dev'],
+      expect.objectContaining({
+        name: 'server',
+        workingDir: configDir,
+        env: { PORT: '3000' },
+        workspace: 'dev',
+      })
+    );
+    expect(createSession.mock.calls[1][1].workingDir).toBe(path.join(configDir, 'pkg'));
+    expect(createSession.mock.calls[2][0]).toEqual([
+      '/bin/sh',
+      '-c',
+      'set -e\nsource .envrc\nset +e\nexec "$@"',
+      'vibetunnel',
+      'zsh',
+    ]);
+
+    const again = await service.up('dev');
+    expect(createSession).toHaveBeenCalledTimes(3);
+    expect(again.sessions.every((s) => !s.created)).toBe(true);
+  });
+
+  it('runs sessions as the owner when a spawn user is given', async () => {
+    service.saveWorkspace({
+      name: 'dev',
+      sessions: [{ name: 'server', command: 'npm start', env: { PORT: '3000' } }],
+    });
+
+    await service.up('dev', { userId: 'alice', spawnUser: 'alice' });
+
+    const [command, options] = createSession.mock.calls[0];
+    expect(command.slice(0, 4)).toEqual(['sudo', '-n', '-H', '-u']);
+    expect(command).toContain('PORT=3000');
+    expect(options.userId).toBe('alice');
+  });
+
+  it('kills only the sessions tagged with the workspace', async () => {
+    service.saveWorkspace({ name: 'dev', sessions: [{ name: 'server', command: 'npm start' }] });
+    sessions.push({ id: 'other', name: 'server', status: 'running' } as Session);
+    await service.up('dev');
+
+    const result = await service.down('dev');
+
+    expect(result.killed).toEqual(['id-2']);
+    expect(killSession).toHaveBeenCalledTimes(1);
+    expect(sessions.map((s) => s.id)).toEqual(['other']);
+  });
+
+  it('throws for unknown workspaces', async () => {
+    await expect(service.up('missing')).rejects.toBeInstanceOf(WorkspaceNotFoundError);
+    expect(() => service.deleteWorkspace('missing')).toThrow(WorkspaceNotFoundError);
+  });
+});
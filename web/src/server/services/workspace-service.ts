@@ -0,0 +1,252 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import type { TitleMode, WorkspaceDownResult, WorkspaceUpResult } from '../../shared/types.js';
+import { parseCommand } from '../../shared/utils/command.js';
+import {
+  createGridLayout,
+  createPane,
+  createSplit,
+  MAX_SPLIT_PANES,
+  serializeSplitLayout,
+} from '../../shared/utils/split-layout.js';
+import type { WorkspaceDefinition } from '../../types/config.js';
+import type { PtyManager } from '../pty/index.js';
+import { detectGitInfo } from '../utils/git-info.js';
+import { createLogger } from '../utils/logger.js';
+import { resolveAbsolutePath } from '../utils/path-utils.js';
+import {
+  createSessionWorktree,
+  wrapAsUser,
+  wrapWithEnv,
+  wrapWithPreCommand,
+} from '../utils/session-template.js';
+import { QuickStartCommandSchema } from './config-service.js';
+
+const logger = createLogger('workspace-service');
+
+const WORKSPACE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+export const WorkspaceSchema = z
+  .object({
+    name: z.string().regex(WORKSPACE_NAME_PATTERN, 'Invalid workspace name'),
+    workingDir: z.string().min(1).optional(),
+    sessions: z
+      .array(QuickStartCommandSchema.extend({ name: z.string().min(1) }))
+      .min(1, 'A workspace needs at least one session'),
+    layout: z
+      .object({
+        panes: z.array(z.string()).min(1).max(MAX_SPLIT_PANES),
+        ratio: z.number().gt(0).lt(1).optional(),
+      })
+      .optional(),
+  })
+  .refine(
+    (workspace) =>
+      new Set(workspace.sessions.map((s) => s.name)).size === workspace.sessions.length,
+    {
+      message: 'Session names must be unique within a workspace',
+    }
+  )
+  .refine(
+    (workspace) =>
+      !workspace.layout ||
+      workspace.layout.panes.every((pane) => workspace.sessions.some((s) => s.name === pane)),
+    { message: 'Layout panes must reference sessions of the workspace' }
+  );
+
+const WorkspacesFileSchema = z.object({
+  version: z.number(),
+  workspaces: z.array(WorkspaceSchema),
+});
+
+export class WorkspaceNotFoundError extends Error {
+  constructor(name: string) {
+    super(`Workspace '${name}' not found`);
+    this.name = 'WorkspaceNotFoundError';
+  }
+}
+
+/**
+ * Stores workspace definitions and starts/stops their sessions as a group.
+ *
+ * Definitions live in `~/.vibetunnel/workspaces.json` and are re-read on every
+ * call, so hand edits take effect without a restart. Sessions started by a
+ * workspace carry its name in `session.json`; that tag is what `down` and the
+ * idempotent `up` use to find them again, even across server restarts.
+ */
+export class WorkspaceService {
+  private readonly filePath: string;
+
+  constructor(
+    private ptyManager: PtyManager,
+    configDir = path.join(os.homedir(), '.vibetunnel')
+  ) {
+    this.filePath = path.join(configDir, 'workspaces.json');
+  }
+
+  listWorkspaces(): WorkspaceDefinition[] {
+    if (!fs.existsSync(this.filePath)) return [];
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      return WorkspacesFileSchema.parse(data).workspaces;
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new Error(
+          `Invalid workspaces file: ${error.issues.map((e) => e.message).join(', ')}`
+        );
+      }
+      throw error;
+    }
+  }
+
+  getWorkspace(name: string): WorkspaceDefinition {
+    const workspace = this.listWorkspaces().find((w) => w.name === name);
+    if (!workspace) throw new WorkspaceNotFoundError(name);
+    return workspace;
+  }
+
+  saveWorkspace(definition: unknown): WorkspaceDefinition {
+    const workspace = WorkspaceSchema.parse(definition);
+    const others = this.listWorkspaces().filter((w) => w.name !== workspace.name);
+    this.writeWorkspaces([...others, workspace]);
+    logger.log(`saved workspace ${workspace.name}`);
+    return workspace;
+  }
+
+  deleteWorkspace(name: string): void {
+    const workspaces = this.listWorkspaces();
+    if (!workspaces.some((w) => w.name === name)) throw new WorkspaceNotFoundError(name);
+    this.writeWorkspaces(workspaces.filter((w) => w.name !== name));
+    logger.log(`deleted workspace ${name}`);
+  }
+
+  /**
+   * IDs of the running sessions that belong to a workspace, by session name
+   */
+  async getRunningSessions(name: string): Promise<Map<string, string>> {
+    const sessions = await this.ptyManager.listSessions();
+    const running = new Map<string, string>();
+    for (const session of sessions) {
+      if (session.workspace === name && session.status === 'running') {
+        running.set(session.name, session.id);
+      }
+    }
+    return running;
+  }
+
+  /**
+   * Start every session of the workspace that isn't already running. In
+   * multi-user mode the sessions belong to `owner.userId` and run as
+   * `owner.spawnUser`, like sessions created one by one.
+   */
+  async up(
+    name: string,
+    owner: { userId?: string; spawnUser?: string } = {}
+  ): Promise<WorkspaceUpResult> {
+    const workspace = this.getWorkspace(name);
+    const running = await this.getRunningSessions(name);
+    const baseDir = resolveAbsolutePath(workspace.workingDir || os.homedir());
+    const sessions: WorkspaceUpResult['sessions'] = [];
+
+    for (const definition of workspace.sessions) {
+      const existingId = running.get(definition.name);
+      if (existingId) {
+        sessions.push({ name: definition.name, sessionId: existingId, created: false });
+        continue;
+      }
+
+      let cwd = baseDir;
+      if (definition.workingDir) {
+        // Relative session directories are relative to the workspace directory
+        cwd = /^[~/]/.test(definition.workingDir)
+          ? resolveAbsolutePath(definition.workingDir)
+          : path.join(baseDir, definition.workingDir);
+      }
+      if (definition.gitWorktree) {
+        cwd = (await createSessionWorktree(cwd, definition.gitWorktree)).worktreePath;
+      }
+
+      const parsed = parseCommand(definition.command);
+      const command = definition.preCommand?.trim()
+        ? wrapWithPreCommand(parsed, definition.preCommand)
+        : parsed;
+      const gitInfo = await detectGitInfo(cwd);
+      // sudo resets the environment, so template env is applied inside it
+      const { sessionId } = await this.ptyManager.createSession(
+        owner.spawnUser
+          ? wrapAsUser(
+              definition.env ? wrapWithEnv(command, definition.env) : command,
+              owner.spawnUser
+            )
+          : command,
+        {
+          name: definition.name,
+          workingDir: cwd,
+          cols: definition.cols,
+          rows: definition.rows,
+          titleMode: definition.titleMode as TitleMode | undefined,
+          env: definition.env,
+          workspace: workspace.name,
+          userId: owner.userId,
+          ...gitInfo,
+        }
+      );
+      sessions.push({ name: definition.name, sessionId, created: true });
+    }
+
+    logger.log(
+      `workspace ${name} is up (${sessions.filter((s) => s.created).length} of ${sessions.length} sessions started)`
+    );
+    return { workspace: name, sessions, layoutPath: this.getLayoutPath(workspace, sessions) };
+  }
+
+  /**
+   * Kill every running session of the workspace
+   */
+  async down(name: string): Promise<WorkspaceDownResult> {
+    // Only the tag matters here so workspaces deleted from the file can still be stopped
+    const running = await this.getRunningSessions(name);
+    const killed: string[] = [];
+
+    for (const sessionId of running.values()) {
+      try {
+        await this.ptyManager.killSession(sessionId);
+        killed.push(sessionId);
+      } catch (error) {
+        logger.warn(`failed to kill session ${sessionId} of workspace ${name}:`, error);
+      }
+    }
+
+    logger.log(`workspace ${name} is down (${killed.length} sessions killed)`);
+    return { workspace: name, killed };
+  }
+
+  private getLayoutPath(
+    workspace: WorkspaceDefinition,
+    sessions: WorkspaceUpResult['sessions']
+  ): string {
+    const paneNames = workspace.layout?.panes ?? sessions.map((s) => s.name);
+    const ids = paneNames
+      .map((pane) => sessions.find((s) => s.name === pane)?.sessionId)
+      .filter((id): id is string => !!id)
+      // Further sessions stay reachable from the session list
+      .slice(0, MAX_SPLIT_PANES);
+
+    if (ids.length === 2) {
+      const [left, right] = ids.map(createPane);
+      const split = createSplit('row', left, right, workspace.layout?.ratio);
+      return `/split/${serializeSplitLayout(split)}`;
+    }
+    const layout = createGridLayout(ids);
+    if (layout?.type === 'split') return `/split/${serializeSplitLayout(layout)}`;
+    return ids.length === 1 ? `/session/${ids[0]}` : '/';
+  }
+
+  private writeWorkspaces(workspaces: WorkspaceDefinition[]): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify({ version: 1, workspaces }, null, 2), 'utf8');
+  }
+}
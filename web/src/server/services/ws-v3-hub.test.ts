@@ -1,10 +1,12 @@
 import { EventEmitter } from 'events';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { WebSocket } from 'ws';
+import { inflateRawSync } from 'zlib';
 import type { ServerEvent } from '../../shared/types.js';
 import { ServerEventType } from '../../shared/types.js';
 import {
   decodeWsV3Frame,
+  decodeWsV3StdoutPayload,
   encodeWsV3Frame,
   encodeWsV3ResizePayload,
   encodeWsV3SubscribePayload,
@@ -14,7 +16,9 @@ import {
 import type { PtyManager } from '../pty/index.js';
 import type { CastOutputHub, CastOutputHubListener } from './cast-output-hub.js';
 import type { GitStatusHub, GitStatusHubListener } from './git-status-hub.js';
+import type { RemoteRegistry } from './remote-registry.js';
 import type { SessionMonitor } from './session-monitor.js';
+import { ShareTokenService } from './share-token-service.js';
 import type { TerminalManager } from './terminal-manager.js';
 import { type WebSocketRequestV3, WsV3Hub } from './ws-v3-hub.js';
 
@@ -30,6 +34,7 @@ vi.mock('../utils/logger.js', () => ({
 
 class FakeWebSocket extends EventEmitter {
   readyState = WebSocket.OPEN;
+  bufferedAmount = 0;
   sent: Uint8Array[] = [];
   send = vi.fn((data: Uint8Array) => {
     this.sent.push(new Uint8Array(data));
@@ -97,6 +102,15 @@ describe('WsV3Hub', () => {
         return vi.fn();
       }),
       encodeSnapshot: vi.fn(() => Buffer.from([9, 9, 9])),
+      encodeSnapshotDelta: vi.fn(() => Buffer.from([8, 8])),
+      getBufferSnapshot: vi.fn(async () => ({
+        cols: 80,
+        rows: 24,
+        viewportY: 0,
+        cursorX: 0,
+        cursorY: 0,
+        cells: [],
+      })),
     } as unknown as TerminalManager;
 
     type CastSubscribeFn = (sessionId: string, listener: CastOutputHubListener) => () => void;
@@ -132,6 +146,7 @@ describe('WsV3Hub', () => {
   });
 
   afterEach(() => {
+    vi.useRealTimers();
     vi.restoreAllMocks();
   });
 
@@ -228,6 +243,192 @@ describe('WsV3Hub', () => {
     expect(JSON.parse(new TextDecoder().decode(err.payload))).toEqual({ message: 'boom' });
   });
 
+  it('prefixes stdout with offsets and resumes from a cursor when asked', async () => {
+    const ws = new FakeWebSocket();
+    hub.handleClientConnection(ws as unknown as WebSocket, {} as unknown as WebSocketRequestV3);
+    const flags = WsV3SubscribeFlags.Stdout | WsV3SubscribeFlags.StdoutOffsets;
+
+    sendBinaryFrame(
+      ws,
+      encodeWsV3Frame({
+        type: WsV3MessageType.SUBSCRIBE,
+        sessionId: 's1',
+        payload: encodeWsV3SubscribePayload({ flags }),
+      })
+    );
+    await flush();
+
+    const ack = decodeLastFrame(ws);
+    expect(ack.type).toBe(WsV3MessageType.EVENT);
+    expect(JSON.parse(new TextDecoder().decode(ack.payload))).toEqual({
+      kind: 'stdout-resume',
+      resumed: false,
+    });
+
+    if (!castListener) throw new Error('expected cast listener');
+    castListener({ kind: 'output', data: 'hello', historical: false, offset: 42 });
+    await flush();
+    const stdout = decodeWsV3StdoutPayload(decodeLastFrame(ws).payload);
+    expect(stdout?.offset).toBe(42);
+    expect(new TextDecoder().decode(stdout?.data)).toBe('hello');
+
+    sendBinaryFrame(
+      ws,
+      encodeWsV3Frame({
+        type: WsV3MessageType.SUBSCRIBE,
+        sessionId: 's1',
+        payload: encodeWsV3SubscribePayload({ flags, resumeFromOffset: 42 }),
+      })
+    );
+    await flush();
+
+    expect(castOutputHub.subscribe).toHaveBeenLastCalledWith('s1', expect.any(Function), 42);
+    castListener({ kind: 'resume', resumed: true });
+    await flush();
+    expect(JSON.parse(new TextDecoder().decode(decodeLastFrame(ws).payload))).toEqual({
+      kind: 'stdout-resume',
+      resumed: true,
+    });
+  });
+
+  it('drops stdout for a slow client and sends snapshots until it catches up', async () => {
+    const ws = new FakeWebSocket();
+    hub.handleClientConnection(ws as unknown as WebSocket, {} as unknown as WebSocketRequestV3);
+
+    sendBinaryFrame(
+      ws,
+      encodeWsV3Frame({
+        type: WsV3MessageType.HELLO,
+        payload: new TextEncoder().encode(JSON.stringify({ stdoutSnapshots: true })),
+      })
+    );
+    sendBinaryFrame(
+      ws,
+      encodeWsV3Frame({
+        type: WsV3MessageType.SUBSCRIBE,
+        sessionId: 's1',
+        payload: encodeWsV3SubscribePayload({
+          flags: WsV3SubscribeFlags.Stdout | WsV3SubscribeFlags.Events,
+        }),
+      })
+    );
+    await flush();
+    if (!castListener) throw new Error('expected cast listener');
+
+    vi.useFakeTimers();
+    ws.bufferedAmount = 2 * 1024 * 1024;
+    const sentBefore = ws.sent.length;
+    castListener({ kind: 'output', data: 'lost', historical: false, offset: 10 });
+    castListener({ kind: 'output', data: 'also lost', historical: false, offset: 20 });
+
+    const frames = ws.sent.slice(sentBefore).map((raw) => decodeWsV3Frame(raw));
+    expect(frames.map((frame) => frame?.type)).toEqual([WsV3MessageType.EVENT]);
+    expect(JSON.parse(new TextDecoder().decode(frames[0]?.payload))).toMatchObject({
+      kind: 'backpressure',
+      congested: true,
+    });
+
+    ws.bufferedAmount = 0;
+    await vi.advanceTimersByTimeAsync(250);
+
+    const recovery = ws.sent.slice(sentBefore + 1).map((raw) => decodeWsV3Frame(raw));
+    expect(recovery.map((frame) => frame?.type)).toEqual([
+      WsV3MessageType.SNAPSHOT_VT,
+      WsV3MessageType.EVENT,
+    ]);
+    const caughtUp = JSON.parse(new TextDecoder().decode(recovery[1]?.payload));
+    expect(caughtUp).toMatchObject({ kind: 'backpressure', congested: false, droppedFrames: 2 });
+    expect(caughtUp.droppedBytes).toBeGreaterThan('lostalso lost'.length);
+
+    castListener({ kind: 'output', data: 'back', historical: false, offset: 30 });
+    const stdout = decodeLastFrame(ws);
+    expect(stdout.type).toBe(WsV3MessageType.STDOUT);
+    expect(new TextDecoder().decode(stdout.payload)).toBe('back');
+  });
+
+  it('keeps sending stdout it cannot resync, up to the hard cap', async () => {
+    const ws = new FakeWebSocket();
+    hub.handleClientConnection(ws as unknown as WebSocket, {} as unknown as WebSocketRequestV3);
+    sendBinaryFrame(
+      ws,
+      encodeWsV3Frame({
+        type: WsV3MessageType.SUBSCRIBE,
+        sessionId: 's1',
+        payload: encodeWsV3SubscribePayload({ flags: WsV3SubscribeFlags.Stdout }),
+      })
+    );
+    await flush();
+    if (!castListener) throw new Error('expected cast listener');
+
+    // No HELLO, so no stdoutSnapshots: dropping would lose this output for good
+    ws.bufferedAmount = 2 * 1024 * 1024;
+    castListener({ kind: 'output', data: 'kept', historical: false, offset: 10 });
+    const stdout = decodeLastFrame(ws);
+    expect(stdout.type).toBe(WsV3MessageType.STDOUT);
+    expect(new TextDecoder().decode(stdout.payload)).toBe('kept');
+
+    ws.bufferedAmount = 16 * 1024 * 1024;
+    const sentBefore = ws.sent.length;
+    castListener({ kind: 'output', data: 'too much', historical: false, offset: 20 });
+    expect(ws.sent.length).toBe(sentBefore);
+    expect(ws.close).toHaveBeenCalledWith(1013, 'Client too slow');
+  });
+
+  it('never drops relayed stdout, since remote sessions cannot be resynced', async () => {
+    const remoteWs = new FakeWebSocket();
+    const remoteRegistry = {
+      getRemoteBySessionId: vi.fn(() => ({ id: 'r1' })),
+      getRemote: vi.fn(() => ({ id: 'r1', name: 'remote', url: 'http://remote', token: 't' })),
+      getTunnel: vi.fn(() => ({ ws: remoteWs })),
+    } as unknown as RemoteRegistry;
+    hub = new WsV3Hub({
+      ptyManager,
+      terminalManager,
+      castOutputHub,
+      gitStatusHub,
+      sessionMonitor: sessionMonitor as unknown as SessionMonitor,
+      remoteRegistry,
+      isHQMode: true,
+    });
+
+    const ws = new FakeWebSocket();
+    hub.handleClientConnection(ws as unknown as WebSocket, {} as unknown as WebSocketRequestV3);
+    sendBinaryFrame(
+      ws,
+      encodeWsV3Frame({
+        type: WsV3MessageType.HELLO,
+        payload: new TextEncoder().encode(JSON.stringify({ stdoutSnapshots: true })),
+      })
+    );
+    sendBinaryFrame(
+      ws,
+      encodeWsV3Frame({
+        type: WsV3MessageType.SUBSCRIBE,
+        sessionId: 'remote-1',
+        payload: encodeWsV3SubscribePayload({ flags: WsV3SubscribeFlags.Stdout }),
+      })
+    );
+    await flush();
+
+    ws.bufferedAmount = 2 * 1024 * 1024;
+    remoteWs.emit(
+      'message',
+      Buffer.from(
+        encodeWsV3Frame({
+          type: WsV3MessageType.STDOUT,
+          sessionId: 'remote-1',
+          payload: new TextEncoder().encode('relayed'),
+        })
+      ),
+      true
+    );
+
+    const stdout = decodeLastFrame(ws);
+    expect(stdout.type).toBe(WsV3MessageType.STDOUT);
+    expect(new TextDecoder().decode(stdout.payload)).toBe('relayed');
+    expect(terminalManager.getBufferSnapshot).not.toHaveBeenCalled();
+  });
+
   it('forwards VT snapshots when subscribed', async () => {
     const ws = new FakeWebSocket();
     hub.handleClientConnection(ws as unknown as WebSocket, {} as unknown as WebSocketRequestV3);
@@ -265,6 +466,156 @@ describe('WsV3Hub', () => {
     expect(Array.from(snap.payload)).toEqual([9, 9, 9]);
   });
 
+  it('switches to delta snapshots when HELLO offers snapshot v2', async () => {
+    const ws = new FakeWebSocket();
+    hub.handleClientConnection(ws as unknown as WebSocket, {} as unknown as WebSocketRequestV3);
+
+    sendBinaryFrame(
+      ws,
+      encodeWsV3Frame({
+        type: WsV3MessageType.HELLO,
+        payload: new TextEncoder().encode(JSON.stringify({ snapshotVersions: [1, 2] })),
+      })
+    );
+    await flush();
+
+    const welcome = decodeLastFrame(ws);
+    expect(welcome.type).toBe(WsV3MessageType.WELCOME);
+    expect(JSON.parse(new TextDecoder().decode(welcome.payload))).toMatchObject({
+      ok: true,
+      snapshotVersion: 2,
+    });
+
+    sendBinaryFrame(
+      ws,
+      encodeWsV3Frame({
+        type: WsV3MessageType.SUBSCRIBE,
+        sessionId: 's1',
+        payload: encodeWsV3SubscribePayload({ flags: WsV3SubscribeFlags.Snapshots }),
+      })
+    );
+    await flush();
+
+    if (!snapshotListener) throw new Error('expected snapshot listener');
+    const snapshot = { cols: 80, rows: 24, viewportY: 0, cursorX: 0, cursorY: 0, cells: [] };
+    snapshotListener('s1', snapshot);
+    snapshotListener('s1', snapshot);
+    await flush();
+
+    expect(Array.from(decodeLastFrame(ws).payload)).toEqual([8, 8]);
+    expect(terminalManager.encodeSnapshot).not.toHaveBeenCalled();
+    const calls = vi.mocked(terminalManager.encodeSnapshotDelta).mock.calls;
+    expect(calls).toHaveLength(2);
+    // One delta state per subscription, carried from frame to frame
+    expect(calls[0][1]).toBe(calls[1][1]);
+  });
+
+  it('compresses large frames after HELLO negotiates deflate and counts the savings', async () => {
+    const ws = new FakeWebSocket();
+    hub.handleClientConnection(ws as unknown as WebSocket, {} as unknown as WebSocketRequestV3);
+
+    sendBinaryFrame(
+      ws,
+      encodeWsV3Frame({
+        type: WsV3MessageType.HELLO,
+        payload: new TextEncoder().encode(JSON.stringify({ compression: ['gzip', 'deflate'] })),
+      })
+    );
+    await flush();
+    expect(JSON.parse(new TextDecoder().decode(decodeLastFrame(ws).payload))).toMatchObject({
+      compression: 'deflate',
+    });
+
+    sendBinaryFrame(
+      ws,
+      encodeWsV3Frame({
+        type: WsV3MessageType.SUBSCRIBE,
+        sessionId: 's1',
+        payload: encodeWsV3SubscribePayload({ flags: WsV3SubscribeFlags.Stdout }),
+      })
+    );
+    await flush();
+    if (!castListener) throw new Error('expected cast listener');
+
+    castListener({ kind: 'output', data: 'hi' });
+    await flush();
+    expect(decodeLastFrame(ws).type).toBe(WsV3MessageType.STDOUT);
+
+    const output = 'build ok\r\n'.repeat(200);
+    castListener({ kind: 'output', data: output });
+    await vi.waitFor(() => expect(decodeLastFrame(ws).type).toBe(WsV3MessageType.COMPRESSED));
+    const compressed = decodeLastFrame(ws);
+    const inner = decodeWsV3Frame(inflateRawSync(compressed.payload));
+    expect(inner?.type).toBe(WsV3MessageType.STDOUT);
+    expect(inner?.sessionId).toBe('s1');
+    expect(new TextDecoder().decode(inner?.payload)).toBe(output);
+
+    const [stats] = hub.getConnectionStats();
+    expect(stats).toMatchObject({ compression: 'deflate', compressedFrames: 1, framesReceived: 2 });
+    expect(stats.framesSent).toBe(ws.sent.length);
+    expect(stats.bytesSent).toBe(ws.sent.reduce((sum, frame) => sum + frame.byteLength, 0));
+    expect(stats.uncompressedBytesSent - stats.bytesSent).toBeGreaterThan(output.length / 2);
+  });
+
+  it('keeps frames in order while larger ones are being compressed', async () => {
+    const ws = new FakeWebSocket();
+    hub.handleClientConnection(ws as unknown as WebSocket, {} as unknown as WebSocketRequestV3);
+    sendBinaryFrame(
+      ws,
+      encodeWsV3Frame({
+        type: WsV3MessageType.HELLO,
+        payload: new TextEncoder().encode(JSON.stringify({ compression: ['deflate'] })),
+      })
+    );
+    sendBinaryFrame(
+      ws,
+      encodeWsV3Frame({
+        type: WsV3MessageType.SUBSCRIBE,
+        sessionId: 's1',
+        payload: encodeWsV3SubscribePayload({ flags: WsV3SubscribeFlags.Stdout }),
+      })
+    );
+    await flush();
+    if (!castListener) throw new Error('expected cast listener');
+
+    const sentBefore = ws.sent.length;
+    castListener({ kind: 'output', data: 'first '.repeat(100) });
+    castListener({ kind: 'output', data: 'second' });
+    castListener({ kind: 'output', data: 'third '.repeat(100) });
+    expect(ws.sent.length).toBe(sentBefore);
+
+    await vi.waitFor(() => expect(ws.sent.length).toBe(sentBefore + 3));
+    const outputs = ws.sent.slice(sentBefore).map((raw) => {
+      const frame = decodeWsV3Frame(raw);
+      const inner =
+        frame?.type === WsV3MessageType.COMPRESSED
+          ? decodeWsV3Frame(inflateRawSync(frame.payload))
+          : frame;
+      return new TextDecoder().decode(inner?.payload).slice(0, 6);
+    });
+    expect(outputs).toEqual(['first ', 'second', 'third ']);
+  });
+
+  it('never compresses for clients that did not ask', async () => {
+    const ws = new FakeWebSocket();
+    hub.handleClientConnection(ws as unknown as WebSocket, {} as unknown as WebSocketRequestV3);
+    sendBinaryFrame(
+      ws,
+      encodeWsV3Frame({
+        type: WsV3MessageType.SUBSCRIBE,
+        sessionId: 's1',
+        payload: encodeWsV3SubscribePayload({ flags: WsV3SubscribeFlags.Stdout }),
+      })
+    );
+    await flush();
+    if (!castListener) throw new Error('expected cast listener');
+
+    castListener({ kind: 'output', data: 'x'.repeat(4096) });
+    await flush();
+    expect(decodeLastFrame(ws).type).toBe(WsV3MessageType.STDOUT);
+    expect(hub.getConnectionStats()[0]).toMatchObject({ compression: null, compressedFrames: 0 });
+  });
+
   it('routes input/resize/kill to PtyManager for local sessions', async () => {
     const ws = new FakeWebSocket();
     hub.handleClientConnection(ws as unknown as WebSocket, {} as unknown as WebSocketRequestV3);
@@ -385,4 +736,224 @@ describe('WsV3Hub', () => {
       gitBranch: 'main',
     });
   });
+
+  it('rejects control frames and foreign sessions for share-token clients', async () => {
+    const ws = new FakeWebSocket();
+    hub.handleClientConnection(
+      ws as unknown as WebSocket,
+      { authMethod: 'share-token', shareSessionId: 's1' } as unknown as WebSocketRequestV3
+    );
+
+    sendBinaryFrame(
+      ws,
+      encodeWsV3Frame({
+        type: WsV3MessageType.SUBSCRIBE,
+        sessionId: 's2',
+        payload: encodeWsV3SubscribePayload({ flags: WsV3SubscribeFlags.Stdout }),
+      })
+    );
+    await flush();
+    const denied = decodeLastFrame(ws);
+    expect(denied.type).toBe(WsV3MessageType.ERROR);
+    expect(castOutputHub.subscribe).not.toHaveBeenCalled();
+
+    sendBinaryFrame(
+      ws,
+      encodeWsV3Frame({
+        type: WsV3MessageType.SUBSCRIBE,
+        sessionId: 's1',
+        payload: encodeWsV3SubscribePayload({ flags: WsV3SubscribeFlags.Stdout }),
+      })
+    );
+    sendBinaryFrame(
+      ws,
+      encodeWsV3Frame({
+        type: WsV3MessageType.INPUT_TEXT,
+        sessionId: 's1',
+        payload: new TextEncoder().encode('rm -rf /'),
+      })
+    );
+    sendBinaryFrame(
+      ws,
+      encodeWsV3Frame({
+        type: WsV3MessageType.RESIZE,
+        sessionId: 's1',
+        payload: encodeWsV3ResizePayload(80, 24),
+      })
+    );
+    sendBinaryFrame(
+      ws,
+      encodeWsV3Frame({
+        type: WsV3MessageType.KILL,
+        sessionId: 's1',
+        payload: new TextEncoder().encode('SIGKILL'),
+      })
+    );
+    await flush();
+
+    expect(castOutputHub.subscribe).toHaveBeenCalledWith('s1', expect.any(Function));
+    expect(ptyManager.sendInput).not.toHaveBeenCalled();
+    expect(ptyManager.resizeSession).not.toHaveBeenCalled();
+    expect(ptyManager.killSession).not.toHaveBeenCalled();
+    const err = decodeLastFrame(ws);
+    expect(err.type).toBe(WsV3MessageType.ERROR);
+    expect(JSON.parse(new TextDecoder().decode(err.payload)).message).toContain('read-only');
+  });
+
+  it('checks frames from API token clients against the token scopes', async () => {
+    const ws = new FakeWebSocket();
+    hub.handleClientConnection(
+      ws as unknown as WebSocket,
+      {
+        authMethod: 'api-token',
+        apiToken: { id: 't1', scopes: ['sessions:read', 'sessions:input'] },
+      } as unknown as WebSocketRequestV3
+    );
+
+    sendBinaryFrame(
+      ws,
+      encodeWsV3Frame({
+        type: WsV3MessageType.INPUT_TEXT,
+        sessionId: 's1',
+        payload: new TextEncoder().encode('ls\n'),
+      })
+    );
+    sendBinaryFrame(
+      ws,
+      encodeWsV3Frame({
+        type: WsV3MessageType.KILL,
+        sessionId: 's1',
+        payload: new TextEncoder().encode('SIGKILL'),
+      })
+    );
+    await flush();
+
+    expect(ptyManager.sendInput).toHaveBeenCalledWith('s1', { text: 'ls\n' });
+    expect(ptyManager.killSession).not.toHaveBeenCalled();
+    const err = decodeLastFrame(ws);
+    expect(err.type).toBe(WsV3MessageType.ERROR);
+    expect(JSON.parse(new TextDecoder().decode(err.payload)).message).toContain('sessions:create');
+  });
+
+  it('closes share-token clients once their share is revoked or expires', async () => {
+    vi.useFakeTimers();
+    const shareTokenService = new ShareTokenService();
+    hub = new WsV3Hub({
+      ptyManager,
+      terminalManager,
+      castOutputHub,
+      gitStatusHub,
+      sessionMonitor: null,
+      remoteRegistry: null,
+      isHQMode: false,
+      shareTokenService,
+    });
+    const revoked = shareTokenService.createShare('s1');
+    const expiring = shareTokenService.createShare('s1', { ttlMs: 60000 });
+
+    const connect = (shareId: string) => {
+      const ws = new FakeWebSocket();
+      hub.handleClientConnection(
+        ws as unknown as WebSocket,
+        {
+          authMethod: 'share-token',
+          userId: `share:${shareId}`,
+          shareSessionId: 's1',
+        } as unknown as WebSocketRequestV3
+      );
+      return ws;
+    };
+    const revokedClient = connect(revoked.id);
+    const expiringClient = connect(expiring.id);
+    const owner = new FakeWebSocket();
+    hub.handleClientConnection(owner as unknown as WebSocket, {} as WebSocketRequestV3);
+
+    shareTokenService.revokeShare('s1', revoked.id);
+    expect(revokedClient.close).toHaveBeenCalled();
+    expect(expiringClient.close).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(60000);
+    expect(expiringClient.close).toHaveBeenCalled();
+    expect(owner.close).not.toHaveBeenCalled();
+    shareTokenService.destroy();
+  });
+
+  it('lets only the driver send input and hands control over on grant', async () => {
+    const subscribeViewer = (ws: FakeWebSocket) =>
+      sendBinaryFrame(
+        ws,
+        encodeWsV3Frame({
+          type: WsV3MessageType.SUBSCRIBE,
+          sessionId: 's1',
+          payload: encodeWsV3SubscribePayload({
+            flags: WsV3SubscribeFlags.Stdout | WsV3SubscribeFlags.Events,
+          }),
+        })
+      );
+    const sendText = (ws: FakeWebSocket, text: string) =>
+      sendBinaryFrame(
+        ws,
+        encodeWsV3Frame({
+          type: WsV3MessageType.INPUT_TEXT,
+          sessionId: 's1',
+          payload: new TextEncoder().encode(text),
+        })
+      );
+    const sendControl = (ws: FakeWebSocket, control: object) =>
+      sendBinaryFrame(
+        ws,
+        encodeWsV3Frame({
+          type: WsV3MessageType.CONTROL,
+          sessionId: 's1',
+          payload: new TextEncoder().encode(JSON.stringify(control)),
+        })
+      );
+    const welcomeClientId = (ws: FakeWebSocket) => {
+      const first = ws.sent[0];
+      if (!first) throw new Error('expected welcome frame');
+      const welcome = decodeWsV3Frame(first);
+      return JSON.parse(new TextDecoder().decode(welcome?.payload)).clientId as string;
+    };
+    const lastPresence = (ws: FakeWebSocket) =>
+      JSON.parse(new TextDecoder().decode(decodeLastFrame(ws).payload));
+
+    const a = new FakeWebSocket();
+    const b = new FakeWebSocket();
+    hub.handleClientConnection(a as unknown as WebSocket, {} as unknown as WebSocketRequestV3);
+    hub.handleClientConnection(b as unknown as WebSocket, {} as unknown as WebSocketRequestV3);
+    const aId = welcomeClientId(a);
+    const bId = welcomeClientId(b);
+    expect(aId).not.toBe(bId);
+
+    subscribeViewer(a);
+    subscribeViewer(b);
+    await flush();
+    expect(lastPresence(a)).toMatchObject({ kind: 'presence', driverClientId: null });
+    expect(lastPresence(a).viewers).toHaveLength(2);
+
+    // First input claims control; the other viewer becomes an observer.
+    sendText(a, 'ls');
+    sendText(b, 'whoami');
+    await flush();
+    expect(ptyManager.sendInput).toHaveBeenCalledTimes(1);
+    expect(ptyManager.sendInput).toHaveBeenCalledWith('s1', { text: 'ls' });
+    expect(lastPresence(b)).toMatchObject({ selfClientId: bId, driverClientId: aId });
+
+    sendControl(b, { action: 'request' });
+    await flush();
+    expect(lastPresence(a).pendingRequests).toEqual([bId]);
+
+    sendControl(a, { action: 'grant', clientId: bId });
+    sendText(b, 'whoami');
+    sendText(a, 'exit');
+    await flush();
+    expect(ptyManager.sendInput).toHaveBeenCalledTimes(2);
+    expect(ptyManager.sendInput).toHaveBeenLastCalledWith('s1', { text: 'whoami' });
+
+    // Driver disconnect frees control for the remaining viewer.
+    b.close();
+    await flush();
+    expect(lastPresence(a)).toMatchObject({ driverClientId: null, pendingRequests: [] });
+    expect(lastPresence(a).viewers).toHaveLength(1);
+  });
 });
@@ -1,25 +1,61 @@
+import { randomUUID } from 'crypto';
 import type { IncomingMessage } from 'http';
 import { WebSocket } from 'ws';
-import type { ServerEvent, SpecialKey } from '../../shared/types.js';
+import { deflateRaw } from 'zlib';
+import type {
+  ApiToken,
+  ApiTokenScope,
+  ServerEvent,
+  SessionShare,
+  SpecialKey,
+} from '../../shared/types.js';
 import {
   decodeWsV3Frame,
   decodeWsV3ResizePayload,
   decodeWsV3SubscribePayload,
   encodeWsV3Frame,
   encodeWsV3ResizePayload,
+  encodeWsV3StdoutPayload,
   encodeWsV3SubscribePayload,
+  type WsV3Compression,
+  type WsV3ControlPayload,
+  type WsV3HelloPayload,
   WsV3MessageType,
   WsV3SubscribeFlags,
+  type WsV3WelcomePayload,
 } from '../../shared/ws-v3.js';
 import type { PtyManager } from '../pty/index.js';
 import { createLogger } from '../utils/logger.js';
+import type { AuditActor, AuditLog } from './audit-log.js';
 import type { CastOutputHub, CastOutputHubListener } from './cast-output-hub.js';
 import type { GitStatusHub, GitStatusHubListener } from './git-status-hub.js';
 import type { RemoteRegistry } from './remote-registry.js';
 import type { SessionMonitor } from './session-monitor.js';
-import type { TerminalManager } from './terminal-manager.js';
+import {
+  createSingleUserOwnership,
+  type SessionOwnership,
+  type SessionUser,
+} from './session-ownership.js';
+import { SessionPresenceTracker } from './session-presence.js';
+import type { ShareTokenService } from './share-token-service.js';
+import {
+  createSnapshotDeltaState,
+  type SnapshotDeltaState,
+  type TerminalManager,
+} from './terminal-manager.js';
 
 const logger = createLogger('ws-v3-hub');
+
+// Slow consumers: once this much is queued on a client socket its STDOUT is
+// dropped until the queue drains below the low-water mark.
+const BACKPRESSURE_HIGH_WATER_BYTES = 1024 * 1024;
+const BACKPRESSURE_LOW_WATER_BYTES = 256 * 1024;
+const BACKPRESSURE_CHECK_INTERVAL_MS = 250;
+const BACKPRESSURE_SNAPSHOT_INTERVAL_MS = 1000;
+// STDOUT that can't be replaced by a snapshot is never dropped; past this the client is disconnected
+const BACKPRESSURE_MAX_BUFFERED_BYTES = 16 * 1024 * 1024;
+// Smaller frames rarely shrink enough to be worth the CPU
+const COMPRESSION_MIN_BYTES = 256;
 const utf8Decoder = new TextDecoder();
 const utf8Encoder = new TextEncoder();
 
@@ -28,6 +64,8 @@ export interface WebSocketRequestV3 extends IncomingMessage {
   searchParams?: URLSearchParams;
   userId?: string;
   authMethod?: string;
+  shareSessionId?: string;
+  apiToken?: ApiToken;
 }
 
 type ClientSessionSub = {
@@ -36,12 +74,102 @@ type ClientSessionSub = {
   unsubscribeSnapshots?: () => void;
   unsubscribeGit?: () => void;
   remoteId?: string;
+  snapshotDelta?: SnapshotDeltaState;
 };
 
 type ClientState = {
+  clientId: string;
+  userId?: string;
+  authMethod?: string;
+  remoteAddress?: string;
   subs: Map<string, ClientSessionSub>;
+  // Read-only share link scope: only this session may be subscribed, no input/control.
+  shareSessionId?: string;
+  // Scopes of the API token the client connected with, if it used one
+  apiTokenScopes?: ApiTokenScope[];
+  // SNAPSHOT_VT format agreed in HELLO/WELCOME; clients that never say HELLO get v1
+  snapshotVersion: number;
+  // Client said in HELLO that it can show SNAPSHOT_VT in place of dropped STDOUT
+  stdoutSnapshots: boolean;
+  congestion?: ClientCongestion;
+  droppedBytesTotal: number;
+  // Negotiated in HELLO; larger frames to this client go out as COMPRESSED
+  compression?: WsV3Compression;
+  // Frames waiting for deflate or for one ahead of them; sent in order
+  sendQueue: PendingFrame[];
+  sendQueueBytes: number;
+  traffic: ClientTraffic;
+};
+
+type PendingFrame = { data: Uint8Array; frame?: Uint8Array };
+
+type ClientTraffic = {
+  connectedAt: number;
+  framesSent: number;
+  bytesSent: number; // on the wire, after compression
+  uncompressedBytesSent: number;
+  compressedFrames: number;
+  framesReceived: number;
+  bytesReceived: number;
+};
+
+/**
+ * Traffic counters of one v3 client connection, to see what compression
+ * saves on slow links
+ */
+export type WsV3ConnectionStats = {
+  clientId: string;
+  userId?: string;
+  remoteAddress?: string;
+  connectedAt: string;
+  compression: WsV3Compression | null;
+  framesSent: number;
+  bytesSent: number;
+  uncompressedBytesSent: number;
+  compressedFrames: number;
+  framesReceived: number;
+  bytesReceived: number;
+  droppedBytes: number;
+};
+
+// A slow client whose STDOUT is being dropped
+type ClientCongestion = {
+  droppedBytes: number;
+  droppedFrames: number;
+  sessions: Set<string>; // sessions that lost output
+  lastSnapshotAt: number;
+  timer: NodeJS.Timeout;
+  recovering?: boolean;
 };
 
+const SHARE_READ_ONLY_TYPES = new Set<WsV3MessageType>([
+  WsV3MessageType.INPUT_TEXT,
+  WsV3MessageType.INPUT_KEY,
+  WsV3MessageType.RESIZE,
+  WsV3MessageType.KILL,
+  WsV3MessageType.RESET_SIZE,
+  WsV3MessageType.CONTROL,
+]);
+
+// Scopes an API token needs to send frames that act on a session, matching
+// the HTTP routes for the same actions
+const API_TOKEN_FRAME_SCOPES = new Map<WsV3MessageType, ApiTokenScope>([
+  [WsV3MessageType.INPUT_TEXT, 'sessions:input'],
+  [WsV3MessageType.INPUT_KEY, 'sessions:input'],
+  [WsV3MessageType.RESIZE, 'sessions:input'],
+  [WsV3MessageType.RESET_SIZE, 'sessions:input'],
+  [WsV3MessageType.CONTROL, 'sessions:input'],
+  [WsV3MessageType.KILL, 'sessions:create'],
+]);
+
+// Frames that only the session's current driver may send.
+const DRIVER_ONLY_TYPES = new Set<WsV3MessageType>([
+  WsV3MessageType.INPUT_TEXT,
+  WsV3MessageType.INPUT_KEY,
+  WsV3MessageType.RESIZE,
+  WsV3MessageType.RESET_SIZE,
+]);
+
 type RemoteConn = {
   ws: WebSocket;
   remoteId: string;
@@ -57,10 +185,13 @@ type RemoteConn = {
 export class WsV3Hub {
   private clients = new WeakMap<WebSocket, ClientState>();
   private clientSockets = new Set<WebSocket>();
+  private clientsById = new Map<string, WebSocket>();
+  private presence = new SessionPresenceTracker();
   private sessionMonitorListener: ((event: ServerEvent) => void) | null = null;
 
   private remoteConnections: Map<string, RemoteConn> = new Map();
   private remoteSessionSubscribers: Map<string, Set<WebSocket>> = new Map();
+  private sessionOwnership: SessionOwnership;
 
   constructor(
     private config: {
@@ -71,32 +202,60 @@ export class WsV3Hub {
       sessionMonitor: SessionMonitor | null;
       remoteRegistry: RemoteRegistry | null;
       isHQMode: boolean;
+      sessionOwnership?: SessionOwnership;
+      auditLog?: AuditLog;
+      shareTokenService?: ShareTokenService;
     }
   ) {
+    this.sessionOwnership =
+      config.sessionOwnership ??
+      createSingleUserOwnership(config.ptyManager, config.remoteRegistry);
     this.attachSessionMonitor();
+    config.shareTokenService?.on('share-ended', (share: SessionShare) =>
+      this.closeShareClients(share)
+    );
   }
 
   handleClientConnection(ws: WebSocket, req: WebSocketRequestV3) {
-    const clientState: ClientState = { subs: new Map() };
+    const clientState: ClientState = {
+      clientId: randomUUID(),
+      userId: req.userId,
+      authMethod: req.authMethod,
+      remoteAddress: req.socket?.remoteAddress,
+      subs: new Map(),
+      shareSessionId: req.shareSessionId,
+      apiTokenScopes: req.apiToken?.scopes,
+      snapshotVersion: 1,
+      stdoutSnapshots: false,
+      droppedBytesTotal: 0,
+      sendQueue: [],
+      sendQueueBytes: 0,
+      traffic: {
+        connectedAt: Date.now(),
+        framesSent: 0,
+        bytesSent: 0,
+        uncompressedBytesSent: 0,
+        compressedFrames: 0,
+        framesReceived: 0,
+        bytesReceived: 0,
+      },
+    };
     this.clients.set(ws, clientState);
     this.clientSockets.add(ws);
+    this.clientsById.set(clientState.clientId, ws);
 
     logger.log(
       `v3 client connected (user=${req.userId || 'unknown'}, auth=${req.authMethod || 'unknown'})`
     );
 
     // Small welcome (optional)
-    this.safeSend(
-      ws,
-      encodeWsV3Frame({
-        type: WsV3MessageType.WELCOME,
-        payload: utf8Encoder.encode(JSON.stringify({ ok: true, version: 3 })),
-      })
-    );
+    this.sendWelcome(ws, clientState);
 
     ws.on('message', async (message: Buffer, isBinary: boolean) => {
       if (!isBinary) return;
 
+      clientState.traffic.framesReceived++;
+      clientState.traffic.bytesReceived += message.byteLength;
       const frame = decodeWsV3Frame(message);
       if (!frame) return;
 
@@ -118,8 +277,20 @@ export class WsV3Hub {
     });
 
     ws.on('close', () => {
+      if (clientState.congestion) clearInterval(clientState.congestion.timer);
+      const { bytesSent, uncompressedBytesSent } = clientState.traffic;
+      logger.log(
+        `v3 client ${clientState.clientId} disconnected after sending ${bytesSent} bytes` +
+          (clientState.compression
+            ? ` (${uncompressedBytesSent} uncompressed, ${savedPercent(clientState.traffic)}% saved)`
+            : '')
+      );
       this.clientSockets.delete(ws);
+      this.clientsById.delete(clientState.clientId);
       this.cleanupClient(ws);
+      for (const sessionId of this.presence.leaveAll(clientState.clientId)) {
+        this.broadcastPresence(sessionId);
+      }
     });
 
     ws.on('error', (error) => {
@@ -133,7 +304,54 @@ export class WsV3Hub {
     sessionId: string,
     payload: Uint8Array
   ) {
+    const clientState = this.getClientState(ws);
+    const shareSessionId = clientState?.shareSessionId;
+    if (shareSessionId) {
+      if (SHARE_READ_ONLY_TYPES.has(type)) {
+        throw new Error('Share link is read-only');
+      }
+      if (type === WsV3MessageType.SUBSCRIBE && sessionId !== shareSessionId) {
+        throw new Error('Share link does not grant access to this session');
+      }
+    }
+
+    const requiredScope = API_TOKEN_FRAME_SCOPES.get(type);
+    if (requiredScope && clientState?.apiTokenScopes?.includes(requiredScope) === false) {
+      throw new Error(`API token is missing the ${requiredScope} scope`);
+    }
+
+    // Multi-user mode: only the session's owner (or an admin) may use it
+    if (clientState && sessionId && !this.canAccess(clientState, sessionId)) {
+      throw new Error('Session not found');
+    }
+
+    if (clientState && sessionId && DRIVER_ONLY_TYPES.has(type)) {
+      const { allowed, changed } = this.presence.claimIfFree(sessionId, clientState.clientId);
+      if (changed) this.broadcastPresence(sessionId);
+      if (!allowed) {
+        logger.debug(
+          `dropping frame ${type} from observer ${clientState.clientId} on session ${sessionId}`
+        );
+        return;
+      }
+    }
+
     switch (type) {
+      case WsV3MessageType.HELLO: {
+        if (!clientState) return;
+        let hello: WsV3HelloPayload;
+        try {
+          hello = JSON.parse(utf8Decoder.decode(payload)) as WsV3HelloPayload;
+        } catch {
+          throw new Error('Invalid HELLO payload');
+        }
+        clientState.snapshotVersion = hello.snapshotVersions?.includes(2) ? 2 : 1;
+        clientState.stdoutSnapshots = hello.stdoutSnapshots === true;
+        clientState.compression = hello.compression?.includes('deflate') ? 'deflate' : undefined;
+        this.sendWelcome(ws, clientState);
+        return;
+      }
+
       case WsV3MessageType.PING: {
         this.safeSend(ws, encodeWsV3Frame({ type: WsV3MessageType.PONG, payload }));
         return;
@@ -142,7 +360,7 @@ export class WsV3Hub {
       case WsV3MessageType.SUBSCRIBE: {
         const sub = decodeWsV3SubscribePayload(payload);
         if (!sub) throw new Error('Invalid SUBSCRIBE payload');
-        await this.subscribe(ws, sessionId, sub.flags);
+        await this.subscribe(ws, sessionId, sub.flags, sub.resumeFromOffset);
         return;
       }
 
@@ -155,6 +373,7 @@ export class WsV3Hub {
         if (!sessionId) throw new Error('Missing sessionId for INPUT_TEXT');
         const text = utf8Decoder.decode(payload);
         this.forwardInput(sessionId, { text });
+        this.auditInput(clientState, sessionId);
         return;
       }
 
@@ -162,6 +381,7 @@ export class WsV3Hub {
         if (!sessionId) throw new Error('Missing sessionId for INPUT_KEY');
         const key = utf8Decoder.decode(payload) as SpecialKey;
         this.forwardInput(sessionId, { key });
+        this.auditInput(clientState, sessionId);
         return;
       }
 
@@ -177,6 +397,12 @@ export class WsV3Hub {
         if (!sessionId) throw new Error('Missing sessionId for KILL');
         const signal = utf8Decoder.decode(payload) || 'SIGTERM';
         await this.forwardKill(sessionId, signal);
+        if (clientState) {
+          this.config.auditLog?.record('session.kill', this.auditActor(clientState), {
+            sessionId,
+            details: { signal },
+          });
+        }
         return;
       }
 
@@ -186,23 +412,94 @@ export class WsV3Hub {
         return;
       }
 
+      case WsV3MessageType.CONTROL: {
+        if (!sessionId) throw new Error('Missing sessionId for CONTROL');
+        if (!clientState) return;
+        let control: WsV3ControlPayload;
+        try {
+          control = JSON.parse(utf8Decoder.decode(payload)) as WsV3ControlPayload;
+        } catch {
+          throw new Error('Invalid CONTROL payload');
+        }
+        this.handleControl(clientState.clientId, sessionId, control);
+        return;
+      }
+
       default:
         return;
     }
   }
 
+  private sendWelcome(ws: WebSocket, state: ClientState) {
+    const welcome: WsV3WelcomePayload = {
+      ok: true,
+      version: 3,
+      clientId: state.clientId,
+      snapshotVersion: state.snapshotVersion,
+      compression: state.compression,
+    };
+    this.safeSend(
+      ws,
+      encodeWsV3Frame({
+        type: WsV3MessageType.WELCOME,
+        payload: utf8Encoder.encode(JSON.stringify(welcome)),
+      })
+    );
+  }
+
+  private auditActor(state: ClientState): AuditActor {
+    return {
+      userId: state.userId,
+      authMethod: state.authMethod,
+      remoteAddress: state.remoteAddress,
+    };
+  }
+
+  // HQ relays its users' input over its own upstream socket
+  private auditInput(state: ClientState | null, sessionId: string) {
+    if (!state) return;
+    this.config.auditLog?.recordInput(
+      sessionId,
+      state.authMethod === 'hq-bearer' ? 'hq' : 'ws',
+      this.auditActor(state)
+    );
+  }
+
+  getConnectionStats(): WsV3ConnectionStats[] {
+    const states = [...this.clientSockets].flatMap((ws) => this.getClientState(ws) ?? []);
+    return states.map((state) => ({
+      clientId: state.clientId,
+      userId: state.userId,
+      remoteAddress: state.remoteAddress,
+      connectedAt: new Date(state.traffic.connectedAt).toISOString(),
+      compression: state.compression ?? null,
+      framesSent: state.traffic.framesSent,
+      bytesSent: state.traffic.bytesSent,
+      uncompressedBytesSent: state.traffic.uncompressedBytesSent,
+      compressedFrames: state.traffic.compressedFrames,
+      framesReceived: state.traffic.framesReceived,
+      bytesReceived: state.traffic.bytesReceived,
+      droppedBytes: state.droppedBytesTotal,
+    }));
+  }
+
   private getClientState(ws: WebSocket): ClientState | null {
     return this.clients.get(ws) ?? null;
   }
 
-  private async subscribe(ws: WebSocket, sessionId: string, flags: number) {
+  private async subscribe(
+    ws: WebSocket,
+    sessionId: string,
+    flags: number,
+    resumeFromOffset?: number
+  ) {
     const state = this.getClientState(ws);
     if (!state) return;
 
     const existing = state.subs.get(sessionId);
     if (existing) {
       // Update flags (unsubscribe/resubscribe as needed)
-      this.unsubscribe(ws, sessionId);
+      this.unsubscribe(ws, sessionId, { resubscribe: true });
     }
 
     // Global subscription (empty sessionId): only EVENT frames (ServerEvent stream).
@@ -230,9 +527,22 @@ export class WsV3Hub {
         ? this.config.remoteRegistry.getRemoteBySessionId(sessionId)
         : undefined;
 
+    // Interactive viewers (stdout subscribers) count towards session presence;
+    // snapshot-only thumbnails do not.
+    if (flags & WsV3SubscribeFlags.Stdout) {
+      this.presence.join(sessionId, state.clientId, state.userId);
+    } else {
+      this.presence.leave(sessionId, state.clientId);
+    }
+
     if (isRemote) {
-      state.subs.set(sessionId, { flags, remoteId: isRemote.id });
-      this.addRemoteSubscriber(ws, sessionId, flags, isRemote.id);
+      // Offsets refer to the remote's cast file and the upstream subscription
+      // is shared, so relayed output stays plain. Without a `stdout-resume`
+      // event clients know not to expect offsets.
+      const relayFlags = flags & ~WsV3SubscribeFlags.StdoutOffsets;
+      state.subs.set(sessionId, { flags: relayFlags, remoteId: isRemote.id });
+      this.addRemoteSubscriber(ws, sessionId, relayFlags, isRemote.id);
+      this.broadcastPresence(sessionId);
       return;
     }
 
@@ -240,17 +550,26 @@ export class WsV3Hub {
     state.subs.set(sessionId, sub);
 
     if (flags & WsV3SubscribeFlags.Stdout) {
+      const withOffsets = (flags & WsV3SubscribeFlags.StdoutOffsets) !== 0;
+      if (withOffsets && resumeFromOffset === undefined) {
+        this.sendStdoutResume(ws, sessionId, false);
+      }
+
       const stdoutListener: CastOutputHubListener = (event) => {
         if (ws.readyState !== WebSocket.OPEN) return;
         if (event.kind === 'output') {
-          this.safeSend(
+          const data = utf8Encoder.encode(event.data);
+          this.sendStdout(
             ws,
+            sessionId,
             encodeWsV3Frame({
               type: WsV3MessageType.STDOUT,
               sessionId,
-              payload: utf8Encoder.encode(event.data),
+              payload: withOffsets ? encodeWsV3StdoutPayload(event.offset, data) : data,
             })
           );
+        } else if (event.kind === 'resume') {
+          this.sendStdoutResume(ws, sessionId, event.resumed);
         } else if (event.kind === 'exit') {
           this.safeSend(
             ws,
@@ -301,7 +620,10 @@ export class WsV3Hub {
         }
       };
 
-      sub.unsubscribeStdout = this.config.castOutputHub.subscribe(sessionId, stdoutListener);
+      sub.unsubscribeStdout =
+        withOffsets && resumeFromOffset !== undefined
+          ? this.config.castOutputHub.subscribe(sessionId, stdoutListener, resumeFromOffset)
+          : this.config.castOutputHub.subscribe(sessionId, stdoutListener);
     }
 
     if (flags & WsV3SubscribeFlags.Snapshots) {
@@ -312,7 +634,16 @@ export class WsV3Hub {
           const currentFlags = state.subs.get(sessionId)?.flags ?? 0;
           if (!(currentFlags & WsV3SubscribeFlags.Snapshots)) return;
           try {
-            const encoded = this.config.terminalManager.encodeSnapshot(snapshot);
+            let encoded: Buffer;
+            if (state.snapshotVersion === 2) {
+              sub.snapshotDelta ??= createSnapshotDeltaState();
+              encoded = this.config.terminalManager.encodeSnapshotDelta(
+                snapshot,
+                sub.snapshotDelta
+              );
+            } else {
+              encoded = this.config.terminalManager.encodeSnapshot(snapshot);
+            }
             this.safeSend(
               ws,
               encodeWsV3Frame({
@@ -331,6 +662,24 @@ export class WsV3Hub {
     if (flags & WsV3SubscribeFlags.Events) {
       this.attachGitWatcher(ws, sessionId, sub);
     }
+
+    this.broadcastPresence(sessionId);
+  }
+
+  /**
+   * Tell a `StdoutOffsets` subscriber that offset-prefixed STDOUT follows, and
+   * whether it resumes from the requested offset or starts a full replay.
+   * Sent regardless of the Events flag since the client needs it to decode.
+   */
+  private sendStdoutResume(ws: WebSocket, sessionId: string, resumed: boolean) {
+    this.safeSend(
+      ws,
+      encodeWsV3Frame({
+        type: WsV3MessageType.EVENT,
+        sessionId,
+        payload: utf8Encoder.encode(JSON.stringify({ kind: 'stdout-resume', resumed })),
+      })
+    );
   }
 
   private attachGitWatcher(ws: WebSocket, sessionId: string, sub: ClientSessionSub) {
@@ -364,7 +713,7 @@ export class WsV3Hub {
     }
   }
 
-  private unsubscribe(ws: WebSocket, sessionId: string) {
+  private unsubscribe(ws: WebSocket, sessionId: string, options: { resubscribe?: boolean } = {}) {
     const state = this.getClientState(ws);
     if (!state) return;
 
@@ -385,6 +734,10 @@ export class WsV3Hub {
     sub.unsubscribeGit?.();
 
     state.subs.delete(sessionId);
+
+    if (!options.resubscribe && this.presence.leave(sessionId, state.clientId)) {
+      this.broadcastPresence(sessionId);
+    }
   }
 
   private cleanupClient(ws: WebSocket) {
@@ -396,6 +749,53 @@ export class WsV3Hub {
     }
   }
 
+  private handleControl(clientId: string, sessionId: string, control: WsV3ControlPayload) {
+    let changed = false;
+    switch (control.action) {
+      case 'request':
+        changed = this.presence.request(sessionId, clientId);
+        break;
+      case 'release':
+        changed = this.presence.release(sessionId, clientId);
+        break;
+      case 'grant':
+        if (!control.clientId) throw new Error('Missing clientId for CONTROL grant');
+        changed = this.presence.grant(sessionId, clientId, control.clientId);
+        break;
+      case 'deny':
+        if (!control.clientId) throw new Error('Missing clientId for CONTROL deny');
+        changed = this.presence.deny(sessionId, clientId, control.clientId);
+        break;
+      default:
+        throw new Error('Invalid CONTROL action');
+    }
+
+    if (changed) this.broadcastPresence(sessionId);
+  }
+
+  /**
+   * Send each interactive viewer of a session its own view of presence.
+   */
+  private broadcastPresence(sessionId: string) {
+    for (const clientId of this.presence.getViewerIds(sessionId)) {
+      const ws = this.clientsById.get(clientId);
+      if (!ws) continue;
+      const sub = this.getClientState(ws)?.subs.get(sessionId);
+      if (!sub || !(sub.flags & WsV3SubscribeFlags.Events)) continue;
+
+      this.safeSend(
+        ws,
+        encodeWsV3Frame({
+          type: WsV3MessageType.EVENT,
+          sessionId,
+          payload: utf8Encoder.encode(
+            JSON.stringify(this.presence.getPresence(sessionId, clientId))
+          ),
+        })
+      );
+    }
+  }
+
   private forwardInput(sessionId: string, input: { text?: string; key?: SpecialKey }) {
     const remote =
       this.config.isHQMode && this.config.remoteRegistry
@@ -486,23 +886,28 @@ export class WsV3Hub {
     if (existing?.ws.readyState === WebSocket.OPEN) return existing;
     if (existing?.reconnecting) return existing;
 
-    const wsUrl = `${remote.url.replace(/^http/, 'ws')}/ws`;
-
-    const ws = new WebSocket(wsUrl, {
-      headers: { Authorization: `Bearer ${remote.token}` },
-    });
-
-    const openPromise = new Promise<void>((resolve, reject) => {
-      const timeout = setTimeout(() => reject(new Error('remote ws connect timeout')), 5000);
-      ws.on('open', () => {
-        clearTimeout(timeout);
-        resolve();
-      });
-      ws.on('error', (err) => {
-        clearTimeout(timeout);
-        reject(err);
+    // Tunneled remotes already hold an open socket to us; it carries v3 frames as binary messages
+    const tunnel = registry.getTunnel(remoteId);
+    const ws =
+      tunnel?.ws ??
+      new WebSocket(`${remote.url.replace(/^http/, 'ws')}/ws`, {
+        headers: { Authorization: `Bearer ${remote.token}` },
       });
-    });
+
+    const openPromise =
+      ws.readyState === WebSocket.OPEN
+        ? Promise.resolve()
+        : new Promise<void>((resolve, reject) => {
+            const timeout = setTimeout(() => reject(new Error('remote ws connect timeout')), 5000);
+            ws.on('open', () => {
+              clearTimeout(timeout);
+              resolve();
+            });
+            ws.on('error', (err) => {
+              clearTimeout(timeout);
+              reject(err);
+            });
+          });
 
     const conn: RemoteConn = {
       ws,
@@ -653,19 +1058,238 @@ export class WsV3Hub {
         if (type !== WsV3MessageType.ERROR) continue;
       }
 
-      this.safeSend(clientWs, encodeWsV3Frame({ type, sessionId, payload }));
+      const frame = encodeWsV3Frame({ type, sessionId, payload });
+      if (type === WsV3MessageType.STDOUT) {
+        this.sendStdout(clientWs, sessionId, frame);
+      } else {
+        this.safeSend(clientWs, frame);
+      }
     }
   }
 
+  /**
+   * Send a STDOUT frame unless the client is too far behind. A client whose
+   * socket has more than the high-water mark queued loses STDOUT until it
+   * catches up, and gets snapshots of the affected sessions meanwhile.
+   *
+   * Only local sessions of clients that accept snapshots for STDOUT can be
+   * resynced that way. Their other output keeps flowing until the hard cap,
+   * where the client is disconnected and starts over on reconnect.
+   */
+  private sendStdout(ws: WebSocket, sessionId: string, frame: Uint8Array) {
+    const state = this.getClientState(ws);
+    if (!state) return;
+
+    const queued = this.queuedBytes(ws, state);
+    const sub = state.subs.get(sessionId);
+    if (!state.stdoutSnapshots || !sub || sub.remoteId) {
+      if (queued >= BACKPRESSURE_MAX_BUFFERED_BYTES) {
+        logger.warn(
+          `client ${state.clientId} has ${queued} bytes queued for output it can't resync, disconnecting`
+        );
+        ws.close(1013, 'Client too slow');
+        return;
+      }
+      this.safeSend(ws, frame);
+      return;
+    }
+
+    if (!state.congestion && queued >= BACKPRESSURE_HIGH_WATER_BYTES) {
+      logger.warn(
+        `client ${state.clientId} has ${queued} bytes queued, dropping stdout until it catches up`
+      );
+      state.congestion = {
+        droppedBytes: 0,
+        droppedFrames: 0,
+        sessions: new Set(),
+        lastSnapshotAt: 0,
+        timer: setInterval(() => this.checkCongestion(ws), BACKPRESSURE_CHECK_INTERVAL_MS),
+      };
+    }
+
+    const congestion = state.congestion;
+    if (!congestion) {
+      this.safeSend(ws, frame);
+      return;
+    }
+
+    congestion.droppedBytes += frame.byteLength;
+    congestion.droppedFrames++;
+    state.droppedBytesTotal += frame.byteLength;
+    if (!congestion.sessions.has(sessionId)) {
+      congestion.sessions.add(sessionId);
+      this.sendBackpressureEvent(ws, state, sessionId, true);
+    }
+  }
+
+  private async checkCongestion(ws: WebSocket) {
+    const state = this.getClientState(ws);
+    const congestion = state?.congestion;
+    if (!state || !congestion || congestion.recovering) return;
+
+    if (ws.readyState !== WebSocket.OPEN) {
+      clearInterval(congestion.timer);
+      state.congestion = undefined;
+      return;
+    }
+
+    const queued = this.queuedBytes(ws, state);
+    const caughtUp = queued <= BACKPRESSURE_LOW_WATER_BYTES;
+    const snapshotDue =
+      Date.now() - congestion.lastSnapshotAt >= BACKPRESSURE_SNAPSHOT_INTERVAL_MS &&
+      queued < BACKPRESSURE_HIGH_WATER_BYTES;
+    if (!caughtUp && !snapshotDue) return;
+
+    // Keep dropping while the snapshots are taken, so no output slips in
+    // between a snapshot and the recovery.
+    congestion.recovering = true;
+    try {
+      congestion.lastSnapshotAt = Date.now();
+      for (const sessionId of congestion.sessions) {
+        await this.sendResyncSnapshot(ws, state, sessionId);
+      }
+    } finally {
+      congestion.recovering = false;
+    }
+    if (!caughtUp) return;
+
+    clearInterval(congestion.timer);
+    state.congestion = undefined;
+    logger.log(
+      `client ${state.clientId} caught up after ${congestion.droppedFrames} dropped stdout frames (${congestion.droppedBytes} bytes)`
+    );
+    for (const sessionId of congestion.sessions) {
+      this.sendBackpressureEvent(ws, state, sessionId, false, congestion);
+    }
+  }
+
+  // Full (v1) snapshot that stands in for the STDOUT a congested client missed
+  private async sendResyncSnapshot(ws: WebSocket, state: ClientState, sessionId: string) {
+    const sub = state.subs.get(sessionId);
+    if (!sub || sub.remoteId) return;
+    try {
+      const snapshot = await this.config.terminalManager.getBufferSnapshot(sessionId);
+      this.safeSend(
+        ws,
+        encodeWsV3Frame({
+          type: WsV3MessageType.SNAPSHOT_VT,
+          sessionId,
+          payload: this.config.terminalManager.encodeSnapshot(snapshot),
+        })
+      );
+    } catch (error) {
+      logger.debug(`failed to snapshot session ${sessionId} for a slow client:`, error);
+    }
+  }
+
+  /**
+   * Tell an Events subscriber that its STDOUT is being dropped (`congested`)
+   * or flows again, with what was dropped in between.
+   */
+  private sendBackpressureEvent(
+    ws: WebSocket,
+    state: ClientState,
+    sessionId: string,
+    congested: boolean,
+    congestion?: ClientCongestion
+  ) {
+    const sub = state.subs.get(sessionId);
+    if (!sub || !(sub.flags & WsV3SubscribeFlags.Events)) return;
+    this.safeSend(
+      ws,
+      encodeWsV3Frame({
+        type: WsV3MessageType.EVENT,
+        sessionId,
+        payload: utf8Encoder.encode(
+          JSON.stringify({
+            kind: 'backpressure',
+            congested,
+            droppedBytes: congestion?.droppedBytes ?? 0,
+            droppedFrames: congestion?.droppedFrames ?? 0,
+            totalDroppedBytes: state.droppedBytesTotal,
+          })
+        ),
+      })
+    );
+  }
+
   private safeSend(ws: WebSocket, data: Uint8Array) {
+    if (ws.readyState !== WebSocket.OPEN) return;
+    const state = this.clients.get(ws);
+    if (state?.compression !== 'deflate') {
+      this.writeFrame(ws, state, data, data);
+      return;
+    }
+
+    // Deflate runs on the libuv thread pool, so frames queue up behind it
+    // to keep their order
+    const pending: PendingFrame = { data };
+    state.sendQueue.push(pending);
+    state.sendQueueBytes += data.byteLength;
+    if (data.byteLength < COMPRESSION_MIN_BYTES) {
+      pending.frame = data;
+      this.flushSendQueue(ws, state);
+      return;
+    }
+
+    deflateRaw(data, (error, deflated) => {
+      if (error) logger.debug(`deflate failed, sending frame uncompressed: ${error.message}`);
+      const compressed = error
+        ? data
+        : encodeWsV3Frame({ type: WsV3MessageType.COMPRESSED, payload: deflated });
+      // Frames that don't get smaller go out as they are
+      pending.frame = compressed.byteLength < data.byteLength ? compressed : data;
+      this.flushSendQueue(ws, state);
+    });
+  }
+
+  private flushSendQueue(ws: WebSocket, state: ClientState) {
+    while (state.sendQueue[0]?.frame) {
+      const { data, frame } = state.sendQueue.shift() as Required<PendingFrame>;
+      state.sendQueueBytes -= data.byteLength;
+      this.writeFrame(ws, state, data, frame);
+    }
+  }
+
+  private writeFrame(
+    ws: WebSocket,
+    state: ClientState | undefined,
+    data: Uint8Array,
+    frame: Uint8Array
+  ) {
     if (ws.readyState !== WebSocket.OPEN) return;
     try {
-      ws.send(data);
+      ws.send(frame);
+      if (state) {
+        state.traffic.framesSent++;
+        state.traffic.bytesSent += frame.byteLength;
+        state.traffic.uncompressedBytesSent += data.byteLength;
+        if (frame !== data) state.traffic.compressedFrames++;
+      }
     } catch (error) {
       logger.debug(`ws send failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
+  // Output not yet on the wire: the socket's buffer plus frames still being compressed
+  private queuedBytes(ws: WebSocket, state: ClientState): number {
+    return ws.bufferedAmount + state.sendQueueBytes;
+  }
+
+  /**
+   * Share tokens are only checked when a client connects, so cut off clients
+   * of a share once it is revoked or expires. The auth middleware names them
+   * `share:<shareId>`.
+   */
+  private closeShareClients(share: SessionShare) {
+    for (const ws of this.clientSockets) {
+      const state = this.getClientState(ws);
+      if (!state?.shareSessionId || state.userId !== `share:${share.id}`) continue;
+      logger.log(`closing client ${state.clientId} of ended share ${share.id}`);
+      ws.close(1008, 'Share link has ended');
+    }
+  }
+
   private attachSessionMonitor() {
     const monitor = this.config.sessionMonitor;
     if (!monitor) return;
@@ -675,6 +1299,15 @@ export class WsV3Hub {
     monitor.on('notification', this.sessionMonitorListener);
   }
 
+  private canAccess(state: ClientState, sessionId: string): boolean {
+    const user: SessionUser = {
+      userId: state.userId,
+      authMethod: state.authMethod,
+      shareSessionId: state.shareSessionId,
+    };
+    return this.sessionOwnership.canAccessSession(user, sessionId);
+  }
+
   private broadcastGlobalServerEvent(event: ServerEvent) {
     if (this.clientSockets.size === 0) return;
 
@@ -689,7 +1322,13 @@ export class WsV3Hub {
       const state = this.getClientState(ws);
       const globalSub = state?.subs.get('');
       if (!globalSub || !(globalSub.flags & WsV3SubscribeFlags.Events)) continue;
+      if (event.sessionId && state && !this.canAccess(state, event.sessionId)) continue;
       this.safeSend(ws, frame);
     }
   }
 }
+
+function savedPercent(traffic: ClientTraffic): number {
+  if (traffic.uncompressedBytesSent === 0) return 0;
+  return Math.round((1 - traffic.bytesSent / traffic.uncompressedBytesSent) * 100);
+}
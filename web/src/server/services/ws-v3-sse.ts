@@ -0,0 +1,52 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import type { Response } from 'express';
+import { WebSocket } from 'ws';
+
+/**
+ * Server-Sent Events stand-in for a v3 WebSocket, for networks whose proxies
+ * break WebSocket upgrades.
+ *
+ * WsV3Hub drives it like a `ws` socket: every frame the hub sends goes down
+ * the event stream as one base64 `message` event, and frames the client POSTs
+ * are emitted as binary `message`s. The stream opens with a `connection`
+ * event carrying the id those POSTs must name and how large they may be.
+ */
+export class WsV3SseSocket extends EventEmitter {
+  readonly id = randomUUID();
+  readyState: number = WebSocket.OPEN;
+
+  constructor(
+    private res: Response,
+    readonly owner: { userId?: string; shareSessionId?: string; apiTokenId?: string },
+    limits: { maxPostBytes: number; maxFramesPerPost: number }
+  ) {
+    super();
+    res.on('close', () => this.close());
+    res.write(
+      `event: connection\ndata: ${JSON.stringify({ connectionId: this.id, ...limits })}\n\n`
+    );
+  }
+
+  // Lets the hub's slow-client handling see what the response still buffers
+  get bufferedAmount(): number {
+    return this.res.writableLength;
+  }
+
+  send(data: Uint8Array) {
+    if (this.readyState !== WebSocket.OPEN) return;
+    this.res.write(`data: ${Buffer.from(data).toString('base64')}\n\n`);
+  }
+
+  receive(frame: Buffer) {
+    if (this.readyState !== WebSocket.OPEN) return;
+    this.emit('message', frame, true);
+  }
+
+  close() {
+    if (this.readyState === WebSocket.CLOSED) return;
+    this.readyState = WebSocket.CLOSED;
+    this.res.end();
+    this.emit('close');
+  }
+}
@@ -178,6 +178,7 @@ export class ZellijManager {
       cols: options?.cols || 80,
       rows: options?.rows || 24,
       titleMode: options?.titleMode || TitleMode.STATIC,
+      userId: options?.userId,
     };
 
     const session = await this.ptyManager.createSession(zellijCommand, sessionOptions);
@@ -14,6 +14,8 @@ import {
   type GitFollowResponse,
   type MessagePayload,
   MessageType,
+  type WorkspaceRequest,
+  type WorkspaceResponse,
 } from './pty/socket-protocol.js';
 import { createLogger } from './utils/logger.js';
 
@@ -130,4 +132,17 @@ export class SocketApiClient {
       MessageType.GIT_EVENT_ACK
     );
   }
+
+  /**
+   * Start, stop or list workspaces
+   */
+  async workspace(request: WorkspaceRequest): Promise<WorkspaceResponse> {
+    // Starting several sessions (and possibly worktrees) can take a while
+    return this.sendRequest<MessageType.WORKSPACE_REQUEST, WorkspaceResponse>(
+      MessageType.WORKSPACE_REQUEST,
+      request,
+      MessageType.WORKSPACE_RESPONSE,
+      30000
+    );
+  }
 }
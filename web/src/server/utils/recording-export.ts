@@ -0,0 +1,276 @@
+import * as fs from 'fs';
+import * as readline from 'readline';
+import type { SessionMarker } from '../../shared/types.js';
+import type { AsciinemaHeader } from '../pty/types.js';
+
+export interface AsciicastExportOptions {
+  /** Byte offset to start from (e.g. `lastClearOffset`); earlier output is dropped */
+  fromOffset?: number;
+}
+
+/**
+ * Build a clean asciicast v2 document from a session's `stdout` recording.
+ *
+ * Input events are always stripped so keystrokes (passwords typed at a prompt)
+ * never leave the machine, and the non-standard `exit` trailer is dropped.
+ * When trimming from an offset, timestamps are rebased to start at zero and the
+ * header size reflects the last resize before the cut.
+ */
+export async function buildAsciicast(
+  stdoutPath: string,
+  options: AsciicastExportOptions = {}
+): Promise<string> {
+  const fromOffset = options.fromOffset ?? 0;
+  let header: AsciinemaHeader | null = null;
+  const events: string[] = [];
+  let lastResize: string | null = null;
+  let timeBase: number | null = null;
+  let byteOffset = 0;
+
+  const rl = readline.createInterface({
+    input: fs.createReadStream(stdoutPath, { encoding: 'utf8' }),
+    crlfDelay: Number.POSITIVE_INFINITY,
+  });
+
+  for await (const line of rl) {
+    const lineStart = byteOffset;
+    byteOffset += Buffer.byteLength(line, 'utf8') + 1;
+    if (!line.trim()) continue;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      continue;
+    }
+
+    if (!Array.isArray(parsed)) {
+      if (!header && parsed && typeof parsed === 'object' && 'version' in parsed) {
+        header = parsed as AsciinemaHeader;
+      }
+      continue;
+    }
+
+    const [time, type, data] = parsed as [unknown, unknown, unknown];
+    if (typeof time !== 'number' || typeof data !== 'string') continue;
+    if (type !== 'o' && type !== 'r' && type !== 'm') continue;
+
+    if (lineStart < fromOffset) {
+      if (type === 'r') lastResize = data;
+      continue;
+    }
+
+    if (timeBase === null) timeBase = fromOffset > 0 ? time : 0;
+    const rebased = Math.max(0, Math.round((time - timeBase) * 1e6) / 1e6);
+    events.push(JSON.stringify([rebased, type, data]));
+  }
+
+  const outputHeader: AsciinemaHeader = { ...(header ?? { version: 2, width: 80, height: 24 }) };
+  outputHeader.version = 2;
+  if (lastResize) {
+    const [width, height] = lastResize.split('x').map((n) => Number.parseInt(n, 10));
+    if (width > 0 && height > 0) {
+      outputHeader.width = width;
+      outputHeader.height = height;
+    }
+  }
+
+  return `${[JSON.stringify(outputHeader), ...events].join('\n')}\n`;
+}
+
+/**
+ * List the marker events in a session's `stdout` recording, in write order.
+ */
+export async function readCastMarkers(stdoutPath: string): Promise<SessionMarker[]> {
+  const markers: SessionMarker[] = [];
+  const rl = readline.createInterface({
+    input: fs.createReadStream(stdoutPath, { encoding: 'utf8' }),
+    crlfDelay: Number.POSITIVE_INFINITY,
+  });
+
+  for await (const line of rl) {
+    // Cheap pre-filter: most lines are output events
+    if (!line.includes('"m"')) continue;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    if (!Array.isArray(parsed) || parsed[1] !== 'm') continue;
+    const [timestamp, , label] = parsed as [unknown, unknown, unknown];
+    if (typeof timestamp === 'number' && typeof label === 'string') {
+      markers.push({ timestamp, label });
+    }
+  }
+
+  return markers;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Wrap an asciicast in a single HTML file that plays it back without any
+ * network access, suitable for attaching to bug reports.
+ *
+ * The embedded player understands SGR colors, carriage returns, backspace and
+ * screen clears; full-screen TUIs are shown as a scrolling log. The original
+ * cast can be extracted with the "Download .cast" link.
+ */
+export function renderRecordingHtml(cast: string, title: string): string {
+  // Escape "<" so the payload can never close the script tag early
+  const castJson = JSON.stringify(cast).replace(/</g, '\\u003c');
+  const safeTitle = escapeHtml(title);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${safeTitle} – VibeTunnel recording</title>
+<style>
+  body { margin: 0; background: #0d1117; color: #c9d1d9; font: 13px/1.35 ui-monospace, SFMono-Regular, Menlo, monospace; }
+  header { display: flex; gap: 12px; align-items: center; padding: 8px 12px; background: #161b22; border-bottom: 1px solid #30363d; }
+  header h1 { font-size: 13px; margin: 0; flex: 1; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  button, select { background: #21262d; color: inherit; border: 1px solid #30363d; border-radius: 4px; padding: 2px 8px; font: inherit; cursor: pointer; }
+  input[type=range] { flex: 2; }
+  a { color: #58a6ff; }
+  #screen { margin: 0; padding: 12px; white-space: pre-wrap; word-break: break-all; height: calc(100vh - 70px); overflow: auto; box-sizing: border-box; }
+  .b { font-weight: bold; } .d { opacity: .6; } .i { font-style: italic; } .u { text-decoration: underline; }
+</style>
+</head>
+<body>
+<header>
+  <h1>${safeTitle}</h1>
+  <button id="play">Play</button>
+  <input id="seek" type="range" min="0" max="1000" value="0">
+  <span id="clock">0:00</span>
+  <select id="speed"><option>0.5</option><option selected>1</option><option>2</option><option>4</option></select>
+  <a id="download" download="recording.cast">Download .cast</a>
+</header>
+<pre id="screen"></pre>
+<script id="cast" type="application/json">${castJson}</script>
+<script>
+(function () {
+  var cast = JSON.parse(document.getElementById('cast').textContent);
+  var lines = cast.split('\\n').filter(Boolean);
+  var events = lines.slice(1).map(function (l) { return JSON.parse(l); }).filter(function (e) { return e[1] === 'o'; });
+  var duration = events.length ? events[events.length - 1][0] : 0;
+  var PALETTE = ['#484f58','#ff7b72','#3fb950','#d29922','#58a6ff','#bc8cff','#39c5cf','#b1bac4',
+                 '#6e7681','#ffa198','#56d364','#e3b341','#79c0ff','#d2a8ff','#56d4dd','#f0f6fc'];
+  var screen = document.getElementById('screen');
+  var playBtn = document.getElementById('play');
+  var seek = document.getElementById('seek');
+  var clock = document.getElementById('clock');
+  var speedSel = document.getElementById('speed');
+  document.getElementById('download').href = URL.createObjectURL(new Blob([cast], { type: 'application/x-asciicast' }));
+
+  var BLANK = {};
+  var rows, line, style, index, position, playing = false, lastTick = 0;
+
+  function color(n) {
+    if (n < 16) return PALETTE[n];
+    if (n < 232) { n -= 16; return 'rgb(' + [Math.floor(n / 36), Math.floor(n / 6) % 6, n % 6].map(function (v) { return v ? v * 40 + 55 : 0; }).join(',') + ')'; }
+    var g = (n - 232) * 10 + 8; return 'rgb(' + g + ',' + g + ',' + g + ')';
+  }
+  function applySgr(params) {
+    var p = params.length ? params.split(';').map(Number) : [0];
+    // Copy so cells already written keep their own style
+    style = Object.assign({}, style);
+    for (var i = 0; i < p.length; i++) {
+      var c = p[i];
+      if (c === 0) style = {};
+      else if (c === 1) style.b = true; else if (c === 2) style.d = true;
+      else if (c === 3) style.i = true; else if (c === 4) style.u = true;
+      else if (c === 22) { style.b = false; style.d = false; } else if (c === 23) style.i = false; else if (c === 24) style.u = false;
+      else if (c >= 30 && c <= 37) style.fg = PALETTE[c - 30]; else if (c >= 90 && c <= 97) style.fg = PALETTE[c - 82];
+      else if (c >= 40 && c <= 47) style.bg = PALETTE[c - 40]; else if (c >= 100 && c <= 107) style.bg = PALETTE[c - 92];
+      else if (c === 39) style.fg = null; else if (c === 49) style.bg = null;
+      else if ((c === 38 || c === 48) && p[i + 1] === 5) { style[c === 38 ? 'fg' : 'bg'] = color(p[i + 2]); i += 2; }
+      else if ((c === 38 || c === 48) && p[i + 1] === 2) { style[c === 38 ? 'fg' : 'bg'] = 'rgb(' + p.slice(i + 2, i + 5).join(',') + ')'; i += 4; }
+    }
+  }
+  function put(ch) {
+    line.cells[line.col] = { ch: ch, s: style };
+    line.col++;
+  }
+  function newLine() { line = { cells: [], col: 0 }; rows.push(line); }
+  function reset() { rows = []; style = {}; index = 0; position = 0; newLine(); }
+  function feed(data) {
+    for (var i = 0; i < data.length; i++) {
+      var ch = data[i];
+      if (ch === '\\x1b') {
+        var rest = data.slice(i + 1);
+        var m = /^\\[([0-?]*)[ -\\/]*([@-~])/.exec(rest) || /^\\][^\\x07\\x1b]*(?:\\x07|\\x1b\\\\)/.exec(rest) || /^[()][0-9A-Za-z]|^[@-_]/.exec(rest);
+        if (!m) continue;
+        if (m[2] === 'm') applySgr(m[1]);
+        else if (m[2] === 'J' && (m[1] === '2' || m[1] === '3')) { rows = []; newLine(); }
+        else if (m[2] === 'K') line.cells.length = line.col;
+        i += m[0].length;
+      } else if (ch === '\\n') newLine();
+      else if (ch === '\\r') line.col = 0;
+      else if (ch === '\\b') line.col = Math.max(0, line.col - 1);
+      else if (ch >= ' ') put(ch);
+    }
+  }
+  function render() {
+    var html = rows.slice(-2000).map(function (r) {
+      var out = '', open = null;
+      for (var i = 0; i < r.cells.length; i++) {
+        var c = r.cells[i], s = c ? c.s : BLANK, ch = c ? c.ch : ' ';
+        if (s !== open) {
+          if (open) out += '</span>';
+          var cls = ['b', 'd', 'i', 'u'].filter(function (k) { return s[k]; }).join(' ');
+          var css = (s.fg ? 'color:' + s.fg + ';' : '') + (s.bg ? 'background:' + s.bg + ';' : '');
+          out += '<span class="' + cls + '" style="' + css + '">';
+          open = s;
+        }
+        out += ch === '&' ? '&amp;' : ch === '<' ? '&lt;' : ch === '>' ? '&gt;' : ch;
+      }
+      return out + (open ? '</span>' : '');
+    }).join('\\n');
+    var atBottom = screen.scrollTop + screen.clientHeight >= screen.scrollHeight - 4;
+    screen.innerHTML = html;
+    if (atBottom) screen.scrollTop = screen.scrollHeight;
+    var t = Math.floor(position);
+    clock.textContent = Math.floor(t / 60) + ':' + String(t % 60).padStart(2, '0');
+    seek.value = duration ? Math.round((position / duration) * 1000) : 1000;
+  }
+  function advanceTo(time) {
+    if (time < position) reset();
+    while (index < events.length && events[index][0] <= time) feed(events[index++][2]);
+    position = time;
+  }
+  function tick(now) {
+    if (!playing) return;
+    advanceTo(Math.min(duration, position + ((now - lastTick) / 1000) * Number(speedSel.value)));
+    lastTick = now;
+    render();
+    if (position >= duration) { playing = false; playBtn.textContent = 'Replay'; return; }
+    requestAnimationFrame(tick);
+  }
+  playBtn.onclick = function () {
+    if (playing) { playing = false; playBtn.textContent = 'Play'; return; }
+    if (position >= duration) reset();
+    playing = true; playBtn.textContent = 'Pause'; lastTick = performance.now();
+    requestAnimationFrame(tick);
+  };
+  seek.oninput = function () { advanceTo((Number(seek.value) / 1000) * duration); render(); };
+
+  reset();
+  // Start on the final frame so the recording is useful without pressing play
+  advanceTo(duration);
+  render();
+})();
+</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,83 @@
+import { execFile } from 'child_process';
+import { randomBytes } from 'crypto';
+import * as fs from 'fs';
+import { promisify } from 'util';
+import type { QuickStartWorktree } from '../../types/config.js';
+import { createGitError } from './git-error.js';
+import { getMainRepositoryPath } from './git-utils.js';
+import { createLogger } from './logger.js';
+
+const logger = createLogger('session-template');
+const execFileAsync = promisify(execFile);
+
+/**
+ * Wrap a command so a setup script runs first in the same shell.
+ *
+ * The script runs with `set -e`, so a failing step aborts the session instead
+ * of starting the command in a half-prepared environment. Exports and `cd`
+ * from the script carry over because the command is `exec`ed by that shell.
+ * The original argv is passed as positional parameters, so nothing needs
+ * quoting.
+ */
+export function wrapWithPreCommand(command: string[], preCommand: string): string[] {
+  return ['/bin/sh', '-c', `set -e\n${preCommand}\nset +e\nexec "$@"`, 'vibetunnel', ...command];
+}
+
+/**
+ * Prefix a command with `env` so variables survive hand-off to a process we
+ * don't spawn ourselves (e.g. a native terminal window opened by the Mac app).
+ */
+export function wrapWithEnv(command: string[], env: Record<string, string>): string[] {
+  const assignments = Object.entries(env).map(([key, value]) => `${key}=${value}`);
+  return assignments.length > 0 ? ['env', ...assignments, ...command] : command;
+}
+
+/**
+ * Run a command as another OS user through `sudo`. The server needs
+ * passwordless sudo rights for that user (typically by running as root);
+ * otherwise `sudo -n` fails and the session exits with its error.
+ */
+export function wrapAsUser(command: string[], user: string): string[] {
+  return ['sudo', '-n', '-H', '-u', user, '--', ...command];
+}
+
+/**
+ * Create a git worktree on a new branch for a session started from `cwd`.
+ *
+ * The worktree is placed next to the main repository as `<repo>-<branch>`,
+ * matching the path the session form suggests for manually created worktrees.
+ */
+export async function createSessionWorktree(
+  cwd: string,
+  options: QuickStartWorktree
+): Promise<{ worktreePath: string; branch: string }> {
+  const git = async (args: string[], gitCwd: string) => {
+    try {
+      const { stdout } = await execFileAsync('git', args, {
+        cwd: gitCwd,
+        timeout: 10000,
+        env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+      });
+      return stdout.toString().trim();
+    } catch (error) {
+      throw createGitError(error, 'Git command failed');
+    }
+  };
+
+  const toplevel = await git(['rev-parse', '--show-toplevel'], cwd);
+  const repoPath = await getMainRepositoryPath(toplevel);
+
+  const suffix = randomBytes(3).toString('hex');
+  const branch = `${options.branchPrefix || 'session'}-${suffix}`;
+  const worktreePath = `${repoPath}-${branch.replace(/[^a-zA-Z0-9-_]/g, '-')}`;
+  if (fs.existsSync(worktreePath)) {
+    throw new Error(`Worktree path already exists: ${worktreePath}`);
+  }
+
+  const args = ['worktree', 'add', '-b', branch, worktreePath];
+  if (options.baseBranch) args.push(options.baseBranch);
+  await git(args, repoPath);
+
+  logger.log(`created worktree ${worktreePath} on branch ${branch}`);
+  return { worktreePath, branch };
+}
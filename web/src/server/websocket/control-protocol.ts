@@ -58,7 +58,9 @@ export type SessionMonitorAction =
   | 'session-exit'
   | 'command-finished'
   | 'command-error'
-  | 'bell';
+  | 'bell'
+  | 'session-idle'
+  | 'output-matched';
 
 export interface SessionMonitorEvent {
   type: SessionMonitorAction;
@@ -70,6 +72,8 @@ export interface SessionMonitorEvent {
   exitCode?: number;
   command?: string;
   duration?: number;
+  message?: string;
+  watchId?: string;
 }
 
 // Helper to create control messages
@@ -38,3 +38,11 @@ export interface MultiplexerTarget {
   window?: number; // tmux specific
   pane?: number; // tmux specific
 }
+
+/**
+ * tmux server to attach to over SSH instead of on the local machine
+ */
+export interface TmuxSshTarget {
+  host: string; // SSH destination, optionally user@host
+  socketPath: string; // tmux server socket on that host
+}
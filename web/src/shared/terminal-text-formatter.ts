@@ -104,3 +104,24 @@ export function cellsToText(cells: BufferCell[][], includeStyles = true): string
 
   return lines.join('\n');
 }
+
+// biome-ignore lint/complexity/useRegexLiterals: Avoiding control character lint errors
+const CSI_SEQUENCE = new RegExp('\\x1b\\[[0-?]*[ -/]*[@-~]', 'g');
+// biome-ignore lint/complexity/useRegexLiterals: Avoiding control character lint errors
+const OSC_SEQUENCE = new RegExp('\\x1b\\][^\\x07\\x1b]*(?:\\x07|\\x1b\\\\)', 'g');
+// biome-ignore lint/complexity/useRegexLiterals: Avoiding control character lint errors
+const OTHER_ESCAPE = new RegExp('\\x1b(?:[()*+][0-9A-Za-z]|[@-Z\\\\-_=>78])', 'g');
+// biome-ignore lint/complexity/useRegexLiterals: Avoiding control character lint errors
+const CONTROL_CHARS = new RegExp('[\\x00-\\x08\\x0b\\x0c\\x0e-\\x1f\\x7f]', 'g');
+
+/**
+ * Strip ANSI escape sequences and non-printing control characters from raw
+ * terminal output, keeping newlines, carriage returns and tabs
+ */
+export function stripAnsiCodes(text: string): string {
+  return text
+    .replace(OSC_SEQUENCE, '')
+    .replace(CSI_SEQUENCE, '')
+    .replace(OTHER_ESCAPE, '')
+    .replace(CONTROL_CHARS, '');
+}
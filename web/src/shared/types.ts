@@ -25,6 +25,8 @@ export enum ServerEventType {
   CommandFinished = 'command-finished',
   CommandError = 'command-error',
   Bell = 'bell',
+  SessionIdle = 'session-idle',
+  OutputMatched = 'output-matched',
   Connected = 'connected',
   TestNotification = 'test-notification',
 }
@@ -46,6 +48,27 @@ export interface ServerEvent {
   // Test notification specific fields
   title?: string;
   body?: string;
+  // Watch rule that produced a session-idle / output-matched event
+  watchId?: string;
+}
+
+/**
+ * Per-session rule evaluated by the server's SessionMonitor.
+ * - `idle`: notify once the session has been quiet for `idleSeconds` after producing output
+ * - `output`: notify when a line of output (ANSI stripped) matches `pattern`
+ */
+export interface SessionWatch {
+  id: string;
+  sessionId: string;
+  type: 'idle' | 'output';
+  idleSeconds?: number;
+  pattern?: string; // JavaScript regular expression source
+  caseSensitive?: boolean;
+  label?: string;
+  once?: boolean; // Remove the watch after it fires
+  createdAt: string;
+  triggerCount: number;
+  lastTriggeredAt?: string;
 }
 
 /**
@@ -93,6 +116,24 @@ export interface SessionInfo {
    * Sessions with attachedViaVT=true are spawned from within an existing VibeTunnel session.
    */
   attachedViaVT?: boolean;
+  workspace?: string; // Name of the workspace that started this session
+  userId?: string; // User that created the session, enforced in multi-user mode
+  /**
+   * The multiplexer session this session is attached to, if any.
+   * Lets HQ move the session to another host by reattaching there.
+   */
+  multiplexer?: MultiplexerRef;
+}
+
+/**
+ * Reference to the multiplexer session behind a VibeTunnel session
+ */
+export interface MultiplexerRef {
+  type: 'tmux';
+  session: string; // tmux session name
+  window?: number; // Window index, when attached to a single window
+  socketPath?: string; // tmux server socket on the host running tmux
+  sshHost?: string; // Host tmux runs on, when attached over SSH
 }
 
 /**
@@ -115,6 +156,154 @@ export interface Session extends SessionInfo {
   remoteUrl?: string;
 }
 
+/**
+ * Read-only share link scoped to a single session.
+ * Holders may view output and snapshots but never send input, resize or kill.
+ */
+export interface SessionShare {
+  id: string;
+  sessionId: string;
+  token: string;
+  label?: string;
+  createdBy?: string;
+  createdAt: string; // ISO 8601 format
+  expiresAt: string; // ISO 8601 format
+}
+
+/**
+ * Permissions an API token can carry
+ */
+export const API_TOKEN_SCOPES = [
+  'sessions:read',
+  'sessions:create',
+  'sessions:input',
+  'fs:read',
+  'fs:write',
+  'git',
+] as const;
+
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+/**
+ * Named API token for automation. The secret is only returned when the token
+ * is created; listings carry the metadata below.
+ */
+export interface ApiToken {
+  id: string;
+  name: string;
+  scopes: ApiTokenScope[];
+  createdBy?: string;
+  createdAt: string; // ISO 8601 format
+  expiresAt?: string; // ISO 8601 format, never expires when unset
+  lastUsedAt?: string; // ISO 8601 format
+}
+
+/**
+ * Security-relevant actions recorded in the audit log
+ */
+export const AUDIT_ACTIONS = [
+  'auth.login',
+  'auth.login_failed',
+  'session.create',
+  'session.kill',
+  'session.input',
+  'file.upload',
+  'file.download',
+  'config.change',
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+/**
+ * Where terminal input came from: a WebSocket client, the REST input
+ * endpoint, or an HQ server relaying its own user's input
+ */
+export type AuditInputSource = 'ws' | 'rest' | 'hq';
+
+/**
+ * Entry of the audit log (GET /api/audit)
+ */
+export interface AuditEntry {
+  timestamp: string; // ISO 8601 format
+  action: AuditAction;
+  userId?: string;
+  authMethod?: string;
+  remoteAddress?: string;
+  sessionId?: string;
+  source?: AuditInputSource; // session.input only
+  details?: Record<string, string | number | boolean>;
+}
+
+/**
+ * Viewer attached to a session over WebSocket v3
+ */
+export interface SessionViewer {
+  clientId: string;
+  userId?: string;
+  role: 'driver' | 'observer';
+  joinedAt: string; // ISO 8601 format
+}
+
+/**
+ * Presence snapshot broadcast as a per-session `EVENT` frame (`kind: 'presence'`).
+ * Only the driver's input and resize frames reach the PTY.
+ */
+export interface SessionPresence {
+  kind: 'presence';
+  sessionId: string;
+  selfClientId: string;
+  driverClientId: string | null;
+  viewers: SessionViewer[];
+  pendingRequests: string[]; // clientIds asking the driver for control
+}
+
+/**
+ * A single scrollback line matching a search query
+ */
+export interface ScrollbackSearchHit {
+  sessionId: string;
+  sessionName: string;
+  remoteName?: string;
+  timestamp: number; // seconds since session start (asciinema event time)
+  line: string;
+  before: string[];
+  after: string[];
+}
+
+/**
+ * Response of GET /api/search
+ */
+export interface ScrollbackSearchResult {
+  query: string;
+  hits: ScrollbackSearchHit[];
+  truncated: boolean; // more hits existed than the limit allowed
+}
+
+/**
+ * Bookmark written into a session recording (asciinema `m` event)
+ */
+export interface SessionMarker {
+  timestamp: number; // seconds since the recording started
+  label: string;
+}
+
+/**
+ * Response of POST /api/workspaces/:name/up
+ */
+export interface WorkspaceUpResult {
+  workspace: string;
+  sessions: Array<{ name: string; sessionId: string; created: boolean }>;
+  layoutPath: string; // client route showing the workspace, e.g. /split/:leftId/:rightId
+}
+
+/**
+ * Response of POST /api/workspaces/:name/down
+ */
+export interface WorkspaceDownResult {
+  workspace: string;
+  killed: string[]; // session IDs
+}
+
 /**
  * Terminal title management modes
  */
@@ -134,6 +323,8 @@ export interface SessionCreateOptions {
   cols?: number;
   rows?: number;
   titleMode?: TitleMode;
+  env?: Record<string, string>;
+  workspace?: string;
   gitRepoPath?: string;
   gitBranch?: string;
   gitAheadCount?: number;
@@ -141,6 +332,8 @@ export interface SessionCreateOptions {
   gitHasChanges?: boolean;
   gitIsWorktree?: boolean;
   gitMainRepoPath?: string;
+  multiplexer?: MultiplexerRef;
+  userId?: string;
 }
 
 /**
@@ -274,12 +467,13 @@ export interface PushDeviceRegistration {
 }
 
 /**
- * A persisted split group representing two sessions viewed side by side.
+ * A persisted split group representing sessions viewed together in a split layout.
  * Groups survive navigation and page refresh via localStorage.
  */
 export interface SplitGroup {
   id: string; // "group-" + Date.now()
-  sessionIds: [string, string]; // exactly 2
+  sessionIds: string[]; // two or more, in layout reading order
+  layout?: string; // serialized split layout (see shared/utils/split-layout); side by side if missing
   createdAt: number;
 }
 
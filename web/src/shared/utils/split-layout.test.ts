@@ -0,0 +1,69 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import {
+  createGridLayout,
+  createPane,
+  createSplit,
+  findAdjacentPane,
+  getLayoutSessionIds,
+  insertPane,
+  movePane,
+  parseSplitLayout,
+  removePane,
+  serializeSplitLayout,
+  setSplitRatio,
+} from './split-layout';
+
+describe('split layout', () => {
+  // a | b
+  //   | c
+  const layout = createSplit(
+    'row',
+    createPane('a'),
+    createSplit('column', createPane('b'), createPane('c'), 0.4)
+  );
+
+  it('round-trips through the URL form', () => {
+    expect(serializeSplitLayout(layout)).toBe('r(a,c40(b,c))');
+    expect(parseSplitLayout('r(a,c40(b,c))')).toEqual(layout);
+  });
+
+  it('rejects malformed layouts and duplicate sessions', () => {
+    expect(parseSplitLayout('r(a,b')).toBeNull();
+    expect(parseSplitLayout('x(a,b)')).toBeNull();
+    expect(parseSplitLayout('r(a,b)c')).toBeNull();
+    expect(parseSplitLayout('r(a,a)')).toBeNull();
+  });
+
+  it('builds grids filling rows first', () => {
+    const grid = createGridLayout(['1', '2', '3', '4', '5']);
+    expect(grid && serializeSplitLayout(grid)).toBe('c(r33(1,r(2,3)),r(4,5))');
+    expect(grid && getLayoutSessionIds(grid)).toEqual(['1', '2', '3', '4', '5']);
+  });
+
+  it('inserts, moves and removes panes', () => {
+    const inserted = insertPane(layout, 'a', 'd', 'bottom');
+    expect(serializeSplitLayout(inserted)).toBe('r(c(a,d),c40(b,c))');
+
+    expect(serializeSplitLayout(movePane(inserted, 'd', 'c', 'right'))).toBe('r(a,c40(b,r(c,d)))');
+    expect(serializeSplitLayout(movePane(inserted, 'd', 'b', 'center'))).toBe('r(c(a,b),c40(d,c))');
+
+    const removed = removePane(inserted, 'a');
+    expect(removed && serializeSplitLayout(removed)).toBe('r(d,c40(b,c))');
+    expect(removePane(createPane('a'), 'a')).toBeNull();
+  });
+
+  it('updates the ratio of a nested split', () => {
+    expect(serializeSplitLayout(setSplitRatio(layout, [1], 0.75))).toBe('r(a,c75(b,c))');
+  });
+
+  it('finds the adjacent pane in each direction', () => {
+    // c shares more of a's right edge than b does
+    expect(findAdjacentPane(layout, 'a', 'right')).toBe('c');
+    expect(findAdjacentPane(setSplitRatio(layout, [1], 0.5), 'a', 'right')).toBe('b');
+    expect(findAdjacentPane(layout, 'c', 'left')).toBe('a');
+    expect(findAdjacentPane(layout, 'b', 'down')).toBe('c');
+    expect(findAdjacentPane(layout, 'c', 'up')).toBe('b');
+    expect(findAdjacentPane(layout, 'a', 'left')).toBeNull();
+  });
+});
@@ -0,0 +1,313 @@
+/**
+ * Split layout trees
+ *
+ * A split view is a binary tree: leaves are session panes, inner nodes split
+ * their area in two along a direction. `row` puts the children side by side,
+ * `column` stacks them. Grids are rows of columns (or the other way round).
+ *
+ * Layouts travel in the URL as a compact string:
+ *   pane  := <sessionId>
+ *   split := ('r' | 'c') [percent] '(' node ',' node ')'
+ * e.g. `r(a,c40(b,d))` is `a` on the left and `b` above `d` on the right, with
+ * `b` taking 40% of the height.
+ */
+
+export type SplitDirection = 'row' | 'column';
+
+export interface SplitLayoutPane {
+  type: 'pane';
+  sessionId: string;
+}
+
+export interface SplitLayoutSplit {
+  type: 'split';
+  direction: SplitDirection;
+  // Share of the first child, between 0 and 1
+  ratio: number;
+  first: SplitLayoutNode;
+  second: SplitLayoutNode;
+}
+
+export type SplitLayoutNode = SplitLayoutPane | SplitLayoutSplit;
+
+// Path from the root to a node: 0 for `first`, 1 for `second` at each level
+export type SplitLayoutPath = number[];
+
+export type PaneDropZone = 'left' | 'right' | 'top' | 'bottom' | 'center';
+
+export interface PaneRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type PaneNavigationDirection = 'left' | 'right' | 'up' | 'down';
+
+export const DEFAULT_SPLIT_RATIO = 0.5;
+export const MAX_SPLIT_PANES = 6;
+
+export function createPane(sessionId: string): SplitLayoutPane {
+  return { type: 'pane', sessionId };
+}
+
+export function createSplit(
+  direction: SplitDirection,
+  first: SplitLayoutNode,
+  second: SplitLayoutNode,
+  ratio = DEFAULT_SPLIT_RATIO
+): SplitLayoutSplit {
+  return { type: 'split', direction, ratio, first, second };
+}
+
+/**
+ * Session IDs in reading order (left to right, top to bottom)
+ */
+export function getLayoutSessionIds(node: SplitLayoutNode): string[] {
+  if (node.type === 'pane') return [node.sessionId];
+  return [...getLayoutSessionIds(node.first), ...getLayoutSessionIds(node.second)];
+}
+
+/**
+ * Lay out sessions in equally sized cells, filling rows first.
+ * Two sessions end up side by side, four in a 2x2 grid, six in 3x2.
+ */
+export function createGridLayout(sessionIds: string[]): SplitLayoutNode | null {
+  if (sessionIds.length === 0) return null;
+
+  const columns = Math.ceil(Math.sqrt(sessionIds.length));
+  const rows: SplitLayoutNode[] = [];
+  for (let i = 0; i < sessionIds.length; i += columns) {
+    rows.push(chain('row', sessionIds.slice(i, i + columns).map(createPane)));
+  }
+  return chain('column', rows);
+}
+
+// Nest nodes so each gets an equal share of the space
+function chain(direction: SplitDirection, nodes: SplitLayoutNode[]): SplitLayoutNode {
+  const [head, ...rest] = nodes;
+  if (rest.length === 0) return head;
+  return createSplit(direction, head, chain(direction, rest), 1 / nodes.length);
+}
+
+/**
+ * Replace the pane of `targetSessionId` with a split holding it and a new
+ * pane for `sessionId`, placed on the side given by `zone`. A `center` drop
+ * replaces the target pane instead.
+ */
+export function insertPane(
+  node: SplitLayoutNode,
+  targetSessionId: string,
+  sessionId: string,
+  zone: PaneDropZone
+): SplitLayoutNode {
+  if (node.type === 'pane') {
+    if (node.sessionId !== targetSessionId) return node;
+    if (zone === 'center') return createPane(sessionId);
+
+    const direction: SplitDirection = zone === 'left' || zone === 'right' ? 'row' : 'column';
+    const newPane = createPane(sessionId);
+    return zone === 'left' || zone === 'top'
+      ? createSplit(direction, newPane, node)
+      : createSplit(direction, node, newPane);
+  }
+
+  return {
+    ...node,
+    first: insertPane(node.first, targetSessionId, sessionId, zone),
+    second: insertPane(node.second, targetSessionId, sessionId, zone),
+  };
+}
+
+/**
+ * Remove a session's pane; its sibling takes over the space of the parent split.
+ * Returns null when the last pane is removed.
+ */
+export function removePane(node: SplitLayoutNode, sessionId: string): SplitLayoutNode | null {
+  if (node.type === 'pane') return node.sessionId === sessionId ? null : node;
+
+  const first = removePane(node.first, sessionId);
+  const second = removePane(node.second, sessionId);
+  if (!first) return second;
+  if (!second) return first;
+  return first === node.first && second === node.second ? node : { ...node, first, second };
+}
+
+/**
+ * Swap the positions of two sessions in the layout
+ */
+export function swapPanes(node: SplitLayoutNode, a: string, b: string): SplitLayoutNode {
+  if (node.type === 'pane') {
+    if (node.sessionId === a) return createPane(b);
+    if (node.sessionId === b) return createPane(a);
+    return node;
+  }
+  return { ...node, first: swapPanes(node.first, a, b), second: swapPanes(node.second, a, b) };
+}
+
+/**
+ * Move an existing pane next to another one. Dropping onto the center of a
+ * pane swaps the two instead.
+ */
+export function movePane(
+  node: SplitLayoutNode,
+  sessionId: string,
+  targetSessionId: string,
+  zone: PaneDropZone
+): SplitLayoutNode {
+  if (sessionId === targetSessionId) return node;
+  if (zone === 'center') return swapPanes(node, sessionId, targetSessionId);
+
+  const without = removePane(node, sessionId);
+  if (!without) return node;
+  return insertPane(without, targetSessionId, sessionId, zone);
+}
+
+/**
+ * Set the ratio of the split at `path`; other nodes are returned unchanged
+ */
+export function setSplitRatio(
+  node: SplitLayoutNode,
+  path: SplitLayoutPath,
+  ratio: number
+): SplitLayoutNode {
+  if (node.type === 'pane') return node;
+  if (path.length === 0) return { ...node, ratio };
+
+  const [step, ...rest] = path;
+  return step === 0
+    ? { ...node, first: setSplitRatio(node.first, rest, ratio) }
+    : { ...node, second: setSplitRatio(node.second, rest, ratio) };
+}
+
+/**
+ * Pane positions in a unit square, keyed by session ID
+ */
+export function computePaneRects(
+  node: SplitLayoutNode,
+  rect: PaneRect = { x: 0, y: 0, width: 1, height: 1 },
+  result = new Map<string, PaneRect>()
+): Map<string, PaneRect> {
+  if (node.type === 'pane') {
+    result.set(node.sessionId, rect);
+    return result;
+  }
+
+  if (node.direction === 'row') {
+    const firstWidth = rect.width * node.ratio;
+    computePaneRects(node.first, { ...rect, width: firstWidth }, result);
+    computePaneRects(
+      node.second,
+      { ...rect, x: rect.x + firstWidth, width: rect.width - firstWidth },
+      result
+    );
+  } else {
+    const firstHeight = rect.height * node.ratio;
+    computePaneRects(node.first, { ...rect, height: firstHeight }, result);
+    computePaneRects(
+      node.second,
+      { ...rect, y: rect.y + firstHeight, height: rect.height - firstHeight },
+      result
+    );
+  }
+  return result;
+}
+
+const EPSILON = 1e-6;
+
+/**
+ * The pane adjacent to `sessionId` in the given direction, if any.
+ * Among several neighbours the one sharing the longest edge wins, then the
+ * one closest to the source pane's top/left corner.
+ */
+export function findAdjacentPane(
+  node: SplitLayoutNode,
+  sessionId: string,
+  direction: PaneNavigationDirection
+): string | null {
+  const rects = computePaneRects(node);
+  const source = rects.get(sessionId);
+  if (!source) return null;
+
+  const horizontal = direction === 'left' || direction === 'right';
+  let best: { id: string; overlap: number; distance: number } | null = null;
+
+  for (const [id, rect] of rects) {
+    if (id === sessionId) continue;
+
+    const touches =
+      direction === 'left'
+        ? Math.abs(rect.x + rect.width - source.x) < EPSILON
+        : direction === 'right'
+          ? Math.abs(source.x + source.width - rect.x) < EPSILON
+          : direction === 'up'
+            ? Math.abs(rect.y + rect.height - source.y) < EPSILON
+            : Math.abs(source.y + source.height - rect.y) < EPSILON;
+    if (!touches) continue;
+
+    const overlap = horizontal
+      ? Math.min(source.y + source.height, rect.y + rect.height) - Math.max(source.y, rect.y)
+      : Math.min(source.x + source.width, rect.x + rect.width) - Math.max(source.x, rect.x);
+    if (overlap <= EPSILON) continue;
+
+    const distance = horizontal ? Math.abs(rect.y - source.y) : Math.abs(rect.x - source.x);
+    if (
+      !best ||
+      overlap > best.overlap + EPSILON ||
+      (Math.abs(overlap - best.overlap) < EPSILON && distance < best.distance)
+    ) {
+      best = { id, overlap, distance };
+    }
+  }
+
+  return best?.id ?? null;
+}
+
+export function serializeSplitLayout(node: SplitLayoutNode): string {
+  if (node.type === 'pane') return node.sessionId;
+
+  const prefix = node.direction === 'row' ? 'r' : 'c';
+  const percent = Math.round(node.ratio * 100);
+  const ratio = Math.abs(node.ratio - DEFAULT_SPLIT_RATIO) < EPSILON ? '' : String(percent);
+  return `${prefix}${ratio}(${serializeSplitLayout(node.first)},${serializeSplitLayout(node.second)})`;
+}
+
+/**
+ * Parse the URL form of a layout. Returns null for malformed input or layouts
+ * that show the same session twice.
+ */
+export function parseSplitLayout(value: string): SplitLayoutNode | null {
+  let pos = 0;
+
+  const parseNode = (): SplitLayoutNode | null => {
+    const start = pos;
+    while (pos < value.length && !'(),'.includes(value[pos])) pos++;
+    const token = value.slice(start, pos);
+    if (!token) return null;
+    if (value[pos] !== '(') return createPane(token);
+
+    const header = /^([rc])(\d{1,2})?$/.exec(token);
+    if (!header) return null;
+    pos++; // (
+    const first = parseNode();
+    if (!first || value[pos] !== ',') return null;
+    pos++; // ,
+    const second = parseNode();
+    if (!second || value[pos] !== ')') return null;
+    pos++; // )
+
+    const percent = header[2] ? Number(header[2]) : 0;
+    return createSplit(
+      header[1] === 'r' ? 'row' : 'column',
+      first,
+      second,
+      percent > 0 ? percent / 100 : DEFAULT_SPLIT_RATIO
+    );
+  };
+
+  const layout = parseNode();
+  if (!layout || pos !== value.length) return null;
+
+  const ids = getLayoutSessionIds(layout);
+  return new Set(ids).size === ids.length ? layout : null;
+}
@@ -31,9 +31,14 @@ export enum WsV3MessageType {
   RESIZE = 32,
   KILL = 33,
   RESET_SIZE = 34,
+  CONTROL = 35,
 
   PING = 40,
   PONG = 41,
+
+  // Server -> client only, after `compression` was negotiated in HELLO/WELCOME.
+  // Payload is a complete v3 frame, compressed with raw DEFLATE (RFC 1951).
+  COMPRESSED = 50,
 }
 
 export type WsV3DecodedFrame = {
@@ -111,18 +116,34 @@ export enum WsV3SubscribeFlags {
   Stdout = 1 << 0,
   Snapshots = 1 << 1,
   Events = 1 << 2,
+  // STDOUT payloads carry a u64 cast-file offset, see encodeWsV3StdoutPayload
+  StdoutOffsets = 1 << 3,
 }
 
+/**
+ * SUBSCRIBE payload:
+ *   u32 flags LE
+ *   u32 snapshotMinIntervalMs LE
+ *   u32 snapshotMaxIntervalMs LE
+ *   u64 resumeFromOffset LE (optional, only with StdoutOffsets)
+ *
+ * A resume offset is the last STDOUT offset the client received. The server
+ * then sends only output after it, or a full replay if it has been pruned.
+ */
 export function encodeWsV3SubscribePayload(params: {
   flags: number;
   snapshotMinIntervalMs?: number;
   snapshotMaxIntervalMs?: number;
+  resumeFromOffset?: number;
 }): Uint8Array {
-  const out = new Uint8Array(12);
+  const out = new Uint8Array(params.resumeFromOffset === undefined ? 12 : 20);
   const view = new DataView(out.buffer);
   view.setUint32(0, params.flags >>> 0, true);
   view.setUint32(4, (params.snapshotMinIntervalMs ?? 0) >>> 0, true);
   view.setUint32(8, (params.snapshotMaxIntervalMs ?? 0) >>> 0, true);
+  if (params.resumeFromOffset !== undefined) {
+    view.setBigUint64(12, BigInt(params.resumeFromOffset), true);
+  }
   return out;
 }
 
@@ -130,6 +151,7 @@ export function decodeWsV3SubscribePayload(payload: Uint8Array): {
   flags: number;
   snapshotMinIntervalMs: number;
   snapshotMaxIntervalMs: number;
+  resumeFromOffset?: number;
 } | null {
   if (payload.byteLength < 12) return null;
   const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
@@ -137,9 +159,30 @@ export function decodeWsV3SubscribePayload(payload: Uint8Array): {
     flags: view.getUint32(0, true),
     snapshotMinIntervalMs: view.getUint32(4, true),
     snapshotMaxIntervalMs: view.getUint32(8, true),
+    resumeFromOffset: payload.byteLength >= 20 ? Number(view.getBigUint64(12, true)) : undefined,
   };
 }
 
+/**
+ * STDOUT payload for subscriptions with `StdoutOffsets`:
+ *   u64 offset LE (cast file byte offset just past this output)
+ *   u8[] data UTF-8
+ */
+export function encodeWsV3StdoutPayload(offset: number, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(8 + data.length);
+  new DataView(out.buffer).setBigUint64(0, BigInt(offset), true);
+  out.set(data, 8);
+  return out;
+}
+
+export function decodeWsV3StdoutPayload(
+  payload: Uint8Array
+): { offset: number; data: Uint8Array } | null {
+  if (payload.byteLength < 8) return null;
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+  return { offset: Number(view.getBigUint64(0, true)), data: payload.subarray(8) };
+}
+
 export function encodeWsV3ResizePayload(cols: number, rows: number): Uint8Array {
   const out = new Uint8Array(8);
   const view = new DataView(out.buffer);
@@ -155,3 +198,41 @@ export function decodeWsV3ResizePayload(
   const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
   return { cols: view.getUint32(0, true), rows: view.getUint32(4, true) };
 }
+
+/**
+ * Input ownership actions carried by `CONTROL` frames (JSON payload).
+ * - `request`: take control if nobody drives, otherwise ask the driver
+ * - `release`: driver gives up control
+ * - `grant` / `deny`: driver answers a pending request from `clientId`
+ */
+export type WsV3ControlAction = 'request' | 'release' | 'grant' | 'deny';
+
+export type WsV3ControlPayload = {
+  action: WsV3ControlAction;
+  clientId?: string;
+};
+
+/**
+ * Optional `HELLO` from the client (JSON payload), listing what it can
+ * decode. The server answers with a `WELCOME` naming what it picked.
+ * - `snapshotVersions`: `SNAPSHOT_VT` formats, 1 (full grid) or 2 (keyframes + row deltas)
+ * - `stdoutSnapshots`: the client shows `SNAPSHOT_VT` frames in place of the
+ *   STDOUT it loses while it is too slow to keep up
+ * - `compression`: frame compression schemes it can inflate; only `deflate`
+ *   (`COMPRESSED` frames) exists today
+ */
+export type WsV3HelloPayload = {
+  snapshotVersions?: number[];
+  stdoutSnapshots?: boolean;
+  compression?: WsV3Compression[];
+};
+
+export type WsV3Compression = 'deflate';
+
+export type WsV3WelcomePayload = {
+  ok: true;
+  version: typeof WS_V3_VERSION;
+  clientId: string;
+  snapshotVersion?: number;
+  compression?: WsV3Compression;
+};
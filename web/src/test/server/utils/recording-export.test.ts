@@ -0,0 +1,89 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  buildAsciicast,
+  readCastMarkers,
+  renderRecordingHtml,
+} from '../../../server/utils/recording-export.js';
+
+describe('recording export', () => {
+  let tmpDir: string;
+  let stdoutPath: string;
+
+  const lines = [
+    JSON.stringify({ version: 2, width: 80, height: 24, timestamp: 1700000000 }),
+    JSON.stringify([0.5, 'o', 'before clear\r\n']),
+    JSON.stringify([0.8, 'i', 'secret\r']),
+    JSON.stringify([1.0, 'r', '120x40']),
+    JSON.stringify([2.0, 'o', '\x1b[2J\x1b[3J\x1b[H']),
+    JSON.stringify([2.5, 'o', 'after clear\r\n']),
+    JSON.stringify([2.75, 'i', 'ls\r']),
+    JSON.stringify([3.0, 'm', 'checkpoint']),
+    JSON.stringify(['exit', 0, 'session-id']),
+  ];
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'recording-export-'));
+    stdoutPath = path.join(tmpDir, 'stdout');
+    fs.writeFileSync(stdoutPath, `${lines.join('\n')}\n`);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('strips input and exit events from a full export', async () => {
+    const cast = await buildAsciicast(stdoutPath);
+    const [header, ...events] = cast
+      .trimEnd()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+
+    expect(header).toMatchObject({ version: 2, width: 80, height: 24 });
+    expect(events).toEqual([
+      [0.5, 'o', 'before clear\r\n'],
+      [1.0, 'r', '120x40'],
+      [2.0, 'o', '\x1b[2J\x1b[3J\x1b[H'],
+      [2.5, 'o', 'after clear\r\n'],
+      [3.0, 'm', 'checkpoint'],
+    ]);
+  });
+
+  it('trims from an offset, rebasing time and carrying the last resize', async () => {
+    const clearOffset = lines
+      .slice(0, 4)
+      .reduce((sum, line) => sum + Buffer.byteLength(line) + 1, 0);
+
+    const cast = await buildAsciicast(stdoutPath, { fromOffset: clearOffset });
+    const [header, ...events] = cast
+      .trimEnd()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+
+    expect(header).toMatchObject({ version: 2, width: 120, height: 40 });
+    expect(events).toEqual([
+      [0, 'o', '\x1b[2J\x1b[3J\x1b[H'],
+      [0.5, 'o', 'after clear\r\n'],
+      [1, 'm', 'checkpoint'],
+    ]);
+  });
+
+  it('lists marker events', async () => {
+    fs.appendFileSync(stdoutPath, `${JSON.stringify([4.0, 'o', 'say "m" here'])}\n`);
+
+    expect(await readCastMarkers(stdoutPath)).toEqual([{ timestamp: 3.0, label: 'checkpoint' }]);
+  });
+
+  it('embeds the cast in HTML without letting it break out of the script tag', () => {
+    const html = renderRecordingHtml(
+      '{"version":2}\n[0,"o","</script><img src=x>"]\n',
+      '<b>build</b>'
+    );
+
+    expect(html).toContain('<title>&lt;b&gt;build&lt;/b&gt; – VibeTunnel recording</title>');
+    expect(html).not.toContain('</script><img');
+    expect(html).toContain('\\u003c/script>\\u003cimg src=x>');
+  });
+});
@@ -0,0 +1,33 @@
+import { execFileSync } from 'child_process';
+import { describe, expect, it } from 'vitest';
+import { wrapWithEnv, wrapWithPreCommand } from '../../../server/utils/session-template.js';
+
+describe('session templates', () => {
+  const run = (argv: string[]) =>
+    execFileSync(argv[0], argv.slice(1), { encoding: 'utf8', stdio: ['ignore', 'pipe', 'pipe'] });
+
+  it('runs the setup script in the same shell before the command', () => {
+    const command = wrapWithPreCommand(
+      ['sh', '-c', 'printf "%s|%s" "$GREETING" "$1"', 'sh', "it's quoted"],
+      'export GREETING=hello'
+    );
+
+    expect(run(command)).toBe("hello|it's quoted");
+  });
+
+  it('does not start the command when the setup script fails', () => {
+    const command = wrapWithPreCommand(['echo', 'started'], 'false');
+
+    expect(() => run(command)).toThrow();
+  });
+
+  it('prefixes variables with env', () => {
+    expect(wrapWithEnv(['zsh'], { A: '1', B: 'two words' })).toEqual([
+      'env',
+      'A=1',
+      'B=two words',
+      'zsh',
+    ]);
+    expect(wrapWithEnv(['zsh'], {})).toEqual(['zsh']);
+  });
+});
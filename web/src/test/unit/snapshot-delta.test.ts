@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  applySnapshotFrame,
+  type BufferCell,
+  type decodeBinaryBuffer,
+  decodeSnapshotFrame,
+} from '../../client/utils/terminal-renderer';
+import {
+  createSnapshotDeltaState,
+  type SnapshotDeltaState,
+  TerminalManager,
+} from '../../server/services/terminal-manager';
+
+type Snapshot = ReturnType<typeof decodeBinaryBuffer>;
+
+function row(text: string): BufferCell[] {
+  return [...text].map((char) => ({ char, width: 1 }));
+}
+
+function snapshot(lines: string[], cursorY = 0): Snapshot {
+  return {
+    cols: 20,
+    rows: lines.length,
+    viewportY: 0,
+    cursorX: 0,
+    cursorY,
+    cells: lines.map((line) => (line ? row(line) : [{ char: ' ', width: 1 }])),
+  };
+}
+
+function toArrayBuffer(buffer: Buffer): ArrayBuffer {
+  const copy = new Uint8Array(buffer.byteLength);
+  copy.set(buffer);
+  return copy.buffer;
+}
+
+describe('snapshot v2 delta encoding', () => {
+  let manager: TerminalManager;
+  let state: SnapshotDeltaState;
+
+  beforeEach(() => {
+    manager = new TerminalManager('/tmp');
+    state = createSnapshotDeltaState();
+  });
+
+  afterEach(() => {
+    manager.destroy();
+  });
+
+  function encode(value: Snapshot) {
+    return decodeSnapshotFrame(toArrayBuffer(manager.encodeSnapshotDelta(value, state)));
+  }
+
+  it('starts with a keyframe, then sends only changed rows', () => {
+    const first = snapshot(['$ ls', 'a.txt', 'b.txt', '']);
+    const keyframe = encode(first);
+    expect(keyframe.keyframe).toBe(true);
+    expect(keyframe.seq).toBe(1);
+
+    const applied = applySnapshotFrame(null, keyframe);
+    expect(applied?.cells).toEqual(first.cells);
+
+    const second = snapshot(['$ ls', 'a.txt', 'b.txt', '$ '], 3);
+    const delta = encode(second);
+    expect(delta.keyframe).toBe(false);
+    expect([...delta.changedRows.keys()]).toEqual([3]);
+
+    if (!applied) throw new Error('expected keyframe to apply');
+    const next = applySnapshotFrame({ seq: keyframe.seq, snapshot: applied }, delta);
+    expect(next?.cells).toEqual(second.cells);
+    expect(next?.cursorY).toBe(3);
+  });
+
+  it('rejects a delta that does not follow the previous frame', () => {
+    const first = snapshot(['one', 'two', 'three']);
+    const keyframe = encode(first);
+    encode(snapshot(['one', 'two', 'four']));
+    const skipped = encode(snapshot(['one', 'two', 'five']));
+
+    expect(applySnapshotFrame({ seq: keyframe.seq, snapshot: first }, skipped)).toBeNull();
+  });
+
+  it('sends a keyframe when the size changes or most rows changed', () => {
+    encode(snapshot(['one', 'two', 'three']));
+    expect(encode(snapshot(['one', 'two', 'three', 'four'])).keyframe).toBe(true);
+    expect(encode(snapshot(['1', '2', '3', 'four'])).keyframe).toBe(true);
+
+    state.forceKeyframe = true;
+    expect(encode(snapshot(['1', '2', '3', 'four'])).keyframe).toBe(true);
+  });
+});
@@ -276,6 +276,84 @@ main|1|1||vim|5678|vim|80|24|/Users/test/docs`;
         expect.any(Object)
       );
     });
+
+    it('should record the tmux session and socket', async () => {
+      mockPtyManager.createSession.mockResolvedValue({ sessionId: 'vt-123' });
+      mockExecFileAsync.mockResolvedValue({ stdout: '/tmp/tmux-1000/default\n', stderr: '' });
+
+      await tmuxManager.attachToTmux('main', 1);
+
+      expect(mockExecFileAsync).toHaveBeenCalledWith('tmux', [
+        'display-message',
+        '-p',
+        '-t',
+        'main',
+        '#{socket_path}',
+      ]);
+      expect(mockPtyManager.createSession).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.objectContaining({
+          multiplexer: {
+            type: 'tmux',
+            session: 'main',
+            window: 1,
+            socketPath: '/tmp/tmux-1000/default',
+          },
+        })
+      );
+    });
+
+    it('should attach over SSH', async () => {
+      mockPtyManager.createSession.mockResolvedValue({ sessionId: 'vt-123' });
+
+      await tmuxManager.attachToTmux('main', undefined, undefined, {
+        name: 'build',
+        ssh: { host: 'dev@build-box', socketPath: '/tmp/tmux-1000/default' },
+      });
+
+      expect(mockPtyManager.createSession).toHaveBeenCalledWith(
+        [
+          'ssh',
+          '-t',
+          '--',
+          'dev@build-box',
+          'tmux',
+          '-S',
+          '/tmp/tmux-1000/default',
+          'attach-session',
+          '-t',
+          'main',
+        ],
+        expect.objectContaining({
+          name: 'build',
+          multiplexer: expect.objectContaining({ sshHost: 'dev@build-box' }),
+        })
+      );
+    });
+
+    it('should reject unsafe SSH targets', async () => {
+      await expect(
+        tmuxManager.attachToTmux('main', undefined, undefined, {
+          ssh: { host: '-oProxyCommand=evil', socketPath: '/tmp/tmux-1000/default' },
+        })
+      ).rejects.toThrow('SSH host');
+      await expect(
+        tmuxManager.attachToTmux('main', undefined, undefined, {
+          ssh: { host: '-Efoo@bar', socketPath: '/tmp/tmux-1000/default' },
+        })
+      ).rejects.toThrow('SSH host');
+      await expect(
+        tmuxManager.attachToTmux('main', undefined, undefined, {
+          ssh: { host: 'build-box', socketPath: '/tmp/$(evil)' },
+        })
+      ).rejects.toThrow('socket path');
+      await expect(
+        tmuxManager.attachToTmux('main;evil', undefined, undefined, {
+          ssh: { host: 'build-box', socketPath: '/tmp/tmux-1000/default' },
+        })
+      ).rejects.toThrow('Session name');
+      expect(mockPtyManager.createSession).not.toHaveBeenCalled();
+    });
   });
 
   describe('isInsideTmux', () => {
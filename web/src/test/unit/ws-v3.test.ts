@@ -1,8 +1,10 @@
 import { describe, expect, it } from 'vitest';
 import {
   decodeWsV3Frame,
+  decodeWsV3StdoutPayload,
   decodeWsV3SubscribePayload,
   encodeWsV3Frame,
+  encodeWsV3StdoutPayload,
   encodeWsV3SubscribePayload,
   WS_V3_MAGIC,
   WS_V3_VERSION,
@@ -53,4 +55,21 @@ describe('ws-v3 framing', () => {
     expect(decoded).toEqual({ flags: 7, snapshotMinIntervalMs: 10, snapshotMaxIntervalMs: 20 });
     expect(decodeWsV3SubscribePayload(new Uint8Array([1, 2]))).toBeNull();
   });
+
+  it('subscribe payload carries an optional resume offset', () => {
+    const payload = encodeWsV3SubscribePayload({ flags: 9, resumeFromOffset: 2 ** 40 + 5 });
+    expect(payload.byteLength).toBe(20);
+    expect(decodeWsV3SubscribePayload(payload)?.resumeFromOffset).toBe(2 ** 40 + 5);
+    expect(
+      decodeWsV3SubscribePayload(encodeWsV3SubscribePayload({ flags: 9 }))?.resumeFromOffset
+    ).toBeUndefined();
+  });
+
+  it('stdout payload encode/decode with offset', () => {
+    const payload = encodeWsV3StdoutPayload(1234, new TextEncoder().encode('hi'));
+    const decoded = decodeWsV3StdoutPayload(payload);
+    expect(decoded?.offset).toBe(1234);
+    expect(new TextDecoder().decode(decoded?.data)).toBe('hi');
+    expect(decodeWsV3StdoutPayload(new Uint8Array([1, 2]))).toBeNull();
+  });
 });
@@ -3,6 +3,38 @@ import { DEFAULT_REPOSITORY_BASE_PATH } from '../shared/constants.js';
 export interface QuickStartCommand {
   name?: string; // Optional display name (can include emoji), if empty uses command
   command: string; // The actual command to execute
+  workingDir?: string; // Directory to start in, overrides the form's working directory
+  env?: Record<string, string>; // Extra environment variables for the session
+  titleMode?: 'none' | 'filter' | 'static'; // Terminal title handling for the session
+  cols?: number; // Initial terminal width
+  rows?: number; // Initial terminal height
+  preCommand?: string; // POSIX sh script run before the command (e.g. activating a venv)
+  gitWorktree?: QuickStartWorktree; // Start the session in a fresh git worktree
+}
+
+export interface QuickStartWorktree {
+  branchPrefix?: string; // New branch is named <prefix>-<random suffix>, defaults to "session"
+  baseBranch?: string; // Branch to fork from, defaults to the repository's current HEAD
+}
+
+/**
+ * A named set of sessions started and stopped together, stored in
+ * `~/.vibetunnel/workspaces.json` next to `config.json`.
+ */
+export interface WorkspaceDefinition {
+  name: string;
+  workingDir?: string; // Default directory for sessions that don't set their own
+  sessions: WorkspaceSession[];
+  layout?: WorkspaceLayout;
+}
+
+export interface WorkspaceSession extends QuickStartCommand {
+  name: string; // Required here: used as the session name and referenced by the layout
+}
+
+export interface WorkspaceLayout {
+  panes: string[]; // Session names shown in the split view (up to 6), side by side or as a grid
+  ratio?: number; // Width of the left pane when there are two (0-1)
 }
 
 /**